@@ -5,6 +5,20 @@ import { Layout } from './components/layout/Layout';
 import { LoginForm } from './components/auth/LoginForm';
 import { Dashboard } from './pages/Dashboard';
 import { SystemSettings } from './pages/SystemSettings';
+import { Members } from './pages/Members';
+import { MemberDetail } from './pages/MemberDetail';
+import { MemberCards } from './pages/MemberCards';
+import { CheckIn } from './pages/CheckIn';
+import { DataManagement } from './pages/DataManagement';
+import { MembershipPlans } from './pages/MembershipPlans';
+import { CouponTemplates } from './pages/CouponTemplates';
+import { Promotions } from './pages/Promotions';
+import { PointOfSale } from './pages/PointOfSale';
+import { Inventory } from './pages/Inventory';
+import { ReorderReport } from './pages/ReorderReport';
+import { Sales } from './pages/Sales';
+import { AgedDebt } from './pages/AgedDebt';
+import { Shifts } from './pages/Shifts';
 import { useAuthStore } from './store/authStore';
 
 function App() {
@@ -32,16 +46,22 @@ function App() {
         <Routes>
           <Route path="/" element={<Dashboard />} />
           <Route path="/settings" element={<SystemSettings />} />
-          <Route path="/members" element={<div>Members - Coming Soon</div>} />
-          <Route path="/checkin" element={<div>Check-In - Coming Soon</div>} />
-          <Route path="/membership-plans" element={<div>Membership Plans - Coming Soon</div>} />
-          <Route path="/coupon-templates" element={<div>Coupon Templates - Coming Soon</div>} />
-          <Route path="/pos" element={<div>POS & Inventory - Coming Soon</div>} />
-          <Route path="/sales" element={<div>Sales - Coming Soon</div>} />
-          <Route path="/shifts" element={<div>Shifts - Coming Soon</div>} />
+          <Route path="/members" element={<Members />} />
+          <Route path="/members/cards" element={<MemberCards />} />
+          <Route path="/members/:id" element={<MemberDetail />} />
+          <Route path="/checkin" element={<CheckIn />} />
+          <Route path="/membership-plans" element={<MembershipPlans />} />
+          <Route path="/coupon-templates" element={<CouponTemplates />} />
+          <Route path="/promotions" element={<Promotions />} />
+          <Route path="/pos" element={<PointOfSale />} />
+          <Route path="/pos/inventory" element={<Inventory />} />
+          <Route path="/pos/reorder" element={<ReorderReport />} />
+          <Route path="/sales" element={<Sales />} />
+          <Route path="/sales/debt" element={<AgedDebt />} />
+          <Route path="/shifts" element={<Shifts />} />
           <Route path="/staff" element={<div>Staff Management - Coming Soon</div>} />
           <Route path="/network-access" element={<div>Network Access - Coming Soon</div>} />
-          <Route path="/data" element={<div>Data Management - Coming Soon</div>} />
+          <Route path="/data" element={<DataManagement />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Layout>
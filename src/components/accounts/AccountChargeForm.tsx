@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { chargeToAccount } from '../../lib/accounts';
+import type { Member, Transaction } from '../../lib/members';
+import { getActiveShift, type Shift } from '../../lib/shifts';
+
+interface AccountChargeFormProps {
+  member: Member;
+  onCharged: (charge: Transaction) => void;
+  onCancel: () => void;
+}
+
+export function AccountChargeForm({ member, onCharged, onCancel }: AccountChargeFormProps) {
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [amount, setAmount] = useState(NaN);
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadShift = useCallback(async () => {
+    try {
+      setShift(await getActiveShift());
+    } catch (err) {
+      console.error('Error loading shift:', err);
+      setError('Failed to load the current shift.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShift();
+  }, [loadShift]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!shift) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      onCharged(await chargeToAccount({
+        memberId: member.id,
+        amount,
+        description,
+        shiftId: shift.id,
+      }));
+    } catch (err) {
+      console.error('Error charging account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the charge. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!shift && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Charges can only be added during an active shift.{' '}
+            <Link to="/shifts" className="font-medium underline">
+              Start a shift
+            </Link>
+          </span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        The charge is added to <span className="font-medium text-gray-900">{member.full_name}</span>'s account
+        and paid later.
+      </p>
+
+      <Input
+        label="Description"
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        placeholder="e.g. Personal training session"
+      />
+
+      <Input
+        label="Amount"
+        type="number"
+        step="0.01"
+        min="0.01"
+        value={Number.isNaN(amount) ? '' : amount}
+        onChange={e => setAmount(e.target.valueAsNumber)}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={submitting} disabled={!shift || !(amount > 0) || !description.trim()}>
+          Add Charge
+        </Button>
+      </div>
+    </form>
+  );
+}
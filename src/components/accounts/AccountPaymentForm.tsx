@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { payOutstanding, type OutstandingCharge } from '../../lib/accounts';
+import type { Transaction } from '../../lib/members';
+import { getActiveShift, type Shift } from '../../lib/shifts';
+import { PAYMENT_METHODS, type PaymentMethod } from '../../lib/transactions';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+interface AccountPaymentFormProps {
+  charge: OutstandingCharge;
+  onPaid: (payment: Transaction) => void;
+  onCancel: () => void;
+}
+
+export function AccountPaymentForm({ charge, onPaid, onCancel }: AccountPaymentFormProps) {
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [amount, setAmount] = useState(charge.balance);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadShift = useCallback(async () => {
+    try {
+      setShift(await getActiveShift());
+    } catch (err) {
+      console.error('Error loading shift:', err);
+      setError('Failed to load the current shift.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShift();
+  }, [loadShift]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!shift) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      onPaid(await payOutstanding({
+        transactionId: charge.transaction_id,
+        amount,
+        paymentMethod,
+        shiftId: shift.id,
+      }));
+    } catch (err) {
+      console.error('Error taking payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to take the payment. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  const invalidAmount = !(amount > 0) || amount > charge.balance;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!shift && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Payments can only be taken during an active shift.{' '}
+            <Link to="/shifts" className="font-medium underline">
+              Start a shift
+            </Link>
+          </span>
+        </div>
+      )}
+
+      <div className="rounded-md border border-gray-200 divide-y divide-gray-200 text-sm">
+        <div className="flex justify-between px-3 py-2">
+          <span className="text-gray-700">{charge.description || charge.type.replace(/_/g, ' ')}</span>
+          <span className="text-gray-900">{formatCurrency(charge.amount)}</span>
+        </div>
+        <div className="flex justify-between px-3 py-2 text-gray-600">
+          <span>Charged {formatDate(charge.created_at)}</span>
+          <span>{formatCurrency(charge.amount_paid)} paid</span>
+        </div>
+        <div className="flex justify-between px-3 py-2 font-semibold text-gray-900">
+          <span>Still owed</span>
+          <span>{formatCurrency(charge.balance)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Amount"
+          type="number"
+          step="0.01"
+          min="0.01"
+          max={charge.balance}
+          value={Number.isNaN(amount) ? '' : amount}
+          onChange={e => setAmount(e.target.valueAsNumber)}
+          error={amount > charge.balance ? `At most ${formatCurrency(charge.balance)}` : undefined}
+        />
+        <Select
+          label="Payment Method"
+          value={paymentMethod}
+          onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}
+        >
+          {PAYMENT_METHODS.map(method => (
+            <option key={method.value} value={method.value}>
+              {method.label}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={submitting} disabled={!shift || invalidAmount}>
+          Take Payment
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AlertCircle, Info } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import { saveCouponTemplate, type CouponTemplate, type CouponTemplateWithSales } from '../../lib/coupons';
+import { formatTaxRate, getTaxRates, type TaxRate } from '../../lib/tax';
+
+const templateSchema = z.object({
+  name: z.string()
+    .trim()
+    .nonempty('Template name is required')
+    .max(80, 'Template name must be 80 characters or fewer'),
+  price: z.number({ invalid_type_error: 'Price is required' })
+    .min(0, 'Price cannot be negative'),
+  max_entries: z.number({ invalid_type_error: 'Entries is required' })
+    .int('Entries must be a whole number')
+    .min(1, 'A coupon must allow at least 1 entry'),
+  duration_days: z.number({ invalid_type_error: 'Validity is required' })
+    .int('Validity must be a whole number of days')
+    .min(1, 'Validity must be at least 1 day'),
+  is_active: z.boolean(),
+  // Empty for untaxed
+  tax_rate_id: z.string(),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or fewer'),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+interface CouponTemplateFormProps {
+  template?: CouponTemplateWithSales | null;
+  onSaved: (template: CouponTemplate) => void;
+  onCancel: () => void;
+}
+
+export function CouponTemplateForm({ template, onSaved, onCancel }: CouponTemplateFormProps) {
+  const [taxRates, setTaxRates] = useState<TaxRate[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: {
+      name: template?.name ?? '',
+      price: template?.price ?? 0,
+      max_entries: template?.max_entries ?? 10,
+      duration_days: template?.duration_days ?? 30,
+      is_active: template?.is_active ?? true,
+      tax_rate_id: template?.tax_rate_id ?? '',
+      description: template?.description ?? '',
+    },
+  });
+
+  useEffect(() => {
+    getTaxRates()
+      .then(setTaxRates)
+      .catch(err => {
+        console.error('Error loading tax rates:', err);
+        setError('Failed to load tax rates.');
+      });
+  }, []);
+
+  const onSubmit = async (data: TemplateFormData) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const saved = await saveCouponTemplate(
+        { ...data, description: data.description.trim() || null, tax_rate_id: data.tax_rate_id || null },
+        template?.id
+      );
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving coupon template:', err);
+      setError('Failed to save coupon template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {template && template.sold_count > 0 && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            {template.sold_count} coupon{template.sold_count === 1 ? ' has' : 's have'} been sold from this template.
+            Changes apply to future sales only; sold coupons keep their entries and expiry date.
+          </span>
+        </div>
+      )}
+
+      <Input
+        label="Template Name"
+        autoComplete="off"
+        {...register('name')}
+        error={errors.name?.message}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          label="Price"
+          type="number"
+          step="0.01"
+          min="0"
+          {...register('price', { valueAsNumber: true })}
+          error={errors.price?.message}
+        />
+
+        <Input
+          label="Entries"
+          type="number"
+          min="1"
+          {...register('max_entries', { valueAsNumber: true })}
+          error={errors.max_entries?.message}
+        />
+
+        <Input
+          label="Valid for (days)"
+          type="number"
+          min="1"
+          {...register('duration_days', { valueAsNumber: true })}
+          error={errors.duration_days?.message}
+          helperText="Counted from the day of sale"
+        />
+      </div>
+
+      {taxRates && (
+        <Select
+          label="Tax Rate"
+          {...register('tax_rate_id')}
+        >
+          <option value="">No tax</option>
+          {taxRates.map(taxRate => (
+            <option key={taxRate.id} value={taxRate.id}>
+              {formatTaxRate(taxRate)}
+            </option>
+          ))}
+        </Select>
+      )}
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input type="checkbox" className="mr-2 rounded border-gray-300" {...register('is_active')} />
+        Available for sale
+      </label>
+
+      <Textarea
+        label="Description"
+        {...register('description')}
+        error={errors.description?.message}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saving} disabled={saving}>
+          {template ? 'Save Changes' : 'Create Template'}
+        </Button>
+      </div>
+    </form>
+  );
+}
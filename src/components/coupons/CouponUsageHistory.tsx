@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { getCouponUsage, type CouponUsage, type SoldCouponWithTemplate } from '../../lib/coupons';
+import { formatDate, formatDateTime } from '../../lib/utils';
+
+const headerCellClass = 'px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-2 whitespace-nowrap text-sm text-gray-900';
+
+interface CouponUsageHistoryProps {
+  coupon: SoldCouponWithTemplate;
+}
+
+export function CouponUsageHistory({ coupon }: CouponUsageHistoryProps) {
+  const [usage, setUsage] = useState<CouponUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await getCouponUsage(coupon.id));
+    } catch (err) {
+      console.error('Error loading coupon usage:', err);
+      setError('Failed to load coupon usage.');
+    } finally {
+      setLoading(false);
+    }
+  }, [coupon.id]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const maxEntries = coupon.coupon_templates?.max_entries;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-gray-500">Code</p>
+          <p className="font-mono font-medium text-gray-900">{coupon.code}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Coupon</p>
+          <p className="font-medium text-gray-900">{coupon.coupon_templates?.name ?? '—'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Entries Remaining</p>
+          <p className="font-medium text-gray-900">
+            {coupon.entries_remaining}
+            {maxEntries !== undefined && ` of ${maxEntries}`}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Valid</p>
+          <p className="font-medium text-gray-900">
+            {formatDate(coupon.purchase_date)} – {formatDate(coupon.expiry_date)}
+            {!coupon.is_active && <span className="ml-1 text-red-600">(inactive)</span>}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-md border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCellClass}>Time</th>
+              <th className={headerCellClass}>Member</th>
+              <th className={headerCellClass}>Entries Left</th>
+              <th className={headerCellClass}>Notes</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr className="animate-pulse">
+                <td colSpan={4} className="px-4 py-3">
+                  <div className="h-5 bg-gray-200 rounded"></div>
+                </td>
+              </tr>
+            ) : usage.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-sm text-gray-500">
+                  This coupon has not been used yet.
+                </td>
+              </tr>
+            ) : (
+              usage.map((entry) => (
+                <tr key={entry.id}>
+                  <td className={cellClass}>{formatDateTime(entry.check_in_time)}</td>
+                  <td className={cellClass}>{entry.members?.full_name ?? 'Guest'}</td>
+                  <td className={cellClass}>{entry.coupon_entries_remaining ?? '—'}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{entry.notes || '—'}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
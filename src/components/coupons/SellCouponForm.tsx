@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Code128Barcode } from '../members/Code128Barcode';
+import { ReceiptButton } from '../sales/ReceiptButton';
+import { getCouponTemplates, sellCoupon, type CouponTemplate, type SoldCoupon } from '../../lib/coupons';
+import type { Member } from '../../lib/members';
+import { findSaleTransactionId } from '../../lib/receipts';
+import { autoPrintReceipt } from '../../lib/receiptPrinter';
+import { getActiveShift, type Shift } from '../../lib/shifts';
+import { getTaxPricing, priceWithTax, type TaxPricing } from '../../lib/tax';
+import { PAYMENT_METHODS, type PaymentMethod } from '../../lib/transactions';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+interface SellCouponFormProps {
+  // Null sells an anonymous coupon
+  member?: Member | null;
+  onSold: (coupon: SoldCoupon) => void;
+  onCancel: () => void;
+}
+
+export function SellCouponForm({ member = null, onSold, onCancel }: SellCouponFormProps) {
+  const [templates, setTemplates] = useState<CouponTemplate[]>([]);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [pricing, setPricing] = useState<TaxPricing>({ pricesIncludeTax: true, rates: {} });
+  const [templateId, setTemplateId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sold, setSold] = useState<SoldCoupon | null>(null);
+  const [receiptId, setReceiptId] = useState<string | null>(null);
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [templateData, shiftData, pricingData] = await Promise.all([
+        getCouponTemplates({ activeOnly: true }),
+        getActiveShift(),
+        getTaxPricing(),
+      ]);
+
+      setTemplates(templateData);
+      setShift(shiftData);
+      setPricing(pricingData);
+      if (templateData.length > 0) setTemplateId(templateData[0].id);
+    } catch (err) {
+      console.error('Error loading coupon templates:', err);
+      setError('Failed to load coupon templates.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!shift || !templateId) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const coupon = await sellCoupon({
+        templateId,
+        memberId: member?.id ?? null,
+        shiftId: shift.id,
+        paymentMethod,
+      });
+      setSold(coupon);
+
+      findSaleTransactionId(coupon.id, ['COUPON_SALE'])
+        .then(transactionId => {
+          setReceiptId(transactionId);
+          return autoPrintReceipt(transactionId);
+        })
+        .catch(err => console.error('Error printing receipt:', err));
+    } catch (err) {
+      console.error('Error selling coupon:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sell coupon. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  const template = templates.find(t => t.id === templateId);
+
+  // Show the code before closing so it can be read out, written down or scanned
+  if (sold) {
+    return (
+      <div className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+            <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Coupon sold{member ? ` to ${member.full_name}` : ''}. {sold.entries_remaining} entr
+            {sold.entries_remaining === 1 ? 'y' : 'ies'}, valid until {formatDate(sold.expiry_date)}.
+          </span>
+        </div>
+        <div className="flex flex-col items-center rounded-md border border-gray-200 p-4">
+          <p className="text-2xl font-mono font-bold tracking-widest text-gray-900">{sold.code}</p>
+          <Code128Barcode value={sold.code} className="mt-2 h-16 w-64" showText={false} />
+        </div>
+        <div className="flex justify-end space-x-3">
+          {receiptId && <ReceiptButton transactionId={receiptId} onError={setError} />}
+          <Button onClick={() => onSold(sold)}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!shift && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Coupons can only be sold during an active shift.{' '}
+            <Link to="/shifts" className="font-medium underline">
+              Start a shift
+            </Link>
+          </span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        {member
+          ? <>Selling to <span className="font-medium text-gray-900">{member.full_name}</span>.</>
+          : 'Anonymous sale; the coupon is not linked to a member.'}
+      </p>
+
+      <Select
+        label="Coupon"
+        value={templateId}
+        onChange={e => setTemplateId(e.target.value)}
+        disabled={templates.length === 0}
+      >
+        {templates.length === 0 && <option value="">No coupons on sale</option>}
+        {templates.map(t => (
+          <option key={t.id} value={t.id}>
+            {t.name} — {formatCurrency(priceWithTax(t.price, t.tax_rate_id, pricing))}
+          </option>
+        ))}
+      </Select>
+
+      {template && (
+        <p className="text-sm text-gray-600">
+          {template.max_entries} entr{template.max_entries === 1 ? 'y' : 'ies'}, valid for {template.duration_days}{' '}
+          day{template.duration_days === 1 ? '' : 's'} from today.
+        </p>
+      )}
+
+      <Select
+        label="Payment Method"
+        value={paymentMethod}
+        onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}
+      >
+        {PAYMENT_METHODS.map(method => (
+          <option key={method.value} value={method.value}>
+            {method.label}
+          </option>
+        ))}
+      </Select>
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={submitting} disabled={submitting || !shift || !template}>
+          Sell Coupon{template ? ` (${formatCurrency(priceWithTax(template.price, template.tax_rate_id, pricing))})` : ''}
+        </Button>
+      </div>
+    </form>
+  );
+}
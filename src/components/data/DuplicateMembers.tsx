@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle, GitMerge, Search } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import {
+  findDuplicateMembers,
+  getRecentMemberMerges,
+  mergeMembers,
+  type DuplicateMemberPair,
+  type MemberMerge,
+} from '../../lib/memberMerge';
+import type { Member } from '../../lib/members';
+import { formatDate, formatDateTime } from '../../lib/utils';
+
+const reasonLabels: Record<string, string> = {
+  PHONE: 'Same phone',
+  EMAIL: 'Same email',
+};
+
+function pairKey(pair: DuplicateMemberPair): string {
+  return `${pair.memberA.id}:${pair.memberB.id}`;
+}
+
+// Keep the longest-standing record by default
+function defaultSurvivor(pair: DuplicateMemberPair): string {
+  const { memberA, memberB } = pair;
+  if (memberA.join_date !== memberB.join_date) {
+    return memberA.join_date < memberB.join_date ? memberA.id : memberB.id;
+  }
+  return memberA.created_at <= memberB.created_at ? memberA.id : memberB.id;
+}
+
+function MemberSummary({ member }: { member: Member }) {
+  return (
+    <div className="space-y-0.5 text-sm">
+      <Link to={`/members/${member.id}`} className="font-medium text-blue-600 hover:text-blue-700">
+        {member.full_name}
+      </Link>
+      <p className="font-mono text-xs text-gray-600">{member.member_id_string}</p>
+      <p className="text-gray-600">{member.email || 'No email'}</p>
+      <p className="text-gray-600">{member.phone_number || 'No phone'}</p>
+      <p className="text-xs text-gray-500">Joined {formatDate(member.join_date)}</p>
+    </div>
+  );
+}
+
+export function DuplicateMembers() {
+  const [pairs, setPairs] = useState<DuplicateMemberPair[] | null>(null);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [merges, setMerges] = useState<MemberMerge[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadMerges = useCallback(async () => {
+    try {
+      setMerges(await getRecentMemberMerges());
+    } catch (err) {
+      console.error('Error loading member merges:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMerges();
+  }, [loadMerges]);
+
+  const handleSearch = async () => {
+    setSearching(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const found = await findDuplicateMembers();
+      setPairs(found);
+      setSurvivors(Object.fromEntries(found.map(pair => [pairKey(pair), defaultSurvivor(pair)])));
+      setNotes({});
+    } catch (err) {
+      console.error('Error finding duplicate members:', err);
+      setError('Failed to search for duplicates. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleMerge = async (pair: DuplicateMemberPair) => {
+    const key = pairKey(pair);
+    const survivor = survivors[key] === pair.memberA.id ? pair.memberA : pair.memberB;
+    const duplicate = survivor.id === pair.memberA.id ? pair.memberB : pair.memberA;
+
+    const confirmed = window.confirm(
+      `Merge ${duplicate.full_name} (${duplicate.member_id_string}) into ` +
+      `${survivor.full_name} (${survivor.member_id_string})? ` +
+      `${duplicate.member_id_string} will be deleted after its history is moved. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setMergingKey(key);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await mergeMembers(survivor.id, duplicate.id, notes[key] ?? '');
+      // Any other suggestion involving the deleted member is now stale
+      setPairs(prev => prev?.filter(p => p.memberA.id !== duplicate.id && p.memberB.id !== duplicate.id) ?? null);
+      setSuccess(`Merged ${duplicate.member_id_string} into ${survivor.member_id_string}.`);
+      await loadMerges();
+    } catch (err) {
+      console.error('Error merging members:', err);
+      setError('Failed to merge members. Please try again.');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <GitMerge className="h-5 w-5 mr-2 text-gray-400" />
+            <h3 className="text-lg font-medium text-gray-900">Duplicate Members</h3>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSearch} loading={searching} disabled={searching}>
+            <Search className="h-4 w-4 mr-2" />
+            Find Duplicates
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Lists members with similar names who share a phone number or email. Merging moves memberships,
+          check-ins, coupons and transactions to the member you keep, then deletes the other record.
+        </p>
+
+        {error && (
+          <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-md">
+            <AlertCircle className="h-4 w-4 text-red-600 mr-2" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {success && (
+          <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-md">
+            <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+            <span className="text-sm text-green-700">{success}</span>
+          </div>
+        )}
+
+        {pairs !== null && pairs.length === 0 && (
+          <p className="text-sm text-gray-500">No likely duplicates found.</p>
+        )}
+
+        {pairs?.map(pair => {
+          const key = pairKey(pair);
+          return (
+            <div key={key} className="rounded-lg border border-gray-200 p-4 space-y-3">
+              <p className="text-xs text-gray-500">
+                {pair.reasons.map(reason => reasonLabels[reason] ?? reason).join(', ')} · name similarity{' '}
+                {Math.round(pair.nameSimilarity * 100)}%
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[pair.memberA, pair.memberB].map(member => (
+                  <label
+                    key={member.id}
+                    className={`flex items-start space-x-3 rounded-md border p-3 cursor-pointer ${
+                      survivors[key] === member.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={`survivor-${key}`}
+                      className="mt-1"
+                      checked={survivors[key] === member.id}
+                      onChange={() => setSurvivors(prev => ({ ...prev, [key]: member.id }))}
+                    />
+                    <div>
+                      <p className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-1">
+                        {survivors[key] === member.id ? 'Keep' : 'Merge and delete'}
+                      </p>
+                      <MemberSummary member={member} />
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-end space-x-3">
+                <div className="flex-1">
+                  <Input
+                    aria-label="Merge notes"
+                    placeholder="Notes for the audit log (optional)"
+                    value={notes[key] ?? ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+                  />
+                </div>
+                <Button
+                  onClick={() => handleMerge(pair)}
+                  loading={mergingKey === key}
+                  disabled={mergingKey !== null}
+                >
+                  Merge
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {merges.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">Recent Merges</h4>
+            <div className="overflow-x-auto rounded-md border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Removed</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kept</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {merges.map(merge => (
+                    <tr key={merge.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">{formatDateTime(merge.created_at)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        <span className="font-mono">{merge.merged_member_id_string}</span>{' '}
+                        {String(merge.merged_snapshot.full_name ?? '')}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        <Link to={`/members/${merge.surviving_member_id}`} className="text-blue-600 hover:text-blue-700">
+                          View member
+                        </Link>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{merge.notes || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Hash } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { countLegacyMemberIds, migrateMemberIds } from '../../lib/members';
+import { getSettings } from '../../lib/settings';
+import { formatMemberID } from '../../lib/utils';
+
+export function MemberIdMigration() {
+  const [legacyCount, setLegacyCount] = useState<number | null>(null);
+  const [example, setExample] = useState('');
+  const [migrating, setMigrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [migratedCount, setMigratedCount] = useState<number | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const [count, settings] = await Promise.all([countLegacyMemberIds(), getSettings()]);
+      setLegacyCount(count);
+      setExample(formatMemberID(settings.member_id_prefix, 42, settings.member_id_padding));
+    } catch (err) {
+      console.error('Error loading member ID status:', err);
+      setError('Failed to load member ID status.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleMigrate = async () => {
+    if (!legacyCount) return;
+    const confirmed = window.confirm(
+      `Renumber ${legacyCount} member${legacyCount === 1 ? '' : 's'} to the ${example} format? ` +
+      'Previously printed cards will keep scanning, but new cards should be printed.'
+    );
+    if (!confirmed) return;
+
+    setMigrating(true);
+    setError(null);
+    setMigratedCount(null);
+
+    try {
+      setMigratedCount(await migrateMemberIds());
+      await loadStatus();
+    } catch (err) {
+      console.error('Error migrating member IDs:', err);
+      setError('Failed to migrate member IDs. Please try again.');
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Hash className="h-5 w-5 mr-2 text-gray-400" />
+          <h3 className="text-lg font-medium text-gray-900">Member IDs</h3>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          New members receive sequential IDs like{' '}
+          <span className="font-mono text-gray-900">{example || '…'}</span>. The prefix and
+          number of digits can be changed in System Settings.
+        </p>
+
+        {error && (
+          <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-md">
+            <AlertCircle className="h-4 w-4 text-red-600 mr-2" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {migratedCount !== null && (
+          <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-md">
+            <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+            <span className="text-sm text-green-700">
+              Migrated {migratedCount} member ID{migratedCount === 1 ? '' : 's'}.
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-700">
+            {legacyCount === null
+              ? 'Checking existing IDs…'
+              : legacyCount === 0
+                ? 'All member IDs use the current format.'
+                : `${legacyCount} member${legacyCount === 1 ? ' has' : 's have'} an ID in an older format.`}
+          </p>
+          <Button onClick={handleMigrate} loading={migrating} disabled={!legacyCount || migrating}>
+            Migrate IDs
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,412 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { useAuthStore } from '../../store/authStore';
+import { downloadCSV } from '../../lib/csv';
+import { getMembershipPlans, type MembershipPlan } from '../../lib/plans';
+import {
+  IMPORT_FIELDS,
+  buildErrorReport,
+  detectDuplicates,
+  guessColumnMapping,
+  importMembers,
+  readSpreadsheet,
+  validateImportRows,
+  type ColumnMapping,
+  type DateFormat,
+  type ImportField,
+  type ImportResult,
+  type ImportRow,
+  type SpreadsheetData,
+} from '../../lib/memberImport';
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+type PreviewFilter = 'all' | 'errors' | 'duplicates';
+
+const PREVIEW_ROW_LIMIT = 100;
+
+const dateFormatOptions: { value: DateFormat; label: string }[] = [
+  { value: 'DMY', label: 'Day/Month/Year (31/12/2024)' },
+  { value: 'MDY', label: 'Month/Day/Year (12/31/2024)' },
+  { value: 'YMD', label: 'Year/Month/Day (2024/12/31)' },
+];
+
+const headerCellClass = 'px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-2 whitespace-nowrap text-sm text-gray-900';
+
+export function MemberImport() {
+  const { user } = useAuthStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DMY');
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [filter, setFilter] = useState<PreviewFilter>('all');
+  const [progress, setProgress] = useState({ processed: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMembershipPlans()
+      .then(setPlans)
+      .catch(err => console.error('Error loading membership plans:', err));
+  }, []);
+
+  const invalidRows = useMemo(() => rows.filter(row => row.errors.length > 0), [rows]);
+  const duplicateRows = useMemo(() => rows.filter(row => row.duplicate), [rows]);
+  const rowsToImport = useMemo(
+    () => rows.filter(row => row.member && row.errors.length === 0 && !(skipDuplicates && row.duplicate)),
+    [rows, skipDuplicates]
+  );
+
+  const filteredRows = filter === 'errors' ? invalidRows : filter === 'duplicates' ? duplicateRows : rows;
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setRows([]);
+    setResult(null);
+    setFilter('all');
+    setError(null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setWorking(true);
+    setError(null);
+
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.headers.length === 0 || data.rows.length === 0) {
+        setError('The file has no data rows. The first row must contain column headings.');
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Could not read the file. Upload a .csv or .xlsx file.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+    setWorking(true);
+    setError(null);
+
+    try {
+      const validated = validateImportRows(sheet, mapping, dateFormat, plans);
+      setRows(await detectDuplicates(validated));
+      setFilter('all');
+      setStep('preview');
+    } catch (err) {
+      console.error('Error validating import:', err);
+      setError('Failed to check for duplicates. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || rowsToImport.length === 0) return;
+
+    setStep('importing');
+    setProgress({ processed: 0, total: rowsToImport.length });
+    setError(null);
+
+    try {
+      const importResult = await importMembers(rowsToImport, user.id, (processed, total) =>
+        setProgress({ processed, total })
+      );
+      setResult(importResult);
+      setStep('done');
+    } catch (err) {
+      console.error('Error importing members:', err);
+      setError('The import stopped unexpectedly. Members imported so far have been saved.');
+      setStep('preview');
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!sheet) return;
+    const report = buildErrorReport(sheet.headers, rows, result?.failures ?? [], skipDuplicates);
+    downloadCSV(`${fileName.replace(/\.[^.]+$/, '')}-errors.csv`, report);
+  };
+
+  const issueCount = invalidRows.length + (skipDuplicates ? duplicateRows.length : 0) + (result?.failures.length ?? 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <FileSpreadsheet className="h-5 w-5 mr-2 text-gray-400" />
+            <h3 className="text-lg font-medium text-gray-900">Import Members</h3>
+          </div>
+          {fileName && <span className="text-sm text-gray-500">{fileName}</span>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-md">
+            <AlertCircle className="h-4 w-4 text-red-600 mr-2" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Upload a .csv or .xlsx file with one member per row and column headings in the first row.
+              Nothing is saved until you review the preview and start the import.
+            </p>
+            <Button onClick={() => fileInputRef.current?.click()} loading={working} disabled={working}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </div>
+        )}
+
+        {step === 'map' && sheet && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {sheet.rows.length.toLocaleString()} rows found. Match each member field to a column in the file.
+              A plan name must match an existing membership plan.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <Select
+                  key={field}
+                  id={`import-${field}`}
+                  label={required ? `${label} *` : label}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setFieldColumn(field, e.target.value)}
+                >
+                  <option value="">— Not imported —</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                      {sheet.rows[0]?.[index] ? ` (e.g. ${sheet.rows[0][index]})` : ''}
+                    </option>
+                  ))}
+                </Select>
+              ))}
+              <Select
+                id="import-date-format"
+                label="Date Format"
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                helperText="Used for dates that are not already in YYYY-MM-DD form"
+              >
+                {dateFormatOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={reset} disabled={working}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleValidate}
+                loading={working}
+                disabled={working || mapping.full_name === undefined}
+              >
+                Preview Import
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-md bg-gray-50 p-3">
+                <p className="text-xs text-gray-500">Rows</p>
+                <p className="text-xl font-semibold text-gray-900">{rows.length.toLocaleString()}</p>
+              </div>
+              <div className="rounded-md bg-green-50 p-3">
+                <p className="text-xs text-green-700">Ready to import</p>
+                <p className="text-xl font-semibold text-green-800">{rowsToImport.length.toLocaleString()}</p>
+              </div>
+              <div className="rounded-md bg-red-50 p-3">
+                <p className="text-xs text-red-700">With errors</p>
+                <p className="text-xl font-semibold text-red-800">{invalidRows.length.toLocaleString()}</p>
+              </div>
+              <div className="rounded-md bg-yellow-50 p-3">
+                <p className="text-xs text-yellow-700">Possible duplicates</p>
+                <p className="text-xl font-semibold text-yellow-800">{duplicateRows.length.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                {(['all', 'errors', 'duplicates'] as PreviewFilter[]).map(value => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={filter === value ? 'secondary' : 'ghost'}
+                    onClick={() => setFilter(value)}
+                  >
+                    {value === 'all' ? 'All rows' : value === 'errors' ? 'Errors' : 'Duplicates'}
+                  </Button>
+                ))}
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-gray-300"
+                  checked={skipDuplicates}
+                  onChange={(e) => setSkipDuplicates(e.target.checked)}
+                />
+                Skip possible duplicates
+              </label>
+            </div>
+
+            <div className="overflow-x-auto rounded-md border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerCellClass}>Row</th>
+                    <th className={headerCellClass}>Name</th>
+                    <th className={headerCellClass}>Email</th>
+                    <th className={headerCellClass}>Phone</th>
+                    <th className={headerCellClass}>Joined</th>
+                    <th className={headerCellClass}>Membership Ends</th>
+                    <th className={headerCellClass}>Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">
+                        No rows to show.
+                      </td>
+                    </tr>
+                  ) : (
+                    filteredRows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className={cellClass}>{row.rowNumber}</td>
+                        <td className={cellClass}>{row.member?.full_name ?? (mapping.full_name !== undefined ? row.raw[mapping.full_name] : '')}</td>
+                        <td className={cellClass}>{row.member?.email ?? '—'}</td>
+                        <td className={cellClass}>{row.member?.phone_number ?? '—'}</td>
+                        <td className={cellClass}>{row.member?.join_date ?? '—'}</td>
+                        <td className={cellClass}>{row.membership?.end_date ?? '—'}</td>
+                        <td className="px-4 py-2 text-sm">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-700">{row.errors.join('; ')}</span>
+                          ) : row.duplicate ? (
+                            <span className="text-yellow-700">{row.duplicate}</span>
+                          ) : (
+                            <span className="text-green-700">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {filteredRows.length > PREVIEW_ROW_LIMIT && (
+              <p className="text-xs text-gray-500">
+                Showing the first {PREVIEW_ROW_LIMIT} of {filteredRows.length.toLocaleString()} rows.
+                Download the error report for the full list of problems.
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back to Mapping
+              </Button>
+              <div className="flex space-x-3">
+                {issueCount > 0 && (
+                  <Button variant="outline" onClick={downloadErrorReport}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Error Report
+                  </Button>
+                )}
+                <Button onClick={handleImport} disabled={rowsToImport.length === 0 || !user}>
+                  Import {rowsToImport.length.toLocaleString()} Members
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              Importing {progress.processed.toLocaleString()} of {progress.total.toLocaleString()} members…
+            </p>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${progress.total ? (progress.processed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500">Keep this page open until the import finishes.</p>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-md">
+              <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+              <span className="text-sm text-green-700">
+                Imported {result.imported.toLocaleString()} member{result.imported === 1 ? '' : 's'}.
+              </span>
+            </div>
+            {issueCount > 0 && (
+              <p className="text-sm text-gray-700">
+                {issueCount.toLocaleString()} row{issueCount === 1 ? ' was' : 's were'} skipped or had problems.
+                Download the error report, fix the rows and import that file again.
+              </p>
+            )}
+            <div className="flex justify-end space-x-3">
+              {issueCount > 0 && (
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Error Report
+                </Button>
+              )}
+              <Button onClick={reset}>Import Another File</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Button } from '../ui/Button';
+import {
+  getJobRuns,
+  runMembershipExpiry,
+  MEMBERSHIP_EXPIRY_JOB,
+  toMembershipExpiryResult,
+  type JobRun,
+} from '../../lib/jobs';
+import { formatDateTime } from '../../lib/utils';
+
+const statusStyles: Record<JobRun['status'], string> = {
+  RUNNING: 'bg-blue-100 text-blue-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  SKIPPED: 'bg-gray-100 text-gray-700',
+};
+
+function describeRun(run: JobRun): string {
+  if (run.status === 'FAILED' || run.status === 'SKIPPED') return run.error ?? '';
+  if (!run.result) return '';
+
+  const result = toMembershipExpiryResult(run.result);
+  return [
+    `${result.memberships_expired} expired`,
+    `${result.members_deactivated} members deactivated`,
+    `${result.members_activated} reactivated`,
+    `${result.freezes_applied} freeze changes`,
+  ].join(' · ');
+}
+
+export function MembershipExpiryJob() {
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastRun, setLastRun] = useState<JobRun | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRuns(await getJobRuns(MEMBERSHIP_EXPIRY_JOB));
+    } catch (err) {
+      console.error('Error loading job runs:', err);
+      setError('Failed to load membership expiry runs.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    setLastRun(null);
+
+    try {
+      const run = await runMembershipExpiry();
+      if (run.status === 'SUCCEEDED') setLastRun(run);
+      else setError(`Run ${run.status.toLowerCase()}: ${run.error ?? 'unknown error'}`);
+      await loadRuns();
+    } catch (err) {
+      console.error('Error running membership expiry:', err);
+      setError('Failed to run membership expiry. Please try again.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-gray-400" />
+          <h3 className="text-lg font-medium text-gray-900">Membership Expiry</h3>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Runs nightly at 00:15 database time when pg_cron is enabled. Memberships past their end date and
+          grace period are marked expired, freezes are started or ended, and members are marked active only
+          while they hold a current membership. Running it again the same day changes nothing.
+        </p>
+
+        {error && (
+          <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-md">
+            <AlertCircle className="h-4 w-4 text-red-600 mr-2" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {lastRun && (
+          <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-md">
+            <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+            <span className="text-sm text-green-700">Run complete: {describeRun(lastRun)}.</span>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleRun} loading={running} disabled={running}>
+            Run Now
+          </Button>
+        </div>
+
+        {runs.length > 0 && (
+          <div className="divide-y divide-gray-200 rounded-md border border-gray-200">
+            {runs.map((run) => (
+              <div key={run.id} className="flex items-center px-3 py-2 text-sm">
+                <span
+                  className={`mr-3 inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${statusStyles[run.status]}`}
+                >
+                  {run.status}
+                </span>
+                <span className="text-gray-700 truncate">{describeRun(run)}</span>
+                <span className="ml-auto pl-3 text-gray-400 whitespace-nowrap">
+                  {formatDateTime(run.started_at)} · {run.triggered_by ? 'Manual' : 'Scheduled'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
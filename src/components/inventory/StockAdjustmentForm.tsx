@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import { ADJUSTMENT_REASONS, adjustStock, type AdjustmentReason, type StockMovement } from '../../lib/inventory';
+import type { Product } from '../../lib/products';
+
+const adjustmentSchema = z.object({
+  reason: z.enum(['RECEIVED', 'DAMAGE', 'WRITE_OFF', 'ADJUSTMENT']),
+  direction: z.enum(['IN', 'OUT']),
+  quantity: z.number({ invalid_type_error: 'Quantity is required' })
+    .int('Quantity must be a whole number')
+    .min(1, 'Quantity must be at least 1'),
+  notes: z.string()
+    .max(500, 'Notes must be 500 characters or fewer'),
+}).refine(data => data.reason !== 'ADJUSTMENT' || data.notes.trim().length > 0, {
+  message: 'Explain why the stock is being adjusted',
+  path: ['notes'],
+});
+
+type AdjustmentFormData = z.infer<typeof adjustmentSchema>;
+
+interface StockAdjustmentFormProps {
+  product: Product;
+  initialReason?: AdjustmentReason;
+  onSaved: (movement: StockMovement) => void;
+  onCancel: () => void;
+}
+
+export function StockAdjustmentForm({ product, initialReason = 'RECEIVED', onSaved, onCancel }: StockAdjustmentFormProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<AdjustmentFormData>({
+    resolver: zodResolver(adjustmentSchema),
+    defaultValues: {
+      reason: initialReason,
+      direction: initialReason === 'RECEIVED' ? 'IN' : 'OUT',
+      quantity: 1,
+      notes: '',
+    },
+  });
+
+  const reason = watch('reason');
+  const direction = ADJUSTMENT_REASONS.find(r => r.value === reason)?.direction ?? 'EITHER';
+
+  const onSubmit = async (data: AdjustmentFormData) => {
+    setSaving(true);
+    setError(null);
+
+    // Only a manual adjustment lets staff pick the direction
+    const removes = direction === 'EITHER' ? data.direction === 'OUT' : direction === 'OUT';
+
+    try {
+      const movement = await adjustStock({
+        productId: product.id,
+        reason: data.reason,
+        changeQuantity: removes ? -data.quantity : data.quantity,
+        notes: data.notes.trim() || null,
+      });
+      onSaved(movement);
+    } catch (err) {
+      console.error('Error adjusting stock:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update stock. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        <span className="font-medium text-gray-900">{product.name}</span> — {product.current_stock} in stock
+      </p>
+
+      <Select label="Reason" {...register('reason')} error={errors.reason?.message}>
+        {ADJUSTMENT_REASONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </Select>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {direction === 'EITHER' && (
+          <Select label="Direction" {...register('direction')}>
+            <option value="IN">Add to stock</option>
+            <option value="OUT">Remove from stock</option>
+          </Select>
+        )}
+
+        <Input
+          label="Quantity"
+          type="number"
+          min="1"
+          {...register('quantity', { valueAsNumber: true })}
+          error={errors.quantity?.message}
+          helperText={direction === 'IN' ? 'Added to stock' : direction === 'OUT' ? 'Removed from stock' : undefined}
+        />
+      </div>
+
+      <Textarea
+        label="Notes"
+        placeholder={reason === 'RECEIVED' ? 'Supplier or delivery reference' : undefined}
+        {...register('notes')}
+        error={errors.notes?.message}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saving} disabled={saving}>
+          Save Movement
+        </Button>
+      </div>
+    </form>
+  );
+}
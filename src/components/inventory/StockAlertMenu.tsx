@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { acknowledgeStockAlert, getOpenStockAlerts, type StockAlert } from '../../lib/stockAlerts';
+import { formatDateTime } from '../../lib/utils';
+
+// Stock changes at the till, so the bell checks again every minute
+const REFRESH_INTERVAL_MS = 60_000;
+
+export function StockAlertMenu() {
+  const [alerts, setAlerts] = useState<StockAlert[]>([]);
+  const [open, setOpen] = useState(false);
+  const [dismissingId, setDismissingId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      setAlerts(await getOpenStockAlerts());
+    } catch (err) {
+      console.error('Error loading stock alerts:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+    const timer = window.setInterval(loadAlerts, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [loadAlerts]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleDismiss = async (alert: StockAlert) => {
+    setDismissingId(alert.id);
+
+    try {
+      await acknowledgeStockAlert(alert.id);
+      setAlerts(current => current.filter(a => a.id !== alert.id));
+    } catch (err) {
+      console.error('Error dismissing stock alert:', err);
+    } finally {
+      setDismissingId(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(current => !current)}
+        aria-label={alerts.length > 0 ? `${alerts.length} low-stock alerts` : 'No alerts'}
+      >
+        <Bell className="h-5 w-5" />
+        {alerts.length > 0 && (
+          <span className="absolute -top-1 -right-1 inline-flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-red-600 px-1 text-xs font-medium text-white">
+            {alerts.length}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-80 rounded-lg border border-gray-200 bg-white shadow-lg">
+          <div className="border-b border-gray-200 px-4 py-3">
+            <p className="text-sm font-medium text-gray-900">Low Stock</p>
+          </div>
+          {alerts.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">No new alerts.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+              {alerts.map((alert) => (
+                <div key={alert.id} className="flex items-start px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {alert.products?.name ?? 'Unknown product'}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {alert.products?.current_stock ?? alert.stock_level} left · reorder at {alert.threshold}
+                    </p>
+                    <p className="text-xs text-gray-400">{formatDateTime(alert.created_at)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDismiss(alert)}
+                    loading={dismissingId === alert.id}
+                    disabled={dismissingId !== null}
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="border-t border-gray-200 px-4 py-2 text-right">
+            <Link
+              to="/pos/reorder"
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+              onClick={() => setOpen(false)}
+            >
+              Reorder report
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { getStockLedger, STOCK_REASON_LABELS, type StockLedgerEntry } from '../../lib/inventory';
+import type { Product } from '../../lib/products';
+import { formatDateTime } from '../../lib/utils';
+
+const headerCellClass = 'px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-2 whitespace-nowrap text-sm text-gray-900';
+
+interface StockLedgerProps {
+  product: Product;
+}
+
+export function StockLedger({ product }: StockLedgerProps) {
+  const [entries, setEntries] = useState<StockLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      setEntries(await getStockLedger(product.id));
+    } catch (err) {
+      console.error('Error loading stock ledger:', err);
+      setError('Failed to load stock movements.');
+    } finally {
+      setLoading(false);
+    }
+  }, [product.id]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const ledgerBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+  const difference = product.current_stock - ledgerBalance;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!loading && !error && (
+        difference === 0 ? (
+          <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+            <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>Movements add up to the {product.current_stock} in stock.</span>
+          </div>
+        ) : (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+            <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              Movements add up to {ledgerBalance}, but {product.current_stock} are in stock ({difference > 0 ? '+' : ''}
+              {difference}). Stock was changed without a movement; a stocktake will correct it.
+            </span>
+          </div>
+        )
+      )}
+
+      <div className="max-h-96 overflow-y-auto rounded-md border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className={headerCellClass}>Time</th>
+              <th className={headerCellClass}>Reason</th>
+              <th className={headerCellClass}>Change</th>
+              <th className={headerCellClass}>Balance</th>
+              <th className={headerCellClass}>Notes</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr className="animate-pulse">
+                <td colSpan={5} className="px-4 py-3">
+                  <div className="h-5 bg-gray-200 rounded"></div>
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No stock movements yet.
+                </td>
+              </tr>
+            ) : (
+              // Newest first, so the balance at the top is the current one
+              [...entries].reverse().map((entry) => (
+                <tr key={entry.id}>
+                  <td className={cellClass}>{formatDateTime(entry.created_at)}</td>
+                  <td className={cellClass}>{STOCK_REASON_LABELS[entry.reason] ?? entry.reason}</td>
+                  <td className={`${cellClass} ${entry.change_quantity < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    {entry.change_quantity > 0 ? `+${entry.change_quantity}` : entry.change_quantity}
+                  </td>
+                  <td className={cellClass}>{entry.balance}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{entry.notes || '—'}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React from 'react';
-import { LogOut, Bell } from 'lucide-react';
+import { LogOut } from 'lucide-react';
 import { Button } from '../ui/Button';
+import { StockAlertMenu } from '../inventory/StockAlertMenu';
 import { useAuthStore } from '../../store/authStore';
+import { hasRole } from '../../lib/auth';
 
 export function Header() {
   const { signOut, profile } = useAuthStore();
@@ -11,7 +13,7 @@ export function Header() {
   };
 
   return (
-    <header className="bg-white border-b border-gray-200 px-6 py-4">
+    <header className="bg-white border-b border-gray-200 px-6 py-4 print:hidden">
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-semibold text-gray-900">
@@ -28,9 +30,7 @@ export function Header() {
         </div>
 
         <div className="flex items-center space-x-4">
-          <Button variant="ghost" size="sm">
-            <Bell className="h-5 w-5" />
-          </Button>
+          {hasRole(profile, 'CS') && <StockAlertMenu />}
           
           <Button variant="outline" size="sm" onClick={handleSignOut}>
             <LogOut className="h-4 w-4 mr-2" />
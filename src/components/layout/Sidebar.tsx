@@ -11,6 +11,7 @@ import {
   Shield,
   Database,
   Ticket,
+  Percent,
   ShoppingCart,
 } from 'lucide-react';
 import { useAuthStore } from '../../store/authStore';
@@ -22,6 +23,7 @@ const navigation = [
   { name: 'Check-In', href: '/checkin', icon: UserCheck, roles: ['ADMIN', 'CS'] },
   { name: 'Membership Plans', href: '/membership-plans', icon: CreditCard, roles: ['ADMIN'] },
   { name: 'Coupon Templates', href: '/coupon-templates', icon: Ticket, roles: ['ADMIN'] },
+  { name: 'Promotions', href: '/promotions', icon: Percent, roles: ['ADMIN'] },
   { name: 'POS & Inventory', href: '/pos', icon: Package, roles: ['ADMIN', 'CS'] },
   { name: 'Sales', href: '/sales', icon: ShoppingCart, roles: ['ADMIN', 'CS'] },
   { name: 'Shifts', href: '/shifts', icon: Clock, roles: ['ADMIN', 'CS'] },
@@ -39,7 +41,7 @@ export function Sidebar() {
   );
 
   return (
-    <div className="flex h-full w-64 flex-col bg-gray-900">
+    <div className="flex h-full w-64 flex-col bg-gray-900 print:hidden">
       <div className="flex h-16 items-center justify-center bg-gray-800">
         <h1 className="text-xl font-bold text-white">FMF Gym</h1>
       </div>
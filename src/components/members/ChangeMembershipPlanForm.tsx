@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { getMembershipPlans, type MembershipPlan } from '../../lib/plans';
+import {
+  changeMembershipPlan,
+  quoteMembershipChange,
+  type MembershipChange,
+  type MembershipChangeQuote,
+} from '../../lib/memberships';
+import type { MembershipWithPlan } from '../../lib/members';
+import { getActiveShift, type Shift } from '../../lib/shifts';
+import { PAYMENT_METHODS, type PaymentMethod } from '../../lib/transactions';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+interface ChangeMembershipPlanFormProps {
+  membership: MembershipWithPlan;
+  onChanged: (change: MembershipChange) => void;
+  onCancel: () => void;
+}
+
+export function ChangeMembershipPlanForm({ membership, onChanged, onCancel }: ChangeMembershipPlanFormProps) {
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [planId, setPlanId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [quote, setQuote] = useState<MembershipChangeQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [quoting, setQuoting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [planData, shiftData] = await Promise.all([
+        getMembershipPlans({ activeOnly: true }),
+        getActiveShift(),
+      ]);
+
+      const otherPlans = planData.filter(plan => plan.id !== membership.plan_id);
+      setPlans(otherPlans);
+      setShift(shiftData);
+      if (otherPlans.length > 0) setPlanId(otherPlans[0].id);
+    } catch (err) {
+      console.error('Error loading membership plans:', err);
+      setError('Failed to load membership plans.');
+    } finally {
+      setLoading(false);
+    }
+  }, [membership.plan_id]);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  // Re-quote whenever the plan changes so the credit matches what will be recorded
+  useEffect(() => {
+    if (!planId) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setQuoting(true);
+
+    quoteMembershipChange(membership.id, planId)
+      .then(result => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch(err => {
+        console.error('Error quoting plan change:', err);
+        if (!cancelled) {
+          setQuote(null);
+          setError(err instanceof Error ? err.message : 'Failed to calculate the plan change.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [membership.id, planId]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!shift || !planId) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const change = await changeMembershipPlan({
+        membershipId: membership.id,
+        planId,
+        shiftId: shift.id,
+        paymentMethod,
+      });
+      onChanged(change);
+    } catch (err) {
+      console.error('Error changing membership plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change plan. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  const currentPlanName = membership.membership_plans?.name ?? 'Current plan';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!shift && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Plans can only be changed during an active shift.{' '}
+            <Link to="/shifts" className="font-medium underline">
+              Start a shift
+            </Link>
+          </span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Currently on <span className="font-medium text-gray-900">{currentPlanName}</span> until{' '}
+        {formatDate(membership.end_date)}.
+      </p>
+
+      <Select
+        label="New Plan"
+        value={planId}
+        onChange={e => {
+          setError(null);
+          setPlanId(e.target.value);
+        }}
+        disabled={plans.length === 0}
+      >
+        {plans.length === 0 && <option value="">No other plans on sale</option>}
+        {plans.map(plan => (
+          <option key={plan.id} value={plan.id}>
+            {plan.name} — {formatCurrency(plan.price)}
+          </option>
+        ))}
+      </Select>
+
+      <Select
+        label={quote && quote.balance < 0 ? 'Refund Method' : 'Payment Method'}
+        value={paymentMethod}
+        onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}
+      >
+        {PAYMENT_METHODS.map(method => (
+          <option key={method.value} value={method.value}>
+            {method.label}
+          </option>
+        ))}
+      </Select>
+
+      {quote && (
+        <div className={`rounded-md border border-gray-200 bg-gray-50 p-4 text-sm space-y-2 ${quoting ? 'opacity-50' : ''}`}>
+          <div className="flex justify-between">
+            <span className="text-gray-600">New membership</span>
+            <span className="text-gray-900">
+              {formatDate(quote.start_date)} – {formatDate(quote.end_date)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">New plan price</span>
+            <span className="text-gray-900">{formatCurrency(quote.price)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">
+              Credit for {quote.unused_days} of {quote.total_days} unused days
+            </span>
+            <span className="text-gray-900">−{formatCurrency(quote.credit)}</span>
+          </div>
+          <div className="flex justify-between border-t border-gray-200 pt-2 font-medium">
+            <span className="text-gray-900">{quote.balance < 0 ? 'Refund to member' : 'Balance due'}</span>
+            <span className={quote.balance < 0 ? 'text-green-700' : 'text-gray-900'}>
+              {formatCurrency(Math.abs(quote.balance))}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          loading={submitting}
+          disabled={submitting || quoting || !shift || !quote}
+        >
+          Change Plan
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { encodeCode128, CODE128_QUIET_ZONE_MODULES } from '../../lib/barcode';
+
+interface Code128BarcodeProps {
+  value: string;
+  height?: number;
+  className?: string;
+  showText?: boolean;
+}
+
+// Renders a Code 128 barcode as SVG so it stays sharp at any print resolution
+export function Code128Barcode({ value, height = 40, className, showText = true }: Code128BarcodeProps) {
+  const { bars, totalModules } = useMemo(() => {
+    const widths = encodeCode128(value);
+    const rects: { x: number; width: number }[] = [];
+    let x = CODE128_QUIET_ZONE_MODULES;
+
+    widths.forEach((width, index) => {
+      if (index % 2 === 0) rects.push({ x, width });
+      x += width;
+    });
+
+    return { bars: rects, totalModules: x + CODE128_QUIET_ZONE_MODULES };
+  }, [value]);
+
+  const textHeight = showText ? 12 : 0;
+
+  return (
+    <svg
+      className={className}
+      viewBox={`0 0 ${totalModules} ${height + textHeight}`}
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      <rect x={0} y={0} width={totalModules} height={height + textHeight} fill="#fff" />
+      {bars.map((bar) => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={height} fill="#000" />
+      ))}
+      {showText && (
+        <text
+          x={totalModules / 2}
+          y={height + textHeight - 2}
+          textAnchor="middle"
+          fontFamily="monospace"
+          fontSize={10}
+          fill="#000"
+        >
+          {value}
+        </text>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AlertCircle, Info } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Textarea } from '../ui/Textarea';
+import { countFreezeDays, freezeMembership, type MembershipFreeze } from '../../lib/memberships';
+import type { Membership } from '../../lib/members';
+import { formatDate, toISODate } from '../../lib/utils';
+
+const freezeSchema = z.object({
+  start_date: z.string().nonempty('Start date is required'),
+  end_date: z.string().nonempty('End date is required'),
+  reason: z.string()
+    .trim()
+    .nonempty('A reason is required')
+    .max(200, 'Reason must be 200 characters or fewer'),
+}).refine(data => data.end_date >= data.start_date, {
+  message: 'End date must be on or after the start date',
+  path: ['end_date'],
+});
+
+type FreezeFormData = z.infer<typeof freezeSchema>;
+
+interface FreezeMembershipFormProps {
+  membership: Membership;
+  freezes: MembershipFreeze[];
+  maxDaysPerYear: number;
+  onFrozen: () => void;
+  onCancel: () => void;
+}
+
+function countDays(startDate: string, endDate: string): number {
+  const diff = new Date(endDate).getTime() - new Date(startDate).getTime();
+  return Number.isFinite(diff) ? Math.round(diff / (1000 * 60 * 60 * 24)) + 1 : 0;
+}
+
+export function FreezeMembershipForm({
+  membership,
+  freezes,
+  maxDaysPerYear,
+  onFrozen,
+  onCancel,
+}: FreezeMembershipFormProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const today = toISODate();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<FreezeFormData>({
+    resolver: zodResolver(freezeSchema),
+    defaultValues: {
+      start_date: today,
+      end_date: '',
+      reason: '',
+    },
+  });
+
+  const startDate = watch('start_date');
+  const endDate = watch('end_date');
+  const year = Number((startDate || today).slice(0, 4));
+  const usedDays = countFreezeDays(freezes, year);
+  const requestedDays = startDate && endDate && endDate >= startDate ? countDays(startDate, endDate) : 0;
+  const remainingDays = Math.max(maxDaysPerYear - usedDays, 0);
+
+  const onSubmit = async (data: FreezeFormData) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await freezeMembership({
+        membershipId: membership.id,
+        startDate: data.start_date,
+        endDate: data.end_date,
+        reason: data.reason,
+      });
+      onFrozen();
+    } catch (err) {
+      console.error('Error freezing membership:', err);
+      setError(err instanceof Error ? err.message : 'Failed to freeze membership. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm flex items-start">
+        <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <span>
+          {remainingDays} of {maxDaysPerYear} freeze days left for {year}. The member cannot check in while frozen,
+          and the membership ending {formatDate(membership.end_date)} is extended by the days frozen once the
+          freeze ends.
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Start Date"
+          type="date"
+          min={today > membership.start_date ? today : membership.start_date}
+          max={membership.end_date}
+          {...register('start_date')}
+          error={errors.start_date?.message}
+        />
+
+        <Input
+          label="End Date"
+          type="date"
+          min={startDate || today}
+          {...register('end_date')}
+          error={errors.end_date?.message}
+          helperText={requestedDays > 0 ? `${requestedDays} day${requestedDays === 1 ? '' : 's'}` : undefined}
+        />
+      </div>
+
+      <Textarea
+        label="Reason"
+        placeholder="e.g. Travelling abroad, knee injury"
+        {...register('reason')}
+        error={errors.reason?.message}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saving} disabled={saving || requestedDays > remainingDays}>
+          Freeze Membership
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+import { Dumbbell } from 'lucide-react';
+import { Code128Barcode } from './Code128Barcode';
+import { MemberPhoto } from './MemberPhoto';
+import { formatDate } from '../../lib/utils';
+import type { Member } from '../../lib/members';
+
+interface MemberCardProps {
+  member: Member;
+  gymName: string;
+}
+
+// Printed at ISO/IEC 7810 ID-1 size (standard credit card) so cards fit wallets and card sleeves
+export function MemberCard({ member, gymName }: MemberCardProps) {
+  return (
+    <div
+      className="member-card flex flex-col overflow-hidden rounded-xl border border-gray-300 bg-white"
+      style={{ width: '85.6mm', height: '53.98mm' }}
+    >
+      <div className="flex items-center bg-gray-900 px-3 py-1.5 text-white">
+        <Dumbbell className="h-4 w-4 mr-2 flex-shrink-0" />
+        <span className="text-sm font-bold truncate">{gymName}</span>
+        <span className="ml-auto text-[9px] uppercase tracking-widest text-gray-300">Member</span>
+      </div>
+
+      <div className="flex flex-1 items-center gap-3 px-3 pt-2">
+        <MemberPhoto
+          path={member.photo_url}
+          alt={member.full_name}
+          className="h-[22mm] w-[18mm] flex-shrink-0"
+        />
+        <div className="min-w-0">
+          <p className="text-sm font-semibold leading-tight text-gray-900 break-words">{member.full_name}</p>
+          <p className="mt-1 text-[10px] text-gray-600">Member since {formatDate(member.join_date)}</p>
+        </div>
+      </div>
+
+      <div className="px-3 pb-2">
+        <Code128Barcode value={member.member_id_string} className="h-[12mm] w-full" />
+      </div>
+    </div>
+  );
+}
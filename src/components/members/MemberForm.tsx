@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AlertCircle, Camera, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Textarea } from '../ui/Textarea';
+import { MemberPhoto } from './MemberPhoto';
+import { PhotoCapture } from './PhotoCapture';
+import { createMember, updateMember, type Member, type MemberInput } from '../../lib/members';
+import { removeMemberPhoto, uploadMemberPhoto } from '../../lib/photos';
+
+const memberSchema = z.object({
+  full_name: z.string()
+    .trim()
+    .nonempty('Full name is required')
+    .max(120, 'Full name must be 120 characters or fewer'),
+  email: z.string()
+    .trim()
+    .email('Please enter a valid email address')
+    .or(z.literal('')),
+  phone_number: z.string()
+    .trim()
+    .regex(/^[+\d][\d\s()-]{5,19}$/, 'Please enter a valid phone number')
+    .or(z.literal('')),
+  join_date: z.string()
+    .nonempty('Join date is required'),
+  notes: z.string()
+    .max(1000, 'Notes must be 1000 characters or fewer'),
+});
+
+type MemberFormData = z.infer<typeof memberSchema>;
+
+interface MemberFormProps {
+  member?: Member | null;
+  onSaved: (member: Member) => void;
+  onCancel: () => void;
+}
+
+export function MemberForm({ member, onSaved, onCancel }: MemberFormProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showCapture, setShowCapture] = useState(false);
+  const [pendingPhoto, setPendingPhoto] = useState<Blob | null>(null);
+  const [pendingPhotoUrl, setPendingPhotoUrl] = useState<string | null>(null);
+  const [photoRemoved, setPhotoRemoved] = useState(false);
+  // A new member saved on an earlier attempt whose photo upload failed
+  const [createdMember, setCreatedMember] = useState<Member | null>(null);
+
+  useEffect(() => {
+    if (!pendingPhoto) {
+      setPendingPhotoUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(pendingPhoto);
+    setPendingPhotoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pendingPhoto]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<MemberFormData>({
+    resolver: zodResolver(memberSchema),
+    defaultValues: {
+      full_name: member?.full_name ?? '',
+      email: member?.email ?? '',
+      phone_number: member?.phone_number ?? '',
+      join_date: member?.join_date ?? new Date().toISOString().split('T')[0],
+      notes: member?.notes ?? '',
+    },
+  });
+
+  const hasPhoto = Boolean(pendingPhoto || (member?.photo_url && !photoRemoved));
+
+  const onSubmit = async (data: MemberFormData) => {
+    setSaving(true);
+    setError(null);
+
+    const input: MemberInput = {
+      full_name: data.full_name,
+      email: data.email || null,
+      phone_number: data.phone_number || null,
+      join_date: data.join_date,
+      notes: data.notes.trim() || null,
+    };
+
+    const existing = member ?? createdMember;
+    let saved: Member;
+
+    try {
+      saved = existing
+        ? await updateMember(existing.id, input)
+        : await createMember(input);
+    } catch (err) {
+      console.error('Error saving member:', err);
+      setError('Failed to save member. Please try again.');
+      setSaving(false);
+      return;
+    }
+
+    try {
+      if (pendingPhoto) {
+        saved = await uploadMemberPhoto(saved, pendingPhoto);
+      } else if (photoRemoved && saved.photo_url) {
+        saved = await removeMemberPhoto(saved);
+      }
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving member photo:', err);
+      if (!member) setCreatedMember(saved);
+      setError('Member details were saved, but the photo could not be stored. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-start space-x-4">
+        {pendingPhotoUrl ? (
+          <img
+            src={pendingPhotoUrl}
+            alt="New member photo"
+            className="h-24 w-20 flex-shrink-0 rounded-md object-cover"
+          />
+        ) : (
+          <MemberPhoto
+            path={photoRemoved ? null : member?.photo_url ?? null}
+            alt={member?.full_name ?? 'Member photo'}
+            className="h-24 w-20 flex-shrink-0"
+          />
+        )}
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Photo</p>
+          <div className="flex items-center space-x-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => setShowCapture(true)}>
+              <Camera className="h-4 w-4 mr-2" />
+              {hasPhoto ? 'Replace' : 'Add Photo'}
+            </Button>
+            {hasPhoto && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setPendingPhoto(null);
+                  setPhotoRemoved(true);
+                }}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showCapture && (
+        <PhotoCapture
+          onCapture={(photo) => {
+            setPendingPhoto(photo);
+            setPhotoRemoved(false);
+            setShowCapture(false);
+          }}
+          onCancel={() => setShowCapture(false)}
+        />
+      )}
+
+      <Input
+        label="Full Name"
+        autoComplete="off"
+        {...register('full_name')}
+        error={errors.full_name?.message}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Email Address"
+          type="email"
+          autoComplete="off"
+          {...register('email')}
+          error={errors.email?.message}
+        />
+
+        <Input
+          label="Phone Number"
+          type="tel"
+          autoComplete="off"
+          {...register('phone_number')}
+          error={errors.phone_number?.message}
+        />
+      </div>
+
+      <Input
+        label="Join Date"
+        type="date"
+        {...register('join_date')}
+        error={errors.join_date?.message}
+      />
+
+      <Textarea
+        label="Notes"
+        {...register('notes')}
+        error={errors.notes?.message}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saving} disabled={saving}>
+          {member ? 'Save Changes' : 'Create Member'}
+        </Button>
+      </div>
+    </form>
+  );
+}
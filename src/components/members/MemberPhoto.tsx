@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { User } from 'lucide-react';
+import { getMemberPhotoUrl } from '../../lib/photos';
+import { cn } from '../../lib/utils';
+
+interface MemberPhotoProps {
+  path: string | null;
+  alt: string;
+  className?: string;
+  iconClassName?: string;
+}
+
+export function MemberPhoto({ path, alt, className, iconClassName = 'h-8 w-8' }: MemberPhotoProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!path) return;
+
+    let cancelled = false;
+
+    getMemberPhotoUrl(path)
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(error => console.error('Error loading member photo:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return (
+    <div className={cn('flex items-center justify-center overflow-hidden rounded-md bg-gray-100', className)}>
+      {url ? (
+        <img src={url} alt={alt} className="h-full w-full object-cover" />
+      ) : (
+        <User className={cn('text-gray-400', iconClassName)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { cn } from '../../lib/utils';
+
+export type MembershipDisplayStatus = 'ACTIVE' | 'FROZEN' | 'GRACE_PERIOD' | 'EXPIRED' | 'NONE';
+
+const statusStyles: Record<MembershipDisplayStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  FROZEN: { label: 'Frozen', className: 'bg-sky-100 text-sky-800' },
+  GRACE_PERIOD: { label: 'Grace Period', className: 'bg-orange-100 text-orange-800' },
+  EXPIRED: { label: 'Expired', className: 'bg-red-100 text-red-800' },
+  NONE: { label: 'No Membership', className: 'bg-gray-100 text-gray-700' },
+};
+
+interface MembershipStatusBadgeProps {
+  status: MembershipDisplayStatus;
+  className?: string;
+}
+
+export function MembershipStatusBadge({ status, className }: MembershipStatusBadgeProps) {
+  const style = statusStyles[status];
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium',
+        style.className,
+        className
+      )}
+    >
+      {style.label}
+    </span>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Camera, Upload, ZoomIn } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { MEMBER_PHOTO_ASPECT, renderCroppedPhoto, type CropArea } from '../../lib/photos';
+
+interface PhotoCaptureProps {
+  onCapture: (photo: Blob) => void;
+  onCancel: () => void;
+}
+
+interface SourceImage {
+  source: HTMLCanvasElement | HTMLImageElement;
+  width: number;
+  height: number;
+}
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+const FRAME_HEIGHT = 300;
+const FRAME_WIDTH = Math.round(FRAME_HEIGHT * MEMBER_PHOTO_ASPECT);
+const MAX_ZOOM = 3;
+
+// Scale at which the image exactly covers the crop frame
+function coverScale(image: SourceImage): number {
+  return Math.max(FRAME_WIDTH / image.width, FRAME_HEIGHT / image.height);
+}
+
+// Keep the frame fully covered by the image
+function clampOffset(offset: Offset, image: SourceImage, scale: number): Offset {
+  return {
+    x: Math.min(0, Math.max(FRAME_WIDTH - image.width * scale, offset.x)),
+    y: Math.min(0, Math.max(FRAME_HEIGHT - image.height * scale, offset.y)),
+  };
+}
+
+function toCropArea(offset: Offset, scale: number): CropArea {
+  return {
+    x: -offset.x / scale,
+    y: -offset.y / scale,
+    width: FRAME_WIDTH / scale,
+    height: FRAME_HEIGHT / scale,
+  };
+}
+
+export function PhotoCapture({ onCapture, onCancel }: PhotoCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; origin: Offset } | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [image, setImage] = useState<SourceImage | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scale = image ? coverScale(image) * zoom : 1;
+
+  useEffect(() => {
+    if (!cameraOn) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Camera access is not available in this browser. Upload a photo instead.');
+        setCameraOn(false);
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 960 } },
+          audio: false,
+        });
+
+        if (cancelled || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      } catch (err) {
+        console.error('Error starting camera:', err);
+        setError(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'Camera permission was denied. Allow camera access in the browser or upload a photo.'
+            : 'Could not start the camera.'
+        );
+        setCameraOn(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn]);
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const context = canvas?.getContext('2d');
+    if (!image || !canvas || !context) return;
+
+    const crop = toCropArea(offset, scale);
+    context.clearRect(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+    context.drawImage(image.source, crop.x, crop.y, crop.width, crop.height, 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+  }, [image, offset, scale]);
+
+  // Start each new image zoomed out and centred in the frame
+  const loadImage = (next: SourceImage) => {
+    const initialScale = coverScale(next);
+    setImage(next);
+    setZoom(1);
+    setOffset({
+      x: (FRAME_WIDTH - next.width * initialScale) / 2,
+      y: (FRAME_HEIGHT - next.height * initialScale) / 2,
+    });
+  };
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+
+    setCameraOn(false);
+    loadImage({ source: canvas, width: canvas.width, height: canvas.height });
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file.');
+      return;
+    }
+
+    setError(null);
+    setCameraOn(false);
+
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      loadImage({ source: img, width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      setError('Could not read that image.');
+    };
+    img.src = url;
+  };
+
+  // Zoom around the centre of the frame rather than the top-left corner
+  const handleZoom = (nextZoom: number) => {
+    if (!image) return;
+
+    const nextScale = coverScale(image) * nextZoom;
+    const centreX = (FRAME_WIDTH / 2 - offset.x) / scale;
+    const centreY = (FRAME_HEIGHT / 2 - offset.y) / scale;
+
+    setZoom(nextZoom);
+    setOffset(clampOffset(
+      { x: FRAME_WIDTH / 2 - centreX * nextScale, y: FRAME_HEIGHT / 2 - centreY * nextScale },
+      image,
+      nextScale
+    ));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, origin: offset };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+
+    setOffset(clampOffset(
+      {
+        x: drag.origin.x + event.clientX - drag.pointerX,
+        y: drag.origin.y + event.clientY - drag.pointerY,
+      },
+      image,
+      scale
+    ));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleUsePhoto = async () => {
+    if (!image) return;
+    setSaving(true);
+
+    try {
+      onCapture(await renderCroppedPhoto(image.source, toCropArea(offset, scale)));
+    } catch (err) {
+      console.error('Error processing photo:', err);
+      setError('Could not process the photo. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center space-x-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={cameraOn ? 'secondary' : 'outline'}
+          onClick={() => {
+            setError(null);
+            setCameraOn(!cameraOn);
+          }}
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          {cameraOn ? 'Stop Camera' : 'Use Camera'}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Upload Photo
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {cameraOn && (
+        <div className="space-y-2">
+          <div className="overflow-hidden rounded-lg bg-gray-900">
+            <video ref={videoRef} className="w-full max-h-72 object-cover" muted playsInline />
+          </div>
+          <Button type="button" size="sm" onClick={takePhoto}>
+            Take Photo
+          </Button>
+        </div>
+      )}
+
+      {image && !cameraOn && (
+        <div className="flex flex-col items-center space-y-3">
+          <canvas
+            ref={previewRef}
+            width={FRAME_WIDTH}
+            height={FRAME_HEIGHT}
+            className="cursor-move touch-none rounded-md border border-gray-300"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          <label className="flex w-full max-w-xs items-center text-sm text-gray-600">
+            <ZoomIn className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={zoom}
+              onChange={(e) => handleZoom(Number(e.target.value))}
+              className="w-full"
+              aria-label="Zoom"
+            />
+          </label>
+          <p className="text-xs text-gray-500">Drag to position the face inside the frame.</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" size="sm" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleUsePhoto}
+          loading={saving}
+          disabled={!image || cameraOn || saving}
+        >
+          Use Photo
+        </Button>
+      </div>
+    </div>
+  );
+}
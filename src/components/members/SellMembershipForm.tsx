@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { PromoCodeInput } from '../promotions/PromoCodeInput';
+import { getMembershipPlans, type MembershipPlan } from '../../lib/plans';
+import { quoteMembership, sellMembership, type MembershipQuote, type MembershipSale } from '../../lib/memberships';
+import { findSaleTransactionId } from '../../lib/receipts';
+import { autoPrintReceipt } from '../../lib/receiptPrinter';
+import { getActiveShift, type Shift } from '../../lib/shifts';
+import { PAYMENT_METHODS, type PaymentMethod } from '../../lib/transactions';
+import { formatCurrency, formatDate } from '../../lib/utils';
+import type { Member } from '../../lib/members';
+
+interface SellMembershipFormProps {
+  member: Member;
+  onSold: (sale: MembershipSale) => void;
+  onCancel: () => void;
+}
+
+export function SellMembershipForm({ member, onSold, onCancel }: SellMembershipFormProps) {
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [planId, setPlanId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [quote, setQuote] = useState<MembershipQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [quoting, setQuoting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [planData, shiftData] = await Promise.all([
+        getMembershipPlans({ activeOnly: true }),
+        getActiveShift(),
+      ]);
+
+      setPlans(planData);
+      setShift(shiftData);
+      if (planData.length > 0) setPlanId(planData[0].id);
+    } catch (err) {
+      console.error('Error loading membership plans:', err);
+      setError('Failed to load membership plans.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  // Re-quote whenever the plan or code changes so dates and fees match what will be charged
+  useEffect(() => {
+    if (!planId) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setQuoting(true);
+
+    quoteMembership(member.id, planId, promoCode)
+      .then(result => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch(err => {
+        console.error('Error quoting membership:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to calculate the membership price.');
+          // A rejected code is dropped and the plan quoted without it
+          if (promoCode) {
+            setPromoCode(null);
+          } else {
+            setQuote(null);
+          }
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [member.id, planId, promoCode]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!shift || !planId) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const sale = await sellMembership({
+        memberId: member.id,
+        planId,
+        shiftId: shift.id,
+        paymentMethod,
+        promoCode,
+      });
+      findSaleTransactionId(sale.membership_id, ['MEMBERSHIP', 'REGISTRATION_FEE'])
+        .then(autoPrintReceipt)
+        .catch(err => console.error('Error printing receipt:', err));
+      onSold(sale);
+    } catch (err) {
+      console.error('Error selling membership:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sell membership. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!shift && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Memberships can only be sold during an active shift.{' '}
+            <Link to="/shifts" className="font-medium underline">
+              Start a shift
+            </Link>
+          </span>
+        </div>
+      )}
+
+      <Select
+        label="Membership Plan"
+        value={planId}
+        onChange={e => {
+          setError(null);
+          setPlanId(e.target.value);
+        }}
+        disabled={plans.length === 0}
+      >
+        {plans.length === 0 && <option value="">No plans on sale</option>}
+        {plans.map(plan => (
+          <option key={plan.id} value={plan.id}>
+            {plan.name} — {formatCurrency(plan.price)}
+          </option>
+        ))}
+      </Select>
+
+      <Select
+        label="Payment Method"
+        value={paymentMethod}
+        onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}
+      >
+        {PAYMENT_METHODS.map(method => (
+          <option key={method.value} value={method.value}>
+            {method.label}
+          </option>
+        ))}
+      </Select>
+
+      <PromoCodeInput
+        appliedCode={promoCode}
+        matched={quoting || quote?.promotion_code === promoCode}
+        onChange={code => {
+          setError(null);
+          setPromoCode(code);
+        }}
+        disabled={quoting || submitting}
+      />
+
+      {quote && (
+        <div className={`rounded-md border border-gray-200 bg-gray-50 p-4 text-sm space-y-2 ${quoting ? 'opacity-50' : ''}`}>
+          <div className="flex justify-between">
+            <span className="text-gray-600">{quote.is_renewal ? 'Renewal' : 'New membership'}</span>
+            <span className="text-gray-900">
+              {formatDate(quote.start_date)} – {formatDate(quote.end_date)}
+            </span>
+          </div>
+          {quote.free_months > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Free months on signup</span>
+              <span className="text-gray-900">{quote.free_months}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-600">Plan price</span>
+            <span className="text-gray-900">{formatCurrency(quote.list_price)}</span>
+          </div>
+          {quote.discount > 0 && (
+            <div className="flex justify-between text-green-700">
+              <span>{quote.promotion_name}</span>
+              <span>−{formatCurrency(quote.discount)}</span>
+            </div>
+          )}
+          {quote.registration_fee > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Registration fee</span>
+              <span className="text-gray-900">{formatCurrency(quote.registration_fee)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-gray-200 pt-2 font-medium">
+            <span className="text-gray-900">Total</span>
+            <span className="text-gray-900">{formatCurrency(quote.total)}</span>
+          </div>
+          {quote.tax > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Includes tax</span>
+              <span className="text-gray-900">{formatCurrency(quote.tax)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          loading={submitting}
+          disabled={submitting || quoting || !shift || !quote}
+        >
+          {quote?.is_renewal ? 'Renew Membership' : 'Sell Membership'}
+        </Button>
+      </div>
+    </form>
+  );
+}
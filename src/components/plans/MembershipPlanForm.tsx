@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AlertCircle, Info } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import { saveMembershipPlan, type MembershipPlanWithSales } from '../../lib/plans';
+import { formatTaxRate, getTaxRates, type TaxRate } from '../../lib/tax';
+
+const planSchema = z.object({
+  name: z.string()
+    .trim()
+    .nonempty('Plan name is required')
+    .max(80, 'Plan name must be 80 characters or fewer'),
+  price: z.number({ invalid_type_error: 'Price is required' })
+    .min(0, 'Price cannot be negative'),
+  duration_months: z.number({ invalid_type_error: 'Duration is required' })
+    .int('Duration must be a whole number of months')
+    .min(1, 'Duration must be at least 1 month'),
+  free_months_on_signup: z.number({ invalid_type_error: 'Free months is required' })
+    .int('Free months must be a whole number')
+    .min(0, 'Free months cannot be negative'),
+  has_registration_fee: z.boolean(),
+  is_active: z.boolean(),
+  // Empty for untaxed
+  tax_rate_id: z.string(),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or fewer'),
+});
+
+type PlanFormData = z.infer<typeof planSchema>;
+
+interface MembershipPlanFormProps {
+  plan?: MembershipPlanWithSales | null;
+  onSaved: (planId: string) => void;
+  onCancel: () => void;
+}
+
+export function MembershipPlanForm({ plan, onSaved, onCancel }: MembershipPlanFormProps) {
+  const [taxRates, setTaxRates] = useState<TaxRate[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<PlanFormData>({
+    resolver: zodResolver(planSchema),
+    defaultValues: {
+      name: plan?.name ?? '',
+      price: plan?.price ?? 0,
+      duration_months: plan?.duration_months ?? 1,
+      free_months_on_signup: plan?.free_months_on_signup ?? 0,
+      has_registration_fee: plan?.has_registration_fee ?? true,
+      is_active: plan?.is_active ?? true,
+      tax_rate_id: plan?.tax_rate_id ?? '',
+      description: plan?.description ?? '',
+    },
+  });
+
+  useEffect(() => {
+    getTaxRates()
+      .then(setTaxRates)
+      .catch(err => {
+        console.error('Error loading tax rates:', err);
+        setError('Failed to load tax rates.');
+      });
+  }, []);
+
+  const onSubmit = async (data: PlanFormData) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const planId = await saveMembershipPlan(
+        { ...data, description: data.description.trim() || null, tax_rate_id: data.tax_rate_id || null },
+        plan?.id
+      );
+      onSaved(planId);
+    } catch (err) {
+      console.error('Error saving membership plan:', err);
+      setError('Failed to save membership plan. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {plan && plan.sold_count > 0 && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            {plan.sold_count} membership{plan.sold_count === 1 ? ' has' : 's have'} been sold on this plan.
+            Changing the name, price, duration, registration fee or free months creates version {plan.version + 1};
+            existing memberships stay on version {plan.version}.
+          </span>
+        </div>
+      )}
+
+      <Input
+        label="Plan Name"
+        autoComplete="off"
+        {...register('name')}
+        error={errors.name?.message}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          label="Price"
+          type="number"
+          step="0.01"
+          min="0"
+          {...register('price', { valueAsNumber: true })}
+          error={errors.price?.message}
+        />
+
+        <Input
+          label="Duration (months)"
+          type="number"
+          min="1"
+          {...register('duration_months', { valueAsNumber: true })}
+          error={errors.duration_months?.message}
+        />
+
+        <Input
+          label="Free Months on Signup"
+          type="number"
+          min="0"
+          {...register('free_months_on_signup', { valueAsNumber: true })}
+          error={errors.free_months_on_signup?.message}
+          helperText="Added to a member's first membership"
+        />
+      </div>
+
+      {taxRates && (
+        <Select
+          label="Tax Rate"
+          {...register('tax_rate_id')}
+          helperText="The registration fee is taxed at the same rate"
+        >
+          <option value="">No tax</option>
+          {taxRates.map(taxRate => (
+            <option key={taxRate.id} value={taxRate.id}>
+              {formatTaxRate(taxRate)}
+            </option>
+          ))}
+        </Select>
+      )}
+
+      <div className="space-y-2">
+        <label className="flex items-center text-sm text-gray-700">
+          <input type="checkbox" className="mr-2 rounded border-gray-300" {...register('has_registration_fee')} />
+          Charge the registration fee on a member's first membership
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input type="checkbox" className="mr-2 rounded border-gray-300" {...register('is_active')} />
+          Available for sale
+        </label>
+      </div>
+
+      <Textarea
+        label="Description"
+        {...register('description')}
+        error={errors.description?.message}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saving} disabled={saving}>
+          {plan ? 'Save Changes' : 'Create Plan'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Plus, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { PromoCodeInput } from '../promotions/PromoCodeInput';
+import {
+  checkoutSale,
+  getPaymentsTotal,
+  quotePosSale,
+  roundCurrency,
+  type CartLine,
+  type PosQuote,
+  type PosSale,
+  type SalePayment,
+} from '../../lib/pos';
+import type { Shift } from '../../lib/shifts';
+import { PAYMENT_METHODS, type PaymentMethod } from '../../lib/transactions';
+import { formatCurrency } from '../../lib/utils';
+
+interface CheckoutFormProps {
+  shift: Shift;
+  lines: CartLine[];
+  onCompleted: (sale: PosSale) => void;
+  onCancel: () => void;
+}
+
+export function CheckoutForm({ shift, lines, onCompleted, onCancel }: CheckoutFormProps) {
+  const [quote, setQuote] = useState<PosQuote | null>(null);
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [payments, setPayments] = useState<SalePayment[]>([]);
+  const [cashTendered, setCashTendered] = useState('');
+  const [quoting, setQuoting] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Promotions are worked out on the server; payments start over whenever the total changes
+  useEffect(() => {
+    let cancelled = false;
+    setQuoting(true);
+
+    quotePosSale(lines, promoCode)
+      .then(result => {
+        if (cancelled) return;
+        setQuote(result);
+        setPayments([{ paymentMethod: 'CASH', amount: result.total }]);
+      })
+      .catch(err => {
+        console.error('Error pricing the cart:', err);
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to price the cart.');
+        // A rejected code is dropped and the cart priced without it
+        if (promoCode) setPromoCode(null);
+      })
+      .finally(() => {
+        if (!cancelled) setQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lines, promoCode]);
+
+  const total = quote?.total ?? 0;
+  const paid = getPaymentsTotal(payments);
+  const remaining = roundCurrency(total - paid);
+  const cashDue = getPaymentsTotal(payments.filter(p => p.paymentMethod === 'CASH'));
+  const tendered = parseFloat(cashTendered);
+  const change = Number.isFinite(tendered) ? roundCurrency(tendered - cashDue) : null;
+
+  const updatePayment = (index: number, update: Partial<SalePayment>) => {
+    setPayments(current => current.map((p, i) => (i === index ? { ...p, ...update } : p)));
+  };
+
+  // A new split takes whatever is still unpaid
+  const addPayment = () => {
+    const used = new Set(payments.map(p => p.paymentMethod));
+    const method = PAYMENT_METHODS.find(m => !used.has(m.value))?.value ?? 'OTHER';
+    setPayments(current => [...current, { paymentMethod: method, amount: Math.max(remaining, 0) }]);
+  };
+
+  const removePayment = (index: number) => {
+    setPayments(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      onCompleted(await checkoutSale({ shiftId: shift.id, lines, payments, promoCode }));
+    } catch (err) {
+      console.error('Error completing sale:', err);
+      setError(err instanceof Error ? err.message : 'Failed to complete the sale. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // A sale made free by its promotions is recorded with one zero payment
+  const invalidPayment = total > 0 ? payments.some(p => !(p.amount > 0)) : payments.some(p => p.amount !== 0);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!quote ? (
+        <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+      ) : (
+        <div className={`rounded-md border border-gray-200 divide-y divide-gray-200 text-sm ${quoting ? 'opacity-50' : ''}`}>
+          {quote.lines.map(line => (
+            <div key={line.product_id} className="px-3 py-2">
+              <div className="flex justify-between">
+                <span className="text-gray-700">
+                  {line.quantity} × {line.name}
+                </span>
+                <span className="text-gray-900">{formatCurrency(line.gross_total)}</span>
+              </div>
+              {line.discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>{line.promotion_name}</span>
+                  <span>−{formatCurrency(line.discount)}</span>
+                </div>
+              )}
+            </div>
+          ))}
+          {quote.discount > 0 && (
+            <div className="flex justify-between px-3 py-2 text-green-700">
+              <span>You save</span>
+              <span>{formatCurrency(quote.discount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between px-3 py-2 font-semibold text-gray-900">
+            <span>Total</span>
+            <span>{formatCurrency(total)}</span>
+          </div>
+          {quote.tax > 0 && (
+            <div className="flex justify-between px-3 py-2 text-gray-600">
+              <span>Includes tax</span>
+              <span>{formatCurrency(quote.tax)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <PromoCodeInput
+        appliedCode={promoCode}
+        matched={quoting || !!quote?.promotions.some(p => p.code === promoCode)}
+        onChange={code => {
+          setError(null);
+          setPromoCode(code);
+        }}
+        disabled={quoting || submitting}
+      />
+
+      <div className="space-y-3">
+        {payments.map((payment, index) => (
+          <div key={index} className="flex items-end space-x-2">
+            <div className="flex-1">
+              <Select
+                label={index === 0 ? 'Payment Method' : undefined}
+                value={payment.paymentMethod}
+                onChange={e => updatePayment(index, { paymentMethod: e.target.value as PaymentMethod })}
+              >
+                {PAYMENT_METHODS.map(method => (
+                  <option key={method.value} value={method.value}>
+                    {method.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="w-32">
+              <Input
+                label={index === 0 ? 'Amount' : undefined}
+                type="number"
+                step="0.01"
+                min={total > 0 ? '0.01' : '0'}
+                value={Number.isNaN(payment.amount) ? '' : payment.amount}
+                onChange={e => updatePayment(index, { amount: e.target.valueAsNumber })}
+              />
+            </div>
+            {payments.length > 1 && (
+              <Button type="button" variant="ghost" onClick={() => removePayment(index)} aria-label="Remove payment">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {remaining > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={addPayment}>
+            <Plus className="h-4 w-4 mr-1" />
+            Split Payment
+          </Button>
+        )}
+      </div>
+
+      <p className={`text-sm ${remaining === 0 ? 'text-gray-600' : 'text-red-600'}`}>
+        Paid {formatCurrency(paid)} of {formatCurrency(total)}
+        {remaining > 0 && ` — ${formatCurrency(remaining)} still to pay`}
+        {remaining < 0 && ` — ${formatCurrency(-remaining)} more than the total`}
+      </p>
+
+      {cashDue > 0 && (
+        <Input
+          label="Cash Tendered"
+          type="number"
+          step="0.01"
+          min="0"
+          value={cashTendered}
+          onChange={e => setCashTendered(e.target.value)}
+          helperText={change !== null && change >= 0 ? `Change due: ${formatCurrency(change)}` : 'Optional; works out the change'}
+        />
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          loading={submitting}
+          disabled={submitting || quoting || !quote || remaining !== 0 || invalidPayment}
+        >
+          Complete Sale ({formatCurrency(total)})
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Ticket, User, X } from 'lucide-react';
+import { Card, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { getMemberDebt, type AgedDebtLine } from '../../lib/accounts';
+import { getCouponStatus, type CouponStatus } from '../../lib/coupons';
+import type { ScanResult } from '../../lib/scanner';
+import { formatCurrency, formatDate, toISODate } from '../../lib/utils';
+
+const couponStatusLabels: Record<CouponStatus, string> = {
+  ACTIVE: 'Valid',
+  INACTIVE: 'Inactive',
+  EXPIRED: 'Expired',
+  USED_UP: 'No entries left',
+};
+
+interface ScanResultCardProps {
+  result: Extract<ScanResult, { kind: 'member' | 'coupon' }>;
+  onDismiss: () => void;
+}
+
+// POS sales are not tied to a member, so a scanned card or coupon is shown to the cashier for reference
+export function ScanResultCard({ result, onDismiss }: ScanResultCardProps) {
+  const [debt, setDebt] = useState<AgedDebtLine | null>(null);
+  const memberId = result.kind === 'member' ? result.member.id : result.coupon.member_id;
+
+  useEffect(() => {
+    setDebt(null);
+    if (!memberId) return;
+
+    let cancelled = false;
+
+    getMemberDebt(memberId)
+      .then(line => {
+        if (!cancelled) setDebt(line);
+      })
+      .catch(err => {
+        console.error('Error loading member balance:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [memberId]);
+
+  return (
+    <Card className="border-blue-200 bg-blue-50">
+      <CardContent className="p-4">
+        <div className="flex items-start">
+          {result.kind === 'member' ? (
+            <User className="h-5 w-5 text-blue-600 mr-3 mt-0.5 flex-shrink-0" />
+          ) : (
+            <Ticket className="h-5 w-5 text-blue-600 mr-3 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="flex-1 text-sm space-y-1">
+            {result.kind === 'member' ? (
+              <>
+                <p className="font-medium text-gray-900">{result.member.full_name}</p>
+                <p className="text-gray-600">
+                  {result.member.member_id_string}
+                  {!result.member.is_active && ' · Inactive'}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium text-gray-900">
+                  {result.coupon.coupon_templates?.name ?? 'Coupon'} {result.coupon.code}
+                </p>
+                <p className="text-gray-600">
+                  {couponStatusLabels[getCouponStatus(result.coupon, toISODate())]} ·{' '}
+                  {result.coupon.entries_remaining} entries left · expires {formatDate(result.coupon.expiry_date)}
+                </p>
+                <p className="text-gray-500">Coupons are redeemed at the check-in desk.</p>
+              </>
+            )}
+            {debt && debt.total > 0 && (
+              <p className="text-orange-700">Owes {formatCurrency(debt.total)} on account</p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {memberId && (
+              <Link to={`/members/${memberId}`}>
+                <Button variant="outline" size="sm">View Member</Button>
+              </Link>
+            )}
+            <Button variant="ghost" size="sm" onClick={onDismiss} aria-label="Dismiss scan">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
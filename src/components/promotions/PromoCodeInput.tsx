@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { normalizePromoCode } from '../../lib/promotions';
+
+interface PromoCodeInputProps {
+  appliedCode: string | null;
+  // False when the applied code gives no discount on this sale
+  matched: boolean;
+  onChange: (code: string | null) => void;
+  disabled?: boolean;
+}
+
+// Sits inside the sale's form, so Enter applies the code instead of completing the sale
+export function PromoCodeInput({ appliedCode, matched, onChange, disabled = false }: PromoCodeInputProps) {
+  const [code, setCode] = useState('');
+
+  const apply = () => {
+    const normalized = normalizePromoCode(code);
+    if (!normalized) return;
+
+    setCode('');
+    onChange(normalized);
+  };
+
+  if (appliedCode) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between rounded-md border border-gray-200 px-3 py-2 text-sm">
+          <span className="inline-flex items-center text-gray-700">
+            <Tag className="h-4 w-4 mr-2 text-gray-400" />
+            Promo code <span className="ml-1 font-mono font-medium text-gray-900">{appliedCode}</span>
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            aria-label="Remove promo code"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {!matched && <p className="text-xs text-yellow-700">This code does not apply to anything in this sale.</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-end space-x-2">
+      <div className="flex-1">
+        <Input
+          label="Promo Code"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              apply();
+            }
+          }}
+          placeholder="Optional"
+          autoComplete="off"
+          disabled={disabled}
+        />
+      </div>
+      <Button type="button" variant="outline" onClick={apply} disabled={disabled || !code.trim()}>
+        Apply
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AlertCircle, Info } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import {
+  DISCOUNT_TYPES,
+  PROMOTION_TARGETS,
+  normalizePromoCode,
+  savePromotion,
+  type PromotionWithUsage,
+} from '../../lib/promotions';
+import { getProducts, type Product } from '../../lib/products';
+import { getMembershipPlans, type MembershipPlan } from '../../lib/plans';
+
+const isWholeNumber = (value: string, min: number) =>
+  value.trim() !== '' && Number.isInteger(Number(value)) && Number(value) >= min;
+
+const promotionSchema = z.object({
+  name: z.string()
+    .trim()
+    .nonempty('Promotion name is required')
+    .max(80, 'Promotion name must be 80 characters or fewer'),
+  applies_to: z.enum(['PRODUCT', 'MEMBERSHIP']),
+  discount_type: z.enum(['PERCENTAGE', 'FIXED', 'BUNDLE']),
+  // Numbers are kept as entered; only the ones the discount type uses are checked
+  percent_off: z.string(),
+  amount_off: z.string(),
+  buy_quantity: z.string(),
+  free_quantity: z.string(),
+  // Empty for any plan
+  plan_id: z.string(),
+  product_ids: z.array(z.string()),
+  starts_on: z.string(),
+  ends_on: z.string(),
+  usage_limit: z.string()
+    .refine(value => value.trim() === '' || isWholeNumber(value, 1), {
+      message: 'Usage limit must be a whole number of at least 1',
+    }),
+  code: z.string()
+    .refine(value => /^([A-Z0-9-]{3,20})?$/.test(normalizePromoCode(value)), {
+      message: 'Code must be 3-20 letters, digits or dashes',
+    }),
+  is_active: z.boolean(),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or fewer'),
+}).superRefine((data, ctx) => {
+  if (data.discount_type === 'PERCENTAGE') {
+    const percent = Number(data.percent_off);
+    if (data.percent_off.trim() === '' || !(percent > 0 && percent <= 100)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['percent_off'], message: 'Enter a percentage between 0 and 100' });
+    }
+  } else if (data.discount_type === 'FIXED') {
+    if (data.amount_off.trim() === '' || !(Number(data.amount_off) > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount_off'], message: 'Enter an amount greater than 0' });
+    }
+  } else {
+    if (data.applies_to !== 'PRODUCT') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['discount_type'], message: 'Bundles only apply to POS products' });
+    }
+    if (!isWholeNumber(data.buy_quantity, 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buy_quantity'], message: 'Buy must be a whole number of at least 1' });
+    }
+    if (!isWholeNumber(data.free_quantity, 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['free_quantity'], message: 'Free must be a whole number of at least 1' });
+    }
+  }
+
+  if (data.starts_on && data.ends_on && data.ends_on < data.starts_on) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ends_on'], message: 'End date must be on or after the start date' });
+  }
+});
+
+type PromotionFormData = z.infer<typeof promotionSchema>;
+
+interface PromotionFormProps {
+  promotion?: PromotionWithUsage | null;
+  onSaved: (promotionId: string) => void;
+  onCancel: () => void;
+}
+
+export function PromotionForm({ promotion, onSaved, onCancel }: PromotionFormProps) {
+  const [products, setProducts] = useState<Product[] | null>(null);
+  const [plans, setPlans] = useState<MembershipPlan[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: {
+      name: promotion?.name ?? '',
+      applies_to: promotion?.applies_to ?? 'PRODUCT',
+      discount_type: promotion?.discount_type ?? 'PERCENTAGE',
+      percent_off: promotion?.percent_off?.toString() ?? '10',
+      amount_off: promotion?.amount_off?.toString() ?? '',
+      buy_quantity: promotion?.buy_quantity?.toString() ?? '2',
+      free_quantity: promotion?.free_quantity?.toString() ?? '1',
+      plan_id: promotion?.plan_id ?? '',
+      product_ids: promotion?.product_ids ?? [],
+      starts_on: promotion?.starts_on ?? '',
+      ends_on: promotion?.ends_on ?? '',
+      usage_limit: promotion?.usage_limit?.toString() ?? '',
+      code: promotion?.code ?? '',
+      is_active: promotion?.is_active ?? true,
+      description: promotion?.description ?? '',
+    },
+  });
+
+  const appliesTo = watch('applies_to');
+  const discountType = watch('discount_type');
+  const productIds = watch('product_ids');
+
+  useEffect(() => {
+    Promise.all([getProducts(), getMembershipPlans()])
+      .then(([productList, planList]) => {
+        setProducts(productList);
+        setPlans(planList);
+      })
+      .catch(err => {
+        console.error('Error loading products and plans:', err);
+        setError('Failed to load products and plans.');
+      });
+  }, []);
+
+  const toggleProduct = (productId: string) => {
+    setValue(
+      'product_ids',
+      productIds.includes(productId) ? productIds.filter(id => id !== productId) : [...productIds, productId]
+    );
+  };
+
+  const onSubmit = async (data: PromotionFormData) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const promotionId = await savePromotion(
+        {
+          name: data.name,
+          description: data.description.trim() || null,
+          applies_to: data.applies_to,
+          discount_type: data.discount_type,
+          percent_off: data.discount_type === 'PERCENTAGE' ? Number(data.percent_off) : null,
+          amount_off: data.discount_type === 'FIXED' ? Number(data.amount_off) : null,
+          buy_quantity: data.discount_type === 'BUNDLE' ? Number(data.buy_quantity) : null,
+          free_quantity: data.discount_type === 'BUNDLE' ? Number(data.free_quantity) : null,
+          plan_id: data.applies_to === 'MEMBERSHIP' ? data.plan_id || null : null,
+          product_ids: data.applies_to === 'PRODUCT' ? data.product_ids : [],
+          starts_on: data.starts_on || null,
+          ends_on: data.ends_on || null,
+          usage_limit: data.usage_limit.trim() ? Number(data.usage_limit) : null,
+          code: normalizePromoCode(data.code) || null,
+          is_active: data.is_active,
+        },
+        promotion?.id
+      );
+      onSaved(promotionId);
+    } catch (err) {
+      console.error('Error saving promotion:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save promotion. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {promotion && promotion.times_used > 0 && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            This promotion has been used {promotion.times_used} time{promotion.times_used === 1 ? '' : 's'}.
+            Changes apply to future sales only; past discounts are kept.
+          </span>
+        </div>
+      )}
+
+      <Input
+        label="Promotion Name"
+        autoComplete="off"
+        {...register('name')}
+        error={errors.name?.message}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          label="Applies To"
+          {...register('applies_to')}
+        >
+          {PROMOTION_TARGETS.map(target => (
+            <option key={target.value} value={target.value}>
+              {target.label}
+            </option>
+          ))}
+        </Select>
+
+        <Select
+          label="Discount"
+          {...register('discount_type')}
+          error={errors.discount_type?.message}
+        >
+          {DISCOUNT_TYPES.map(type => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      {discountType === 'PERCENTAGE' && (
+        <Input
+          label="Percent Off"
+          type="number"
+          step="0.01"
+          min="0"
+          max="100"
+          {...register('percent_off')}
+          error={errors.percent_off?.message}
+        />
+      )}
+
+      {discountType === 'FIXED' && (
+        <Input
+          label="Amount Off"
+          type="number"
+          step="0.01"
+          min="0"
+          {...register('amount_off')}
+          error={errors.amount_off?.message}
+          helperText={appliesTo === 'PRODUCT' ? 'Taken off each unit, never below its price' : 'Taken off the plan price'}
+        />
+      )}
+
+      {discountType === 'BUNDLE' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Buy"
+            type="number"
+            min="1"
+            {...register('buy_quantity')}
+            error={errors.buy_quantity?.message}
+          />
+          <Input
+            label="Get Free"
+            type="number"
+            min="1"
+            {...register('free_quantity')}
+            error={errors.free_quantity?.message}
+            helperText="The cheapest units in the bundle are free"
+          />
+        </div>
+      )}
+
+      {appliesTo === 'PRODUCT' && products && (
+        <div className="space-y-1">
+          <p className="block text-sm font-medium text-gray-700">Products</p>
+          <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 p-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+            {products.map(product => (
+              <label key={product.id} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-gray-300"
+                  checked={productIds.includes(product.id)}
+                  onChange={() => toggleProduct(product.id)}
+                />
+                {product.name}
+              </label>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500">Leave all unticked to cover every product</p>
+        </div>
+      )}
+
+      {appliesTo === 'MEMBERSHIP' && plans && (
+        <Select
+          label="Plan"
+          {...register('plan_id')}
+        >
+          <option value="">Any plan</option>
+          {plans.map(plan => (
+            <option key={plan.id} value={plan.id}>
+              {plan.name}
+            </option>
+          ))}
+        </Select>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Starts On"
+          type="date"
+          {...register('starts_on')}
+          helperText="Leave empty to start now"
+        />
+        <Input
+          label="Ends On"
+          type="date"
+          {...register('ends_on')}
+          error={errors.ends_on?.message}
+          helperText="Leave empty to run until deactivated"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Promo Code"
+          autoComplete="off"
+          {...register('code')}
+          error={errors.code?.message}
+          helperText="Leave empty to apply automatically"
+        />
+        <Input
+          label="Usage Limit"
+          type="number"
+          min="1"
+          {...register('usage_limit')}
+          error={errors.usage_limit?.message}
+          helperText="Sales it can be used in; empty for no limit"
+        />
+      </div>
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input type="checkbox" className="mr-2 rounded border-gray-300" {...register('is_active')} />
+        Active
+      </label>
+
+      <Textarea
+        label="Description"
+        {...register('description')}
+        error={errors.description?.message}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={saving} disabled={saving}>
+          {promotion ? 'Save Changes' : 'Create Promotion'}
+        </Button>
+      </div>
+    </form>
+  );
+}
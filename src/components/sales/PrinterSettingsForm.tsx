@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Info } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import {
+  PRINTER_MODES,
+  connectUsbPrinter,
+  getPrinterSettings,
+  getUsbPrinterName,
+  isUsbSupported,
+  printTestReceipt,
+  savePrinterSettings,
+  type PrinterMode,
+} from '../../lib/receiptPrinter';
+
+interface PrinterSettingsFormProps {
+  onClose: () => void;
+}
+
+export function PrinterSettingsForm({ onClose }: PrinterSettingsFormProps) {
+  const [settings, setSettings] = useState(getPrinterSettings);
+  const [usbPrinter, setUsbPrinter] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUsbPrinterName()
+      .then(setUsbPrinter)
+      .catch(err => console.error('Error loading USB printer:', err));
+  }, []);
+
+  const handleConnect = async () => {
+    setConnecting(true);
+    setError(null);
+
+    try {
+      setUsbPrinter(await connectUsbPrinter());
+    } catch (err) {
+      console.error('Error connecting USB printer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to connect the printer.');
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setError(null);
+    setSuccess(null);
+    savePrinterSettings(settings);
+
+    try {
+      await printTestReceipt();
+      setSuccess('Test receipt sent.');
+    } catch (err) {
+      console.error('Error printing test receipt:', err);
+      setError(err instanceof Error ? err.message : 'Failed to print the test receipt.');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    savePrinterSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm flex items-start">
+        <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <span>
+          These settings apply to this computer only. If the receipt printer cannot be reached, the receipt opens in
+          the browser's print dialog instead.
+        </span>
+      </div>
+
+      <Select
+        label="Print To"
+        value={settings.mode}
+        onChange={e => setSettings({ ...settings, mode: e.target.value as PrinterMode })}
+      >
+        {PRINTER_MODES.map(mode => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </Select>
+
+      {settings.mode === 'USB' && (
+        <div className="flex items-center justify-between rounded-md border border-gray-200 px-3 py-2 text-sm">
+          <span className="text-gray-700">
+            {isUsbSupported()
+              ? usbPrinter ?? 'No printer connected'
+              : 'This browser does not support USB printers.'}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleConnect}
+            loading={connecting}
+            disabled={!isUsbSupported()}
+          >
+            {usbPrinter ? 'Change Printer' : 'Connect Printer'}
+          </Button>
+        </div>
+      )}
+
+      {settings.mode === 'BRIDGE' && (
+        <Input
+          label="Bridge URL"
+          value={settings.bridgeUrl}
+          onChange={e => setSettings({ ...settings, bridgeUrl: e.target.value })}
+          helperText="The print bridge receives the raw ESC/POS receipt as a POST request."
+        />
+      )}
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="mr-2 rounded border-gray-300"
+          checked={settings.autoPrint}
+          onChange={e => setSettings({ ...settings, autoPrint: e.target.checked })}
+        />
+        Print a receipt automatically after every sale
+      </label>
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={handleTest} loading={testing}>
+          Print Test
+        </Button>
+        <Button type="button" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { printReceipt } from '../../lib/receiptPrinter';
+
+interface ReceiptButtonProps {
+  transactionId: string;
+  onError: (message: string) => void;
+}
+
+export function ReceiptButton({ transactionId, onError }: ReceiptButtonProps) {
+  const [printing, setPrinting] = useState(false);
+
+  const handlePrint = async () => {
+    setPrinting(true);
+
+    try {
+      await printReceipt(transactionId);
+    } catch (err) {
+      console.error('Error printing receipt:', err);
+      onError(err instanceof Error ? err.message : 'Failed to print the receipt.');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handlePrint} loading={printing} title="Reprint receipt">
+      <Printer className="h-4 w-4 mr-1" />
+      Receipt
+    </Button>
+  );
+}
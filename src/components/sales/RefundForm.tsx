@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Info } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Textarea } from '../ui/Textarea';
+import { useAuthStore } from '../../store/authStore';
+import { hasRole } from '../../lib/auth';
+import type { Transaction } from '../../lib/members';
+import { getActiveShift, type Shift } from '../../lib/shifts';
+import { PAYMENT_METHODS, type PaymentMethod } from '../../lib/transactions';
+import { roundCurrency } from '../../lib/pos';
+import {
+  getRefundSummary,
+  getRefundableItems,
+  getSalePaymentCount,
+  requestRefund,
+  type RefundKind,
+  type RefundRequest,
+  type RefundSummary,
+  type RefundableItem,
+} from '../../lib/refunds';
+import { formatCurrency, formatDateTime } from '../../lib/utils';
+
+interface RefundFormProps {
+  transaction: Transaction;
+  onCompleted: (request: RefundRequest) => void;
+  onCancel: () => void;
+}
+
+export function RefundForm({ transaction, onCompleted, onCancel }: RefundFormProps) {
+  const { profile } = useAuthStore();
+  const isAdmin = hasRole(profile, 'ADMIN');
+  // Refunds are paid out of the shift that is open now, not the one the sale was made on
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [summary, setSummary] = useState<RefundSummary | null>(null);
+  const [items, setItems] = useState<RefundableItem[]>([]);
+  const [paymentCount, setPaymentCount] = useState(1);
+  const [returned, setReturned] = useState<Record<string, number>>({});
+  const [kind, setKind] = useState<RefundKind>('REFUND');
+  const [amount, setAmount] = useState(NaN);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(transaction.payment_method);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [activeShift, refundSummary, saleItems, payments] = await Promise.all([
+          getActiveShift(),
+          getRefundSummary(transaction.id),
+          transaction.type === 'POS_SALE' ? getRefundableItems(transaction.id) : Promise.resolve([]),
+          getSalePaymentCount(transaction),
+        ]);
+
+        setShift(activeShift);
+        setSummary(refundSummary);
+        setItems(saleItems);
+        setPaymentCount(payments);
+        setAmount(roundCurrency(transaction.amount - refundSummary.refunded - refundSummary.pending));
+      } catch (err) {
+        console.error('Error loading refund details:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load refund details.');
+      }
+    };
+
+    load();
+  }, [transaction]);
+
+  if (!summary) {
+    return error ? (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+        <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <span>{error}</span>
+      </div>
+    ) : (
+      <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+    );
+  }
+
+  const remaining = roundCurrency(transaction.amount - summary.refunded - summary.pending);
+  // Voids undo a mistake on the shift it happened on; anything later is a refund
+  const voidableShift = shift?.id === transaction.shift_id && summary.refunded === 0 && summary.pending === 0;
+  // A void returns the whole sale to stock, which one payment of a split sale does not cover
+  const canVoid = voidableShift && paymentCount === 1;
+  const returnedValue = roundCurrency(
+    items.reduce((total, item) => total + item.unit_price * (returned[item.product_id] ?? 0), 0)
+  );
+
+  const setReturnedQuantity = (item: RefundableItem, quantity: number) => {
+    const available = item.quantity_sold - item.quantity_returned;
+    const next = { ...returned, [item.product_id]: Math.max(0, Math.min(available, quantity || 0)) };
+    setReturned(next);
+
+    // The amount follows the returned goods until a void fixes it to the full sale
+    if (kind === 'REFUND') {
+      const value = items.reduce((total, i) => total + i.unit_price * (next[i.product_id] ?? 0), 0);
+      setAmount(Math.min(remaining, roundCurrency(value)));
+    }
+  };
+
+  const handleKindChange = (next: RefundKind) => {
+    setKind(next);
+
+    if (next === 'VOID') {
+      setAmount(transaction.amount);
+      setReturned(Object.fromEntries(items.map(item => [item.product_id, item.quantity_sold - item.quantity_returned])));
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      onCompleted(
+        await requestRefund({
+          transactionId: transaction.id,
+          kind,
+          amount,
+          paymentMethod,
+          items: Object.entries(returned).map(([productId, quantity]) => ({ productId, quantity })),
+          reason,
+          shiftId: shift?.id ?? null,
+        })
+      );
+    } catch (err) {
+      console.error('Error requesting refund:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record the refund. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const invalidAmount = !(amount > 0) || amount > remaining;
+  const needsShift = isAdmin && !shift;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="rounded-md border border-gray-200 divide-y divide-gray-200 text-sm">
+        <div className="flex justify-between px-3 py-2">
+          <span className="text-gray-700">{transaction.description || transaction.type.replace(/_/g, ' ')}</span>
+          <span className="text-gray-900">{formatCurrency(transaction.amount)}</span>
+        </div>
+        <div className="flex justify-between px-3 py-2 text-gray-600">
+          <span>Paid {formatDateTime(transaction.created_at)}</span>
+          <span>{transaction.payment_method.replace(/_/g, ' ')}</span>
+        </div>
+        {(summary.refunded > 0 || summary.pending > 0) && (
+          <div className="flex justify-between px-3 py-2 text-gray-600">
+            <span>
+              Already refunded{summary.pending > 0 && ` (${formatCurrency(summary.pending)} awaiting approval)`}
+            </span>
+            <span>{formatCurrency(summary.refunded)}</span>
+          </div>
+        )}
+        <div className="flex justify-between px-3 py-2 font-semibold text-gray-900">
+          <span>Left to refund</span>
+          <span>{formatCurrency(remaining)}</span>
+        </div>
+      </div>
+
+      {remaining <= 0 ? (
+        <p className="text-sm text-gray-600">This transaction has nothing left to refund.</p>
+      ) : (
+        <>
+          {canVoid && (
+            <Select label="Action" value={kind} onChange={e => handleKindChange(e.target.value as RefundKind)}>
+              <option value="REFUND">Refund</option>
+              <option value="VOID">Void (cancel the whole transaction)</option>
+            </Select>
+          )}
+
+          {voidableShift && paymentCount > 1 && (
+            <p className="text-sm text-gray-600">
+              This sale was split across {paymentCount} payments, so it cannot be voided. Refund each payment instead.
+            </p>
+          )}
+
+          {items.length > 0 && (
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">Items returned to stock</p>
+              <div className="rounded-md border border-gray-200 divide-y divide-gray-200 text-sm">
+                {items.map(item => {
+                  const available = item.quantity_sold - item.quantity_returned;
+                  return (
+                    <div key={item.product_id} className="flex items-center justify-between px-3 py-2">
+                      <div>
+                        <p className="text-gray-900">{item.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {item.quantity_sold} sold @ {formatCurrency(item.unit_price)}
+                          {item.quantity_returned > 0 && ` · ${item.quantity_returned} already returned`}
+                        </p>
+                      </div>
+                      <div className="w-20">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={available}
+                          value={returned[item.product_id] ?? 0}
+                          onChange={e => setReturnedQuantity(item, e.target.valueAsNumber)}
+                          disabled={available === 0 || kind === 'VOID'}
+                          aria-label={`${item.name} returned`}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {returnedValue > 0 && (
+                <p className="mt-1 text-xs text-gray-500">Returned goods are worth {formatCurrency(returnedValue)}.</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Refund Amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={remaining}
+              value={Number.isNaN(amount) ? '' : amount}
+              onChange={e => setAmount(e.target.valueAsNumber)}
+              disabled={kind === 'VOID'}
+              error={amount > remaining ? `At most ${formatCurrency(remaining)}` : undefined}
+            />
+            <Select
+              label="Refund Method"
+              value={paymentMethod}
+              onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}
+            >
+              {PAYMENT_METHODS.map(method => (
+                <option key={method.value} value={method.value}>
+                  {method.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <Textarea
+            label="Reason"
+            rows={2}
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Why is the money being given back?"
+          />
+
+          {transaction.type === 'MEMBERSHIP' && (
+            <p className="text-xs text-gray-500">Refunding the full amount cancels the membership.</p>
+          )}
+          {transaction.type === 'COUPON_SALE' && (
+            <p className="text-xs text-gray-500">Refunding the full amount deactivates the coupon.</p>
+          )}
+
+          {needsShift ? (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+              <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>Open a shift first; refunds are paid out of the current shift.</span>
+            </div>
+          ) : !isAdmin && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm flex items-start">
+              <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>An admin must approve this before any money is paid out.</span>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        {remaining > 0 && (
+          <Button
+            type="submit"
+            variant={kind === 'VOID' ? 'danger' : 'primary'}
+            loading={submitting}
+            disabled={invalidAmount || !reason.trim() || needsShift}
+          >
+            {isAdmin ? (kind === 'VOID' ? 'Void Transaction' : 'Issue Refund') : 'Request Approval'}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
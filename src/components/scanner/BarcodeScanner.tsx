@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff, AlertCircle, Keyboard } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { SCANNER_FORMATS, normalizeScannedCode } from '../../lib/scanner';
+import { useKeyboardWedge } from './useKeyboardWedge';
+
+interface BarcodeScannerProps {
+  onScan: (code: string) => void;
+  disabled?: boolean;
+}
+
+const DETECT_INTERVAL_MS = 250;
+const DUPLICATE_WINDOW_MS = 2500;
+
+export function BarcodeScanner({ onScan, disabled = false }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ code: string; time: number } | null>(null);
+  const onScanRef = useRef(onScan);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+
+  // Drop repeat reads of the same code while it stays in front of the camera
+  const emitScan = (raw: string) => {
+    const code = normalizeScannedCode(raw);
+    if (!code) return;
+
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.code === code && now - last.time < DUPLICATE_WINDOW_MS) return;
+
+    lastScanRef.current = { code, time: now };
+    onScanRef.current(code);
+  };
+
+  useKeyboardWedge(emitScan, { enabled: !disabled });
+
+  useEffect(() => {
+    if (!cameraOn || disabled) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      if (!window.BarcodeDetector) {
+        setError('This browser cannot read barcodes from the camera. Use a USB scanner or type the code.');
+        setCameraOn(false);
+        return;
+      }
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Camera access is not available in this browser.');
+        setCameraOn(false);
+        return;
+      }
+
+      try {
+        const supported = await window.BarcodeDetector.getSupportedFormats();
+        const formats = SCANNER_FORMATS.filter(format => supported.includes(format));
+        const detector = new window.BarcodeDetector({ formats });
+
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+
+        if (cancelled || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        let detecting = false;
+        timer = setInterval(async () => {
+          const video = videoRef.current;
+          if (detecting || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+          detecting = true;
+          try {
+            const barcodes = await detector.detect(video);
+            if (barcodes.length > 0) emitScan(barcodes[0].rawValue);
+          } catch (err) {
+            console.error('Barcode detection error:', err);
+          } finally {
+            detecting = false;
+          }
+        }, DETECT_INTERVAL_MS);
+      } catch (err) {
+        console.error('Error starting camera scanner:', err);
+        setError(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'Camera permission was denied. Allow camera access in the browser to scan.'
+            : 'Could not start the camera.'
+        );
+        setCameraOn(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn, disabled]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center text-sm text-gray-600">
+          <Keyboard className="h-4 w-4 mr-2 text-gray-400" />
+          USB scanner ready
+        </p>
+        <Button
+          type="button"
+          size="sm"
+          variant={cameraOn ? 'secondary' : 'outline'}
+          onClick={() => {
+            setError(null);
+            setCameraOn(!cameraOn);
+          }}
+          disabled={disabled}
+        >
+          {cameraOn ? (
+            <>
+              <CameraOff className="h-4 w-4 mr-2" />
+              Stop Camera
+            </>
+          ) : (
+            <>
+              <Camera className="h-4 w-4 mr-2" />
+              Scan with Camera
+            </>
+          )}
+        </Button>
+      </div>
+
+      {cameraOn && (
+        <div className="relative overflow-hidden rounded-lg bg-gray-900">
+          <video ref={videoRef} className="w-full max-h-72 object-cover" muted playsInline />
+          <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/70" />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
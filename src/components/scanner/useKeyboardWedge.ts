@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+
+interface KeyboardWedgeOptions {
+  enabled?: boolean;
+  minLength?: number;
+  maxKeyIntervalMs?: number;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/*
+  USB barcode scanners in keyboard-wedge mode "type" the code followed by Enter,
+  far faster than a person can. Keystrokes are buffered while they keep arriving
+  within maxKeyIntervalMs of each other; Enter then emits the buffer as a scan.
+  Keys typed into form fields are left alone so the field receives them normally.
+*/
+export function useKeyboardWedge(
+  onScan: (code: string) => void,
+  { enabled = true, minLength = 4, maxKeyIntervalMs = 50 }: KeyboardWedgeOptions = {}
+) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyTime = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || event.ctrlKey || event.altKey || event.metaKey) {
+        return;
+      }
+
+      const now = performance.now();
+      if (now - lastKeyTime > maxKeyIntervalMs) buffer = '';
+      lastKeyTime = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= minLength) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        return;
+      }
+
+      if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, minLength, maxKeyIntervalMs]);
+}
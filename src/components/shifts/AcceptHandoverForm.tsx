@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { DenominationCount } from './DenominationCount';
+import { acceptHandover, type Shift, type ShiftDetails } from '../../lib/shifts';
+import { getDenominations, toCashCountLines, type CashDenomination, type CashQuantities } from '../../lib/cash';
+import { getSettings } from '../../lib/settings';
+
+interface AcceptHandoverFormProps {
+  shift: ShiftDetails;
+  onAccepted: (shift: Shift) => void;
+  onCancel: () => void;
+}
+
+// The handed over amount is not shown, so the incoming count is made independently
+export function AcceptHandoverForm({ shift, onAccepted, onCancel }: AcceptHandoverFormProps) {
+  const [denominations, setDenominations] = useState<CashDenomination[]>([]);
+  const [currency, setCurrency] = useState('USD');
+  const [quantities, setQuantities] = useState<CashQuantities>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSettings()
+      .then(async settings => {
+        setCurrency(settings.cash_currency);
+        setDenominations(await getDenominations(settings.cash_currency, { activeOnly: true }));
+      })
+      .catch(err => {
+        console.error('Error loading denominations:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the notes and coins to count.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      onAccepted(await acceptHandover(shift.id, toCashCountLines(denominations, quantities)));
+    } catch (err) {
+      console.error('Error accepting handover:', err);
+      setError(err instanceof Error ? err.message : 'Failed to take over the shift. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Count the drawer {shift.ending_staff_name ?? 'the previous staff member'} left. Your shift starts once your
+        count matches theirs; if it doesn't, count again or ask them to recount.
+      </p>
+
+      {denominations.length === 0 ? (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>No notes or coins are set up for {currency}. An admin can add them in System Settings.</span>
+        </div>
+      ) : (
+        <DenominationCount
+          denominations={denominations}
+          quantities={quantities}
+          onChange={setQuantities}
+          disabled={submitting}
+        />
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={submitting} disabled={submitting || denominations.length === 0}>
+          Take Over
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import {
+  getHandoverCancellations,
+  getShiftCashCounts,
+  type HandoverCancellation,
+  type ShiftCashCount,
+} from '../../lib/cash';
+import type { ShiftDetails } from '../../lib/shifts';
+import { formatCurrency, formatDateTime } from '../../lib/utils';
+
+const headerCellClass = 'px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-2 whitespace-nowrap text-sm text-gray-900';
+
+const COUNT_TITLES: Record<ShiftCashCount['count_type'], string> = {
+  OPENING: 'Counted at Takeover',
+  CLOSING: 'Counted at Close',
+};
+
+interface CashCountBreakdownProps {
+  shift: ShiftDetails;
+}
+
+export function CashCountBreakdown({ shift }: CashCountBreakdownProps) {
+  const [counts, setCounts] = useState<ShiftCashCount[]>([]);
+  const [cancellations, setCancellations] = useState<HandoverCancellation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getShiftCashCounts(shift.id), getHandoverCancellations(shift.id)])
+      .then(([shiftCounts, shiftCancellations]) => {
+        setCounts(shiftCounts);
+        setCancellations(shiftCancellations);
+      })
+      .catch(err => {
+        console.error('Error loading cash counts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the cash count.');
+      })
+      .finally(() => setLoading(false));
+  }, [shift.id]);
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+        <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (counts.length === 0) {
+    return <p className="text-sm text-gray-500">No count recorded for this shift.</p>;
+  }
+
+  const renderCount = (key: string, title: string, lines: ShiftCashCount[], note?: string) => {
+    if (lines.length === 0) return null;
+
+    const total = lines.reduce((sum, line) => sum + line.denomination * line.quantity, 0);
+
+    return (
+      <div key={key} className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+        {note && <p className="text-sm text-gray-600">{note}</p>}
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCellClass}>Denomination</th>
+              <th className={headerCellClass}>Quantity</th>
+              <th className={`${headerCellClass} text-right`}>Amount</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.map(line => (
+              <tr key={line.id}>
+                <td className={cellClass}>{formatCurrency(line.denomination, line.currency)}</td>
+                <td className={cellClass}>{line.quantity}</td>
+                <td className={`${cellClass} text-right`}>
+                  {formatCurrency(line.denomination * line.quantity, line.currency)}
+                </td>
+              </tr>
+            ))}
+            <tr className="font-medium">
+              <td className={cellClass} colSpan={2}>Total</td>
+              <td className={`${cellClass} text-right`}>{formatCurrency(total, lines[0].currency)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {(['CLOSING', 'OPENING'] as const).map(countType =>
+        renderCount(
+          countType,
+          COUNT_TITLES[countType],
+          counts.filter(c => c.count_type === countType && c.cancellation_id === null)
+        )
+      )}
+      {cancellations.map(cancellation =>
+        renderCount(
+          cancellation.id,
+          `Counted at Close, Handover Cancelled ${formatDateTime(cancellation.cancelled_at)}`,
+          counts.filter(c => c.cancellation_id === cancellation.id),
+          cancellation.notes ?? undefined
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Textarea } from '../ui/Textarea';
+import { DenominationCount } from './DenominationCount';
+import { closeShift, getShiftCash, type Shift, type ShiftCash, type ShiftDetails } from '../../lib/shifts';
+import {
+  getCashCountTotal,
+  getDenominations,
+  toCashCountLines,
+  type CashDenomination,
+  type CashQuantities,
+} from '../../lib/cash';
+import { getSettings } from '../../lib/settings';
+import { roundCurrency } from '../../lib/pos';
+import { formatCurrency } from '../../lib/utils';
+
+interface CloseShiftFormProps {
+  shift: ShiftDetails;
+  onClosed: (shift: Shift) => void;
+  onCancel: () => void;
+}
+
+export function CloseShiftForm({ shift, onClosed, onCancel }: CloseShiftFormProps) {
+  const [cash, setCash] = useState<ShiftCash | null>(null);
+  const [denominations, setDenominations] = useState<CashDenomination[]>([]);
+  const [currency, setCurrency] = useState('USD');
+  const [threshold, setThreshold] = useState(0);
+  const [quantities, setQuantities] = useState<CashQuantities>({});
+  const [handover, setHandover] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getShiftCash(shift.id), getSettings()])
+      .then(async ([shiftCash, settings]) => {
+        setCash(shiftCash);
+        setThreshold(settings.cash_discrepancy_threshold);
+        setCurrency(settings.cash_currency);
+        setDenominations(await getDenominations(settings.cash_currency, { activeOnly: true }));
+      })
+      .catch(err => {
+        console.error('Error loading shift cash:', err);
+        setError(err instanceof Error ? err.message : 'Failed to work out the expected cash.');
+      })
+      .finally(() => setLoading(false));
+  }, [shift.id]);
+
+  const counts = toCashCountLines(denominations, quantities);
+  const counted = getCashCountTotal(counts);
+  // Counted minus expected, so a shortage is negative
+  const discrepancy = cash ? roundCurrency(counted - cash.expected_cash) : null;
+  const needsNote = discrepancy !== null && Math.abs(discrepancy) > threshold;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      onClosed(await closeShift({
+        shiftId: shift.id,
+        counts,
+        notes: notes.trim() || null,
+        handover,
+      }));
+    } catch (err) {
+      console.error('Error closing shift:', err);
+      setError(err instanceof Error ? err.message : 'Failed to close the shift. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {cash && (
+        <div className="rounded-md border border-gray-200 bg-gray-50 p-4 text-sm space-y-2">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Starting float</span>
+            <span className="text-gray-900">{formatCurrency(cash.starting_cash_float)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Cash taken</span>
+            <span className="text-gray-900">{formatCurrency(cash.cash_taken)}</span>
+          </div>
+          {cash.cash_refunded > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Cash refunded</span>
+              <span className="text-gray-900">−{formatCurrency(cash.cash_refunded)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-gray-200 pt-2 font-medium">
+            <span className="text-gray-900">Expected in drawer</span>
+            <span className="text-gray-900">{formatCurrency(cash.expected_cash)}</span>
+          </div>
+        </div>
+      )}
+
+      {denominations.length === 0 ? (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>No notes or coins are set up for {currency}. An admin can add them in System Settings.</span>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <p className="block text-sm font-medium text-gray-700">Count the Drawer</p>
+          <DenominationCount
+            denominations={denominations}
+            quantities={quantities}
+            onChange={setQuantities}
+            disabled={submitting}
+          />
+          <p className="text-sm text-gray-500">Everything in the drawer, including the float</p>
+        </div>
+      )}
+
+      {discrepancy !== null && (
+        <p className={`text-sm font-medium ${discrepancy === 0 ? 'text-green-700' : needsNote ? 'text-red-700' : 'text-yellow-700'}`}>
+          {discrepancy === 0
+            ? 'The drawer balances.'
+            : `${formatCurrency(Math.abs(discrepancy))} ${discrepancy < 0 ? 'short' : 'over'}.`}
+          {needsNote && ' This is above the allowed difference, so an admin will need to acknowledge it.'}
+        </p>
+      )}
+
+      <Textarea
+        label={needsNote ? 'Notes (required)' : 'Notes'}
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        placeholder={needsNote ? 'Explain the difference' : 'Optional'}
+      />
+
+      {shift.terminal_id && (
+        <label className="flex items-start text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mr-2 mt-0.5 rounded border-gray-300"
+            checked={handover}
+            onChange={e => setHandover(e.target.checked)}
+          />
+          <span>
+            Hand over to the next staff member. They count the drawer again, and their shift starts with this count
+            as its float.
+          </span>
+        </label>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          loading={submitting}
+          disabled={submitting || !cash || denominations.length === 0 || (needsNote && !notes.trim())}
+        >
+          {handover ? 'Hand Over' : 'Close Shift'}
+        </Button>
+      </div>
+    </form>
+  );
+}
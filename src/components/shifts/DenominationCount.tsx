@@ -0,0 +1,67 @@
+import {
+  getCashCountTotal,
+  toCashCountLines,
+  type CashDenomination,
+  type CashQuantities,
+} from '../../lib/cash';
+import { formatCurrency } from '../../lib/utils';
+
+interface DenominationCountProps {
+  denominations: CashDenomination[];
+  quantities: CashQuantities;
+  onChange: (quantities: CashQuantities) => void;
+  disabled?: boolean;
+}
+
+// Notes and coins side by side, each with how many are in the drawer
+export function DenominationCount({ denominations, quantities, onChange, disabled = false }: DenominationCountProps) {
+  const total = getCashCountTotal(toCashCountLines(denominations, quantities));
+
+  const renderColumn = (title: string, column: CashDenomination[]) => (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</p>
+      {column.map(d => {
+        const quantity = quantities[d.id] ?? 0;
+
+        return (
+          <div key={d.id} className="flex items-center text-sm">
+            <span className="w-20 text-gray-900">{formatCurrency(d.denomination, d.currency)}</span>
+            <span className="text-gray-400 mr-2">×</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              value={quantity === 0 ? '' : quantity}
+              onChange={e => {
+                const value = e.target.valueAsNumber;
+                onChange({ ...quantities, [d.id]: Number.isInteger(value) && value > 0 ? value : 0 });
+              }}
+              aria-label={`Number of ${formatCurrency(d.denomination, d.currency)} ${d.kind === 'NOTE' ? 'notes' : 'coins'}`}
+              disabled={disabled}
+            />
+            <span className="ml-auto text-gray-600">
+              {quantity > 0 ? formatCurrency(d.denomination * quantity, d.currency) : ''}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const notes = denominations.filter(d => d.kind === 'NOTE');
+  const coins = denominations.filter(d => d.kind === 'COIN');
+
+  return (
+    <div className="rounded-md border border-gray-200 p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {notes.length > 0 && renderColumn('Notes', notes)}
+        {coins.length > 0 && renderColumn('Coins', coins)}
+      </div>
+      <div className="flex justify-between border-t border-gray-200 pt-3 text-sm font-medium text-gray-900">
+        <span>Counted</span>
+        <span>{formatCurrency(total, denominations[0]?.currency)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Plus } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import {
+  addDenomination,
+  DENOMINATION_KINDS,
+  getDenominations,
+  setDenominationActive,
+  type CashDenomination,
+  type DenominationKind,
+} from '../../lib/cash';
+import { formatCurrency } from '../../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+interface DenominationDraft {
+  denomination: number;
+  kind: DenominationKind;
+}
+
+interface DenominationListProps {
+  currency: string;
+}
+
+export function DenominationList({ currency }: DenominationListProps) {
+  const [denominations, setDenominations] = useState<CashDenomination[]>([]);
+  const [draft, setDraft] = useState<DenominationDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDenominations = useCallback(async () => {
+    try {
+      setDenominations(await getDenominations(currency));
+    } catch (err) {
+      console.error('Error loading denominations:', err);
+      setError('Failed to load denominations.');
+    } finally {
+      setLoading(false);
+    }
+  }, [currency]);
+
+  useEffect(() => {
+    loadDenominations();
+  }, [loadDenominations]);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await addDenomination({ currency, denomination: draft.denomination, kind: draft.kind });
+      setDraft(null);
+      await loadDenominations();
+    } catch (err) {
+      console.error('Error saving denomination:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the denomination. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (denomination: CashDenomination) => {
+    setTogglingId(denomination.id);
+    setError(null);
+
+    try {
+      await setDenominationActive(denomination.id, !denomination.is_active);
+      await loadDenominations();
+    } catch (err) {
+      console.error('Error updating denomination:', err);
+      setError('Failed to update the denomination. Please try again.');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCellClass}>Value</th>
+              <th className={headerCellClass}>Kind</th>
+              <th className={headerCellClass}>Status</th>
+              <th className={headerCellClass}></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr className="animate-pulse">
+                <td colSpan={4} className="px-6 py-4">
+                  <div className="h-5 bg-gray-200 rounded"></div>
+                </td>
+              </tr>
+            ) : (
+              <>
+                {denominations.length === 0 && draft === null && (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No notes or coins for {currency} yet. Add them before closing a shift.
+                    </td>
+                  </tr>
+                )}
+                {denominations.map(denomination => (
+                  <tr key={denomination.id}>
+                    <td className={`${cellClass} font-medium`}>
+                      {formatCurrency(denomination.denomination, denomination.currency)}
+                    </td>
+                    <td className={cellClass}>
+                      {DENOMINATION_KINDS.find(k => k.value === denomination.kind)?.label ?? denomination.kind}
+                    </td>
+                    <td className={cellClass}>
+                      <span
+                        className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                          denomination.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {denomination.is_active ? 'Counted' : 'Retired'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleActive(denomination)}
+                        loading={togglingId === denomination.id}
+                        disabled={togglingId !== null}
+                      >
+                        {denomination.is_active ? 'Retire' : 'Reinstate'}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {draft && (
+                  <tr>
+                    <td className="px-6 py-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        value={Number.isNaN(draft.denomination) ? '' : draft.denomination}
+                        onChange={e => setDraft({ ...draft, denomination: e.target.valueAsNumber })}
+                        placeholder="e.g. 20"
+                        aria-label="Denomination value"
+                        autoFocus
+                      />
+                    </td>
+                    <td className="px-6 py-2">
+                      <Select
+                        value={draft.kind}
+                        onChange={e => setDraft({ ...draft, kind: e.target.value as DenominationKind })}
+                        aria-label="Denomination kind"
+                      >
+                        {DENOMINATION_KINDS.map(kind => (
+                          <option key={kind.value} value={kind.value}>
+                            {kind.label}
+                          </option>
+                        ))}
+                      </Select>
+                    </td>
+                    <td className="px-6 py-2"></td>
+                    <td className="px-6 py-2 whitespace-nowrap text-right text-sm">
+                      <div className="flex justify-end space-x-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+                          Cancel
+                        </Button>
+                        <Button type="submit" size="sm" loading={saving} disabled={saving || !(draft.denomination > 0)}>
+                          Save
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {draft === null && (
+        <Button type="button" variant="outline" onClick={() => setDraft({ denomination: NaN, kind: 'NOTE' })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Denomination
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,145 @@
+import type { ReactNode } from 'react';
+import type { ShiftDetails } from '../../lib/shifts';
+import { formatCurrency, formatDateTime } from '../../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+interface ShiftTableProps {
+  shifts: ShiftDetails[];
+  emptyMessage: string;
+  loading?: boolean;
+  renderActions?: (shift: ShiftDetails) => ReactNode;
+}
+
+function ShiftStatus({ shift }: { shift: ShiftDetails }) {
+  if (shift.status === 'ACTIVE') {
+    return (
+      <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-blue-100 text-blue-800">
+        Open
+      </span>
+    );
+  }
+
+  if (shift.status === 'HANDOVER') {
+    return (
+      <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-purple-100 text-purple-800">
+        Handing over
+      </span>
+    );
+  }
+
+  if (shift.requires_acknowledgement && !shift.acknowledged_at) {
+    return (
+      <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-yellow-100 text-yellow-800">
+        Awaiting acknowledgement
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-green-100 text-green-800">
+        Closed
+      </span>
+      {shift.acknowledged_at && (
+        <p className="text-xs text-gray-500 mt-1">Acknowledged by {shift.acknowledged_by_name ?? 'an admin'}</p>
+      )}
+    </>
+  );
+}
+
+export function ShiftTable({ shifts, emptyMessage, loading = false, renderActions }: ShiftTableProps) {
+  const columnCount = renderActions ? 8 : 7;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className={headerCellClass}>Terminal</th>
+            <th className={headerCellClass}>Opened</th>
+            <th className={headerCellClass}>Closed</th>
+            <th className={headerCellClass}>Float</th>
+            <th className={headerCellClass}>Expected</th>
+            <th className={headerCellClass}>Counted</th>
+            <th className={headerCellClass}>Difference</th>
+            {renderActions && <th className={headerCellClass}></th>}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {loading ? (
+            [...Array(2)].map((_, i) => (
+              <tr key={i} className="animate-pulse">
+                <td colSpan={columnCount} className="px-6 py-4">
+                  <div className="h-5 bg-gray-200 rounded"></div>
+                </td>
+              </tr>
+            ))
+          ) : shifts.length === 0 ? (
+            <tr>
+              <td colSpan={columnCount} className="px-6 py-8 text-center text-sm text-gray-500">
+                {emptyMessage}
+              </td>
+            </tr>
+          ) : (
+            shifts.map((shift) => (
+              <tr key={shift.id}>
+                <td className={cellClass}>
+                  <p className="font-medium">{shift.terminal_name ?? 'No terminal'}</p>
+                  <div className="mt-1">
+                    <ShiftStatus shift={shift} />
+                  </div>
+                </td>
+                <td className={cellClass}>
+                  <p>{formatDateTime(shift.start_time)}</p>
+                  <p className="text-xs text-gray-500">{shift.starting_staff_name}</p>
+                  {shift.previous_shift_id && <p className="text-xs text-gray-500">Took over from previous shift</p>}
+                </td>
+                <td className={cellClass}>
+                  {shift.end_time ? (
+                    <>
+                      <p>{formatDateTime(shift.end_time)}</p>
+                      <p className="text-xs text-gray-500">{shift.ending_staff_name}</p>
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </td>
+                <td className={cellClass}>{formatCurrency(shift.starting_cash_float)}</td>
+                <td className={cellClass}>
+                  {shift.system_calculated_cash === null ? '—' : formatCurrency(shift.system_calculated_cash)}
+                </td>
+                <td className={cellClass}>
+                  {shift.ending_cash_balance === null ? '—' : formatCurrency(shift.ending_cash_balance)}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {shift.cash_discrepancy === null ? (
+                    '—'
+                  ) : (
+                    <span
+                      className={`whitespace-nowrap font-medium ${
+                        shift.cash_discrepancy === 0
+                          ? 'text-green-700'
+                          : shift.requires_acknowledgement
+                            ? 'text-red-700'
+                            : 'text-yellow-700'
+                      }`}
+                    >
+                      {shift.cash_discrepancy > 0 && '+'}
+                      {formatCurrency(shift.cash_discrepancy)}
+                    </span>
+                  )}
+                  {shift.notes && <p className="text-xs text-gray-500 max-w-xs">{shift.notes}</p>}
+                </td>
+                {renderActions && (
+                  <td className={`${cellClass} text-right`}>{renderActions(shift)}</td>
+                )}
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
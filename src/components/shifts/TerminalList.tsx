@@ -0,0 +1,189 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Pencil, Plus } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { getTerminals, saveTerminal, setTerminalActive, type Terminal } from '../../lib/terminals';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+interface TerminalDraft {
+  // Null while adding a new terminal
+  id: string | null;
+  name: string;
+}
+
+export function TerminalList() {
+  const [terminals, setTerminals] = useState<Terminal[]>([]);
+  const [draft, setDraft] = useState<TerminalDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTerminals = useCallback(async () => {
+    try {
+      setTerminals(await getTerminals());
+    } catch (err) {
+      console.error('Error loading terminals:', err);
+      setError('Failed to load terminals.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTerminals();
+  }, [loadTerminals]);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveTerminal(draft.name.trim(), draft.id ?? undefined);
+      setDraft(null);
+      await loadTerminals();
+    } catch (err) {
+      console.error('Error saving terminal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the terminal. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (terminal: Terminal) => {
+    setTogglingId(terminal.id);
+    setError(null);
+
+    try {
+      await setTerminalActive(terminal.id, !terminal.is_active);
+      await loadTerminals();
+    } catch (err) {
+      console.error('Error updating terminal:', err);
+      setError('Failed to update the terminal. Please try again.');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const draftRow = draft && (
+    <tr>
+      <td className="px-6 py-2">
+        <Input
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="e.g. Front Desk"
+          aria-label="Terminal name"
+          autoFocus
+        />
+      </td>
+      <td className="px-6 py-2"></td>
+      <td className="px-6 py-2 whitespace-nowrap text-right text-sm">
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" loading={saving} disabled={saving || !draft.name.trim()}>
+            Save
+          </Button>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCellClass}>Name</th>
+              <th className={headerCellClass}>Status</th>
+              <th className={headerCellClass}></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr className="animate-pulse">
+                <td colSpan={3} className="px-6 py-4">
+                  <div className="h-5 bg-gray-200 rounded"></div>
+                </td>
+              </tr>
+            ) : (
+              <>
+                {terminals.length === 0 && draft?.id !== null && (
+                  <tr>
+                    <td colSpan={3} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No terminals yet. Add one before opening a shift.
+                    </td>
+                  </tr>
+                )}
+                {terminals.map(terminal =>
+                  draft?.id === terminal.id ? (
+                    <Fragment key={terminal.id}>{draftRow}</Fragment>
+                  ) : (
+                    <tr key={terminal.id}>
+                      <td className={`${cellClass} font-medium`}>{terminal.name}</td>
+                      <td className={cellClass}>
+                        <span
+                          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                            terminal.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {terminal.is_active ? 'In use' : 'Retired'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDraft({ id: terminal.id, name: terminal.name })}
+                            disabled={draft !== null}
+                          >
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Rename
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleActive(terminal)}
+                            loading={togglingId === terminal.id}
+                            disabled={draft !== null || togglingId !== null}
+                          >
+                            {terminal.is_active ? 'Retire' : 'Reinstate'}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                )}
+                {draft?.id === null && draftRow}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {draft === null && (
+        <Button type="button" variant="outline" onClick={() => setDraft({ id: null, name: '' })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Terminal
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,197 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { deleteTaxRate, getTaxRates, saveTaxRate, type TaxRate } from '../../lib/tax';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+interface TaxRateDraft {
+  // Null while adding a new rate
+  id: string | null;
+  name: string;
+  rate: number;
+}
+
+export function TaxRateList() {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [draft, setDraft] = useState<TaxRateDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTaxRates = useCallback(async () => {
+    try {
+      setTaxRates(await getTaxRates());
+    } catch (err) {
+      console.error('Error loading tax rates:', err);
+      setError('Failed to load tax rates.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTaxRates();
+  }, [loadTaxRates]);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveTaxRate({ name: draft.name.trim(), rate: draft.rate }, draft.id ?? undefined);
+      setDraft(null);
+      await loadTaxRates();
+    } catch (err) {
+      console.error('Error saving tax rate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the tax rate. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (taxRate: TaxRate) => {
+    const confirmed = window.confirm(
+      `Delete ${taxRate.name}? Anything using it becomes untaxed. Tax already recorded on past sales is kept.`
+    );
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      await deleteTaxRate(taxRate.id);
+      await loadTaxRates();
+    } catch (err) {
+      console.error('Error deleting tax rate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete the tax rate. Please try again.');
+    }
+  };
+
+  const invalidDraft = !draft || !draft.name.trim() || !(draft.rate >= 0 && draft.rate < 100);
+
+  const draftRow = draft && (
+    <tr>
+      <td className="px-6 py-2">
+        <Input
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="e.g. VAT"
+          aria-label="Tax rate name"
+          autoFocus
+        />
+      </td>
+      <td className="px-6 py-2">
+        <div className="w-28">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            max="99.99"
+            value={Number.isNaN(draft.rate) ? '' : draft.rate}
+            onChange={e => setDraft({ ...draft, rate: e.target.valueAsNumber })}
+            aria-label="Rate (%)"
+          />
+        </div>
+      </td>
+      <td className="px-6 py-2 whitespace-nowrap text-right text-sm">
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" loading={saving} disabled={saving || invalidDraft}>
+            Save
+          </Button>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCellClass}>Name</th>
+              <th className={headerCellClass}>Rate</th>
+              <th className={headerCellClass}></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {loading ? (
+              <tr className="animate-pulse">
+                <td colSpan={3} className="px-6 py-4">
+                  <div className="h-5 bg-gray-200 rounded"></div>
+                </td>
+              </tr>
+            ) : (
+              <>
+                {taxRates.length === 0 && draft?.id !== null && (
+                  <tr>
+                    <td colSpan={3} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No tax rates yet. Sales are untaxed.
+                    </td>
+                  </tr>
+                )}
+                {taxRates.map(taxRate =>
+                  draft?.id === taxRate.id ? (
+                    <Fragment key={taxRate.id}>{draftRow}</Fragment>
+                  ) : (
+                    <tr key={taxRate.id}>
+                      <td className={`${cellClass} font-medium`}>{taxRate.name}</td>
+                      <td className={cellClass}>{taxRate.rate}%</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDraft({ id: taxRate.id, name: taxRate.name, rate: taxRate.rate })}
+                            disabled={draft !== null}
+                          >
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(taxRate)}
+                            disabled={draft !== null}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                )}
+                {draft?.id === null && draftRow}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {draft === null && (
+        <Button type="button" variant="outline" onClick={() => setDraft({ id: null, name: '', rate: NaN })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Tax Rate
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { cn } from '../../lib/utils';
+
+interface SelectProps extends React.SelectHTMLAttributes<HTMLSelectElement> {
+  label?: string;
+  error?: string;
+  helperText?: string;
+}
+
+export const Select = React.forwardRef<HTMLSelectElement, SelectProps>(
+  ({ className, label, error, helperText, id, children, ...props }, ref) => {
+    const selectId = id || label?.toLowerCase().replace(/\s+/g, '-');
+
+    return (
+      <div className="space-y-1">
+        {label && (
+          <label htmlFor={selectId} className="block text-sm font-medium text-gray-700">
+            {label}
+          </label>
+        )}
+        <select
+          id={selectId}
+          ref={ref}
+          className={cn(
+            'block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm transition-colors',
+            'focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500',
+            'disabled:cursor-not-allowed disabled:bg-gray-50 disabled:text-gray-500',
+            error && 'border-red-300 focus:border-red-500 focus:ring-red-500',
+            className
+          )}
+          {...props}
+        >
+          {children}
+        </select>
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+        {helperText && !error && (
+          <p className="text-sm text-gray-500">{helperText}</p>
+        )}
+      </div>
+    );
+  }
+);
+
+Select.displayName = 'Select';
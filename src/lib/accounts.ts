@@ -0,0 +1,117 @@
+import { supabase } from './supabase';
+import type { Transaction } from './members';
+import type { PaymentMethod } from './transactions';
+import type { GymSettings } from './settings';
+
+export interface OutstandingCharge {
+  transaction_id: string;
+  member_id: string | null;
+  created_at: string;
+  type: Transaction['type'];
+  description: string | null;
+  amount: number;
+  amount_paid: number;
+  balance: number;
+  age_days: number;
+}
+
+export interface AgedDebtLine {
+  member_id: string;
+  member_id_string: string;
+  full_name: string;
+  phone_number: string | null;
+  days_0_30: number;
+  days_31_60: number;
+  days_over_60: number;
+  total: number;
+  // Owed on charges older than the overdue setting
+  overdue: number;
+  oldest_charge_at: string;
+}
+
+export interface AccountChargeParams {
+  memberId: string;
+  amount: number;
+  description: string;
+  shiftId: string;
+}
+
+export interface AccountPaymentParams {
+  transactionId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  shiftId: string;
+}
+
+export type DebtCheck = 'OK' | 'WARN' | 'BLOCK';
+
+const numericFields = ['days_0_30', 'days_31_60', 'days_over_60', 'total', 'overdue'] as const;
+
+// Charges with money still owed, oldest first; every member's when no member is given
+export async function getOutstandingCharges(memberId: string | null = null): Promise<OutstandingCharge[]> {
+  const { data, error } = await supabase.rpc('get_outstanding_charges', { p_member_id: memberId });
+  if (error) throw error;
+
+  return ((data || []) as OutstandingCharge[]).map(charge => ({
+    ...charge,
+    amount: Number(charge.amount),
+    amount_paid: Number(charge.amount_paid),
+    balance: Number(charge.balance),
+  }));
+}
+
+// Balances split by age of the charge, largest long-overdue debts first
+export async function getAgedDebt(memberId: string | null = null): Promise<AgedDebtLine[]> {
+  const { data, error } = await supabase.rpc('get_aged_debt', { p_member_id: memberId });
+  if (error) throw error;
+
+  return ((data || []) as AgedDebtLine[]).map(line => {
+    const converted = { ...line };
+    numericFields.forEach(field => {
+      converted[field] = Number(line[field]);
+    });
+    return converted;
+  });
+}
+
+// Null when the member owes nothing
+export async function getMemberDebt(memberId: string): Promise<AgedDebtLine | null> {
+  const [line] = await getAgedDebt(memberId);
+  return line ?? null;
+}
+
+// Check-in reacts only once the overdue part of the balance is over the threshold
+export function checkMemberDebt(
+  debt: AgedDebtLine | null,
+  settings: Pick<GymSettings, 'debt_checkin_threshold' | 'debt_checkin_action'>
+): DebtCheck {
+  if (!debt || debt.overdue <= settings.debt_checkin_threshold) return 'OK';
+  return settings.debt_checkin_action;
+}
+
+export async function chargeToAccount(params: AccountChargeParams): Promise<Transaction> {
+  const { data, error } = await supabase.rpc('charge_to_account', {
+    p_member_id: params.memberId,
+    p_amount: params.amount,
+    p_description: params.description,
+    p_shift_id: params.shiftId,
+  });
+
+  if (error) throw error;
+
+  return data as Transaction;
+}
+
+// Payments may be partial; the charge stays outstanding until its balance reaches zero
+export async function payOutstanding(params: AccountPaymentParams): Promise<Transaction> {
+  const { data, error } = await supabase.rpc('pay_outstanding', {
+    p_transaction_id: params.transactionId,
+    p_amount: params.amount,
+    p_payment_method: params.paymentMethod,
+    p_shift_id: params.shiftId,
+  });
+
+  if (error) throw error;
+
+  return data as Transaction;
+}
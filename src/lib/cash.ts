@@ -0,0 +1,103 @@
+import { supabase, type Database } from './supabase';
+import { roundCurrency } from './pos';
+
+export type CashDenomination = Database['public']['Tables']['cash_denominations']['Row'];
+export type DenominationKind = CashDenomination['kind'];
+export type ShiftCashCount = Database['public']['Tables']['shift_cash_counts']['Row'];
+export type HandoverCancellation = Database['public']['Tables']['shift_handover_cancellations']['Row'];
+
+// One denomination of a count, as sent to close_shift and accept_handover
+export interface CashCountLine {
+  denomination: number;
+  quantity: number;
+}
+
+// Quantities being counted, keyed by denomination id
+export type CashQuantities = Record<string, number>;
+
+export interface CashDenominationInput {
+  currency: string;
+  denomination: number;
+  kind: DenominationKind;
+}
+
+export const DENOMINATION_KINDS: { value: DenominationKind; label: string }[] = [
+  { value: 'NOTE', label: 'Note' },
+  { value: 'COIN', label: 'Coin' },
+];
+
+// Largest first, the order a drawer is counted in
+export async function getDenominations(
+  currency: string,
+  options: { activeOnly?: boolean } = {}
+): Promise<CashDenomination[]> {
+  let query = supabase
+    .from('cash_denominations')
+    .select('*')
+    .eq('currency', currency)
+    .order('denomination', { ascending: false });
+
+  if (options.activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return ((data || []) as CashDenomination[]).map(d => ({ ...d, denomination: Number(d.denomination) }));
+}
+
+export async function addDenomination(input: CashDenominationInput): Promise<CashDenomination> {
+  const { data, error } = await supabase
+    .from('cash_denominations')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as CashDenomination;
+}
+
+// Denominations are never deleted, so a retired one can be brought back
+export async function setDenominationActive(denominationId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('cash_denominations')
+    .update({ is_active: isActive })
+    .eq('id', denominationId);
+
+  if (error) throw error;
+}
+
+export function toCashCountLines(denominations: CashDenomination[], quantities: CashQuantities): CashCountLine[] {
+  return denominations
+    .filter(d => (quantities[d.id] ?? 0) > 0)
+    .map(d => ({ denomination: d.denomination, quantity: quantities[d.id] }));
+}
+
+export function getCashCountTotal(lines: CashCountLine[]): number {
+  return roundCurrency(lines.reduce((sum, line) => sum + line.denomination * line.quantity, 0));
+}
+
+export async function getShiftCashCounts(shiftId: string): Promise<ShiftCashCount[]> {
+  const { data, error } = await supabase
+    .from('shift_cash_counts')
+    .select('*')
+    .eq('shift_id', shiftId)
+    .order('denomination', { ascending: false });
+
+  if (error) throw error;
+
+  return ((data || []) as ShiftCashCount[]).map(count => ({ ...count, denomination: Number(count.denomination) }));
+}
+
+// Closes undone by cancelling a handover, with the count each one recorded
+export async function getHandoverCancellations(shiftId: string): Promise<HandoverCancellation[]> {
+  const { data, error } = await supabase
+    .from('shift_handover_cancellations')
+    .select('*')
+    .eq('shift_id', shiftId)
+    .order('cancelled_at');
+
+  if (error) throw error;
+
+  return (data || []) as HandoverCancellation[];
+}
@@ -0,0 +1,280 @@
+import { supabase, type Database } from './supabase';
+import { getMembershipStatus, toISODate } from './utils';
+import { findMemberByCode, type Member, type Membership } from './members';
+import type { MembershipFreeze } from './memberships';
+import {
+  formatCouponCode,
+  getCouponStatus,
+  looksLikeCouponCode,
+  type SoldCouponWithTemplate,
+} from './coupons';
+import type { PaymentMethod } from './transactions';
+
+type Tables = Database['public']['Tables'];
+
+export type CheckInType = Tables['check_ins']['Row']['type'];
+
+export type { SoldCouponWithTemplate };
+
+export type MembershipWithPlanName = Membership & {
+  membership_plans: { name: string } | null;
+};
+
+export interface CheckInLookupResult {
+  members: Member[];
+  coupon: SoldCouponWithTemplate | null;
+}
+
+export interface CheckInContext {
+  membership: MembershipWithPlanName | null;
+  coupons: SoldCouponWithTemplate[];
+  freeze: MembershipFreeze | null;
+}
+
+export interface EntryDecision {
+  type: CheckInType;
+  reason: string;
+  coupon: SoldCouponWithTemplate | null;
+  daysRemaining: number | null;
+}
+
+export interface RecordCheckInParams {
+  decision: EntryDecision;
+  memberId: string | null;
+  shiftId: string;
+  staffId: string;
+  walkInCharge: { amount: number; paymentMethod: PaymentMethod } | null;
+  notes?: string | null;
+}
+
+export interface RecentCheckIn {
+  id: string;
+  type: CheckInType;
+  check_in_time: string;
+  notes: string | null;
+  members: { full_name: string; member_id_string: string } | null;
+}
+
+const NAME_MATCH_LIMIT = 10;
+
+// Raised by redeem_coupon when the coupon can no longer be used
+export const COUPON_INACTIVE = 'CPN01';
+export const COUPON_EXPIRED = 'CPN02';
+export const COUPON_EXHAUSTED = 'CPN03';
+
+// The coupon changed since it was looked up, so the desk should drop it
+export function isCouponRedemptionError(err: unknown): boolean {
+  const code = (err as { code?: string } | null)?.code;
+  return code === COUPON_INACTIVE || code === COUPON_EXPIRED || code === COUPON_EXHAUSTED;
+}
+
+// A coupon can be used while it is active, unexpired and has entries left
+export function isCouponValid(
+  coupon: Tables['sold_coupons']['Row'],
+  today: string = toISODate()
+): boolean {
+  return getCouponStatus(coupon, today) === 'ACTIVE';
+}
+
+// Look up a member by ID or name, or a coupon by its code
+export async function findCheckInCandidates(query: string): Promise<CheckInLookupResult> {
+  // ILIKE without wildcards gives a case-insensitive exact match
+  const term = query.trim().replace(/[%_\\]/g, '');
+  if (!term) return { members: [], coupon: null };
+
+  const { data: coupon, error: couponError } = await supabase
+    .from('sold_coupons')
+    .select('*, coupon_templates(name, max_entries)')
+    .ilike('code', looksLikeCouponCode(term) ? formatCouponCode(term) : term)
+    .maybeSingle();
+
+  if (couponError) throw couponError;
+
+  const exactMember = await findMemberByCode(term);
+  if (exactMember) {
+    return { members: [exactMember], coupon: coupon as SoldCouponWithTemplate | null };
+  }
+
+  const { data: nameMatches, error: nameError } = await supabase
+    .from('members')
+    .select('*')
+    .ilike('full_name', `%${term}%`)
+    .order('full_name')
+    .limit(NAME_MATCH_LIMIT);
+
+  if (nameError) throw nameError;
+
+  return {
+    members: (nameMatches || []) as Member[],
+    coupon: coupon as SoldCouponWithTemplate | null,
+  };
+}
+
+// Load the member's latest active membership, any usable coupons and a freeze covering today
+export async function getCheckInContext(memberId: string): Promise<CheckInContext> {
+  const today = toISODate();
+  const [membershipResult, couponsResult, freezeResult] = await Promise.all([
+    supabase
+      .from('memberships')
+      .select('*, membership_plans(name)')
+      .eq('member_id', memberId)
+      .in('status', ['ACTIVE', 'FROZEN'])
+      .order('end_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('sold_coupons')
+      .select('*, coupon_templates(name, max_entries)')
+      .eq('member_id', memberId)
+      .eq('is_active', true)
+      .gt('entries_remaining', 0)
+      .gte('expiry_date', today)
+      .order('expiry_date', { ascending: true }),
+    supabase
+      .from('membership_freezes')
+      .select('*, memberships!inner(member_id)')
+      .eq('memberships.member_id', memberId)
+      .is('ended_at', null)
+      .lte('start_date', today)
+      .gte('end_date', today)
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (membershipResult.error) throw membershipResult.error;
+  if (couponsResult.error) throw couponsResult.error;
+  if (freezeResult.error) throw freezeResult.error;
+
+  return {
+    membership: membershipResult.data as MembershipWithPlanName | null,
+    coupons: (couponsResult.data || []) as SoldCouponWithTemplate[],
+    freeze: freezeResult.data as MembershipFreeze | null,
+  };
+}
+
+/*
+  Decide how a member enters, in order of precedence:
+  1. MEMBERSHIP   - active membership that has not reached its end date
+  2. GRACE_PERIOD - membership ended but within grace_period_days
+  3. COUPON       - a valid coupon (the one soonest to expire is used first)
+  4. WALK_IN      - nothing else applies; walk-in rate is charged
+  A member whose membership is frozen cannot enter at all, so null is returned.
+*/
+export function decideEntry(context: CheckInContext, gracePeriodDays: number): EntryDecision | null {
+  if (context.freeze) return null;
+
+  if (context.membership) {
+    const { status, daysRemaining } = getMembershipStatus(context.membership.end_date, gracePeriodDays);
+
+    if (status === 'ACTIVE') {
+      const planName = context.membership.membership_plans?.name;
+      return {
+        type: 'MEMBERSHIP',
+        reason: planName ? `Active ${planName} membership` : 'Active membership',
+        coupon: null,
+        daysRemaining,
+      };
+    }
+
+    if (status === 'GRACE_PERIOD') {
+      return {
+        type: 'GRACE_PERIOD',
+        reason: 'Membership expired, within grace period — please remind the member to renew',
+        coupon: null,
+        daysRemaining,
+      };
+    }
+  }
+
+  const coupon = context.coupons.find(c => isCouponValid(c));
+  if (coupon) {
+    return {
+      type: 'COUPON',
+      reason: `${coupon.coupon_templates?.name ?? 'Coupon'} ${coupon.code}`,
+      coupon,
+      daysRemaining: null,
+    };
+  }
+
+  return {
+    type: 'WALK_IN',
+    reason: context.membership ? 'Membership expired and no valid coupon' : 'No membership or valid coupon',
+    coupon: null,
+    daysRemaining: null,
+  };
+}
+
+// Decide entry for a coupon presented on its own (may not belong to a member)
+export function decideCouponEntry(coupon: SoldCouponWithTemplate): EntryDecision | null {
+  if (!isCouponValid(coupon)) return null;
+
+  return {
+    type: 'COUPON',
+    reason: `${coupon.coupon_templates?.name ?? 'Coupon'} ${coupon.code}`,
+    coupon,
+    daysRemaining: null,
+  };
+}
+
+export async function recordCheckIn({
+  decision,
+  memberId,
+  shiftId,
+  staffId,
+  walkInCharge,
+  notes = null,
+}: RecordCheckInParams): Promise<void> {
+  // The coupon row is locked while the entry is used, so two desks cannot share the last one
+  if (decision.type === 'COUPON' && decision.coupon) {
+    const { error: couponError } = await supabase.rpc('redeem_coupon', {
+      p_coupon_id: decision.coupon.id,
+      p_member_id: memberId,
+      p_shift_id: shiftId,
+      p_notes: notes,
+    });
+
+    if (couponError) throw couponError;
+    return;
+  }
+
+  // The charge and the entry are written together, so a paid walk-in is never left without its check-in
+  if (decision.type === 'WALK_IN') {
+    const { error: walkInError } = await supabase.rpc('record_walk_in', {
+      p_member_id: memberId,
+      p_shift_id: shiftId,
+      p_amount: walkInCharge?.amount ?? null,
+      p_payment_method: walkInCharge?.paymentMethod ?? null,
+      p_notes: notes,
+    });
+
+    if (walkInError) throw walkInError;
+    return;
+  }
+
+  const { error } = await supabase
+    .from('check_ins')
+    .insert({
+      shift_id: shiftId,
+      type: decision.type,
+      member_id: memberId,
+      sold_coupon_id: decision.coupon?.id ?? null,
+      processed_by: staffId,
+      notes,
+    });
+
+  if (error) throw error;
+}
+
+export async function getRecentCheckIns(shiftId: string, limit = 20): Promise<RecentCheckIn[]> {
+  const { data, error } = await supabase
+    .from('check_ins')
+    .select('id, type, check_in_time, notes, members(full_name, member_id_string)')
+    .eq('shift_id', shiftId)
+    .order('check_in_time', { ascending: false })
+    .limit(limit)
+    .returns<RecentCheckIn[]>();
+
+  if (error) throw error;
+
+  return data || [];
+}
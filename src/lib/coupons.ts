@@ -0,0 +1,178 @@
+import { supabase, type Database } from './supabase';
+import type { PaymentMethod } from './transactions';
+
+type Tables = Database['public']['Tables'];
+
+export type CouponTemplate = Tables['coupon_templates']['Row'];
+export type SoldCoupon = Tables['sold_coupons']['Row'];
+
+export type SoldCouponWithTemplate = SoldCoupon & {
+  coupon_templates: { name: string; max_entries: number } | null;
+};
+
+export type CouponTemplateWithSales = CouponTemplate & {
+  sold_count: number;
+};
+
+// One visit paid for with a coupon; entries_remaining is null for visits before the ledger existed
+export interface CouponUsage {
+  id: string;
+  check_in_time: string;
+  coupon_entries_remaining: number | null;
+  notes: string | null;
+  members: { full_name: string; member_id_string: string } | null;
+}
+
+export type CouponStatus = 'ACTIVE' | 'INACTIVE' | 'EXPIRED' | 'USED_UP';
+
+export interface CouponTemplateInput {
+  name: string;
+  price: number;
+  max_entries: number;
+  duration_days: number;
+  description: string | null;
+  is_active: boolean;
+  tax_rate_id: string | null;
+}
+
+export interface SellCouponParams {
+  templateId: string;
+  memberId: string | null;
+  shiftId: string;
+  paymentMethod: PaymentMethod;
+}
+
+// Must match coupon_code_check_char() in the database
+const COUPON_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const COUPON_CODE_PATTERN = /^[2-9A-HJKMNP-Z]{4}-?[2-9A-HJKMNP-Z]{4}-?[2-9A-HJKMNP-Z]{4}$/;
+
+// Luhn mod 31 over the code with its check character; a valid code sums to zero
+function couponChecksum(characters: string): number {
+  const base = COUPON_CODE_ALPHABET.length;
+  let factor = 1;
+  let sum = 0;
+
+  for (let i = characters.length - 1; i >= 0; i--) {
+    const addend = factor * COUPON_CODE_ALPHABET.indexOf(characters[i]);
+    factor = factor === 2 ? 1 : 2;
+    sum += Math.floor(addend / base) + (addend % base);
+  }
+
+  return sum % base;
+}
+
+// Shaped like a coupon code, whether or not the check character is right
+export function looksLikeCouponCode(value: string): boolean {
+  return COUPON_CODE_PATTERN.test(value.trim().toUpperCase());
+}
+
+// Codes are stored as XXXX-XXXX-XXXX; staff often type them without the dashes
+export function formatCouponCode(value: string): string {
+  const code = value.trim().toUpperCase().replace(/-/g, '');
+  return `${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8)}`;
+}
+
+// Catches single-character typos and swapped neighbours before a lookup
+export function isValidCouponCode(value: string): boolean {
+  const code = value.trim().toUpperCase();
+  return COUPON_CODE_PATTERN.test(code) && couponChecksum(code.replace(/-/g, '')) === 0;
+}
+
+// Inactive wins over expired, and expired over used up, matching the order redeem_coupon checks them
+export function getCouponStatus(coupon: SoldCoupon, today: string): CouponStatus {
+  if (!coupon.is_active) return 'INACTIVE';
+  if (coupon.expiry_date < today) return 'EXPIRED';
+  if (coupon.entries_remaining <= 0) return 'USED_UP';
+  return 'ACTIVE';
+}
+
+export async function getCouponTemplates(options: { activeOnly?: boolean } = {}): Promise<CouponTemplate[]> {
+  let query = supabase
+    .from('coupon_templates')
+    .select('*')
+    .order('name');
+
+  if (options.activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as CouponTemplate[];
+}
+
+// Every template with the number of coupons sold from it
+export async function getCouponTemplatesWithSales(): Promise<CouponTemplateWithSales[]> {
+  const { data, error } = await supabase
+    .from('coupon_templates')
+    .select('*, sold_coupons(count)')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(({ sold_coupons, ...template }: CouponTemplate & { sold_coupons: { count: number }[] }) => ({
+    ...template,
+    sold_count: sold_coupons?.[0]?.count ?? 0,
+  }));
+}
+
+// Sold coupons keep the expiry and entries they were sold with, so templates can be edited in place
+export async function saveCouponTemplate(input: CouponTemplateInput, templateId?: string): Promise<CouponTemplate> {
+  const query = templateId
+    ? supabase.from('coupon_templates').update(input).eq('id', templateId)
+    : supabase.from('coupon_templates').insert(input);
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+
+  return data as CouponTemplate;
+}
+
+export async function setCouponTemplateActive(templateId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('coupon_templates')
+    .update({ is_active: isActive })
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
+
+// Creates the coupon with a generated code and records the COUPON_SALE transaction
+export async function sellCoupon(params: SellCouponParams): Promise<SoldCoupon> {
+  const { data, error } = await supabase.rpc('sell_coupon', {
+    p_template_id: params.templateId,
+    p_member_id: params.memberId,
+    p_shift_id: params.shiftId,
+    p_payment_method: params.paymentMethod,
+  });
+
+  if (error) throw error;
+
+  return data as SoldCoupon;
+}
+
+// Coupons bought by or for the member, newest first
+export async function getMemberCoupons(memberId: string): Promise<SoldCouponWithTemplate[]> {
+  const { data, error } = await supabase
+    .from('sold_coupons')
+    .select('*, coupon_templates(name, max_entries)')
+    .eq('member_id', memberId)
+    .order('purchase_date', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []) as SoldCouponWithTemplate[];
+}
+
+// Every check-in paid for with the coupon, newest first
+export async function getCouponUsage(couponId: string): Promise<CouponUsage[]> {
+  const { data, error } = await supabase
+    .from('check_ins')
+    .select('id, check_in_time, coupon_entries_remaining, notes, members(full_name, member_id_string)')
+    .eq('sold_coupon_id', couponId)
+    .order('check_in_time', { ascending: false })
+    .returns<CouponUsage[]>();
+
+  if (error) throw error;
+
+  return data || [];
+}
@@ -0,0 +1,44 @@
+import type { ReceiptLine } from './receipts';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const alignments = { left: 0, center: 1, right: 2 } as const;
+
+// Receipt printers use a single-byte code page, so text is reduced to plain ASCII
+export function toPrinterText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/\u00B7/g, '-')
+    .replace(/[^\x20-\x7E]/g, '?');
+}
+
+// ESC/POS bytes for the lines, ending with a paper feed and a partial cut
+export function encodeReceipt(lines: ReceiptLine[]): Uint8Array {
+  const bytes: number[] = [ESC, 0x40];
+
+  lines.forEach(line => {
+    bytes.push(
+      ESC, 0x61, alignments[line.align ?? 'left'],
+      ESC, 0x45, line.bold ? 1 : 0,
+      GS, 0x21, line.large ? 0x11 : 0x00
+    );
+
+    for (const char of toPrinterText(line.text)) {
+      bytes.push(char.charCodeAt(0));
+    }
+
+    bytes.push(LF);
+  });
+
+  bytes.push(ESC, 0x61, 0, ESC, 0x45, 0, GS, 0x21, 0x00);
+  bytes.push(ESC, 0x64, 4);
+  bytes.push(GS, 0x56, 0x42, 0x00);
+
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,107 @@
+import { supabase, type Database } from './supabase';
+
+type Tables = Database['public']['Tables'];
+
+export type StockMovement = Tables['stock_movements']['Row'];
+export type StockReason = StockMovement['reason'];
+export type Stocktake = Tables['stocktakes']['Row'];
+
+// Reasons staff can pick for a manual movement; the rest are written by sales and stocktakes
+export type AdjustmentReason = Extract<StockReason, 'RECEIVED' | 'DAMAGE' | 'WRITE_OFF' | 'ADJUSTMENT'>;
+
+export const STOCK_REASON_LABELS: Record<StockReason, string> = {
+  SALE: 'Sale',
+  RECEIVED: 'Goods Received',
+  DAMAGE: 'Damaged',
+  WRITE_OFF: 'Write-off',
+  ADJUSTMENT: 'Adjustment',
+  STOCKTAKE: 'Stocktake Variance',
+  OPENING_BALANCE: 'Opening Balance',
+  REFUND: 'Refund Return',
+};
+
+export const ADJUSTMENT_REASONS: { value: AdjustmentReason; label: string; direction: 'IN' | 'OUT' | 'EITHER' }[] = [
+  { value: 'RECEIVED', label: STOCK_REASON_LABELS.RECEIVED, direction: 'IN' },
+  { value: 'DAMAGE', label: STOCK_REASON_LABELS.DAMAGE, direction: 'OUT' },
+  { value: 'WRITE_OFF', label: STOCK_REASON_LABELS.WRITE_OFF, direction: 'OUT' },
+  { value: 'ADJUSTMENT', label: STOCK_REASON_LABELS.ADJUSTMENT, direction: 'EITHER' },
+];
+
+export interface StockAdjustmentParams {
+  productId: string;
+  reason: AdjustmentReason;
+  // Signed: positive adds stock, negative removes it
+  changeQuantity: number;
+  notes: string | null;
+}
+
+export interface StocktakeCount {
+  productId: string;
+  countedQuantity: number;
+}
+
+export interface StockReconciliation {
+  product_id: string;
+  current_stock: number;
+  ledger_quantity: number;
+  difference: number;
+}
+
+export type StockLedgerEntry = StockMovement & {
+  // Stock on hand after this movement
+  balance: number;
+};
+
+export async function adjustStock(params: StockAdjustmentParams): Promise<StockMovement> {
+  const { data, error } = await supabase.rpc('adjust_stock', {
+    p_product_id: params.productId,
+    p_reason: params.reason,
+    p_change_quantity: params.changeQuantity,
+    p_notes: params.notes,
+  });
+
+  if (error) throw error;
+
+  return data as StockMovement;
+}
+
+// Posts a variance movement for every product whose count differs from its stock
+export async function postStocktake(counts: StocktakeCount[], notes: string | null): Promise<Stocktake> {
+  const { data, error } = await supabase.rpc('post_stocktake', {
+    p_counts: counts.map(count => ({
+      product_id: count.productId,
+      counted_quantity: count.countedQuantity,
+    })),
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+
+  return data as Stocktake;
+}
+
+// Every movement of the product, oldest first, with the running balance after each
+export async function getStockLedger(productId: string): Promise<StockLedgerEntry[]> {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+
+  let balance = 0;
+  return ((data || []) as StockMovement[]).map(movement => {
+    balance += movement.change_quantity;
+    return { ...movement, balance };
+  });
+}
+
+// Admin only: products whose stock on hand does not match the sum of their movements
+export async function getStockReconciliation(): Promise<StockReconciliation[]> {
+  const { data, error } = await supabase.rpc('get_stock_reconciliation');
+  if (error) throw error;
+
+  return (data || []) as StockReconciliation[];
+}
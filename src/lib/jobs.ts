@@ -0,0 +1,44 @@
+import { supabase, type Database } from './supabase';
+
+export type JobRun = Database['public']['Tables']['job_runs']['Row'];
+
+export const MEMBERSHIP_EXPIRY_JOB = 'membership_expiry';
+
+export interface MembershipExpiryResult {
+  freezes_applied: number;
+  memberships_expired: number;
+  members_activated: number;
+  members_deactivated: number;
+}
+
+// job_runs.result is free-form JSON; the expiry job writes these four counts
+export function toMembershipExpiryResult(result: Record<string, unknown>): MembershipExpiryResult {
+  return {
+    freezes_applied: Number(result.freezes_applied ?? 0),
+    memberships_expired: Number(result.memberships_expired ?? 0),
+    members_activated: Number(result.members_activated ?? 0),
+    members_deactivated: Number(result.members_deactivated ?? 0),
+  };
+}
+
+export async function getJobRuns(jobName: string, limit = 10): Promise<JobRun[]> {
+  const { data, error } = await supabase
+    .from('job_runs')
+    .select('*')
+    .eq('job_name', jobName)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as JobRun[];
+}
+
+// Runs the same job pg_cron runs nightly; the returned run may be SKIPPED or FAILED
+export async function runMembershipExpiry(): Promise<JobRun> {
+  const { data, error } = await supabase.rpc('run_membership_expiry');
+
+  if (error) throw error;
+
+  return data as JobRun;
+}
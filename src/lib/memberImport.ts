@@ -0,0 +1,481 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { parseCSV, type CsvValue } from './csv';
+import type { Member, MemberInput } from './members';
+import type { MembershipPlan } from './plans';
+import { toISODate } from './utils';
+
+export type ImportField =
+  | 'full_name'
+  | 'email'
+  | 'phone_number'
+  | 'join_date'
+  | 'notes'
+  | 'legacy_member_id'
+  | 'plan'
+  | 'end_date'
+  | 'amount_paid'
+  | 'registration_fee_paid';
+
+// Spreadsheet column index for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type DateFormat = 'YMD' | 'DMY' | 'MDY';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface MemberImportInput extends MemberInput {
+  legacy_member_id: string | null;
+  is_active: boolean;
+}
+
+export interface MembershipImportInput {
+  plan_id: string;
+  start_date: string;
+  end_date: string;
+  status: 'ACTIVE' | 'EXPIRED';
+  // Paid in the previous system; zero when the spreadsheet does not say
+  amount_paid: number;
+  registration_fee_paid: number;
+}
+
+export interface ImportRow {
+  // Row number as shown in the spreadsheet, counting the header as row 1
+  rowNumber: number;
+  raw: string[];
+  member: MemberImportInput | null;
+  membership: MembershipImportInput | null;
+  errors: string[];
+  duplicate: string | null;
+}
+
+export interface ImportFailure {
+  rowNumber: number;
+  error: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  failures: ImportFailure[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'full_name', label: 'Full Name', required: true, aliases: ['name', 'fullname', 'membername'] },
+  { field: 'email', label: 'Email', required: false, aliases: ['email', 'emailaddress', 'mail'] },
+  { field: 'phone_number', label: 'Phone Number', required: false, aliases: ['phone', 'phonenumber', 'mobile', 'tel', 'contact'] },
+  { field: 'join_date', label: 'Join Date', required: false, aliases: ['joindate', 'joined', 'datejoined', 'registered', 'startdate'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'remarks', 'comments'] },
+  { field: 'legacy_member_id', label: 'Previous Member ID', required: false, aliases: ['id', 'memberid', 'membershipno', 'memberno', 'cardno'] },
+  { field: 'plan', label: 'Membership Plan', required: false, aliases: ['plan', 'membershipplan', 'package', 'membership'] },
+  { field: 'end_date', label: 'Membership End Date', required: false, aliases: ['enddate', 'expiry', 'expirydate', 'expires', 'validuntil'] },
+  { field: 'amount_paid', label: 'Membership Amount Paid', required: false, aliases: ['amountpaid', 'paid', 'price', 'fee'] },
+  { field: 'registration_fee_paid', label: 'Registration Fee Paid', required: false, aliases: ['registrationfee', 'registrationfeepaid', 'joiningfee'] },
+];
+
+export const IMPORT_CHUNK_SIZE = 200;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  // Excel dates are read as UTC midnight
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return String(value).trim();
+}
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  let cells: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    // Loaded on demand; only admins running an import need the XLSX parser
+    const { readSheet } = await import('read-excel-file/browser');
+    const sheet = await readSheet(file);
+    cells = sheet.map(row => row.map(cellToString));
+  } else {
+    cells = parseCSV(await file.text()).map(row => row.map(cell => cell.trim()));
+  }
+
+  const nonEmpty = cells.filter(row => row.some(cell => cell !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+
+  return { headers, rows };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.includes(header) || header === normalizeHeader(field));
+    if (index >= 0 && !Object.values(mapping).includes(index)) mapping[field] = index;
+  });
+
+  return mapping;
+}
+
+// ISO dates are always accepted; other dates are read in the chosen day/month order
+export function parseImportDate(value: string, format: DateFormat): string | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    const parts = value.split(/[/.-]/).map(part => part.trim());
+    if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+    const numbers = parts.map(Number);
+    if (format === 'YMD') [year, month, day] = numbers;
+    else if (format === 'DMY') [day, month, year] = numbers;
+    else [month, day, year] = numbers;
+
+    if (parts[format === 'YMD' ? 0 : 2].length === 2) year += year < 50 ? 2000 : 1900;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+  return toISODate(date);
+}
+
+function createImportRowSchema(dateFormat: DateFormat, plans: Map<string, MembershipPlan>) {
+  const optionalDate = (label: string) =>
+    z.string().transform((value, ctx) => {
+      if (!value) return null;
+      const parsed = parseImportDate(value, dateFormat);
+      if (!parsed) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} "${value}" is not a valid date` });
+        return z.NEVER;
+      }
+      return parsed;
+    });
+
+  const optionalAmount = (label: string) =>
+    z.string().transform((value, ctx) => {
+      if (!value) return null;
+      const amount = Number(value.replace(/[^\d.-]/g, ''));
+      if (!/\d/.test(value) || !Number.isFinite(amount) || amount < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} "${value}" is not a valid amount` });
+        return z.NEVER;
+      }
+      return Math.round(amount * 100) / 100;
+    });
+
+  return z.object({
+    full_name: z.string()
+      .nonempty('Full name is required')
+      .max(120, 'Full name must be 120 characters or fewer'),
+    email: z.string()
+      .toLowerCase()
+      .email('Invalid email address')
+      .or(z.literal('')),
+    phone_number: z.string()
+      .regex(/^[+\d][\d\s()-]{5,19}$/, 'Invalid phone number')
+      .or(z.literal('')),
+    join_date: optionalDate('Join date'),
+    notes: z.string().max(1000, 'Notes must be 1000 characters or fewer'),
+    legacy_member_id: z.string().max(50, 'Previous member ID must be 50 characters or fewer'),
+    plan: z.string(),
+    end_date: optionalDate('End date'),
+    amount_paid: optionalAmount('Amount paid'),
+    registration_fee_paid: optionalAmount('Registration fee paid'),
+  }).superRefine((row, ctx) => {
+    if (row.plan && !plans.has(row.plan.toLowerCase())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown membership plan "${row.plan}"` });
+    }
+    if (row.plan && !row.end_date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End date is required when a plan is given' });
+    }
+    if (!row.plan && row.end_date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End date was given without a membership plan' });
+    }
+    if (!row.plan && (row.amount_paid !== null || row.registration_fee_paid !== null)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An amount paid was given without a membership plan' });
+    }
+  });
+}
+
+function buildMembership(
+  plan: MembershipPlan,
+  joinDate: string,
+  endDate: string,
+  today: string,
+  paid: { amount_paid: number | null; registration_fee_paid: number | null }
+): MembershipImportInput {
+  const start = new Date(`${endDate}T00:00:00`);
+  start.setMonth(start.getMonth() - plan.duration_months);
+  const startDate = toISODate(start);
+
+  return {
+    plan_id: plan.id,
+    // Older spreadsheets rarely record when the current term started
+    start_date: startDate < joinDate ? joinDate : startDate,
+    end_date: endDate,
+    status: endDate < today ? 'EXPIRED' : 'ACTIVE',
+    amount_paid: paid.amount_paid ?? 0,
+    registration_fee_paid: paid.registration_fee_paid ?? 0,
+  };
+}
+
+// Validate every row without writing anything
+export function validateImportRows(
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  dateFormat: DateFormat,
+  plans: MembershipPlan[]
+): ImportRow[] {
+  const plansByName = new Map(plans.map(plan => [plan.name.toLowerCase(), plan]));
+  const schema = createImportRowSchema(dateFormat, plansByName);
+  const today = toISODate();
+
+  const valueOf = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  return data.rows.map((raw, i) => {
+    const rowNumber = i + 2;
+    const parsed = schema.safeParse({
+      full_name: valueOf(raw, 'full_name'),
+      email: valueOf(raw, 'email'),
+      phone_number: valueOf(raw, 'phone_number'),
+      join_date: valueOf(raw, 'join_date'),
+      notes: valueOf(raw, 'notes'),
+      legacy_member_id: valueOf(raw, 'legacy_member_id'),
+      plan: valueOf(raw, 'plan'),
+      end_date: valueOf(raw, 'end_date'),
+      amount_paid: valueOf(raw, 'amount_paid'),
+      registration_fee_paid: valueOf(raw, 'registration_fee_paid'),
+    });
+
+    if (!parsed.success) {
+      return {
+        rowNumber,
+        raw,
+        member: null,
+        membership: null,
+        errors: parsed.error.issues.map(issue => issue.message),
+        duplicate: null,
+      };
+    }
+
+    const values = parsed.data;
+    const joinDate = values.join_date ?? today;
+    const plan = values.plan ? plansByName.get(values.plan.toLowerCase()) : undefined;
+    const membership = plan && values.end_date
+      ? buildMembership(plan, joinDate, values.end_date, today, values)
+      : null;
+
+    const errors: string[] = [];
+    if (values.end_date && values.end_date < joinDate) errors.push('End date is before the join date');
+
+    return {
+      rowNumber,
+      raw,
+      member: {
+        full_name: values.full_name,
+        email: values.email || null,
+        phone_number: values.phone_number || null,
+        join_date: joinDate,
+        notes: values.notes || null,
+        legacy_member_id: values.legacy_member_id || null,
+        is_active: !membership || membership.status === 'ACTIVE',
+      },
+      membership,
+      errors,
+      duplicate: null,
+    };
+  });
+}
+
+// Matching runs on the server so stored values are normalised the same way as the file's
+async function findExistingMembers(emails: string[], phones: string[], memberIds: string[]): Promise<Member[]> {
+  const { data, error } = await supabase.rpc('find_import_matches', {
+    p_emails: emails,
+    p_phones: phones,
+    p_member_ids: memberIds,
+  });
+
+  if (error) throw error;
+  return (data || []) as Member[];
+}
+
+// Flag rows that repeat an earlier row or match a member already in the database
+export async function detectDuplicates(rows: ImportRow[]): Promise<ImportRow[]> {
+  const candidates = rows.filter(row => row.member && row.errors.length === 0);
+
+  const emails = candidates.map(row => row.member!.email).filter((v): v is string => !!v);
+  const phones = candidates.map(row => row.member!.phone_number).filter((v): v is string => !!v);
+  const legacyIds = candidates.map(row => row.member!.legacy_member_id).filter((v): v is string => !!v);
+
+  const matches = await findExistingMembers(emails, phones, legacyIds);
+
+  const existingEmails = new Map<string, Member>();
+  const existingPhones = new Map<string, Member>();
+  const existingIds = new Map<string, Member>();
+  matches.forEach(m => {
+    if (m.email) existingEmails.set(m.email.trim().toLowerCase(), m);
+    if (m.phone_number) existingPhones.set(normalizePhone(m.phone_number), m);
+    if (m.legacy_member_id) existingIds.set(m.legacy_member_id.trim().toUpperCase(), m);
+  });
+  matches.forEach(m => existingIds.set(m.member_id_string.toUpperCase(), m));
+
+  const seenEmails = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+  const seenIds = new Map<string, number>();
+
+  return rows.map(row => {
+    if (!row.member || row.errors.length > 0) return row;
+
+    const { email, phone_number, legacy_member_id } = row.member;
+    const phone = phone_number ? normalizePhone(phone_number) : '';
+    const legacyId = legacy_member_id?.toUpperCase() ?? '';
+
+    let duplicate: string | null = null;
+    const existing =
+      (legacyId && existingIds.get(legacyId)) ||
+      (email && existingEmails.get(email)) ||
+      (phone && existingPhones.get(phone));
+
+    if (existing) {
+      duplicate = `Matches existing member ${existing.member_id_string} (${existing.full_name})`;
+    } else if (legacyId && seenIds.has(legacyId)) {
+      duplicate = `Same member ID as row ${seenIds.get(legacyId)}`;
+    } else if (email && seenEmails.has(email)) {
+      duplicate = `Same email as row ${seenEmails.get(email)}`;
+    } else if (phone && seenPhones.has(phone)) {
+      duplicate = `Same phone number as row ${seenPhones.get(phone)}`;
+    }
+
+    if (legacyId && !seenIds.has(legacyId)) seenIds.set(legacyId, row.rowNumber);
+    if (email && !seenEmails.has(email)) seenEmails.set(email, row.rowNumber);
+    if (phone && !seenPhones.has(phone)) seenPhones.set(phone, row.rowNumber);
+
+    return { ...row, duplicate };
+  });
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+async function insertMemberships(
+  rows: ImportRow[],
+  memberIds: string[],
+  createdBy: string
+): Promise<ImportFailure[]> {
+  const memberships = rows
+    .map((row, i) => (row.membership ? { ...row.membership, member_id: memberIds[i], created_by: createdBy } : null))
+    .filter(membership => membership !== null);
+
+  if (memberships.length === 0) return [];
+
+  const { error } = await supabase.from('memberships').insert(memberships);
+  if (!error) return [];
+
+  return rows
+    .filter(row => row.membership)
+    .map(row => ({
+      rowNumber: row.rowNumber,
+      error: `Member imported, but the membership could not be created: ${errorMessage(error)}`,
+    }));
+}
+
+// A failed batch is retried row by row so only the offending rows are reported
+async function importRowsIndividually(rows: ImportRow[], createdBy: string): Promise<ImportResult> {
+  const result: ImportResult = { imported: 0, failures: [] };
+
+  for (const row of rows) {
+    const { data, error } = await supabase
+      .from('members')
+      .insert(row.member)
+      .select('id')
+      .single();
+
+    if (error) {
+      result.failures.push({ rowNumber: row.rowNumber, error: errorMessage(error) });
+      continue;
+    }
+
+    result.imported++;
+    result.failures.push(...(await insertMemberships([row], [data.id], createdBy)));
+  }
+
+  return result;
+}
+
+export async function importMembers(
+  rows: ImportRow[],
+  createdBy: string,
+  onProgress: (processed: number, total: number) => void
+): Promise<ImportResult> {
+  const result: ImportResult = { imported: 0, failures: [] };
+  let processed = 0;
+
+  for (const batch of chunk(rows, IMPORT_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('members')
+      .insert(batch.map(row => row.member))
+      .select('id');
+
+    if (error) {
+      const retried = await importRowsIndividually(batch, createdBy);
+      result.imported += retried.imported;
+      result.failures.push(...retried.failures);
+    } else {
+      // Inserted rows are returned in the order they were sent
+      const memberIds = (data || []).map((member: { id: string }) => member.id);
+      result.imported += memberIds.length;
+      result.failures.push(...(await insertMemberships(batch, memberIds, createdBy)));
+    }
+
+    processed += batch.length;
+    onProgress(processed, rows.length);
+  }
+
+  return result;
+}
+
+// Original columns plus the reason each row was not imported
+export function buildErrorReport(
+  headers: string[],
+  rows: ImportRow[],
+  failures: ImportFailure[],
+  duplicatesSkipped: boolean
+): CsvValue[][] {
+  const reasons = new Map<number, string[]>();
+  const addReason = (rowNumber: number, reason: string) => {
+    reasons.set(rowNumber, [...(reasons.get(rowNumber) ?? []), reason]);
+  };
+
+  rows.forEach(row => {
+    row.errors.forEach(error => addReason(row.rowNumber, error));
+    if (row.duplicate && duplicatesSkipped) addReason(row.rowNumber, `Duplicate: ${row.duplicate}`);
+  });
+  failures.forEach(failure => addReason(failure.rowNumber, failure.error));
+
+  return [
+    ['Row', ...headers, 'Errors'],
+    ...rows
+      .filter(row => reasons.has(row.rowNumber))
+      .map(row => [row.rowNumber, ...headers.map((_, i) => row.raw[i] ?? ''), reasons.get(row.rowNumber)!.join('; ')]),
+  ];
+}
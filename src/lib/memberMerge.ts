@@ -0,0 +1,75 @@
+import { supabase, type Database } from './supabase';
+import { getMembersByIds, type Member } from './members';
+
+export type MemberMerge = Database['public']['Tables']['member_merges']['Row'];
+
+export type DuplicateMatchReason = 'PHONE' | 'EMAIL';
+
+export interface DuplicateMemberPair {
+  memberA: Member;
+  memberB: Member;
+  nameSimilarity: number;
+  reasons: DuplicateMatchReason[];
+}
+
+const MEMBER_BATCH_SIZE = 100;
+
+interface DuplicatePairRow {
+  member_a_id: string;
+  member_b_id: string;
+  name_similarity: number;
+  match_reason: string;
+}
+
+// Similar names (0-1 trigram similarity) that also share a phone number or email
+export async function findDuplicateMembers(minSimilarity = 0.4): Promise<DuplicateMemberPair[]> {
+  const { data, error } = await supabase.rpc('find_duplicate_members', {
+    min_similarity: minSimilarity,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as DuplicatePairRow[];
+  const ids = Array.from(new Set(rows.flatMap(row => [row.member_a_id, row.member_b_id])));
+  const members = new Map<string, Member>();
+
+  // Member IDs go in the request URL, so load them in batches
+  for (let i = 0; i < ids.length; i += MEMBER_BATCH_SIZE) {
+    const batch = await getMembersByIds(ids.slice(i, i + MEMBER_BATCH_SIZE));
+    batch.forEach(member => members.set(member.id, member));
+  }
+
+  return rows
+    .filter(row => members.has(row.member_a_id) && members.has(row.member_b_id))
+    .map(row => ({
+      memberA: members.get(row.member_a_id)!,
+      memberB: members.get(row.member_b_id)!,
+      nameSimilarity: row.name_similarity,
+      reasons: row.match_reason.split(',') as DuplicateMatchReason[],
+    }));
+}
+
+// Moves all history to the surviving member and deletes the duplicate
+export async function mergeMembers(survivingId: string, duplicateId: string, notes: string): Promise<string> {
+  const { data, error } = await supabase.rpc('merge_members', {
+    surviving_id: survivingId,
+    duplicate_id: duplicateId,
+    merge_notes: notes,
+  });
+
+  if (error) throw error;
+
+  return data as string;
+}
+
+export async function getRecentMemberMerges(limit = 10): Promise<MemberMerge[]> {
+  const { data, error } = await supabase
+    .from('member_merges')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as MemberMerge[];
+}
@@ -0,0 +1,208 @@
+import { supabase, type Database } from './supabase';
+
+type Tables = Database['public']['Tables'];
+
+export type Member = Tables['members']['Row'];
+export type CheckIn = Tables['check_ins']['Row'];
+export type Transaction = Tables['transactions']['Row'];
+export type Membership = Tables['memberships']['Row'];
+
+export type MembershipWithPlan = Membership & {
+  membership_plans: { name: string; duration_months: number } | null;
+};
+
+export interface MemberInput {
+  full_name: string;
+  email: string | null;
+  phone_number: string | null;
+  join_date: string;
+  notes: string | null;
+}
+
+export interface MemberSearchResult {
+  members: Member[];
+  total: number;
+}
+
+export interface MemberActivity {
+  memberships: MembershipWithPlan[];
+  checkIns: CheckIn[];
+  transactions: Transaction[];
+}
+
+export const MEMBERS_PAGE_SIZE = 25;
+
+const ACTIVITY_LIMIT = 50;
+
+// IDs come from a database sequence; a clash with a manually entered ID is retried
+const CREATE_MEMBER_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = '23505';
+
+// Strip characters that have meaning inside a PostgREST or() filter
+function sanitizeSearchTerm(query: string): string {
+  return query.trim().replace(/[%_,()"\\*]/g, '');
+}
+
+// Paginated, server-side search by name, member ID, phone or email
+export async function searchMembers(
+  query: string,
+  page: number,
+  pageSize: number = MEMBERS_PAGE_SIZE
+): Promise<MemberSearchResult> {
+  const from = page * pageSize;
+  const to = from + pageSize - 1;
+
+  let request = supabase
+    .from('members')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  const term = sanitizeSearchTerm(query);
+  if (term) {
+    const pattern = `%${term}%`;
+    request = request.or(
+      [
+        `full_name.ilike.${pattern}`,
+        `member_id_string.ilike.${pattern}`,
+        `phone_number.ilike.${pattern}`,
+        `email.ilike.${pattern}`,
+      ].join(',')
+    );
+  }
+
+  const { data, count, error } = await request;
+
+  if (error) throw error;
+
+  return { members: (data || []) as Member[], total: count || 0 };
+}
+
+export async function getMember(id: string): Promise<Member | null> {
+  const { data, error } = await supabase
+    .from('members')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as Member | null;
+}
+
+// Find a member by card code; IDs replaced by the sequence scheme still match
+export async function findMemberByCode(code: string): Promise<Member | null> {
+  // ILIKE without wildcards gives a case-insensitive exact match
+  const term = code.trim().replace(/[%_\\]/g, '');
+  if (!term) return null;
+
+  for (const column of ['member_id_string', 'legacy_member_id']) {
+    const { data, error } = await supabase
+      .from('members')
+      .select('*')
+      .ilike(column, term)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data as Member;
+  }
+
+  return null;
+}
+
+export async function getMembersByIds(ids: string[]): Promise<Member[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('members')
+    .select('*')
+    .in('id', ids)
+    .order('full_name');
+
+  if (error) throw error;
+
+  return (data || []) as Member[];
+}
+
+export async function createMember(input: MemberInput): Promise<Member> {
+  for (let attempt = 1; ; attempt++) {
+    // member_id_string is left to its next_member_id() default
+    const { data, error } = await supabase
+      .from('members')
+      .insert(input)
+      .select('*')
+      .single();
+
+    if (!error) return data as Member;
+
+    const isIdConflict = error.code === UNIQUE_VIOLATION && error.message.includes('member_id_string');
+    if (!isIdConflict || attempt >= CREATE_MEMBER_ATTEMPTS) throw error;
+  }
+}
+
+export async function updateMember(id: string, input: MemberInput): Promise<Member> {
+  const { data, error } = await supabase
+    .from('members')
+    .update(input)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as Member;
+}
+
+// Load membership history, recent check-ins and transactions for a member
+export async function getMemberActivity(memberId: string): Promise<MemberActivity> {
+  const [membershipsResult, checkInsResult] = await Promise.all([
+    supabase
+      .from('memberships')
+      .select('*, membership_plans(name, duration_months)')
+      .eq('member_id', memberId)
+      .order('end_date', { ascending: false }),
+    supabase
+      .from('check_ins')
+      .select('*')
+      .eq('member_id', memberId)
+      .order('check_in_time', { ascending: false })
+      .limit(ACTIVITY_LIMIT),
+  ]);
+
+  if (membershipsResult.error) throw membershipsResult.error;
+  if (checkInsResult.error) throw checkInsResult.error;
+
+  const memberships = (membershipsResult.data || []) as MembershipWithPlan[];
+
+  // Transactions reference the member directly or one of their memberships
+  const relatedIds = [memberId, ...memberships.map(m => m.id)];
+  const { data: transactions, error: transactionsError } = await supabase
+    .from('transactions')
+    .select('*')
+    .in('related_id', relatedIds)
+    .order('created_at', { ascending: false })
+    .limit(ACTIVITY_LIMIT);
+
+  if (transactionsError) throw transactionsError;
+
+  return {
+    memberships,
+    checkIns: (checkInsResult.data || []) as CheckIn[],
+    transactions: (transactions || []) as Transaction[],
+  };
+}
+
+// Members whose ID is not in the current format, including IDs from the old browser generator
+export async function countLegacyMemberIds(): Promise<number> {
+  const { data, error } = await supabase.rpc('count_legacy_member_ids');
+  if (error) throw error;
+  return (data as number) ?? 0;
+}
+
+// Renumber legacy IDs from the sequence; the old ID is kept in legacy_member_id
+export async function migrateMemberIds(): Promise<number> {
+  const { data, error } = await supabase.rpc('migrate_member_ids');
+  if (error) throw error;
+  return (data as number) ?? 0;
+}
@@ -0,0 +1,181 @@
+import { supabase, type Database } from './supabase';
+import type { PaymentMethod } from './transactions';
+import { toISODate } from './utils';
+
+export type MembershipFreeze = Database['public']['Tables']['membership_freezes']['Row'];
+
+export interface MembershipQuote {
+  plan_id: string;
+  is_renewal: boolean;
+  start_date: string;
+  end_date: string;
+  free_months: number;
+  // Plan price before its promotion; price is what is charged
+  list_price: number;
+  discount: number;
+  promotion_id: string | null;
+  promotion_name: string | null;
+  promotion_code: string | null;
+  price: number;
+  registration_fee: number;
+  total: number;
+  // Tax included in the total, at the plan's rate
+  tax: number;
+}
+
+export interface MembershipSale extends MembershipQuote {
+  membership_id: string;
+}
+
+export interface MembershipChangeQuote {
+  membership_id: string;
+  plan_id: string;
+  total_days: number;
+  unused_days: number;
+  credit: number;
+  price: number;
+  balance: number;
+  start_date: string;
+  end_date: string;
+}
+
+export interface MembershipChange extends MembershipChangeQuote {
+  new_membership_id: string;
+}
+
+export interface ChangeMembershipPlanParams {
+  membershipId: string;
+  planId: string;
+  shiftId: string;
+  paymentMethod: PaymentMethod;
+}
+
+export interface FreezeMembershipParams {
+  membershipId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+export interface SellMembershipParams {
+  memberId: string;
+  planId: string;
+  shiftId: string;
+  paymentMethod: PaymentMethod;
+  promoCode?: string | null;
+}
+
+// Dates, fees and promotion a sale would use, calculated by the same rules as sell_membership
+export async function quoteMembership(
+  memberId: string,
+  planId: string,
+  promoCode: string | null = null
+): Promise<MembershipQuote> {
+  const { data, error } = await supabase.rpc('quote_membership', {
+    p_member_id: memberId,
+    p_plan_id: planId,
+    p_promo_code: promoCode,
+  });
+
+  if (error) throw error;
+
+  return data as MembershipQuote;
+}
+
+// Membership and its transactions are written in one database transaction
+export async function sellMembership(params: SellMembershipParams): Promise<MembershipSale> {
+  const { data, error } = await supabase.rpc('sell_membership', {
+    p_member_id: params.memberId,
+    p_plan_id: params.planId,
+    p_shift_id: params.shiftId,
+    p_payment_method: params.paymentMethod,
+    p_promo_code: params.promoCode ?? null,
+  });
+
+  if (error) throw error;
+
+  return data as MembershipSale;
+}
+
+// Credit for the unused days of a membership set against the new plan's price;
+// a negative balance is refunded to the member
+export async function quoteMembershipChange(membershipId: string, planId: string): Promise<MembershipChangeQuote> {
+  const { data, error } = await supabase.rpc('quote_membership_change', {
+    p_membership_id: membershipId,
+    p_plan_id: planId,
+  });
+
+  if (error) throw error;
+
+  return data as MembershipChangeQuote;
+}
+
+// Closes the old membership, opens the new one and records the charge and credit together
+export async function changeMembershipPlan(params: ChangeMembershipPlanParams): Promise<MembershipChange> {
+  const { data, error } = await supabase.rpc('change_membership_plan', {
+    p_membership_id: params.membershipId,
+    p_plan_id: params.planId,
+    p_shift_id: params.shiftId,
+    p_payment_method: params.paymentMethod,
+  });
+
+  if (error) throw error;
+
+  return data as MembershipChange;
+}
+
+// Freezes on any of the given memberships, latest first
+export async function getMembershipFreezes(membershipIds: string[]): Promise<MembershipFreeze[]> {
+  if (membershipIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('membership_freezes')
+    .select('*')
+    .in('membership_id', membershipIds)
+    .order('start_date', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []) as MembershipFreeze[];
+}
+
+// The freeze that has not ended and covers the given day, if any
+export function findCurrentFreeze(
+  freezes: MembershipFreeze[],
+  today: string = toISODate()
+): MembershipFreeze | null {
+  return freezes.find(f => !f.ended_at && f.start_date <= today && f.end_date >= today) ?? null;
+}
+
+// Days counted against the yearly allowance; open freezes count their planned length
+export function countFreezeDays(freezes: MembershipFreeze[], year: number): number {
+  return freezes
+    .filter(f => Number(f.start_date.slice(0, 4)) === year)
+    .reduce((total, f) => {
+      if (f.days_frozen !== null) return total + f.days_frozen;
+      const days = (new Date(f.end_date).getTime() - new Date(f.start_date).getTime()) / (1000 * 60 * 60 * 24);
+      return total + Math.round(days) + 1;
+    }, 0);
+}
+
+export async function freezeMembership(params: FreezeMembershipParams): Promise<string> {
+  const { data, error } = await supabase.rpc('freeze_membership', {
+    p_membership_id: params.membershipId,
+    p_start_date: params.startDate,
+    p_end_date: params.endDate,
+    p_reason: params.reason,
+  });
+
+  if (error) throw error;
+
+  return data as string;
+}
+
+// Returns the number of days added to the membership's end date
+export async function endMembershipFreeze(freezeId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('end_membership_freeze', { p_freeze_id: freezeId });
+
+  if (error) throw error;
+
+  return data as number;
+}
@@ -0,0 +1,118 @@
+import { supabase } from './supabase';
+import type { Member } from './members';
+
+export const MEMBER_PHOTO_BUCKET = 'member-photos';
+
+// Portrait 4:5, matching the photo slot on member cards
+export const MEMBER_PHOTO_WIDTH = 480;
+export const MEMBER_PHOTO_HEIGHT = 600;
+export const MEMBER_PHOTO_ASPECT = MEMBER_PHOTO_WIDTH / MEMBER_PHOTO_HEIGHT;
+
+const MEMBER_PHOTO_QUALITY = 0.85;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Refresh signed URLs a few minutes before they expire
+const SIGNED_URL_MARGIN_MS = 5 * 60 * 1000;
+
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// Draw the cropped region at the stored photo size and encode it as JPEG
+export function renderCroppedPhoto(source: CanvasImageSource, crop: CropArea): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = MEMBER_PHOTO_WIDTH;
+  canvas.height = MEMBER_PHOTO_HEIGHT;
+
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Canvas is not supported'));
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    source,
+    crop.x, crop.y, crop.width, crop.height,
+    0, 0, MEMBER_PHOTO_WIDTH, MEMBER_PHOTO_HEIGHT
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode photo'))),
+      'image/jpeg',
+      MEMBER_PHOTO_QUALITY
+    );
+  });
+}
+
+// photo_url holds a storage path; older rows may still hold a full URL
+export async function getMemberPhotoUrl(path: string): Promise<string> {
+  if (/^https?:\/\//.test(path)) return path;
+
+  const cached = signedUrlCache.get(path);
+  if (cached && cached.expiresAt - SIGNED_URL_MARGIN_MS > Date.now()) return cached.url;
+
+  const { data, error } = await supabase.storage
+    .from(MEMBER_PHOTO_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+
+  signedUrlCache.set(path, {
+    url: data.signedUrl,
+    expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+  });
+
+  return data.signedUrl;
+}
+
+async function removeStoredPhoto(path: string | null) {
+  if (!path || /^https?:\/\//.test(path)) return;
+
+  signedUrlCache.delete(path);
+  const { error } = await supabase.storage.from(MEMBER_PHOTO_BUCKET).remove([path]);
+
+  // The member row no longer points at it, so a leftover file is only wasted space
+  if (error) console.error('Error removing old member photo:', error);
+}
+
+// Upload under a new path each time so cached signed URLs never show a stale photo
+export async function uploadMemberPhoto(member: Member, photo: Blob): Promise<Member> {
+  const path = `${member.id}/${Date.now()}.jpg`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(MEMBER_PHOTO_BUCKET)
+    .upload(path, photo, { contentType: 'image/jpeg' });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('members')
+    .update({ photo_url: path })
+    .eq('id', member.id)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  await removeStoredPhoto(member.photo_url);
+
+  return data as Member;
+}
+
+export async function removeMemberPhoto(member: Member): Promise<Member> {
+  const { data, error } = await supabase
+    .from('members')
+    .update({ photo_url: null })
+    .eq('id', member.id)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  await removeStoredPhoto(member.photo_url);
+
+  return data as Member;
+}
@@ -0,0 +1,80 @@
+import { supabase, type Database } from './supabase';
+
+export type MembershipPlan = Database['public']['Tables']['membership_plans']['Row'];
+
+export type MembershipPlanWithSales = MembershipPlan & {
+  sold_count: number;
+};
+
+export interface MembershipPlanInput {
+  name: string;
+  price: number;
+  duration_months: number;
+  has_registration_fee: boolean;
+  free_months_on_signup: number;
+  description: string | null;
+  is_active: boolean;
+  tax_rate_id: string | null;
+}
+
+// Superseded versions are only kept so past memberships show what was bought
+export async function getMembershipPlans(
+  options: { activeOnly?: boolean; includeSuperseded?: boolean } = {}
+): Promise<MembershipPlan[]> {
+  let query = supabase
+    .from('membership_plans')
+    .select('*')
+    .order('name');
+
+  if (options.activeOnly) query = query.eq('is_active', true);
+  if (!options.includeSuperseded) query = query.is('superseded_by', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as MembershipPlan[];
+}
+
+// Every version of every plan, with the number of memberships sold under each
+export async function getMembershipPlansWithSales(): Promise<MembershipPlanWithSales[]> {
+  const { data, error } = await supabase
+    .from('membership_plans')
+    .select('*, memberships(count)')
+    .order('name')
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ memberships, ...plan }: MembershipPlan & { memberships: { count: number }[] }) => ({
+    ...plan,
+    sold_count: memberships?.[0]?.count ?? 0,
+  }));
+}
+
+// Returns the saved plan id; a sold plan whose terms change gets a new version id
+export async function saveMembershipPlan(input: MembershipPlanInput, planId?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('save_membership_plan', {
+    p_plan_id: planId ?? null,
+    p_name: input.name,
+    p_price: input.price,
+    p_duration_months: input.duration_months,
+    p_has_registration_fee: input.has_registration_fee,
+    p_free_months_on_signup: input.free_months_on_signup,
+    p_description: input.description,
+    p_is_active: input.is_active,
+    p_tax_rate_id: input.tax_rate_id,
+  });
+
+  if (error) throw error;
+
+  return data as string;
+}
+
+export async function setMembershipPlanActive(planId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('membership_plans')
+    .update({ is_active: isActive })
+    .eq('id', planId);
+
+  if (error) throw error;
+}
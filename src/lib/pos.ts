@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import type { Product } from './products';
+import type { AppliedPromotion } from './promotions';
+import { priceWithTax, type TaxPricing } from './tax';
+import type { PaymentMethod } from './transactions';
+
+export interface CartLine {
+  product: Product;
+  quantity: number;
+}
+
+export interface SalePayment {
+  paymentMethod: PaymentMethod;
+  amount: number;
+}
+
+export interface CheckoutParams {
+  shiftId: string;
+  lines: CartLine[];
+  payments: SalePayment[];
+  promoCode?: string | null;
+}
+
+// A cart line as it will be charged: gross_total is before its promotion, line_total after
+export interface PosQuoteLine {
+  product_id: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  gross_total: number;
+  discount: number;
+  line_total: number;
+  tax_rate_id: string | null;
+  tax_amount: number;
+  promotion_id: string | null;
+  promotion_name: string | null;
+}
+
+export interface PosQuote {
+  lines: PosQuoteLine[];
+  promotions: AppliedPromotion[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  tax: number;
+}
+
+export interface PosSale {
+  sale_id: string;
+  total: number;
+  discount: number;
+  // One POS_SALE transaction per payment, in the order the payments were given
+  transaction_ids: string[];
+}
+
+// Money is added up in cents so split payments match the total exactly
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// What the customer pays for the line, with tax added when prices exclude it
+export function getLineTotal(line: CartLine, pricing: TaxPricing): number {
+  return priceWithTax(roundCurrency(line.product.price * line.quantity), line.product.tax_rate_id, pricing);
+}
+
+export function getCartTotal(lines: CartLine[], pricing: TaxPricing): number {
+  return roundCurrency(lines.reduce((total, line) => total + getLineTotal(line, pricing), 0));
+}
+
+export function getPaymentsTotal(payments: SalePayment[]): number {
+  return roundCurrency(payments.reduce((total, payment) => total + (payment.amount || 0), 0));
+}
+
+function toSaleItems(lines: CartLine[]) {
+  return lines.map(line => ({ product_id: line.product.id, quantity: line.quantity }));
+}
+
+// Prices the cart with its promotions exactly as pos_checkout will charge it
+export async function quotePosSale(lines: CartLine[], promoCode: string | null = null): Promise<PosQuote> {
+  const { data, error } = await supabase.rpc('quote_pos_sale', {
+    p_items: toSaleItems(lines),
+    p_promo_code: promoCode,
+  });
+
+  if (error) throw error;
+
+  return data as PosQuote;
+}
+
+// Stock, payments and the sale are written in one transaction; prices, tax and promotions are worked out again on the server
+export async function checkoutSale({ shiftId, lines, payments, promoCode = null }: CheckoutParams): Promise<PosSale> {
+  const { data, error } = await supabase.rpc('pos_checkout', {
+    p_shift_id: shiftId,
+    p_items: toSaleItems(lines),
+    p_payments: payments.map(payment => ({
+      payment_method: payment.paymentMethod,
+      amount: roundCurrency(payment.amount),
+    })),
+    p_promo_code: promoCode,
+  });
+
+  if (error) throw error;
+
+  return data as PosSale;
+}
@@ -0,0 +1,30 @@
+import { supabase, type Database } from './supabase';
+
+export type Product = Database['public']['Tables']['products']['Row'];
+
+export async function getProducts(options: { activeOnly?: boolean } = {}): Promise<Product[]> {
+  let query = supabase
+    .from('products')
+    .select('*')
+    .order('name');
+
+  if (options.activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as Product[];
+}
+
+export async function setProductTaxRate(productId: string, taxRateId: string | null): Promise<Product> {
+  const { data, error } = await supabase
+    .from('products')
+    .update({ tax_rate_id: taxRateId })
+    .eq('id', productId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as Product;
+}
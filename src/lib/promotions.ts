@@ -0,0 +1,163 @@
+import { supabase, type Database } from './supabase';
+import { formatCurrency } from './utils';
+
+export type Promotion = Database['public']['Tables']['promotions']['Row'];
+export type PromotionTarget = Promotion['applies_to'];
+export type DiscountType = Promotion['discount_type'];
+
+export type PromotionWithUsage = Promotion & {
+  // Empty when a product promotion covers every product
+  product_ids: string[];
+  times_used: number;
+};
+
+export type PromotionStatus = 'ACTIVE' | 'INACTIVE' | 'SCHEDULED' | 'ENDED' | 'USED_UP';
+
+export interface PromotionInput {
+  name: string;
+  description: string | null;
+  applies_to: PromotionTarget;
+  discount_type: DiscountType;
+  percent_off: number | null;
+  amount_off: number | null;
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  plan_id: string | null;
+  product_ids: string[];
+  starts_on: string | null;
+  ends_on: string | null;
+  usage_limit: number | null;
+  code: string | null;
+  is_active: boolean;
+}
+
+// A promotion used in a sale and the discount it gave
+export interface AppliedPromotion {
+  promotion_id: string;
+  name: string;
+  code: string | null;
+  discount: number;
+}
+
+export interface PromotionSummaryLine {
+  promotion_id: string | null;
+  promotion_name: string;
+  code: string | null;
+  times_used: number;
+  discount_amount: number;
+}
+
+export const PROMOTION_TARGETS: { value: PromotionTarget; label: string }[] = [
+  { value: 'PRODUCT', label: 'POS products' },
+  { value: 'MEMBERSHIP', label: 'Membership plans' },
+];
+
+export const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+  { value: 'PERCENTAGE', label: 'Percentage off' },
+  { value: 'FIXED', label: 'Fixed amount off' },
+  { value: 'BUNDLE', label: 'Buy X, get Y free' },
+];
+
+// Codes are matched in upper case
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function describeDiscount(promotion: Promotion): string {
+  switch (promotion.discount_type) {
+    case 'PERCENTAGE':
+      return `${Number(promotion.percent_off)}% off`;
+    case 'FIXED':
+      return promotion.applies_to === 'PRODUCT'
+        ? `${formatCurrency(Number(promotion.amount_off))} off each`
+        : `${formatCurrency(Number(promotion.amount_off))} off`;
+    case 'BUNDLE':
+      return `Buy ${promotion.buy_quantity}, get ${promotion.free_quantity} free`;
+  }
+}
+
+// Whether the promotion would apply to a sale made today
+export function getPromotionStatus(promotion: PromotionWithUsage, today: string): PromotionStatus {
+  if (!promotion.is_active) return 'INACTIVE';
+  if (promotion.starts_on && promotion.starts_on > today) return 'SCHEDULED';
+  if (promotion.ends_on && promotion.ends_on < today) return 'ENDED';
+  if (promotion.usage_limit !== null && promotion.times_used >= promotion.usage_limit) return 'USED_UP';
+  return 'ACTIVE';
+}
+
+export async function getPromotions(): Promise<PromotionWithUsage[]> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*, promotion_products(product_id), transaction_promotions(count)')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(
+    ({
+      promotion_products,
+      transaction_promotions,
+      ...promotion
+    }: Promotion & {
+      promotion_products: { product_id: string }[];
+      transaction_promotions: { count: number }[];
+    }) => ({
+      ...promotion,
+      percent_off: promotion.percent_off === null ? null : Number(promotion.percent_off),
+      amount_off: promotion.amount_off === null ? null : Number(promotion.amount_off),
+      product_ids: (promotion_products || []).map(p => p.product_id),
+      times_used: transaction_promotions?.[0]?.count ?? 0,
+    })
+  );
+}
+
+// Saves the promotion and the products it covers together
+export async function savePromotion(input: PromotionInput, promotionId?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('save_promotion', {
+    p_promotion_id: promotionId ?? null,
+    p_name: input.name,
+    p_description: input.description,
+    p_applies_to: input.applies_to,
+    p_discount_type: input.discount_type,
+    p_percent_off: input.percent_off,
+    p_amount_off: input.amount_off,
+    p_buy_quantity: input.buy_quantity,
+    p_free_quantity: input.free_quantity,
+    p_plan_id: input.plan_id,
+    p_product_ids: input.product_ids,
+    p_starts_on: input.starts_on,
+    p_ends_on: input.ends_on,
+    p_usage_limit: input.usage_limit,
+    p_code: input.code,
+    p_is_active: input.is_active,
+  });
+
+  if (error) throw error;
+
+  return data as string;
+}
+
+export async function setPromotionActive(promotionId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('promotions')
+    .update({ is_active: isActive })
+    .eq('id', promotionId);
+
+  if (error) throw error;
+}
+
+// Uses and discount given per promotion, for sales between the two times
+export async function getPromotionSummary(from: Date, to: Date): Promise<PromotionSummaryLine[]> {
+  const { data, error } = await supabase.rpc('get_promotion_summary', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as PromotionSummaryLine[]).map(line => ({
+    ...line,
+    times_used: Number(line.times_used),
+    discount_amount: Number(line.discount_amount),
+  }));
+}
@@ -0,0 +1,179 @@
+import { encodeReceipt } from './escpos';
+import { buildReceiptLines, getReceipt, RECEIPT_WIDTH, type ReceiptLine } from './receipts';
+import { getSettings } from './settings';
+
+export type PrinterMode = 'BROWSER' | 'USB' | 'BRIDGE';
+
+// Kept per browser, since each terminal has its own printer
+export interface PrinterSettings {
+  mode: PrinterMode;
+  bridgeUrl: string;
+  // Print a receipt as soon as a sale is completed
+  autoPrint: boolean;
+}
+
+export const PRINTER_MODES: { value: PrinterMode; label: string }[] = [
+  { value: 'BROWSER', label: 'Browser print dialog' },
+  { value: 'USB', label: 'USB receipt printer (WebUSB)' },
+  { value: 'BRIDGE', label: 'Local print bridge' },
+];
+
+const STORAGE_KEY = 'receipt-printer';
+
+const defaultPrinterSettings: PrinterSettings = {
+  mode: 'BROWSER',
+  bridgeUrl: 'http://localhost:9100/print',
+  autoPrint: false,
+};
+
+export function getPrinterSettings(): PrinterSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Partial<PrinterSettings>;
+    return { ...defaultPrinterSettings, ...stored };
+  } catch {
+    return defaultPrinterSettings;
+  }
+}
+
+export function savePrinterSettings(settings: PrinterSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function isUsbSupported(): boolean {
+  return navigator.usb !== undefined;
+}
+
+// Ask the browser for access to a printer; it is remembered for later visits
+export async function connectUsbPrinter(): Promise<string> {
+  if (!navigator.usb) throw new Error('This browser does not support USB printers.');
+
+  const device = await navigator.usb.requestDevice({ filters: [] });
+  return device.productName || device.manufacturerName || 'USB printer';
+}
+
+// The printer granted most recently, or null when none has been connected
+export async function getUsbPrinterName(): Promise<string | null> {
+  if (!navigator.usb) return null;
+
+  const devices = await navigator.usb.getDevices();
+  const device = devices[devices.length - 1];
+  return device ? device.productName || device.manufacturerName || 'USB printer' : null;
+}
+
+async function sendToUsb(data: Uint8Array) {
+  if (!navigator.usb) throw new Error('This browser does not support USB printers.');
+
+  const devices = await navigator.usb.getDevices();
+  const device = devices[devices.length - 1];
+  if (!device) throw new Error('No USB printer connected.');
+
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+
+  const printerInterface = device.configuration?.interfaces.find(i =>
+    i.alternate.endpoints.some(e => e.direction === 'out' && e.type === 'bulk')
+  );
+  const endpoint = printerInterface?.alternate.endpoints.find(e => e.direction === 'out' && e.type === 'bulk');
+  if (!printerInterface || !endpoint) throw new Error('The USB device does not accept print data.');
+
+  if (!printerInterface.claimed) await device.claimInterface(printerInterface.interfaceNumber);
+  await device.transferOut(endpoint.endpointNumber, data);
+}
+
+// The bridge forwards the raw ESC/POS bytes to a printer the browser cannot reach
+async function sendToBridge(url: string, data: Uint8Array) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data,
+  });
+
+  if (!response.ok) throw new Error(`Print bridge responded with ${response.status}.`);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Print through a hidden frame sized for 80mm paper, so the page itself is not printed
+function printInBrowser(lines: ReceiptLine[]) {
+  const body = lines
+    .map(line => {
+      const style = [
+        `text-align:${line.align ?? 'left'}`,
+        line.bold ? 'font-weight:bold' : '',
+        line.large ? 'font-size:18px' : '',
+      ].filter(Boolean).join(';');
+      return `<div style="${style}">${escapeHtml(line.text) || '&nbsp;'}</div>`;
+    })
+    .join('');
+
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Failed to open the print preview.');
+  }
+
+  frameWindow.document.write(`<!DOCTYPE html><html><head><title>Receipt</title><style>
+    @page { size: 80mm auto; margin: 0; }
+    body { width: 72mm; margin: 4mm; font-family: monospace; font-size: 11px; white-space: pre; }
+  </style></head><body>${body}</body></html>`);
+  frameWindow.document.close();
+
+  frameWindow.onafterprint = () => frame.remove();
+  frameWindow.focus();
+  frameWindow.print();
+}
+
+// Send the lines to the configured printer, falling back to the browser when it cannot be reached
+export async function printLines(lines: ReceiptLine[]) {
+  const settings = getPrinterSettings();
+
+  try {
+    if (settings.mode === 'USB') {
+      await sendToUsb(encodeReceipt(lines));
+      return;
+    }
+    if (settings.mode === 'BRIDGE') {
+      await sendToBridge(settings.bridgeUrl, encodeReceipt(lines));
+      return;
+    }
+  } catch (err) {
+    console.error('Error printing receipt, using the browser instead:', err);
+  }
+
+  printInBrowser(lines);
+}
+
+export async function printReceipt(transactionId: string) {
+  const [receipt, settings] = await Promise.all([getReceipt(transactionId), getSettings()]);
+  await printLines(buildReceiptLines(receipt, settings.gym_name));
+}
+
+// Called after a sale; does nothing unless this terminal prints automatically
+export async function autoPrintReceipt(transactionId: string | null) {
+  if (!transactionId || !getPrinterSettings().autoPrint) return;
+
+  try {
+    await printReceipt(transactionId);
+  } catch (err) {
+    console.error('Error printing receipt:', err);
+  }
+}
+
+export async function printTestReceipt() {
+  const settings = await getSettings();
+  await printLines([
+    { text: settings.gym_name, align: 'center', bold: true, large: true },
+    { text: 'Printer test', align: 'center' },
+    { text: '-'.repeat(RECEIPT_WIDTH) },
+    { text: 'If you can read this, receipts will print here.' },
+  ]);
+}
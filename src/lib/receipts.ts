@@ -0,0 +1,207 @@
+import { supabase } from './supabase';
+import type { Transaction } from './members';
+import { PAYMENT_METHODS, type PaymentMethod, type TransactionType } from './transactions';
+import { formatCurrency, formatDateTime } from './utils';
+
+export interface ReceiptItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+// Tax included in the total at one rate
+export interface ReceiptTax {
+  tax_name: string;
+  rate: number;
+  net_amount: number;
+  tax_amount: number;
+}
+
+// A promotion's discount, taken off the lines above it
+export interface ReceiptDiscount {
+  promotion_name: string;
+  amount: number;
+}
+
+export interface ReceiptPayment {
+  payment_method: PaymentMethod;
+  amount: number;
+}
+
+export interface Receipt {
+  transaction_id: string;
+  created_at: string;
+  type: TransactionType;
+  status: Transaction['status'];
+  refund_of: string | null;
+  staff_name: string | null;
+  member_name: string | null;
+  lines: ReceiptItem[];
+  discounts: ReceiptDiscount[];
+  payments: ReceiptPayment[];
+  total: number;
+  taxes: ReceiptTax[];
+}
+
+// One printed line; large text is double width, so it fits half as many characters
+export interface ReceiptLine {
+  text: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+  large?: boolean;
+}
+
+// Characters per line in the printer's standard font on 80mm paper
+export const RECEIPT_WIDTH = 48;
+
+export async function getReceipt(transactionId: string): Promise<Receipt> {
+  const { data, error } = await supabase.rpc('get_receipt', { p_transaction_id: transactionId });
+  if (error) throw error;
+
+  const receipt = data as Receipt;
+
+  return {
+    ...receipt,
+    lines: receipt.lines.map(line => ({
+      ...line,
+      quantity: Number(line.quantity),
+      unit_price: Number(line.unit_price),
+      amount: Number(line.amount),
+    })),
+    discounts: receipt.discounts.map(discount => ({ ...discount, amount: Number(discount.amount) })),
+    payments: receipt.payments.map(payment => ({ ...payment, amount: Number(payment.amount) })),
+    total: Number(receipt.total),
+    taxes: receipt.taxes.map(tax => ({
+      ...tax,
+      rate: Number(tax.rate),
+      net_amount: Number(tax.net_amount),
+      tax_amount: Number(tax.tax_amount),
+    })),
+  };
+}
+
+// The transaction a membership or coupon sale was recorded as, for printing its receipt
+export async function findSaleTransactionId(relatedId: string, types: TransactionType[]): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id')
+    .eq('related_id', relatedId)
+    .in('type', types)
+    .is('refund_of', null)
+    .is('payment_for', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.id ?? null;
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+// Left text and a right-aligned value on one line; the left text wraps above when it does not fit
+function columns(left: string, right: string, width: number, bold?: boolean): ReceiptLine[] {
+  const wrapped = left.length < width - right.length ? [left] : wrapText(left, width - right.length - 1);
+  const last = wrapped.pop() ?? '';
+
+  return [
+    ...wrapped.map(text => ({ text, bold })),
+    { text: last.padEnd(width - right.length) + right, bold },
+  ];
+}
+
+function paymentLabel(method: PaymentMethod): string {
+  return PAYMENT_METHODS.find(m => m.value === method)?.label ?? method.replace(/_/g, ' ');
+}
+
+// Lay the receipt out as fixed-width text, shared by the ESC/POS and browser printers
+export function buildReceiptLines(receipt: Receipt, gymName: string, width = RECEIPT_WIDTH): ReceiptLine[] {
+  const divider: ReceiptLine = { text: '-'.repeat(width) };
+  const lines: ReceiptLine[] = [
+    ...wrapText(gymName, Math.floor(width / 2)).map(text => ({ text, align: 'center' as const, bold: true, large: true })),
+    { text: formatDateTime(receipt.created_at), align: 'center' },
+  ];
+
+  if (receipt.refund_of) {
+    lines.push({ text: 'REFUND', align: 'center', bold: true });
+  }
+
+  lines.push(divider);
+
+  receipt.lines.forEach(item => {
+    if (item.quantity === 1) {
+      lines.push(...columns(item.description, formatCurrency(item.amount), width));
+    } else {
+      lines.push(...wrapText(item.description, width).map(text => ({ text })));
+      lines.push(...columns(`  ${item.quantity} x ${formatCurrency(item.unit_price)}`, formatCurrency(item.amount), width));
+    }
+  });
+
+  receipt.discounts.forEach(discount => {
+    lines.push(...columns(discount.promotion_name, `-${formatCurrency(discount.amount)}`, width));
+  });
+
+  lines.push(divider);
+  lines.push(...columns('TOTAL', formatCurrency(receipt.total), width, true));
+  receipt.taxes.forEach(tax => {
+    lines.push(...columns(
+      `Incl. ${tax.tax_name} ${tax.rate}% on ${formatCurrency(tax.net_amount)}`,
+      formatCurrency(tax.tax_amount),
+      width
+    ));
+  });
+
+  if (receipt.status === 'OUTSTANDING') {
+    lines.push({ text: 'Charged to account' });
+  } else {
+    receipt.payments.forEach(payment => {
+      lines.push(...columns(paymentLabel(payment.payment_method), formatCurrency(payment.amount), width));
+    });
+  }
+
+  lines.push(divider);
+
+  if (receipt.member_name) {
+    lines.push(...wrapText(`Member: ${receipt.member_name}`, width).map(text => ({ text })));
+  }
+  if (receipt.staff_name) {
+    lines.push(...wrapText(`Served by: ${receipt.staff_name}`, width).map(text => ({ text })));
+  }
+
+  lines.push(
+    { text: 'Transaction ID', align: 'center' },
+    { text: receipt.transaction_id, align: 'center' },
+    { text: '' },
+    { text: 'Thank you!', align: 'center', bold: true }
+  );
+
+  return lines;
+}
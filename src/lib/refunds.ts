@@ -0,0 +1,161 @@
+import { supabase, type Database } from './supabase';
+import type { Transaction } from './members';
+import type { PaymentMethod } from './transactions';
+import { roundCurrency } from './pos';
+
+export type RefundRequest = Database['public']['Tables']['refund_requests']['Row'];
+export type RefundKind = RefundRequest['kind'];
+
+export type RefundRequestWithTransaction = RefundRequest & {
+  transactions: Pick<Transaction, 'type' | 'description' | 'amount' | 'payment_method' | 'created_at'> | null;
+};
+
+export interface RefundableItem {
+  product_id: string;
+  name: string;
+  unit_price: number;
+  quantity_sold: number;
+  quantity_returned: number;
+}
+
+export interface ReturnedItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface RefundParams {
+  transactionId: string;
+  kind: RefundKind;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  items: ReturnedItem[];
+  reason: string;
+  // The shift paying the money out; only used when the request is approved straight away
+  shiftId: string | null;
+}
+
+// What has already been given back, or is waiting for approval, against one transaction
+export interface RefundSummary {
+  refunded: number;
+  pending: number;
+}
+
+// Refund entries and unpaid charges cannot themselves be refunded
+export function isRefundable(transaction: Transaction): boolean {
+  return transaction.amount > 0 && transaction.status === 'PAID' && !transaction.refund_of;
+}
+
+// Total refunded so far for each of the given transactions
+export async function getRefundedAmounts(transactionIds: string[]): Promise<Record<string, number>> {
+  if (transactionIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('refund_of, amount')
+    .in('refund_of', transactionIds);
+
+  if (error) throw error;
+
+  const totals: Record<string, number> = {};
+  for (const refund of (data || []) as Pick<Transaction, 'refund_of' | 'amount'>[]) {
+    if (!refund.refund_of) continue;
+    totals[refund.refund_of] = roundCurrency((totals[refund.refund_of] ?? 0) - refund.amount);
+  }
+  return totals;
+}
+
+export async function getRefundSummary(transactionId: string): Promise<RefundSummary> {
+  const [refunded, { data, error }] = await Promise.all([
+    getRefundedAmounts([transactionId]),
+    supabase
+      .from('refund_requests')
+      .select('amount')
+      .eq('transaction_id', transactionId)
+      .eq('status', 'PENDING'),
+  ]);
+
+  if (error) throw error;
+
+  return {
+    refunded: refunded[transactionId] ?? 0,
+    pending: roundCurrency((data || []).reduce((sum: number, request: { amount: number }) => sum + request.amount, 0)),
+  };
+}
+
+// A POS sale has one transaction per payment; other transactions stand alone
+export async function getSalePaymentCount(transaction: Transaction): Promise<number> {
+  if (transaction.type !== 'POS_SALE' || !transaction.related_id) return 1;
+
+  const { count, error } = await supabase
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('type', 'POS_SALE')
+    .eq('related_id', transaction.related_id)
+    .is('refund_of', null);
+
+  if (error) throw error;
+
+  return count ?? 1;
+}
+
+// Products on a POS sale with how many of each have already been returned
+export async function getRefundableItems(transactionId: string): Promise<RefundableItem[]> {
+  const { data, error } = await supabase.rpc('get_refundable_items', { p_transaction_id: transactionId });
+  if (error) throw error;
+
+  return ((data || []) as RefundableItem[]).map(item => ({ ...item, unit_price: Number(item.unit_price) }));
+}
+
+// Requests from admins are carried out immediately; requests from CS wait for an admin
+export async function requestRefund(params: RefundParams): Promise<RefundRequest> {
+  const { data, error } = await supabase.rpc('request_refund', {
+    p_transaction_id: params.transactionId,
+    p_kind: params.kind,
+    p_amount: params.amount,
+    p_payment_method: params.paymentMethod,
+    p_items: params.items
+      .filter(item => item.quantity > 0)
+      .map(item => ({ product_id: item.productId, quantity: item.quantity })),
+    p_reason: params.reason,
+    p_shift_id: params.shiftId,
+  });
+
+  if (error) throw error;
+
+  return data as RefundRequest;
+}
+
+export async function getPendingRefundRequests(): Promise<RefundRequestWithTransaction[]> {
+  const { data, error } = await supabase
+    .from('refund_requests')
+    .select('*, transactions!refund_requests_transaction_id_fkey(type, description, amount, payment_method, created_at)')
+    .eq('status', 'PENDING')
+    .order('requested_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as RefundRequestWithTransaction[];
+}
+
+// The refund is paid out on the approving admin's shift
+export async function approveRefund(requestId: string, shiftId: string): Promise<RefundRequest> {
+  const { data, error } = await supabase.rpc('approve_refund', {
+    p_request_id: requestId,
+    p_shift_id: shiftId,
+  });
+
+  if (error) throw error;
+
+  return data as RefundRequest;
+}
+
+export async function rejectRefund(requestId: string, note?: string): Promise<RefundRequest> {
+  const { data, error } = await supabase.rpc('reject_refund', {
+    p_request_id: requestId,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+
+  return data as RefundRequest;
+}
@@ -0,0 +1,47 @@
+import { supabase } from './supabase';
+import { findMemberByCode, type Member } from './members';
+import type { SoldCouponWithTemplate } from './checkin';
+
+export type ScanResult =
+  | { kind: 'member'; code: string; member: Member }
+  | { kind: 'coupon'; code: string; coupon: SoldCouponWithTemplate }
+  | { kind: 'unknown'; code: string };
+
+// Formats printed on member cards and coupons, plus common retail symbologies
+export const SCANNER_FORMATS: BarcodeFormat[] = [
+  'qr_code',
+  'code_128',
+  'code_39',
+  'code_93',
+  'codabar',
+  'ean_13',
+  'ean_8',
+  'itf',
+  'upc_a',
+  'upc_e',
+];
+
+// Scanners can add whitespace or control characters around the payload
+export function normalizeScannedCode(raw: string): string {
+  return raw.replace(/[^\x20-\x7E]/g, '').trim().toUpperCase();
+}
+
+// Match a scanned value against member IDs first, then coupon codes
+export async function resolveScannedCode(raw: string): Promise<ScanResult> {
+  const code = normalizeScannedCode(raw);
+  if (!code) return { kind: 'unknown', code };
+
+  const member = await findMemberByCode(code);
+  if (member) return { kind: 'member', code, member };
+
+  const { data: coupon, error: couponError } = await supabase
+    .from('sold_coupons')
+    .select('*, coupon_templates(name, max_entries)')
+    .eq('code', code)
+    .maybeSingle();
+
+  if (couponError) throw couponError;
+  if (coupon) return { kind: 'coupon', code, coupon: coupon as SoldCouponWithTemplate };
+
+  return { kind: 'unknown', code };
+}
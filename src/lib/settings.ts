@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+
+// What check-in does for a member whose overdue balance is over the threshold
+export type DebtCheckInAction = 'WARN' | 'BLOCK';
+
+export interface GymSettings {
+  grace_period_days: number;
+  walk_in_rate: number;
+  registration_fee_default: number;
+  gym_name: string;
+  currency_symbol: string;
+  member_id_prefix: string;
+  member_id_padding: number;
+  max_freeze_days_per_year: number;
+  debt_overdue_days: number;
+  debt_checkin_threshold: number;
+  debt_checkin_action: DebtCheckInAction;
+  // False when tax is added on top of prices at the time of sale
+  prices_include_tax: boolean;
+  // Cash difference at shift close above which a note and an admin's acknowledgement are needed
+  cash_discrepancy_threshold: number;
+  // Currency whose notes and coins are counted at shift close
+  cash_currency: string;
+}
+
+const defaultSettings: GymSettings = {
+  grace_period_days: 7,
+  walk_in_rate: 15,
+  registration_fee_default: 25,
+  gym_name: 'FMF Gym',
+  currency_symbol: '$',
+  member_id_prefix: 'FMF',
+  member_id_padding: 6,
+  max_freeze_days_per_year: 30,
+  debt_overdue_days: 30,
+  debt_checkin_threshold: 50,
+  debt_checkin_action: 'WARN',
+  prices_include_tax: true,
+  cash_discrepancy_threshold: 5,
+  cash_currency: 'USD',
+};
+
+function toNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// Load system settings and coerce numeric values, falling back to defaults
+export async function getSettings(): Promise<GymSettings> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('key, value');
+
+  if (error) throw error;
+
+  const values: Record<string, string> = {};
+  data?.forEach((setting: { key: string; value: string }) => {
+    values[setting.key] = setting.value;
+  });
+
+  return {
+    grace_period_days: toNumber(values.grace_period_days, defaultSettings.grace_period_days),
+    walk_in_rate: toNumber(values.walk_in_rate, defaultSettings.walk_in_rate),
+    registration_fee_default: toNumber(values.registration_fee_default, defaultSettings.registration_fee_default),
+    gym_name: values.gym_name || defaultSettings.gym_name,
+    currency_symbol: values.currency_symbol || defaultSettings.currency_symbol,
+    member_id_prefix: values.member_id_prefix ?? defaultSettings.member_id_prefix,
+    member_id_padding: toNumber(values.member_id_padding, defaultSettings.member_id_padding),
+    max_freeze_days_per_year: toNumber(values.max_freeze_days_per_year, defaultSettings.max_freeze_days_per_year),
+    debt_overdue_days: toNumber(values.debt_overdue_days, defaultSettings.debt_overdue_days),
+    debt_checkin_threshold: toNumber(values.debt_checkin_threshold, defaultSettings.debt_checkin_threshold),
+    debt_checkin_action: values.debt_checkin_action === 'BLOCK' ? 'BLOCK' : defaultSettings.debt_checkin_action,
+    prices_include_tax: values.prices_include_tax !== 'false',
+    cash_discrepancy_threshold: toNumber(values.cash_discrepancy_threshold, defaultSettings.cash_discrepancy_threshold),
+    cash_currency: values.cash_currency || defaultSettings.cash_currency,
+  };
+}
@@ -0,0 +1,155 @@
+import { supabase, type Database } from './supabase';
+import type { CashCountLine } from './cash';
+import { getCurrentTerminalId } from './terminals';
+
+export type Shift = Database['public']['Tables']['shifts']['Row'];
+
+// A shift with the names of its terminal and staff, as listed on the Shifts page
+export interface ShiftDetails {
+  id: string;
+  terminal_id: string | null;
+  terminal_name: string | null;
+  // The shift this one took over from
+  previous_shift_id: string | null;
+  start_time: string;
+  end_time: string | null;
+  starting_staff_id: string;
+  starting_staff_name: string | null;
+  ending_staff_id: string | null;
+  ending_staff_name: string | null;
+  starting_cash_float: number;
+  ending_cash_balance: number | null;
+  system_calculated_cash: number | null;
+  // Counted minus expected, so a shortage is negative
+  cash_discrepancy: number | null;
+  status: Shift['status'];
+  notes: string | null;
+  requires_acknowledgement: boolean;
+  acknowledged_by_name: string | null;
+  acknowledged_at: string | null;
+}
+
+// Cash the drawer should hold; refunds paid out in cash are taken off
+export interface ShiftCash {
+  starting_cash_float: number;
+  cash_taken: number;
+  cash_refunded: number;
+  expected_cash: number;
+}
+
+export interface CloseShiftParams {
+  shiftId: string;
+  counts: CashCountLine[];
+  notes: string | null;
+  // Leave the shift for the next staff member to count and take over
+  handover: boolean;
+}
+
+export interface ShiftFilters {
+  from?: Date;
+  to?: Date;
+  statuses?: Shift['status'][];
+  awaitingAcknowledgement?: boolean;
+}
+
+// Get the active shift on this browser's terminal, if any
+export async function getActiveShift(): Promise<Shift | null> {
+  const terminalId = getCurrentTerminalId();
+  if (!terminalId) return null;
+
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .eq('status', 'ACTIVE')
+    .eq('terminal_id', terminalId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as Shift | null;
+}
+
+export async function openShift(terminalId: string, startingCashFloat: number): Promise<Shift> {
+  const { data, error } = await supabase.rpc('open_shift', {
+    p_terminal_id: terminalId,
+    p_starting_cash_float: startingCashFloat,
+  });
+
+  if (error) throw error;
+
+  return data as Shift;
+}
+
+export async function getShiftCash(shiftId: string): Promise<ShiftCash> {
+  const { data, error } = await supabase.rpc('get_shift_cash', { p_shift_id: shiftId });
+  if (error) throw error;
+
+  const cash = (data as ShiftCash[])[0];
+
+  return {
+    starting_cash_float: Number(cash.starting_cash_float),
+    cash_taken: Number(cash.cash_taken),
+    cash_refunded: Number(cash.cash_refunded),
+    expected_cash: Number(cash.expected_cash),
+  };
+}
+
+// A discrepancy above the threshold needs notes, and is then left for an admin to acknowledge
+export async function closeShift(params: CloseShiftParams): Promise<Shift> {
+  const { data, error } = await supabase.rpc('close_shift', {
+    p_shift_id: params.shiftId,
+    p_counts: params.counts,
+    p_notes: params.notes,
+    p_handover: params.handover,
+  });
+
+  if (error) throw error;
+
+  return data as Shift;
+}
+
+// Starts a shift for the caller with the handed over cash as its float, once their count matches
+export async function acceptHandover(shiftId: string, counts: CashCountLine[]): Promise<Shift> {
+  const { data, error } = await supabase.rpc('accept_handover', {
+    p_shift_id: shiftId,
+    p_counts: counts,
+  });
+
+  if (error) throw error;
+
+  return data as Shift;
+}
+
+// Reopens a shift waiting to be handed over
+export async function cancelHandover(shiftId: string): Promise<Shift> {
+  const { data, error } = await supabase.rpc('cancel_handover', { p_shift_id: shiftId });
+  if (error) throw error;
+
+  return data as Shift;
+}
+
+export async function acknowledgeShiftDiscrepancy(shiftId: string): Promise<Shift> {
+  const { data, error } = await supabase.rpc('acknowledge_shift_discrepancy', { p_shift_id: shiftId });
+  if (error) throw error;
+
+  return data as Shift;
+}
+
+export async function getShifts(filters: ShiftFilters = {}): Promise<ShiftDetails[]> {
+  const { data, error } = await supabase.rpc('get_shifts', {
+    p_from: filters.from?.toISOString() ?? null,
+    p_to: filters.to?.toISOString() ?? null,
+    p_statuses: filters.statuses ?? null,
+    p_awaiting_acknowledgement: filters.awaitingAcknowledgement ?? false,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as ShiftDetails[]).map(shift => ({
+    ...shift,
+    starting_cash_float: Number(shift.starting_cash_float),
+    ending_cash_balance: shift.ending_cash_balance === null ? null : Number(shift.ending_cash_balance),
+    system_calculated_cash: shift.system_calculated_cash === null ? null : Number(shift.system_calculated_cash),
+    cash_discrepancy: shift.cash_discrepancy === null ? null : Number(shift.cash_discrepancy),
+  }));
+}
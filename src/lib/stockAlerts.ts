@@ -0,0 +1,60 @@
+import { supabase, type Database } from './supabase';
+
+export type StockAlert = Database['public']['Tables']['stock_alerts']['Row'] & {
+  products: { name: string; current_stock: number } | null;
+};
+
+export interface ReorderLine {
+  product_id: string;
+  name: string;
+  current_stock: number;
+  low_stock_threshold: number;
+  units_sold: number;
+  daily_sales: number;
+  // Null when the product has not sold in the period
+  days_of_stock: number | null;
+  suggested_quantity: number;
+}
+
+export const DEFAULT_SALES_DAYS = 30;
+export const DEFAULT_COVER_DAYS = 14;
+
+// Alerts stay open until stock is back above the threshold; dismissed ones are left out unless asked for
+export async function getOpenStockAlerts(options: { includeAcknowledged?: boolean } = {}): Promise<StockAlert[]> {
+  let query = supabase
+    .from('stock_alerts')
+    .select('*, products(name, current_stock)')
+    .is('resolved_at', null)
+    .order('created_at', { ascending: false });
+
+  if (!options.includeAcknowledged) query = query.is('acknowledged_at', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as StockAlert[];
+}
+
+export async function acknowledgeStockAlert(alertId: string): Promise<void> {
+  const { error } = await supabase.rpc('acknowledge_stock_alert', { p_alert_id: alertId });
+  if (error) throw error;
+}
+
+// Suggested quantities cover coverDays of the sales rate over the last salesDays, on top of the threshold
+export async function getReorderReport(
+  salesDays: number = DEFAULT_SALES_DAYS,
+  coverDays: number = DEFAULT_COVER_DAYS
+): Promise<ReorderLine[]> {
+  const { data, error } = await supabase.rpc('get_reorder_report', {
+    p_sales_days: salesDays,
+    p_cover_days: coverDays,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as ReorderLine[]).map(line => ({
+    ...line,
+    daily_sales: Number(line.daily_sales),
+    days_of_stock: line.days_of_stock === null ? null : Number(line.days_of_stock),
+  }));
+}
@@ -69,6 +69,7 @@ export interface Database {
         Row: {
           id: string;
           member_id_string: string;
+          legacy_member_id: string | null;
           full_name: string;
           email: string | null;
           phone_number: string | null;
@@ -81,7 +82,8 @@ export interface Database {
         };
         Insert: {
           id?: string;
-          member_id_string: string;
+          member_id_string?: string;
+          legacy_member_id?: string | null;
           full_name: string;
           email?: string | null;
           phone_number?: string | null;
@@ -95,6 +97,7 @@ export interface Database {
         Update: {
           id?: string;
           member_id_string?: string;
+          legacy_member_id?: string | null;
           full_name?: string;
           email?: string | null;
           phone_number?: string | null;
@@ -116,6 +119,10 @@ export interface Database {
           free_months_on_signup: number;
           is_active: boolean;
           description: string | null;
+          tax_rate_id: string | null;
+          plan_group_id: string;
+          version: number;
+          superseded_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -128,6 +135,10 @@ export interface Database {
           free_months_on_signup?: number;
           is_active?: boolean;
           description?: string | null;
+          tax_rate_id?: string | null;
+          plan_group_id?: string;
+          version?: number;
+          superseded_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -140,10 +151,210 @@ export interface Database {
           free_months_on_signup?: number;
           is_active?: boolean;
           description?: string | null;
+          tax_rate_id?: string | null;
+          plan_group_id?: string;
+          version?: number;
+          superseded_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      memberships: {
+        Row: {
+          id: string;
+          member_id: string;
+          plan_id: string;
+          start_date: string;
+          end_date: string;
+          status: 'ACTIVE' | 'FROZEN' | 'EXPIRED' | 'CANCELLED';
+          registration_fee_paid: number;
+          amount_paid: number;
+          created_by: string | null;
+          created_at: string;
+          replaced_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          member_id: string;
+          plan_id: string;
+          start_date: string;
+          end_date: string;
+          status?: 'ACTIVE' | 'FROZEN' | 'EXPIRED' | 'CANCELLED';
+          registration_fee_paid?: number;
+          amount_paid: number;
+          created_by?: string | null;
+          created_at?: string;
+          replaced_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          member_id?: string;
+          plan_id?: string;
+          start_date?: string;
+          end_date?: string;
+          status?: 'ACTIVE' | 'FROZEN' | 'EXPIRED' | 'CANCELLED';
+          registration_fee_paid?: number;
+          amount_paid?: number;
+          created_by?: string | null;
+          created_at?: string;
+          replaced_by?: string | null;
+        };
+      };
+      transactions: {
+        Row: {
+          id: string;
+          shift_id: string;
+          amount: number;
+          payment_method: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+          type: 'MEMBERSHIP' | 'COUPON_SALE' | 'POS_SALE' | 'WALK_IN' | 'REGISTRATION_FEE' | 'OTHER';
+          related_id: string | null;
+          description: string | null;
+          processed_by: string;
+          status: 'PAID' | 'OUTSTANDING' | 'REFUNDED';
+          refund_of: string | null;
+          payment_for: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          amount: number;
+          payment_method: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+          type: 'MEMBERSHIP' | 'COUPON_SALE' | 'POS_SALE' | 'WALK_IN' | 'REGISTRATION_FEE' | 'OTHER';
+          related_id?: string | null;
+          description?: string | null;
+          processed_by: string;
+          status?: 'PAID' | 'OUTSTANDING' | 'REFUNDED';
+          refund_of?: string | null;
+          payment_for?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          amount?: number;
+          payment_method?: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+          type?: 'MEMBERSHIP' | 'COUPON_SALE' | 'POS_SALE' | 'WALK_IN' | 'REGISTRATION_FEE' | 'OTHER';
+          related_id?: string | null;
+          description?: string | null;
+          processed_by?: string;
+          status?: 'PAID' | 'OUTSTANDING' | 'REFUNDED';
+          refund_of?: string | null;
+          payment_for?: string | null;
+          created_at?: string;
+        };
+      };
+      check_ins: {
+        Row: {
+          id: string;
+          shift_id: string;
+          type: 'MEMBERSHIP' | 'COUPON' | 'WALK_IN' | 'GRACE_PERIOD';
+          member_id: string | null;
+          sold_coupon_id: string | null;
+          coupon_entries_remaining: number | null;
+          processed_by: string;
+          check_in_time: string;
+          notes: string | null;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          type: 'MEMBERSHIP' | 'COUPON' | 'WALK_IN' | 'GRACE_PERIOD';
+          member_id?: string | null;
+          sold_coupon_id?: string | null;
+          coupon_entries_remaining?: number | null;
+          processed_by: string;
+          check_in_time?: string;
+          notes?: string | null;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          type?: 'MEMBERSHIP' | 'COUPON' | 'WALK_IN' | 'GRACE_PERIOD';
+          member_id?: string | null;
+          sold_coupon_id?: string | null;
+          coupon_entries_remaining?: number | null;
+          processed_by?: string;
+          check_in_time?: string;
+          notes?: string | null;
+        };
+      };
+      coupon_templates: {
+        Row: {
+          id: string;
+          name: string;
+          price: number;
+          max_entries: number;
+          duration_days: number;
+          is_active: boolean;
+          description: string | null;
+          tax_rate_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          price: number;
+          max_entries: number;
+          duration_days: number;
+          is_active?: boolean;
+          description?: string | null;
+          tax_rate_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          price?: number;
+          max_entries?: number;
+          duration_days?: number;
+          is_active?: boolean;
+          description?: string | null;
+          tax_rate_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      sold_coupons: {
+        Row: {
+          id: string;
+          template_id: string;
+          code: string;
+          member_id: string | null;
+          purchase_date: string;
+          expiry_date: string;
+          entries_remaining: number;
+          is_active: boolean;
+          sold_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          template_id: string;
+          code: string;
+          member_id?: string | null;
+          purchase_date?: string;
+          expiry_date: string;
+          entries_remaining: number;
+          is_active?: boolean;
+          sold_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          template_id?: string;
+          code?: string;
+          member_id?: string | null;
+          purchase_date?: string;
+          expiry_date?: string;
+          entries_remaining?: number;
+          is_active?: boolean;
+          sold_by?: string | null;
+          created_at?: string;
+        };
+      };
       shifts: {
         Row: {
           id: string;
@@ -155,8 +366,13 @@ export interface Database {
           ending_cash_balance: number | null;
           system_calculated_cash: number | null;
           cash_discrepancy: number | null;
-          status: 'ACTIVE' | 'CLOSED';
+          status: 'ACTIVE' | 'HANDOVER' | 'CLOSED';
           notes: string | null;
+          terminal_id: string | null;
+          previous_shift_id: string | null;
+          requires_acknowledgement: boolean;
+          acknowledged_by: string | null;
+          acknowledged_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -169,8 +385,13 @@ export interface Database {
           ending_cash_balance?: number | null;
           system_calculated_cash?: number | null;
           cash_discrepancy?: number | null;
-          status?: 'ACTIVE' | 'CLOSED';
+          status?: 'ACTIVE' | 'HANDOVER' | 'CLOSED';
           notes?: string | null;
+          terminal_id?: string | null;
+          previous_shift_id?: string | null;
+          requires_acknowledgement?: boolean;
+          acknowledged_by?: string | null;
+          acknowledged_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -183,10 +404,641 @@ export interface Database {
           ending_cash_balance?: number | null;
           system_calculated_cash?: number | null;
           cash_discrepancy?: number | null;
-          status?: 'ACTIVE' | 'CLOSED';
+          status?: 'ACTIVE' | 'HANDOVER' | 'CLOSED';
+          notes?: string | null;
+          terminal_id?: string | null;
+          previous_shift_id?: string | null;
+          requires_acknowledgement?: boolean;
+          acknowledged_by?: string | null;
+          acknowledged_at?: string | null;
+          created_at?: string;
+        };
+      };
+      member_merges: {
+        Row: {
+          id: string;
+          surviving_member_id: string;
+          merged_member_id: string;
+          merged_member_id_string: string;
+          merged_snapshot: Record<string, unknown>;
+          moved_counts: Record<string, unknown>;
+          notes: string | null;
+          merged_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          surviving_member_id: string;
+          merged_member_id: string;
+          merged_member_id_string: string;
+          merged_snapshot: Record<string, unknown>;
+          moved_counts?: Record<string, unknown>;
+          notes?: string | null;
+          merged_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          surviving_member_id?: string;
+          merged_member_id?: string;
+          merged_member_id_string?: string;
+          merged_snapshot?: Record<string, unknown>;
+          moved_counts?: Record<string, unknown>;
+          notes?: string | null;
+          merged_by?: string;
+          created_at?: string;
+        };
+      };
+      membership_freezes: {
+        Row: {
+          id: string;
+          membership_id: string;
+          start_date: string;
+          end_date: string;
+          reason: string;
+          ended_at: string | null;
+          days_frozen: number | null;
+          created_by: string | null;
+          ended_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          membership_id: string;
+          start_date: string;
+          end_date: string;
+          reason: string;
+          ended_at?: string | null;
+          days_frozen?: number | null;
+          created_by?: string | null;
+          ended_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          membership_id?: string;
+          start_date?: string;
+          end_date?: string;
+          reason?: string;
+          ended_at?: string | null;
+          days_frozen?: number | null;
+          created_by?: string | null;
+          ended_by?: string | null;
+          created_at?: string;
+        };
+      };
+      job_runs: {
+        Row: {
+          id: string;
+          job_name: string;
+          status: 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+          started_at: string;
+          finished_at: string | null;
+          result: Record<string, unknown> | null;
+          error: string | null;
+          triggered_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          job_name: string;
+          status?: 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+          started_at?: string;
+          finished_at?: string | null;
+          result?: Record<string, unknown> | null;
+          error?: string | null;
+          triggered_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          job_name?: string;
+          status?: 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+          started_at?: string;
+          finished_at?: string | null;
+          result?: Record<string, unknown> | null;
+          error?: string | null;
+          triggered_by?: string | null;
+        };
+      };
+      products: {
+        Row: {
+          id: string;
+          name: string;
+          price: number;
+          current_stock: number;
+          low_stock_threshold: number;
+          is_active: boolean;
+          description: string | null;
+          tax_rate_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          price: number;
+          current_stock?: number;
+          low_stock_threshold?: number;
+          is_active?: boolean;
+          description?: string | null;
+          tax_rate_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          price?: number;
+          current_stock?: number;
+          low_stock_threshold?: number;
+          is_active?: boolean;
+          description?: string | null;
+          tax_rate_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      stock_movements: {
+        Row: {
+          id: string;
+          product_id: string;
+          change_quantity: number;
+          reason: 'SALE' | 'RECEIVED' | 'DAMAGE' | 'WRITE_OFF' | 'ADJUSTMENT' | 'STOCKTAKE' | 'OPENING_BALANCE' | 'REFUND';
+          transaction_id: string | null;
+          stocktake_id: string | null;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          change_quantity: number;
+          reason: 'SALE' | 'RECEIVED' | 'DAMAGE' | 'WRITE_OFF' | 'ADJUSTMENT' | 'STOCKTAKE' | 'OPENING_BALANCE' | 'REFUND';
+          transaction_id?: string | null;
+          stocktake_id?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          change_quantity?: number;
+          reason?: 'SALE' | 'RECEIVED' | 'DAMAGE' | 'WRITE_OFF' | 'ADJUSTMENT' | 'STOCKTAKE' | 'OPENING_BALANCE' | 'REFUND';
+          transaction_id?: string | null;
+          stocktake_id?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      pos_sales: {
+        Row: {
+          id: string;
+          shift_id: string;
+          total: number;
+          processed_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          total: number;
+          processed_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          total?: number;
+          processed_by?: string;
+          created_at?: string;
+        };
+      };
+      pos_sale_items: {
+        Row: {
+          id: string;
+          sale_id: string;
+          product_id: string;
+          quantity: number;
+          unit_price: number;
+          line_total: number;
+          tax_rate_id: string | null;
+          tax_amount: number;
+          promotion_id: string | null;
+          discount_amount: number;
+        };
+        Insert: {
+          id?: string;
+          sale_id: string;
+          product_id: string;
+          quantity: number;
+          unit_price: number;
+          line_total: number;
+          tax_rate_id?: string | null;
+          tax_amount?: number;
+          promotion_id?: string | null;
+          discount_amount?: number;
+        };
+        Update: {
+          id?: string;
+          sale_id?: string;
+          product_id?: string;
+          quantity?: number;
+          unit_price?: number;
+          line_total?: number;
+          tax_rate_id?: string | null;
+          tax_amount?: number;
+          promotion_id?: string | null;
+          discount_amount?: number;
+        };
+      };
+      stocktakes: {
+        Row: {
+          id: string;
+          notes: string | null;
+          products_counted: number;
+          products_adjusted: number;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
           notes?: string | null;
+          products_counted?: number;
+          products_adjusted?: number;
+          created_by: string;
           created_at?: string;
         };
+        Update: {
+          id?: string;
+          notes?: string | null;
+          products_counted?: number;
+          products_adjusted?: number;
+          created_by?: string;
+          created_at?: string;
+        };
+      };
+      stock_alerts: {
+        Row: {
+          id: string;
+          product_id: string;
+          stock_level: number;
+          threshold: number;
+          created_at: string;
+          acknowledged_at: string | null;
+          acknowledged_by: string | null;
+          resolved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          stock_level: number;
+          threshold: number;
+          created_at?: string;
+          acknowledged_at?: string | null;
+          acknowledged_by?: string | null;
+          resolved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          stock_level?: number;
+          threshold?: number;
+          created_at?: string;
+          acknowledged_at?: string | null;
+          acknowledged_by?: string | null;
+          resolved_at?: string | null;
+        };
+      };
+      refund_requests: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          kind: 'REFUND' | 'VOID';
+          amount: number;
+          payment_method: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+          items: { product_id: string; quantity: number }[];
+          reason: string;
+          status: 'PENDING' | 'APPROVED' | 'REJECTED';
+          requested_by: string;
+          requested_at: string;
+          decided_by: string | null;
+          decided_at: string | null;
+          decision_note: string | null;
+          refund_transaction_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          kind: 'REFUND' | 'VOID';
+          amount: number;
+          payment_method: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+          items?: { product_id: string; quantity: number }[];
+          reason: string;
+          status?: 'PENDING' | 'APPROVED' | 'REJECTED';
+          requested_by: string;
+          requested_at?: string;
+          decided_by?: string | null;
+          decided_at?: string | null;
+          decision_note?: string | null;
+          refund_transaction_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          kind?: 'REFUND' | 'VOID';
+          amount?: number;
+          payment_method?: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'OTHER';
+          items?: { product_id: string; quantity: number }[];
+          reason?: string;
+          status?: 'PENDING' | 'APPROVED' | 'REJECTED';
+          requested_by?: string;
+          requested_at?: string;
+          decided_by?: string | null;
+          decided_at?: string | null;
+          decision_note?: string | null;
+          refund_transaction_id?: string | null;
+        };
+      };
+      tax_rates: {
+        Row: {
+          id: string;
+          name: string;
+          rate: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          rate: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          rate?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      transaction_taxes: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          tax_rate_id: string | null;
+          tax_name: string;
+          rate: number;
+          net_amount: number;
+          tax_amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          tax_rate_id?: string | null;
+          tax_name: string;
+          rate: number;
+          net_amount: number;
+          tax_amount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          tax_rate_id?: string | null;
+          tax_name?: string;
+          rate?: number;
+          net_amount?: number;
+          tax_amount?: number;
+          created_at?: string;
+        };
+      };
+      promotions: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          applies_to: 'PRODUCT' | 'MEMBERSHIP';
+          discount_type: 'PERCENTAGE' | 'FIXED' | 'BUNDLE';
+          percent_off: number | null;
+          amount_off: number | null;
+          buy_quantity: number | null;
+          free_quantity: number | null;
+          plan_id: string | null;
+          starts_on: string | null;
+          ends_on: string | null;
+          usage_limit: number | null;
+          code: string | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          applies_to: 'PRODUCT' | 'MEMBERSHIP';
+          discount_type: 'PERCENTAGE' | 'FIXED' | 'BUNDLE';
+          percent_off?: number | null;
+          amount_off?: number | null;
+          buy_quantity?: number | null;
+          free_quantity?: number | null;
+          plan_id?: string | null;
+          starts_on?: string | null;
+          ends_on?: string | null;
+          usage_limit?: number | null;
+          code?: string | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          applies_to?: 'PRODUCT' | 'MEMBERSHIP';
+          discount_type?: 'PERCENTAGE' | 'FIXED' | 'BUNDLE';
+          percent_off?: number | null;
+          amount_off?: number | null;
+          buy_quantity?: number | null;
+          free_quantity?: number | null;
+          plan_id?: string | null;
+          starts_on?: string | null;
+          ends_on?: string | null;
+          usage_limit?: number | null;
+          code?: string | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      promotion_products: {
+        Row: {
+          promotion_id: string;
+          product_id: string;
+        };
+        Insert: {
+          promotion_id: string;
+          product_id: string;
+        };
+        Update: {
+          promotion_id?: string;
+          product_id?: string;
+        };
+      };
+      transaction_promotions: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          promotion_id: string | null;
+          promotion_name: string;
+          code: string | null;
+          discount_amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          promotion_id?: string | null;
+          promotion_name: string;
+          code?: string | null;
+          discount_amount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          promotion_id?: string | null;
+          promotion_name?: string;
+          code?: string | null;
+          discount_amount?: number;
+          created_at?: string;
+        };
+      };
+      terminals: {
+        Row: {
+          id: string;
+          name: string;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          is_active?: boolean;
+          created_at?: string;
+        };
+      };
+      cash_denominations: {
+        Row: {
+          id: string;
+          currency: string;
+          denomination: number;
+          kind: 'NOTE' | 'COIN';
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          currency: string;
+          denomination: number;
+          kind: 'NOTE' | 'COIN';
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          currency?: string;
+          denomination?: number;
+          kind?: 'NOTE' | 'COIN';
+          is_active?: boolean;
+          created_at?: string;
+        };
+      };
+      shift_cash_counts: {
+        Row: {
+          id: string;
+          shift_id: string;
+          count_type: 'OPENING' | 'CLOSING';
+          currency: string;
+          denomination: number;
+          quantity: number;
+          counted_by: string;
+          created_at: string;
+          cancellation_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          count_type: 'OPENING' | 'CLOSING';
+          currency: string;
+          denomination: number;
+          quantity: number;
+          counted_by: string;
+          created_at?: string;
+          cancellation_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          count_type?: 'OPENING' | 'CLOSING';
+          currency?: string;
+          denomination?: number;
+          quantity?: number;
+          counted_by?: string;
+          created_at?: string;
+          cancellation_id?: string | null;
+        };
+      };
+      shift_handover_cancellations: {
+        Row: {
+          id: string;
+          shift_id: string;
+          ending_staff_id: string | null;
+          end_time: string | null;
+          ending_cash_balance: number | null;
+          system_calculated_cash: number | null;
+          cash_discrepancy: number | null;
+          notes: string | null;
+          cancelled_by: string;
+          cancelled_at: string;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          ending_staff_id?: string | null;
+          end_time?: string | null;
+          ending_cash_balance?: number | null;
+          system_calculated_cash?: number | null;
+          cash_discrepancy?: number | null;
+          notes?: string | null;
+          cancelled_by: string;
+          cancelled_at?: string;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          ending_staff_id?: string | null;
+          end_time?: string | null;
+          ending_cash_balance?: number | null;
+          system_calculated_cash?: number | null;
+          cash_discrepancy?: number | null;
+          notes?: string | null;
+          cancelled_by?: string;
+          cancelled_at?: string;
+        };
       };
     };
   };
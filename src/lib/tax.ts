@@ -0,0 +1,96 @@
+import { supabase, type Database } from './supabase';
+import { getSettings } from './settings';
+
+export type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+
+export interface TaxRateInput {
+  name: string;
+  rate: number;
+}
+
+// How tax applies at the till: whether prices include it, and each rate's percentage by id
+export interface TaxPricing {
+  pricesIncludeTax: boolean;
+  rates: Record<string, number>;
+}
+
+export interface TaxSummaryLine {
+  tax_name: string;
+  rate: number;
+  net_amount: number;
+  tax_amount: number;
+  gross_amount: number;
+}
+
+export async function getTaxRates(): Promise<TaxRate[]> {
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('rate', { ascending: false })
+    .order('name');
+
+  if (error) throw error;
+
+  return ((data || []) as TaxRate[]).map(taxRate => ({ ...taxRate, rate: Number(taxRate.rate) }));
+}
+
+export async function saveTaxRate(input: TaxRateInput, taxRateId?: string): Promise<TaxRate> {
+  const query = taxRateId
+    ? supabase.from('tax_rates').update(input).eq('id', taxRateId)
+    : supabase.from('tax_rates').insert(input);
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+
+  return data as TaxRate;
+}
+
+// Products, plans and templates on this rate become untaxed; past tax lines keep its name and percentage
+export async function deleteTaxRate(taxRateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('tax_rates')
+    .delete()
+    .eq('id', taxRateId);
+
+  if (error) throw error;
+}
+
+export async function getTaxPricing(): Promise<TaxPricing> {
+  const [settings, taxRates] = await Promise.all([getSettings(), getTaxRates()]);
+
+  return {
+    pricesIncludeTax: settings.prices_include_tax,
+    rates: Object.fromEntries(taxRates.map(taxRate => [taxRate.id, taxRate.rate])),
+  };
+}
+
+// Mirrors price_with_tax() in the database, in cents so totals match the server exactly
+export function priceWithTax(price: number, taxRateId: string | null, pricing: TaxPricing): number {
+  const rate = taxRateId ? pricing.rates[taxRateId] : undefined;
+  if (rate === undefined || pricing.pricesIncludeTax) return price;
+
+  const cents = Math.round(price * 100);
+  return (cents + Math.round((cents * rate) / 100)) / 100;
+}
+
+export function formatTaxRate(taxRate: Pick<TaxRate, 'name' | 'rate'>): string {
+  return `${taxRate.name} (${taxRate.rate}%)`;
+}
+
+// Tax per rate on the money taken between the two times, refunds included
+export async function getTaxSummary(from: Date, to: Date): Promise<TaxSummaryLine[]> {
+  const { data, error } = await supabase.rpc('get_tax_summary', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as TaxSummaryLine[]).map(line => ({
+    ...line,
+    rate: Number(line.rate),
+    net_amount: Number(line.net_amount),
+    tax_amount: Number(line.tax_amount),
+    gross_amount: Number(line.gross_amount),
+  }));
+}
@@ -0,0 +1,53 @@
+import { supabase, type Database } from './supabase';
+
+export type Terminal = Database['public']['Tables']['terminals']['Row'];
+
+// Kept per browser, since each browser is one till
+const STORAGE_KEY = 'terminal-id';
+
+export function getCurrentTerminalId(): string | null {
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+export function setCurrentTerminalId(terminalId: string | null) {
+  if (terminalId) {
+    localStorage.setItem(STORAGE_KEY, terminalId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export async function getTerminals(options: { activeOnly?: boolean } = {}): Promise<Terminal[]> {
+  let query = supabase
+    .from('terminals')
+    .select('*')
+    .order('name');
+
+  if (options.activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as Terminal[];
+}
+
+export async function saveTerminal(name: string, terminalId?: string): Promise<Terminal> {
+  const query = terminalId
+    ? supabase.from('terminals').update({ name }).eq('id', terminalId)
+    : supabase.from('terminals').insert({ name });
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+
+  return data as Terminal;
+}
+
+// Terminals are never deleted, since past shifts refer to them
+export async function setTerminalActive(terminalId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('terminals')
+    .update({ is_active: isActive })
+    .eq('id', terminalId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,30 @@
+import { supabase, type Database } from './supabase';
+
+type TransactionRow = Database['public']['Tables']['transactions']['Row'];
+
+export type PaymentMethod = TransactionRow['payment_method'];
+export type TransactionType = TransactionRow['type'];
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'CASH', label: 'Cash' },
+  { value: 'CARD', label: 'Card' },
+  { value: 'BANK_TRANSFER', label: 'Bank Transfer' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+// Every transaction recorded on one day (YYYY-MM-DD), refunds included, latest first
+export async function getTransactionsForDay(date: string): Promise<TransactionRow[]> {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*')
+    .gte('created_at', new Date(`${date}T00:00:00`).toISOString())
+    .lt('created_at', next.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []) as TransactionRow[];
+}
@@ -29,10 +29,9 @@ export function formatDateTime(date: string | Date): string {
   }).format(new Date(date));
 }
 
-export function generateMemberID(): string {
-  const timestamp = Date.now().toString().slice(-6);
-  const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-  return `FMF${timestamp}${random}`;
+// Preview of an ID issued by next_member_id() for the given format settings
+export function formatMemberID(prefix: string, sequence: number, padding: number): string {
+  return `${prefix}${sequence.toString().padStart(padding, '0')}`;
 }
 
 export function calculateMembershipEndDate(startDate: Date, durationMonths: number): Date {
@@ -41,11 +40,26 @@ export function calculateMembershipEndDate(startDate: Date, durationMonths: numb
   return endDate;
 }
 
-export function getMembershipStatus(endDate: string, gracePeriodDays: number = 7): {
-  status: 'ACTIVE' | 'GRACE_PERIOD' | 'EXPIRED';
+// A freeze covering today reports FROZEN; daysRemaining is then the days left in the freeze
+export function getMembershipStatus(
+  endDate: string,
+  gracePeriodDays: number = 7,
+  freeze?: { start_date: string; end_date: string } | null
+): {
+  status: 'ACTIVE' | 'FROZEN' | 'GRACE_PERIOD' | 'EXPIRED';
   daysRemaining: number;
 } {
   const today = new Date();
+
+  if (freeze) {
+    const todayISO = toISODate(today);
+    if (freeze.start_date <= todayISO && freeze.end_date >= todayISO) {
+      const freezeEnd = new Date(freeze.end_date);
+      const frozenDaysLeft = Math.ceil((freezeEnd.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      return { status: 'FROZEN', daysRemaining: Math.max(frozenDaysLeft, 0) };
+    }
+  }
+
   const membershipEnd = new Date(endDate);
   const gracePeriodEnd = new Date(membershipEnd);
   gracePeriodEnd.setDate(gracePeriodEnd.getDate() + gracePeriodDays);
@@ -61,4 +75,11 @@ export function getMembershipStatus(endDate: string, gracePeriodDays: number = 7
   } else {
     return { status: 'EXPIRED', daysRemaining: diffDays };
   }
-}
\ No newline at end of file
+}
+// Format a date as YYYY-MM-DD in local time, matching Postgres `date` columns
+export function toISODate(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
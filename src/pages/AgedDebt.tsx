@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Download, Printer } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { downloadCSV } from '../lib/csv';
+import { getAgedDebt, type AgedDebtLine } from '../lib/accounts';
+import { roundCurrency } from '../lib/pos';
+import { formatCurrency, formatDate, toISODate } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const buckets = [
+  { key: 'days_0_30', label: '0–30 Days' },
+  { key: 'days_31_60', label: '31–60 Days' },
+  { key: 'days_over_60', label: '60+ Days' },
+  { key: 'total', label: 'Total' },
+] as const;
+
+export function AgedDebt() {
+  const [lines, setLines] = useState<AgedDebtLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setLines(await getAgedDebt());
+    } catch (err) {
+      console.error('Error loading aged debt:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the aged debt report.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const totals = Object.fromEntries(
+    buckets.map(({ key }) => [key, roundCurrency(lines.reduce((sum, line) => sum + line[key], 0))])
+  ) as Record<(typeof buckets)[number]['key'], number>;
+
+  const handleExport = () => {
+    downloadCSV(`aged-debt-${toISODate()}.csv`, [
+      ['Member ID', 'Name', 'Phone', ...buckets.map(b => b.label), 'Overdue', 'Oldest Charge'],
+      ...lines.map(line => [
+        line.member_id_string,
+        line.full_name,
+        line.phone_number ?? '',
+        ...buckets.map(b => line[b.key]),
+        line.overdue,
+        toISODate(new Date(line.oldest_charge_at)),
+      ]),
+    ]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/sales" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700 print:hidden">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Sales
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Aged Debt</h1>
+        <div className="flex space-x-3 print:hidden">
+          <Button variant="outline" onClick={handleExport} disabled={lines.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => window.print()} disabled={lines.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        {buckets.map(({ key, label }) => (
+          <Card key={key}>
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-gray-600">{label}</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatCurrency(totals[key])}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Member</th>
+                {buckets.map(({ key, label }) => (
+                  <th key={key} className={headerCellClass}>{label}</th>
+                ))}
+                <th className={headerCellClass}>Oldest Charge</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={6} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : lines.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No member owes anything.
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => (
+                  <tr key={line.member_id}>
+                    <td className={cellClass}>
+                      <Link to={`/members/${line.member_id}`} className="font-medium text-blue-600 hover:text-blue-700">
+                        {line.full_name}
+                      </Link>
+                      <p className="text-xs font-mono text-gray-500">{line.member_id_string}</p>
+                    </td>
+                    <td className={cellClass}>{formatCurrency(line.days_0_30)}</td>
+                    <td className={cellClass}>{formatCurrency(line.days_31_60)}</td>
+                    <td className={`${cellClass} ${line.days_over_60 > 0 ? 'text-red-600 font-medium' : ''}`}>
+                      {formatCurrency(line.days_over_60)}
+                    </td>
+                    <td className={`${cellClass} font-semibold`}>
+                      {formatCurrency(line.total)}
+                      {line.overdue > 0 && (
+                        <p className="text-xs font-normal text-red-600">{formatCurrency(line.overdue)} overdue</p>
+                      )}
+                    </td>
+                    <td className={cellClass}>{formatDate(line.oldest_charge_at)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
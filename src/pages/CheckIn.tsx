@@ -0,0 +1,590 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Search,
+  UserCheck,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Ticket,
+  User,
+  DoorOpen,
+  TicketPlus,
+  History,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Modal } from '../components/ui/Modal';
+import { MemberPhoto } from '../components/members/MemberPhoto';
+import { BarcodeScanner } from '../components/scanner/BarcodeScanner';
+import { SellCouponForm } from '../components/coupons/SellCouponForm';
+import { CouponUsageHistory } from '../components/coupons/CouponUsageHistory';
+import { useAuthStore } from '../store/authStore';
+import { getActiveShift, type Shift } from '../lib/shifts';
+import { getSettings, type GymSettings } from '../lib/settings';
+import {
+  findCheckInCandidates,
+  getCheckInContext,
+  decideEntry,
+  decideCouponEntry,
+  recordCheckIn,
+  getRecentCheckIns,
+  isCouponRedemptionError,
+  type EntryDecision,
+  type CheckInType,
+  type CheckInContext,
+  type RecentCheckIn,
+  type SoldCouponWithTemplate,
+} from '../lib/checkin';
+import type { Member } from '../lib/members';
+import { isValidCouponCode, looksLikeCouponCode, type SoldCoupon } from '../lib/coupons';
+import { checkMemberDebt, getMemberDebt, type AgedDebtLine } from '../lib/accounts';
+import { resolveScannedCode } from '../lib/scanner';
+import { PAYMENT_METHODS, type PaymentMethod } from '../lib/transactions';
+import { formatCurrency, formatDate, formatDateTime } from '../lib/utils';
+
+const entryTypeStyles: Record<CheckInType, { label: string; className: string }> = {
+  MEMBERSHIP: { label: 'Membership', className: 'bg-green-100 text-green-800 border-green-200' },
+  GRACE_PERIOD: { label: 'Grace Period', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  COUPON: { label: 'Coupon', className: 'bg-purple-100 text-purple-800 border-purple-200' },
+  WALK_IN: { label: 'Walk-in', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+};
+
+interface Selection {
+  member: Member | null;
+  context: CheckInContext | null;
+  decision: EntryDecision;
+  // Set when the member's overdue balance is over the threshold and check-in only warns
+  debt: AgedDebtLine | null;
+}
+
+export function CheckIn() {
+  const { user } = useAuthStore();
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [settings, setSettings] = useState<GymSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [coupon, setCoupon] = useState<SoldCouponWithTemplate | null>(null);
+  const [searched, setSearched] = useState(false);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [chargeWalkIn, setChargeWalkIn] = useState(true);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [recent, setRecent] = useState<RecentCheckIn[]>([]);
+  const [showSellCoupon, setShowSellCoupon] = useState(false);
+  const [usageCoupon, setUsageCoupon] = useState<SoldCouponWithTemplate | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  const loadRecent = useCallback(async (shiftId: string) => {
+    try {
+      setRecent(await getRecentCheckIns(shiftId));
+    } catch (err) {
+      console.error('Error loading recent check-ins:', err);
+    }
+  }, []);
+
+  const loadDesk = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const [activeShift, gymSettings] = await Promise.all([getActiveShift(), getSettings()]);
+      setShift(activeShift);
+      setSettings(gymSettings);
+      if (activeShift) await loadRecent(activeShift.id);
+    } catch (err) {
+      console.error('Error loading check-in desk:', err);
+      setError('Failed to load the check-in desk. Please refresh.');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadRecent]);
+
+  useEffect(() => {
+    loadDesk();
+  }, [loadDesk]);
+
+  const resetDesk = () => {
+    setQuery('');
+    setMembers([]);
+    setCoupon(null);
+    setSearched(false);
+    setSelection(null);
+    setChargeWalkIn(true);
+    setPaymentMethod('CASH');
+    setNotes('');
+    searchInputRef.current?.focus();
+  };
+
+  const selectMember = async (member: Member) => {
+    if (!settings) return;
+    setError(null);
+
+    try {
+      const [context, debt] = await Promise.all([getCheckInContext(member.id), getMemberDebt(member.id)]);
+      const decision = decideEntry(context, settings.grace_period_days);
+      const debtCheck = checkMemberDebt(debt, settings);
+
+      if (!decision) {
+        const until = context.freeze ? ` until ${formatDate(context.freeze.end_date)}` : '';
+        setError(`${member.full_name}'s membership is frozen${until}. End the freeze on their member page to check them in.`);
+        return;
+      }
+
+      if (debt && debtCheck === 'BLOCK') {
+        setError(
+          `${member.full_name} has ${formatCurrency(debt.overdue)} overdue. Take a payment on their member page to check them in.`
+        );
+        return;
+      }
+
+      setSelection({ member, context, decision, debt: debtCheck === 'WARN' ? debt : null });
+    } catch (err) {
+      console.error('Error loading member status:', err);
+      setError('Failed to load membership status for this member.');
+    }
+  };
+
+  const selectCoupon = (soldCoupon: SoldCouponWithTemplate) => {
+    setError(null);
+    const decision = decideCouponEntry(soldCoupon);
+
+    if (!decision) {
+      setError(`Coupon ${soldCoupon.code} is expired, inactive or has no entries remaining.`);
+      return;
+    }
+
+    setSelection({ member: null, context: null, decision, debt: null });
+  };
+
+  const selectGuestWalkIn = () => {
+    setError(null);
+    setSelection({
+      member: null,
+      context: null,
+      decision: { type: 'WALK_IN', reason: 'Guest walk-in', coupon: null, daysRemaining: null },
+      debt: null,
+    });
+  };
+
+  // A coupon sold to the member on screen can be used for this visit straight away
+  const handleCouponSold = async (soldCoupon: SoldCoupon) => {
+    setShowSellCoupon(false);
+    setSuccess(`Coupon ${soldCoupon.code} sold`);
+    if (selection?.member) await selectMember(selection.member);
+  };
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) return;
+
+    setSearching(true);
+    setError(null);
+    setSuccess(null);
+    setSelection(null);
+
+    try {
+      const result = await findCheckInCandidates(query);
+      setMembers(result.members);
+      setCoupon(result.coupon);
+      setSearched(true);
+
+      // Skip the result list when the lookup is unambiguous
+      if (result.coupon && result.members.length === 0) {
+        selectCoupon(result.coupon);
+      } else if (!result.coupon && result.members.length === 1) {
+        await selectMember(result.members[0]);
+      }
+    } catch (err) {
+      console.error('Error searching for check-in:', err);
+      setError('Search failed. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // Scans skip the result list: a card or coupon code identifies exactly one record
+  const handleScan = async (code: string) => {
+    setQuery(code);
+    setError(null);
+    setSuccess(null);
+    setSelection(null);
+    setSearched(false);
+
+    try {
+      const result = await resolveScannedCode(code);
+
+      if (result.kind === 'member') {
+        await selectMember(result.member);
+      } else if (result.kind === 'coupon') {
+        selectCoupon(result.coupon);
+      } else {
+        setError(`No member or coupon found for scanned code "${result.code}".`);
+      }
+    } catch (err) {
+      console.error('Error resolving scanned code:', err);
+      setError('Failed to look up the scanned code. Please try again.');
+    }
+  };
+
+  const handleCheckIn = async () => {
+    if (!selection || !shift || !user || !settings) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    const { decision } = selection;
+    const memberId = selection.member?.id ?? decision.coupon?.member_id ?? null;
+
+    try {
+      await recordCheckIn({
+        decision,
+        memberId,
+        shiftId: shift.id,
+        staffId: user.id,
+        walkInCharge:
+          decision.type === 'WALK_IN' && chargeWalkIn
+            ? { amount: settings.walk_in_rate, paymentMethod }
+            : null,
+        notes: notes.trim() || null,
+      });
+
+      const name = selection.member?.full_name ?? (decision.coupon ? `Coupon ${decision.coupon.code}` : 'Guest');
+      setSuccess(`${name} checked in (${entryTypeStyles[decision.type].label})`);
+      resetDesk();
+      await loadRecent(shift.id);
+    } catch (err) {
+      console.error('Error recording check-in:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record check-in. Please try again.');
+      // Another desk used, expired or deactivated the coupon since it was looked up
+      if (isCouponRedemptionError(err)) resetDesk();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Check-In</h1>
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-24 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!shift) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Check-In</h1>
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-6">
+            <div className="flex items-start">
+              <AlertTriangle className="h-6 w-6 text-orange-600 mr-3 mt-0.5" />
+              <div>
+                <h3 className="text-lg font-medium text-orange-800">No active shift</h3>
+                <p className="text-sm text-orange-700 mb-4">
+                  Every check-in is recorded against a shift. Open a shift before checking members in.
+                </p>
+                <div className="flex space-x-3">
+                  <Link to="/shifts">
+                    <Button size="sm">Go to Shifts</Button>
+                  </Link>
+                  <Button size="sm" variant="outline" onClick={loadDesk}>
+                    Refresh
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const decision = selection?.decision;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Check-In</h1>
+        <p className="text-sm text-gray-600">
+          Shift started {formatDateTime(shift.start_time)}
+        </p>
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardContent className="p-4">
+              <form onSubmit={handleSearch} className="flex items-end space-x-3">
+                <div className="flex-1">
+                  <Input
+                    ref={searchInputRef}
+                    label="Member ID, name or coupon code"
+                    autoFocus
+                    autoComplete="off"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" loading={searching} disabled={searching || !query.trim()}>
+                  <Search className="h-4 w-4 mr-2" />
+                  Look Up
+                </Button>
+                <Button type="button" variant="outline" onClick={selectGuestWalkIn}>
+                  <DoorOpen className="h-4 w-4 mr-2" />
+                  Guest Walk-in
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowSellCoupon(true)}>
+                  <TicketPlus className="h-4 w-4 mr-2" />
+                  Sell Coupon
+                </Button>
+              </form>
+              <div className="mt-4 border-t border-gray-200 pt-4">
+                <BarcodeScanner onScan={handleScan} disabled={submitting} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {searched && !selection && (
+            <Card>
+              <CardHeader>
+                <h3 className="text-lg font-medium text-gray-900">Matches</h3>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {coupon && (
+                  <button
+                    type="button"
+                    onClick={() => selectCoupon(coupon)}
+                    className="w-full flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    <div className="flex items-center">
+                      <Ticket className="h-5 w-5 mr-3 text-purple-600" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {coupon.coupon_templates?.name ?? 'Coupon'}
+                        </p>
+                        <p className="text-xs font-mono text-gray-600">{coupon.code}</p>
+                      </div>
+                    </div>
+                    <span className="text-xs text-gray-600">
+                      {coupon.entries_remaining} entries left · expires {formatDate(coupon.expiry_date)}
+                    </span>
+                  </button>
+                )}
+                {members.map((member) => (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => selectMember(member)}
+                    className="w-full flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    <div className="flex items-center">
+                      <User className="h-5 w-5 mr-3 text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{member.full_name}</p>
+                        <p className="text-xs font-mono text-gray-600">{member.member_id_string}</p>
+                      </div>
+                    </div>
+                    <span className="text-xs text-gray-600">{member.phone_number}</span>
+                  </button>
+                ))}
+                {!coupon && members.length === 0 && (
+                  <p className="text-sm text-gray-600">
+                    {looksLikeCouponCode(query) && !isValidCouponCode(query)
+                      ? `"${query}" is not a valid coupon code. Check it for typos and try again.`
+                      : `No member or coupon matches "${query}". Use Guest Walk-in for visitors without an account.`}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {selection && decision && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    {selection.member && (
+                      <MemberPhoto
+                        path={selection.member.photo_url}
+                        alt={selection.member.full_name}
+                        className="h-[7.5rem] w-24 flex-shrink-0"
+                        iconClassName="h-12 w-12"
+                      />
+                    )}
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {selection.member?.full_name ?? (decision.coupon ? 'Coupon Holder' : 'Guest')}
+                      </h3>
+                      {selection.member && (
+                        <p className="text-sm font-mono text-gray-600">{selection.member.member_id_string}</p>
+                      )}
+                    </div>
+                  </div>
+                  <span
+                    className={`inline-flex items-center rounded-full border px-3 py-1 text-sm font-semibold ${entryTypeStyles[decision.type].className}`}
+                  >
+                    {entryTypeStyles[decision.type].label}
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-700">{decision.reason}</p>
+
+                {selection.debt && selection.member && (
+                  <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {formatCurrency(selection.debt.overdue)} overdue ({formatCurrency(selection.debt.total)} owed in total).{' '}
+                      <Link to={`/members/${selection.member.id}`} className="font-medium underline">
+                        Take a payment
+                      </Link>
+                    </span>
+                  </div>
+                )}
+
+                {decision.type === 'MEMBERSHIP' && decision.daysRemaining !== null && selection.context?.membership && (
+                  <p className="text-sm text-gray-600">
+                    Valid until {formatDate(selection.context.membership.end_date)} ({decision.daysRemaining} days remaining)
+                  </p>
+                )}
+
+                {decision.type === 'GRACE_PERIOD' && decision.daysRemaining !== null && (
+                  <p className="text-sm text-orange-700">
+                    {decision.daysRemaining} grace day{decision.daysRemaining === 1 ? '' : 's'} left
+                  </p>
+                )}
+
+                {decision.type === 'COUPON' && decision.coupon && (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">
+                      {decision.coupon.entries_remaining} entr{decision.coupon.entries_remaining === 1 ? 'y' : 'ies'} remaining
+                      before this visit · expires {formatDate(decision.coupon.expiry_date)}
+                    </p>
+                    <Button variant="ghost" size="sm" onClick={() => setUsageCoupon(decision.coupon)}>
+                      <History className="h-4 w-4 mr-1" />
+                      Usage
+                    </Button>
+                  </div>
+                )}
+
+                {decision.type === 'WALK_IN' && settings && (
+                  <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="mr-2 rounded border-gray-300"
+                        checked={chargeWalkIn}
+                        onChange={(e) => setChargeWalkIn(e.target.checked)}
+                      />
+                      Charge walk-in rate ({formatCurrency(settings.walk_in_rate)})
+                    </label>
+                    {chargeWalkIn && (
+                      <Select
+                        label="Payment Method"
+                        value={paymentMethod}
+                        onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                      >
+                        {PAYMENT_METHODS.map((method) => (
+                          <option key={method.value} value={method.value}>
+                            {method.label}
+                          </option>
+                        ))}
+                      </Select>
+                    )}
+                  </div>
+                )}
+
+                <Input
+                  label="Notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Optional"
+                />
+
+                <div className="flex justify-end space-x-3">
+                  <Button variant="outline" onClick={resetDesk} disabled={submitting}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleCheckIn} loading={submitting} disabled={submitting}>
+                    <UserCheck className="h-4 w-4 mr-2" />
+                    Check In
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Recent Check-ins</h3>
+          </CardHeader>
+          <CardContent>
+            {recent.length === 0 ? (
+              <p className="text-sm text-gray-500">No check-ins on this shift yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {recent.map((checkIn) => (
+                  <div key={checkIn.id} className="flex items-center text-sm">
+                    <span
+                      className={`mr-3 inline-flex rounded-full border px-2 py-0.5 text-xs font-medium ${entryTypeStyles[checkIn.type].className}`}
+                    >
+                      {entryTypeStyles[checkIn.type].label}
+                    </span>
+                    <span className="text-gray-700 truncate">
+                      {checkIn.members?.full_name ?? 'Guest'}
+                    </span>
+                    <span className="ml-auto text-gray-400 whitespace-nowrap">
+                      {new Date(checkIn.check_in_time).toLocaleTimeString('en-US', {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal open={showSellCoupon} title="Sell Coupon" onClose={() => setShowSellCoupon(false)}>
+        <SellCouponForm
+          member={selection?.member ?? null}
+          onSold={handleCouponSold}
+          onCancel={() => setShowSellCoupon(false)}
+        />
+      </Modal>
+
+      <Modal open={usageCoupon !== null} title="Coupon Usage" onClose={() => setUsageCoupon(null)}>
+        {usageCoupon && <CouponUsageHistory coupon={usageCoupon} />}
+      </Modal>
+    </div>
+  );
+}
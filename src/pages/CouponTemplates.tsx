@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Edit, AlertCircle } from 'lucide-react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { CouponTemplateForm } from '../components/coupons/CouponTemplateForm';
+import {
+  getCouponTemplatesWithSales,
+  setCouponTemplateActive,
+  type CouponTemplateWithSales,
+} from '../lib/coupons';
+import { formatCurrency } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+export function CouponTemplates() {
+  const [templates, setTemplates] = useState<CouponTemplateWithSales[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CouponTemplateWithSales | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await getCouponTemplatesWithSales());
+    } catch (err) {
+      console.error('Error loading coupon templates:', err);
+      setError('Failed to load coupon templates.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (template: CouponTemplateWithSales) => {
+    setEditing(template);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSaved = async () => {
+    closeForm();
+    await loadTemplates();
+  };
+
+  const toggleActive = async (template: CouponTemplateWithSales) => {
+    setTogglingId(template.id);
+    setError(null);
+
+    try {
+      await setCouponTemplateActive(template.id, !template.is_active);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error updating coupon template:', err);
+      setError('Failed to update coupon template. Please try again.');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Coupon Templates</h1>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Template
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-4 bg-red-50 border border-red-200 rounded-md">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Template</th>
+                <th className={headerCellClass}>Price</th>
+                <th className={headerCellClass}>Entries</th>
+                <th className={headerCellClass}>Valid For</th>
+                <th className={headerCellClass}>Sold</th>
+                <th className={headerCellClass}>Status</th>
+                <th className={headerCellClass}></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={7} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : templates.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No coupon templates yet.
+                  </td>
+                </tr>
+              ) : (
+                templates.map((template) => (
+                  <tr key={template.id}>
+                    <td className={cellClass}>
+                      <p className="font-medium">{template.name}</p>
+                      {template.description && (
+                        <p className="text-xs text-gray-500 truncate max-w-xs">{template.description}</p>
+                      )}
+                    </td>
+                    <td className={cellClass}>{formatCurrency(template.price)}</td>
+                    <td className={cellClass}>{template.max_entries}</td>
+                    <td className={cellClass}>
+                      {template.duration_days} day{template.duration_days === 1 ? '' : 's'}
+                    </td>
+                    <td className={cellClass}>{template.sold_count}</td>
+                    <td className={cellClass}>
+                      <span
+                        className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                          template.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {template.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex justify-end space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openEdit(template)}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleActive(template)}
+                          loading={togglingId === template.id}
+                          disabled={togglingId !== null}
+                        >
+                          {template.is_active ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal
+        open={showForm}
+        title={editing ? `Edit ${editing.name}` : 'Add Coupon Template'}
+        onClose={closeForm}
+        className="max-w-2xl"
+      >
+        <CouponTemplateForm template={editing} onSaved={handleSaved} onCancel={closeForm} />
+      </Modal>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { Users, DollarSign, Clock, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Users, DollarSign, Clock, AlertTriangle, PackageX } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { supabase } from '../lib/supabase';
+import { getOpenStockAlerts, type StockAlert } from '../lib/stockAlerts';
 import { formatCurrency } from '../lib/utils';
 
 interface DashboardStats {
@@ -19,6 +21,7 @@ export function Dashboard() {
     activeShifts: 0,
     pendingRequests: 0,
   });
+  const [lowStock, setLowStock] = useState<StockAlert[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -33,13 +36,13 @@ export function Dashboard() {
         .select('*', { count: 'exact', head: true })
         .eq('is_active', true);
 
-      // Get today's revenue
+      // Get today's revenue; refunds are recorded as negative amounts, so it is net of them
       const today = new Date().toISOString().split('T')[0];
       const { data: todayTransactions } = await supabase
         .from('transactions')
         .select('amount')
         .gte('created_at', today)
-        .eq('status', 'PAID');
+        .in('status', ['PAID', 'REFUNDED']);
 
       const revenueToday = todayTransactions?.reduce((sum, t) => sum + t.amount, 0) || 0;
 
@@ -66,6 +69,13 @@ export function Dashboard() {
     } finally {
       setLoading(false);
     }
+
+    // Every product still below its threshold, including alerts already dismissed from the bell
+    try {
+      setLowStock(await getOpenStockAlerts({ includeAcknowledged: true }));
+    } catch (error) {
+      console.error('Error loading low stock alerts:', error);
+    }
   };
 
   const statCards = [
@@ -193,6 +203,29 @@ export function Dashboard() {
       </div>
 
       {/* Notifications */}
+      {lowStock.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-4">
+            <div className="flex items-start">
+              <PackageX className="h-5 w-5 text-orange-600 mr-3 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-orange-800">
+                  {lowStock.length} product{lowStock.length > 1 ? 's' : ''} low on stock
+                </p>
+                <p className="text-sm text-orange-700">
+                  {lowStock
+                    .map(alert => `${alert.products?.name ?? 'Unknown product'} (${alert.products?.current_stock ?? alert.stock_level} left)`)
+                    .join(', ')}
+                </p>
+              </div>
+              <Link to="/pos/reorder" className="ml-auto">
+                <Button size="sm">Reorder</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {stats.pendingRequests > 0 && (
         <Card className="border-orange-200 bg-orange-50">
           <CardContent className="p-4">
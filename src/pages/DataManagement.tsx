@@ -0,0 +1,16 @@
+import { DuplicateMembers } from '../components/data/DuplicateMembers';
+import { MemberIdMigration } from '../components/data/MemberIdMigration';
+import { MemberImport } from '../components/data/MemberImport';
+import { MembershipExpiryJob } from '../components/data/MembershipExpiryJob';
+
+export function DataManagement() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">Data Management</h1>
+      <MemberImport />
+      <DuplicateMembers />
+      <MemberIdMigration />
+      <MembershipExpiryJob />
+    </div>
+  );
+}
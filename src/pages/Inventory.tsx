@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  ClipboardList,
+  FileText,
+  History,
+  PackagePlus,
+  SlidersHorizontal,
+} from 'lucide-react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { Select } from '../components/ui/Select';
+import { StockAdjustmentForm } from '../components/inventory/StockAdjustmentForm';
+import { StockLedger } from '../components/inventory/StockLedger';
+import { useAuthStore } from '../store/authStore';
+import { hasRole } from '../lib/auth';
+import { getProducts, setProductTaxRate, type Product } from '../lib/products';
+import {
+  getStockReconciliation,
+  postStocktake,
+  type AdjustmentReason,
+  type StockReconciliation,
+} from '../lib/inventory';
+import { formatTaxRate, getTaxRates, type TaxRate } from '../lib/tax';
+import { formatCurrency } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+export function Inventory() {
+  const { profile } = useAuthStore();
+  const isAdmin = hasRole(profile, 'ADMIN');
+  const [products, setProducts] = useState<Product[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [reconciliation, setReconciliation] = useState<Map<string, StockReconciliation>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [adjusting, setAdjusting] = useState<{ product: Product; reason: AdjustmentReason } | null>(null);
+  const [ledgerProduct, setLedgerProduct] = useState<Product | null>(null);
+  const [counting, setCounting] = useState(false);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [stocktakeNotes, setStocktakeNotes] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const loadInventory = useCallback(async () => {
+    try {
+      const [productData, taxRateData, reconciliationData] = await Promise.all([
+        getProducts(),
+        getTaxRates(),
+        isAdmin ? getStockReconciliation() : Promise.resolve([]),
+      ]);
+
+      setProducts(productData);
+      setTaxRates(taxRateData);
+      setReconciliation(new Map(reconciliationData.map(r => [r.product_id, r])));
+    } catch (err) {
+      console.error('Error loading inventory:', err);
+      setError('Failed to load inventory.');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    loadInventory();
+  }, [loadInventory]);
+
+  const handleAdjusted = async () => {
+    const name = adjusting?.product.name;
+    setAdjusting(null);
+    setSuccess(name ? `Stock updated for ${name}` : null);
+    await loadInventory();
+  };
+
+  const handleTaxRateChange = async (product: Product, taxRateId: string) => {
+    setError(null);
+
+    try {
+      const updated = await setProductTaxRate(product.id, taxRateId || null);
+      setProducts(current => current.map(p => (p.id === updated.id ? updated : p)));
+    } catch (err) {
+      console.error('Error updating tax rate:', err);
+      setError(err instanceof Error ? err.message : `Failed to update the tax rate for ${product.name}.`);
+    }
+  };
+
+  const startStocktake = () => {
+    setCounts({});
+    setStocktakeNotes('');
+    setSuccess(null);
+    setError(null);
+    setCounting(true);
+  };
+
+  // Blank rows were not counted and are left alone
+  const enteredCounts = products
+    .filter(p => (counts[p.id] ?? '').trim() !== '')
+    .map(p => ({ productId: p.id, countedQuantity: Number(counts[p.id]) }));
+  const invalidCount = enteredCounts.some(c => !Number.isInteger(c.countedQuantity) || c.countedQuantity < 0);
+
+  const handlePostStocktake = async () => {
+    setPosting(true);
+    setError(null);
+
+    try {
+      const stocktake = await postStocktake(enteredCounts, stocktakeNotes.trim() || null);
+      setCounting(false);
+      setSuccess(
+        `Stocktake posted: ${stocktake.products_counted} counted, ${stocktake.products_adjusted} adjusted`
+      );
+      await loadInventory();
+    } catch (err) {
+      console.error('Error posting stocktake:', err);
+      setError(err instanceof Error ? err.message : 'Failed to post the stocktake. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const mismatches = [...reconciliation.values()].filter(r => r.difference !== 0).length;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/pos" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Point of Sale
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Inventory</h1>
+        {counting ? (
+          <div className="flex space-x-3">
+            <Button variant="outline" onClick={() => setCounting(false)} disabled={posting}>
+              Cancel Stocktake
+            </Button>
+            <Button
+              onClick={handlePostStocktake}
+              loading={posting}
+              disabled={posting || enteredCounts.length === 0 || invalidCount}
+            >
+              Post Stocktake ({enteredCounts.length})
+            </Button>
+          </div>
+        ) : (
+          <div className="flex space-x-3">
+            <Link to="/pos/reorder">
+              <Button variant="outline">
+                <FileText className="h-4 w-4 mr-2" />
+                Reorder Report
+              </Button>
+            </Link>
+            <Button onClick={startStocktake} disabled={loading || products.length === 0}>
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Start Stocktake
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isAdmin && mismatches > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            {mismatches} product{mismatches === 1 ? ' is' : 's are'} out of balance with the movement ledger.
+            Open the ledger to see the difference.
+          </span>
+        </div>
+      )}
+
+      {counting && (
+        <Card className="p-4 space-y-3">
+          <p className="text-sm text-gray-600">
+            Enter the quantity counted on the shelf. Products left blank are not changed; any difference is posted
+            as a stocktake variance against the stock at the moment you post.
+          </p>
+          <Input
+            label="Stocktake Notes"
+            value={stocktakeNotes}
+            onChange={(e) => setStocktakeNotes(e.target.value)}
+            placeholder="Optional"
+          />
+        </Card>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Product</th>
+                <th className={headerCellClass}>Price</th>
+                <th className={headerCellClass}>Tax</th>
+                <th className={headerCellClass}>In Stock</th>
+                <th className={headerCellClass}>Low Stock At</th>
+                {counting ? (
+                  <>
+                    <th className={headerCellClass}>Counted</th>
+                    <th className={headerCellClass}>Variance</th>
+                  </>
+                ) : (
+                  <>
+                    <th className={headerCellClass}>Status</th>
+                    <th className={headerCellClass}></th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={7} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : products.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No products yet.
+                  </td>
+                </tr>
+              ) : (
+                products.map((product) => {
+                  const counted = (counts[product.id] ?? '').trim();
+                  const variance = counted === '' ? null : Number(counted) - product.current_stock;
+                  const outOfBalance = (reconciliation.get(product.id)?.difference ?? 0) !== 0;
+
+                  return (
+                    <tr key={product.id}>
+                      <td className={cellClass}>
+                        <p className="font-medium">{product.name}</p>
+                        {!product.is_active && <p className="text-xs text-gray-500">Not on sale</p>}
+                      </td>
+                      <td className={cellClass}>{formatCurrency(product.price)}</td>
+                      {isAdmin && !counting ? (
+                        <td className="px-6 py-2 whitespace-nowrap">
+                          <Select
+                            value={product.tax_rate_id ?? ''}
+                            onChange={(e) => handleTaxRateChange(product, e.target.value)}
+                            aria-label={`Tax rate for ${product.name}`}
+                          >
+                            <option value="">No tax</option>
+                            {taxRates.map(taxRate => (
+                              <option key={taxRate.id} value={taxRate.id}>
+                                {formatTaxRate(taxRate)}
+                              </option>
+                            ))}
+                          </Select>
+                        </td>
+                      ) : (
+                        <td className={cellClass}>
+                          {taxRates.find(t => t.id === product.tax_rate_id)?.name ?? 'No tax'}
+                        </td>
+                      )}
+                      <td className={cellClass}>{product.current_stock}</td>
+                      <td className={cellClass}>{product.low_stock_threshold}</td>
+                      {counting ? (
+                        <>
+                          <td className="px-6 py-2 whitespace-nowrap">
+                            <div className="w-24">
+                              <Input
+                                type="number"
+                                min="0"
+                                value={counts[product.id] ?? ''}
+                                onChange={(e) => setCounts(current => ({ ...current, [product.id]: e.target.value }))}
+                                aria-label={`Counted quantity for ${product.name}`}
+                              />
+                            </div>
+                          </td>
+                          <td
+                            className={`${cellClass} ${
+                              variance === null || variance === 0 ? '' : variance < 0 ? 'text-red-600' : 'text-green-700'
+                            }`}
+                          >
+                            {variance === null || Number.isNaN(variance) ? '—' : variance > 0 ? `+${variance}` : variance}
+                          </td>
+                        </>
+                      ) : (
+                        <>
+                          <td className={cellClass}>
+                            {product.current_stock <= product.low_stock_threshold ? (
+                              <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-orange-100 text-orange-800">
+                                Low Stock
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-green-100 text-green-800">
+                                OK
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            <div className="flex justify-end space-x-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setAdjusting({ product, reason: 'RECEIVED' })}
+                              >
+                                <PackagePlus className="h-4 w-4 mr-1" />
+                                Receive
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setAdjusting({ product, reason: 'DAMAGE' })}
+                              >
+                                <SlidersHorizontal className="h-4 w-4 mr-1" />
+                                Adjust
+                              </Button>
+                              {isAdmin && (
+                                <Button variant="ghost" size="sm" onClick={() => setLedgerProduct(product)}>
+                                  <History className={`h-4 w-4 mr-1 ${outOfBalance ? 'text-yellow-600' : ''}`} />
+                                  Ledger
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal
+        open={adjusting !== null}
+        title={adjusting?.reason === 'RECEIVED' ? 'Receive Goods' : 'Adjust Stock'}
+        onClose={() => setAdjusting(null)}
+      >
+        {adjusting && (
+          <StockAdjustmentForm
+            product={adjusting.product}
+            initialReason={adjusting.reason}
+            onSaved={handleAdjusted}
+            onCancel={() => setAdjusting(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        open={ledgerProduct !== null}
+        title={ledgerProduct ? `${ledgerProduct.name} — Stock Ledger` : 'Stock Ledger'}
+        onClose={() => setLedgerProduct(null)}
+        className="max-w-3xl"
+      >
+        {ledgerProduct && <StockLedger product={ledgerProduct} />}
+      </Modal>
+    </div>
+  );
+}
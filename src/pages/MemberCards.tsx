@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { MemberCard } from '../components/members/MemberCard';
+import { getMembersByIds, type Member } from '../lib/members';
+import { getSettings } from '../lib/settings';
+
+// Ten ID-1 cards fit on one A4 sheet in a 2 x 5 grid
+const CARDS_PER_SHEET = 10;
+
+export function MemberCards() {
+  const [searchParams] = useSearchParams();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [gymName, setGymName] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const idsParam = searchParams.get('ids') ?? '';
+
+  useEffect(() => {
+    const loadCards = async () => {
+      setLoading(true);
+      try {
+        const ids = idsParam.split(',').filter(Boolean);
+        const [cardMembers, settings] = await Promise.all([getMembersByIds(ids), getSettings()]);
+        setMembers(cardMembers);
+        setGymName(settings.gym_name);
+      } catch (error) {
+        console.error('Error loading member cards:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCards();
+  }, [idsParam]);
+
+  const sheets: Member[][] = [];
+  for (let i = 0; i < members.length; i += CARDS_PER_SHEET) {
+    sheets.push(members.slice(i, i + CARDS_PER_SHEET));
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="print:hidden space-y-6">
+        <Link to="/members" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Members
+        </Link>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Member Cards</h1>
+            <p className="text-sm text-gray-600">
+              {members.length} card{members.length === 1 ? '' : 's'} on {sheets.length} sheet{sheets.length === 1 ? '' : 's'}.
+              Print at 100% scale on A4 card stock.
+            </p>
+          </div>
+          <Button onClick={() => window.print()} disabled={loading || members.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <Card className="animate-pulse print:hidden">
+          <CardContent className="p-6">
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : members.length === 0 ? (
+        <Card className="print:hidden">
+          <CardContent className="p-6 text-center text-sm text-gray-600">
+            No members selected. Select members on the Members page to print their cards.
+          </CardContent>
+        </Card>
+      ) : (
+        sheets.map((sheet, index) => (
+          <div
+            key={index}
+            className="card-sheet mx-auto grid grid-cols-2 justify-center gap-x-[6mm] gap-y-[2mm] bg-white p-[8mm] shadow print:shadow-none"
+            style={{ width: '210mm', gridTemplateColumns: 'repeat(2, 85.6mm)' }}
+          >
+            {sheet.map((member) => (
+              <MemberCard key={member.id} member={member} gymName={gymName} />
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,650 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Edit, Mail, Phone, Calendar, CreditCard, Printer, ShoppingCart, Snowflake, Repeat, TicketPlus, History, RotateCcw, Receipt } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { MemberForm } from '../components/members/MemberForm';
+import { MemberPhoto } from '../components/members/MemberPhoto';
+import { SellMembershipForm } from '../components/members/SellMembershipForm';
+import { FreezeMembershipForm } from '../components/members/FreezeMembershipForm';
+import { ChangeMembershipPlanForm } from '../components/members/ChangeMembershipPlanForm';
+import { SellCouponForm } from '../components/coupons/SellCouponForm';
+import { CouponUsageHistory } from '../components/coupons/CouponUsageHistory';
+import { ReceiptButton } from '../components/sales/ReceiptButton';
+import { RefundForm } from '../components/sales/RefundForm';
+import { AccountChargeForm } from '../components/accounts/AccountChargeForm';
+import { AccountPaymentForm } from '../components/accounts/AccountPaymentForm';
+import {
+  MembershipStatusBadge,
+  type MembershipDisplayStatus,
+} from '../components/members/MembershipStatusBadge';
+import { getMember, getMemberActivity, type Member, type MemberActivity, type Transaction } from '../lib/members';
+import {
+  endMembershipFreeze,
+  findCurrentFreeze,
+  getMembershipFreezes,
+  type MembershipFreeze,
+} from '../lib/memberships';
+import { getMemberCoupons, getCouponStatus, type SoldCouponWithTemplate } from '../lib/coupons';
+import { isRefundable } from '../lib/refunds';
+import { getOutstandingCharges, type OutstandingCharge } from '../lib/accounts';
+import { getSettings, type GymSettings } from '../lib/settings';
+import { formatCurrency, formatDate, formatDateTime, getMembershipStatus, toISODate } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const checkInTypeLabels: Record<string, string> = {
+  MEMBERSHIP: 'Membership',
+  GRACE_PERIOD: 'Grace Period',
+  COUPON: 'Coupon',
+  WALK_IN: 'Walk-in',
+};
+
+export function MemberDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [member, setMember] = useState<Member | null>(null);
+  const [activity, setActivity] = useState<MemberActivity | null>(null);
+  const [freezes, setFreezes] = useState<MembershipFreeze[]>([]);
+  const [coupons, setCoupons] = useState<SoldCouponWithTemplate[]>([]);
+  const [charges, setCharges] = useState<OutstandingCharge[]>([]);
+  const [settings, setSettings] = useState<GymSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showEdit, setShowEdit] = useState(false);
+  const [showSell, setShowSell] = useState(false);
+  const [showFreeze, setShowFreeze] = useState(false);
+  const [showChangePlan, setShowChangePlan] = useState(false);
+  const [showSellCoupon, setShowSellCoupon] = useState(false);
+  const [usageCoupon, setUsageCoupon] = useState<SoldCouponWithTemplate | null>(null);
+  const [refunding, setRefunding] = useState<Transaction | null>(null);
+  const [showCharge, setShowCharge] = useState(false);
+  const [payingCharge, setPayingCharge] = useState<OutstandingCharge | null>(null);
+  const [endingFreezeId, setEndingFreezeId] = useState<string | null>(null);
+  const [freezeError, setFreezeError] = useState<string | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
+
+  const loadMember = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+
+    try {
+      const [memberData, activityData, gymSettings, couponData, chargeData] = await Promise.all([
+        getMember(id),
+        getMemberActivity(id),
+        getSettings(),
+        getMemberCoupons(id),
+        getOutstandingCharges(id),
+      ]);
+
+      setMember(memberData);
+      setActivity(activityData);
+      setSettings(gymSettings);
+      setCoupons(couponData);
+      setCharges(chargeData);
+      setFreezes(await getMembershipFreezes(activityData.memberships.map(m => m.id)));
+    } catch (error) {
+      console.error('Error loading member:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadMember();
+  }, [loadMember]);
+
+  if (loading && !member) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Member</h1>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[...Array(2)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-32 bg-gray-200 rounded"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!member) {
+    return (
+      <div className="space-y-6">
+        <Link to="/members" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Members
+        </Link>
+        <Card>
+          <CardContent className="p-6 text-center text-sm text-gray-600">
+            Member not found.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const memberships = activity?.memberships ?? [];
+  const checkIns = activity?.checkIns ?? [];
+  const transactions = activity?.transactions ?? [];
+
+  // Memberships are ordered by end date, so the first one still in force decides current status
+  const currentMembership = memberships.find(m => m.status !== 'CANCELLED');
+  const currentFreeze = findCurrentFreeze(freezes);
+  const membershipStatus = currentMembership
+    ? getMembershipStatus(currentMembership.end_date, settings?.grace_period_days, currentFreeze)
+    : null;
+
+  // Only the membership running today can be frozen
+  const today = toISODate();
+  const runningMembership = memberships.find(
+    m => (m.status === 'ACTIVE' || m.status === 'FROZEN') && m.start_date <= today && m.end_date >= today
+  );
+  const openFreezes = freezes.filter(f => !f.ended_at);
+  const displayStatus: MembershipDisplayStatus = membershipStatus?.status ?? 'NONE';
+
+  const isOverdue = (charge: OutstandingCharge) => charge.age_days > (settings?.debt_overdue_days ?? 30);
+  const accountBalance = charges.reduce((total, charge) => total + charge.balance, 0);
+  const overdueBalance = charges.filter(isOverdue).reduce((total, charge) => total + charge.balance, 0);
+
+  const handleSaved = (updated: Member) => {
+    setMember(updated);
+    setShowEdit(false);
+  };
+
+  const handleSold = async () => {
+    setShowSell(false);
+    await loadMember();
+  };
+
+  const handlePlanChanged = async () => {
+    setShowChangePlan(false);
+    await loadMember();
+  };
+
+  const handleCouponSold = async () => {
+    setShowSellCoupon(false);
+    await loadMember();
+  };
+
+  const handleCharged = async () => {
+    setShowCharge(false);
+    await loadMember();
+  };
+
+  const handlePaid = async () => {
+    setPayingCharge(null);
+    await loadMember();
+  };
+
+  const handleRefunded = async () => {
+    setRefunding(null);
+    await loadMember();
+  };
+
+  const handleFrozen = async () => {
+    setShowFreeze(false);
+    await loadMember();
+  };
+
+  const handleEndFreeze = async (freeze: MembershipFreeze) => {
+    setEndingFreezeId(freeze.id);
+    setFreezeError(null);
+
+    try {
+      await endMembershipFreeze(freeze.id);
+      await loadMember();
+    } catch (error) {
+      console.error('Error ending membership freeze:', error);
+      setFreezeError(error instanceof Error ? error.message : 'Failed to end the freeze. Please try again.');
+    } finally {
+      setEndingFreezeId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/members" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Members
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <MemberPhoto
+            path={member.photo_url}
+            alt={member.full_name}
+            className="h-20 w-16 flex-shrink-0"
+          />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{member.full_name}</h1>
+            <p className="text-sm font-mono text-gray-600">
+              {member.member_id_string}
+              {member.legacy_member_id && (
+                <span className="ml-2 text-gray-400">(formerly {member.legacy_member_id})</span>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Button onClick={() => setShowSell(true)}>
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            {currentMembership ? 'Renew Membership' : 'Sell Membership'}
+          </Button>
+          <Button variant="outline" onClick={() => setShowSellCoupon(true)}>
+            <TicketPlus className="h-4 w-4 mr-2" />
+            Sell Coupon
+          </Button>
+          <Button variant="outline" onClick={() => setShowCharge(true)}>
+            <Receipt className="h-4 w-4 mr-2" />
+            Add Charge
+          </Button>
+          <Button variant="outline" onClick={() => navigate(`/members/cards?ids=${member.id}`)}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print Card
+          </Button>
+          <Button variant="outline" onClick={() => setShowEdit(true)}>
+            <Edit className="h-4 w-4 mr-2" />
+            Edit Member
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Member Details</h3>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center text-sm text-gray-700">
+              <Mail className="h-4 w-4 mr-3 text-gray-400" />
+              {member.email || 'No email on file'}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Phone className="h-4 w-4 mr-3 text-gray-400" />
+              {member.phone_number || 'No phone number on file'}
+            </div>
+            <div className="flex items-center text-sm text-gray-700">
+              <Calendar className="h-4 w-4 mr-3 text-gray-400" />
+              Joined {formatDate(member.join_date)}
+            </div>
+            {member.notes && (
+              <p className="text-sm text-gray-600 bg-gray-50 rounded-md p-3 whitespace-pre-line">
+                {member.notes}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Membership Status</h3>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <MembershipStatusBadge status={displayStatus} />
+            {currentMembership && membershipStatus ? (
+              <>
+                <div className="flex items-center text-sm text-gray-700">
+                  <CreditCard className="h-4 w-4 mr-3 text-gray-400" />
+                  {currentMembership.membership_plans?.name ?? 'Unknown plan'}
+                </div>
+                <p className="text-sm text-gray-700">
+                  {formatDate(currentMembership.start_date)} – {formatDate(currentMembership.end_date)}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {membershipStatus.status === 'ACTIVE' &&
+                    `${membershipStatus.daysRemaining} day${membershipStatus.daysRemaining === 1 ? '' : 's'} remaining`}
+                  {membershipStatus.status === 'FROZEN' && currentFreeze &&
+                    `Frozen until ${formatDate(currentFreeze.end_date)} — the end date moves out when the freeze ends`}
+                  {membershipStatus.status === 'GRACE_PERIOD' &&
+                    `Expired — ${membershipStatus.daysRemaining} grace day${membershipStatus.daysRemaining === 1 ? '' : 's'} left`}
+                  {membershipStatus.status === 'EXPIRED' &&
+                    `Expired ${Math.abs(membershipStatus.daysRemaining)} days ago`}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">This member has never purchased a membership.</p>
+            )}
+
+            {freezeError && <p className="text-sm text-red-600">{freezeError}</p>}
+
+            {openFreezes.map((freeze) => {
+              const started = freeze.start_date <= today;
+              return (
+                <div
+                  key={freeze.id}
+                  className="flex items-center justify-between rounded-md border border-sky-200 bg-sky-50 px-3 py-2 text-sm"
+                >
+                  <div>
+                    <p className="text-sky-900">
+                      <Snowflake className="inline h-4 w-4 mr-1 -mt-0.5" />
+                      {formatDate(freeze.start_date)} – {formatDate(freeze.end_date)}
+                    </p>
+                    <p className="text-xs text-sky-700">{freeze.reason}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleEndFreeze(freeze)}
+                    loading={endingFreezeId === freeze.id}
+                    disabled={endingFreezeId !== null}
+                  >
+                    {started ? 'End Freeze' : 'Cancel Freeze'}
+                  </Button>
+                </div>
+              );
+            })}
+
+            {runningMembership && (
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setShowFreeze(true)}>
+                  <Snowflake className="h-4 w-4 mr-2" />
+                  Freeze Membership
+                </Button>
+                {runningMembership.status === 'ACTIVE' && openFreezes.length === 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setShowChangePlan(true)}>
+                    <Repeat className="h-4 w-4 mr-2" />
+                    Change Plan
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">Membership History</h3>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Plan</th>
+                <th className={headerCellClass}>Start</th>
+                <th className={headerCellClass}>End</th>
+                <th className={headerCellClass}>Amount Paid</th>
+                <th className={headerCellClass}>Registration Fee</th>
+                <th className={headerCellClass}>Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {memberships.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                    No memberships yet.
+                  </td>
+                </tr>
+              ) : (
+                memberships.map((membership) => {
+                  const daysFrozen = freezes
+                    .filter(f => f.membership_id === membership.id)
+                    .reduce((total, f) => total + (f.days_frozen ?? 0), 0);
+
+                  return (
+                    <tr key={membership.id}>
+                      <td className={cellClass}>{membership.membership_plans?.name ?? '—'}</td>
+                      <td className={cellClass}>{formatDate(membership.start_date)}</td>
+                      <td className={cellClass}>
+                        {formatDate(membership.end_date)}
+                        {daysFrozen > 0 && (
+                          <span className="ml-1 text-xs text-sky-700">(+{daysFrozen} days frozen)</span>
+                        )}
+                      </td>
+                      <td className={cellClass}>{formatCurrency(membership.amount_paid)}</td>
+                      <td className={cellClass}>{formatCurrency(membership.registration_fee_paid)}</td>
+                      <td className={cellClass}>{membership.replaced_by ? 'PLAN CHANGED' : membership.status}</td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {charges.length > 0 && (
+        <Card className={overdueBalance > 0 ? 'border-red-200' : undefined}>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">Account</h3>
+              <div className="text-right">
+                <p className="text-lg font-semibold text-gray-900">{formatCurrency(accountBalance)} owed</p>
+                {overdueBalance > 0 && (
+                  <p className="text-sm text-red-600">{formatCurrency(overdueBalance)} overdue</p>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Charged</th>
+                  <th className={headerCellClass}>Description</th>
+                  <th className={headerCellClass}>Amount</th>
+                  <th className={headerCellClass}>Paid</th>
+                  <th className={headerCellClass}>Owed</th>
+                  <th className={headerCellClass}>Age</th>
+                  <th className={headerCellClass}></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {charges.map((charge) => (
+                  <tr key={charge.transaction_id}>
+                    <td className={cellClass}>{formatDate(charge.created_at)}</td>
+                    <td className={cellClass}>{charge.description || charge.type.replace(/_/g, ' ')}</td>
+                    <td className={cellClass}>{formatCurrency(charge.amount)}</td>
+                    <td className={cellClass}>{formatCurrency(charge.amount_paid)}</td>
+                    <td className={`${cellClass} font-medium`}>{formatCurrency(charge.balance)}</td>
+                    <td className={`${cellClass} ${isOverdue(charge) ? 'text-red-600' : ''}`}>
+                      {charge.age_days} day{charge.age_days === 1 ? '' : 's'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <Button variant="ghost" size="sm" onClick={() => setPayingCharge(charge)}>
+                        <CreditCard className="h-4 w-4 mr-1" />
+                        Take Payment
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {coupons.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Coupons</h3>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Code</th>
+                  <th className={headerCellClass}>Coupon</th>
+                  <th className={headerCellClass}>Purchased</th>
+                  <th className={headerCellClass}>Expires</th>
+                  <th className={headerCellClass}>Entries Left</th>
+                  <th className={headerCellClass}>Status</th>
+                  <th className={headerCellClass}></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {coupons.map((coupon) => (
+                  <tr key={coupon.id}>
+                    <td className={`${cellClass} font-mono`}>{coupon.code}</td>
+                    <td className={cellClass}>{coupon.coupon_templates?.name ?? '—'}</td>
+                    <td className={cellClass}>{formatDate(coupon.purchase_date)}</td>
+                    <td className={cellClass}>{formatDate(coupon.expiry_date)}</td>
+                    <td className={cellClass}>
+                      {coupon.entries_remaining}
+                      {coupon.coupon_templates && ` / ${coupon.coupon_templates.max_entries}`}
+                    </td>
+                    <td className={cellClass}>{getCouponStatus(coupon, today).replace(/_/g, ' ')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <Button variant="ghost" size="sm" onClick={() => setUsageCoupon(coupon)}>
+                        <History className="h-4 w-4 mr-1" />
+                        Usage
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Recent Check-ins</h3>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Time</th>
+                  <th className={headerCellClass}>Type</th>
+                  <th className={headerCellClass}>Notes</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {checkIns.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No check-ins yet.
+                    </td>
+                  </tr>
+                ) : (
+                  checkIns.map((checkIn) => (
+                    <tr key={checkIn.id}>
+                      <td className={cellClass}>{formatDateTime(checkIn.check_in_time)}</td>
+                      <td className={cellClass}>{checkInTypeLabels[checkIn.type] ?? checkIn.type}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{checkIn.notes || '—'}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Transactions</h3>
+            {receiptError && <p className="text-sm text-red-600">{receiptError}</p>}
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Date</th>
+                  <th className={headerCellClass}>Type</th>
+                  <th className={headerCellClass}>Method</th>
+                  <th className={headerCellClass}>Amount</th>
+                  <th className={headerCellClass}>Status</th>
+                  <th className={headerCellClass}></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transactions.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No transactions yet.
+                    </td>
+                  </tr>
+                ) : (
+                  transactions.map((transaction) => (
+                    <tr key={transaction.id}>
+                      <td className={cellClass}>{formatDateTime(transaction.created_at)}</td>
+                      <td className={cellClass}>{transaction.type.replace(/_/g, ' ')}</td>
+                      <td className={cellClass}>{transaction.payment_method.replace(/_/g, ' ')}</td>
+                      <td className={cellClass}>{formatCurrency(transaction.amount)}</td>
+                      <td className={cellClass}>{transaction.status}</td>
+                      <td className={`${cellClass} text-right`}>
+                        <ReceiptButton transactionId={transaction.id} onError={setReceiptError} />
+                        {isRefundable(transaction) && (
+                          <Button variant="ghost" size="sm" onClick={() => setRefunding(transaction)}>
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Refund
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+
+      <Modal open={showEdit} title="Edit Member" onClose={() => setShowEdit(false)}>
+        <MemberForm member={member} onSaved={handleSaved} onCancel={() => setShowEdit(false)} />
+      </Modal>
+
+      <Modal
+        open={showSell}
+        title={currentMembership ? 'Renew Membership' : 'Sell Membership'}
+        onClose={() => setShowSell(false)}
+      >
+        <SellMembershipForm member={member} onSold={handleSold} onCancel={() => setShowSell(false)} />
+      </Modal>
+
+      <Modal open={showSellCoupon} title="Sell Coupon" onClose={() => setShowSellCoupon(false)}>
+        <SellCouponForm member={member} onSold={handleCouponSold} onCancel={() => setShowSellCoupon(false)} />
+      </Modal>
+
+      <Modal open={usageCoupon !== null} title="Coupon Usage" onClose={() => setUsageCoupon(null)}>
+        {usageCoupon && <CouponUsageHistory coupon={usageCoupon} />}
+      </Modal>
+
+      <Modal open={showCharge} title="Add Charge" onClose={() => setShowCharge(false)}>
+        <AccountChargeForm member={member} onCharged={handleCharged} onCancel={() => setShowCharge(false)} />
+      </Modal>
+
+      <Modal open={payingCharge !== null} title="Take Payment" onClose={() => setPayingCharge(null)}>
+        {payingCharge && (
+          <AccountPaymentForm charge={payingCharge} onPaid={handlePaid} onCancel={() => setPayingCharge(null)} />
+        )}
+      </Modal>
+
+      <Modal open={refunding !== null} title="Refund or Void" onClose={() => setRefunding(null)}>
+        {refunding && (
+          <RefundForm transaction={refunding} onCompleted={handleRefunded} onCancel={() => setRefunding(null)} />
+        )}
+      </Modal>
+
+      {runningMembership && (
+        <Modal open={showChangePlan} title="Change Membership Plan" onClose={() => setShowChangePlan(false)}>
+          <ChangeMembershipPlanForm
+            membership={runningMembership}
+            onChanged={handlePlanChanged}
+            onCancel={() => setShowChangePlan(false)}
+          />
+        </Modal>
+      )}
+
+      {runningMembership && settings && (
+        <Modal open={showFreeze} title="Freeze Membership" onClose={() => setShowFreeze(false)}>
+          <FreezeMembershipForm
+            membership={runningMembership}
+            freezes={freezes}
+            maxDaysPerYear={settings.max_freeze_days_per_year}
+            onFrozen={handleFrozen}
+            onCancel={() => setShowFreeze(false)}
+          />
+        </Modal>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, UserPlus, ChevronLeft, ChevronRight, Printer } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { MemberForm } from '../components/members/MemberForm';
+import { searchMembers, MEMBERS_PAGE_SIZE, type Member } from '../lib/members';
+import { formatDate } from '../lib/utils';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function Members() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [page, setPage] = useState(0);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query);
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const loadMembers = useCallback(async () => {
+    // Ignore responses from searches that have since been superseded
+    const requestId = ++requestRef.current;
+    setLoading(true);
+
+    try {
+      const result = await searchMembers(debouncedQuery, page);
+      if (requestId !== requestRef.current) return;
+      setMembers(result.members);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error loading members:', error);
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }, [debouncedQuery, page]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const pageCount = Math.max(1, Math.ceil(total / MEMBERS_PAGE_SIZE));
+  const firstRow = total === 0 ? 0 : page * MEMBERS_PAGE_SIZE + 1;
+  const lastRow = Math.min(total, (page + 1) * MEMBERS_PAGE_SIZE);
+
+  const allOnPageSelected = members.length > 0 && members.every(m => selectedIds.has(m.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Selection persists across pages so a batch can be built from several searches
+  const togglePageSelected = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      members.forEach(m => (allOnPageSelected ? next.delete(m.id) : next.add(m.id)));
+      return next;
+    });
+  };
+
+  const printSelectedCards = () => {
+    navigate(`/members/cards?ids=${Array.from(selectedIds).join(',')}`);
+  };
+
+  const handleCreated = (member: Member) => {
+    setShowCreate(false);
+    navigate(`/members/${member.id}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Members</h1>
+        <div className="flex items-center space-x-3">
+          {selectedIds.size > 0 && (
+            <>
+              <Button variant="ghost" onClick={() => setSelectedIds(new Set())}>
+                Clear Selection
+              </Button>
+              <Button variant="outline" onClick={printSelectedCards}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print Cards ({selectedIds.size})
+              </Button>
+            </>
+          )}
+          <Button onClick={() => setShowCreate(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add Member
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              aria-label="Search members"
+              placeholder="Search by name, member ID, phone or email"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="w-10 px-4 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all members on this page"
+                    className="rounded border-gray-300"
+                    checked={allOnPageSelected}
+                    onChange={togglePageSelected}
+                  />
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Member ID
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Phone
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Joined
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading && members.length === 0 ? (
+                [...Array(5)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={7} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : members.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    {debouncedQuery ? 'No members match your search.' : 'No members yet.'}
+                  </td>
+                </tr>
+              ) : (
+                members.map((member) => (
+                  <tr
+                    key={member.id}
+                    onClick={() => navigate(`/members/${member.id}`)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="w-10 px-4 py-4" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${member.full_name}`}
+                        className="rounded border-gray-300"
+                        checked={selectedIds.has(member.id)}
+                        onChange={() => toggleSelected(member.id)}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                      {member.member_id_string}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {member.full_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {member.phone_number || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {member.email || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {formatDate(member.join_date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                          member.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {member.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+          <p className="text-sm text-gray-600">
+            Showing {firstRow.toLocaleString()}–{lastRow.toLocaleString()} of {total.toLocaleString()}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0 || loading}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount || loading}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Modal open={showCreate} title="Add Member" onClose={() => setShowCreate(false)}>
+        <MemberForm onSaved={handleCreated} onCancel={() => setShowCreate(false)} />
+      </Modal>
+    </div>
+  );
+}
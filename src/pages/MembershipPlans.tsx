@@ -0,0 +1,246 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { Plus, Edit, History, AlertCircle } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { MembershipPlanForm } from '../components/plans/MembershipPlanForm';
+import {
+  getMembershipPlansWithSales,
+  setMembershipPlanActive,
+  type MembershipPlanWithSales,
+} from '../lib/plans';
+import { formatCurrency, formatDate } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+interface PlanGroup {
+  current: MembershipPlanWithSales;
+  previous: MembershipPlanWithSales[];
+}
+
+export function MembershipPlans() {
+  const [plans, setPlans] = useState<MembershipPlanWithSales[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<MembershipPlanWithSales | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const loadPlans = useCallback(async () => {
+    try {
+      setPlans(await getMembershipPlansWithSales());
+    } catch (err) {
+      console.error('Error loading membership plans:', err);
+      setError('Failed to load membership plans.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  // Group the versions of each plan; the one not superseded is current
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, MembershipPlanWithSales[]>();
+    plans.forEach(plan => {
+      byGroup.set(plan.plan_group_id, [...(byGroup.get(plan.plan_group_id) ?? []), plan]);
+    });
+
+    const result: PlanGroup[] = [];
+    byGroup.forEach(versions => {
+      const current = versions.find(plan => !plan.superseded_by) ?? versions[0];
+      result.push({ current, previous: versions.filter(plan => plan.id !== current.id) });
+    });
+    return result;
+  }, [plans]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (plan: MembershipPlanWithSales) => {
+    setEditing(plan);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSaved = async () => {
+    closeForm();
+    await loadPlans();
+  };
+
+  const toggleActive = async (plan: MembershipPlanWithSales) => {
+    setTogglingId(plan.id);
+    setError(null);
+
+    try {
+      await setMembershipPlanActive(plan.id, !plan.is_active);
+      await loadPlans();
+    } catch (err) {
+      console.error('Error updating membership plan:', err);
+      setError('Failed to update membership plan. Please try again.');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const toggleHistory = (groupId: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Membership Plans</h1>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Plan
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-4 bg-red-50 border border-red-200 rounded-md">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Plan</th>
+                <th className={headerCellClass}>Price</th>
+                <th className={headerCellClass}>Duration</th>
+                <th className={headerCellClass}>Registration Fee</th>
+                <th className={headerCellClass}>Free Months</th>
+                <th className={headerCellClass}>Sold</th>
+                <th className={headerCellClass}>Status</th>
+                <th className={headerCellClass}></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={8} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : groups.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No membership plans yet.
+                  </td>
+                </tr>
+              ) : (
+                groups.map(({ current, previous }) => (
+                  <Fragment key={current.plan_group_id}>
+                    <tr>
+                      <td className={cellClass}>
+                        <p className="font-medium">{current.name}</p>
+                        {current.version > 1 && (
+                          <p className="text-xs text-gray-500">Version {current.version}</p>
+                        )}
+                      </td>
+                      <td className={cellClass}>{formatCurrency(current.price)}</td>
+                      <td className={cellClass}>
+                        {current.duration_months} month{current.duration_months === 1 ? '' : 's'}
+                      </td>
+                      <td className={cellClass}>{current.has_registration_fee ? 'Yes' : 'No'}</td>
+                      <td className={cellClass}>{current.free_months_on_signup}</td>
+                      <td className={cellClass}>{current.sold_count}</td>
+                      <td className={cellClass}>
+                        <span
+                          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                            current.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {current.is_active ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <div className="flex justify-end space-x-2">
+                          {previous.length > 0 && (
+                            <Button variant="ghost" size="sm" onClick={() => toggleHistory(current.plan_group_id)}>
+                              <History className="h-4 w-4 mr-1" />
+                              {previous.length} earlier
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => openEdit(current)}>
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleActive(current)}
+                            loading={togglingId === current.id}
+                            disabled={togglingId !== null}
+                          >
+                            {current.is_active ? 'Deactivate' : 'Activate'}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedGroups.has(current.plan_group_id) &&
+                      previous.map(plan => (
+                        <tr key={plan.id} className="bg-gray-50 text-gray-600">
+                          <td className="px-6 py-3 pl-10 whitespace-nowrap text-sm">
+                            Version {plan.version}
+                            {plan.name !== current.name && ` — ${plan.name}`}
+                            <p className="text-xs text-gray-500">Created {formatDate(plan.created_at)}</p>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm">{formatCurrency(plan.price)}</td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm">
+                            {plan.duration_months} month{plan.duration_months === 1 ? '' : 's'}
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm">{plan.has_registration_fee ? 'Yes' : 'No'}</td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm">{plan.free_months_on_signup}</td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm">{plan.sold_count}</td>
+                          <td className="px-6 py-3 whitespace-nowrap text-sm">Superseded</td>
+                          <td></td>
+                        </tr>
+                      ))}
+                  </Fragment>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 text-sm text-gray-600">
+          Once a plan has been sold, changing its name, price, duration, registration fee or free months creates a
+          new version. Members keep the version they bought, so history and reports stay accurate.
+        </CardContent>
+      </Card>
+
+      <Modal
+        open={showForm}
+        title={editing ? `Edit ${editing.name}` : 'Add Membership Plan'}
+        onClose={closeForm}
+        className="max-w-2xl"
+      >
+        <MembershipPlanForm plan={editing} onSaved={handleSaved} onCancel={closeForm} />
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, AlertTriangle, Boxes, CheckCircle, Minus, Plus, ShoppingCart, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { CheckoutForm } from '../components/pos/CheckoutForm';
+import { ScanResultCard } from '../components/pos/ScanResultCard';
+import { BarcodeScanner } from '../components/scanner/BarcodeScanner';
+import { ReceiptButton } from '../components/sales/ReceiptButton';
+import { getActiveShift, type Shift } from '../lib/shifts';
+import { getProducts, type Product } from '../lib/products';
+import { getCartTotal, getLineTotal, type CartLine, type PosSale } from '../lib/pos';
+import { autoPrintReceipt } from '../lib/receiptPrinter';
+import { resolveScannedCode, type ScanResult } from '../lib/scanner';
+import { getTaxPricing, priceWithTax, type TaxPricing } from '../lib/tax';
+import { formatCurrency, formatDateTime } from '../lib/utils';
+
+export function PointOfSale() {
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [pricing, setPricing] = useState<TaxPricing>({ pricesIncludeTax: true, rates: {} });
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [scanned, setScanned] = useState<Extract<ScanResult, { kind: 'member' | 'coupon' }> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  // Any of the sale's transactions prints the whole sale
+  const [receiptId, setReceiptId] = useState<string | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    try {
+      setProducts(await getProducts({ activeOnly: true }));
+    } catch (err) {
+      console.error('Error loading products:', err);
+      setError('Failed to load products. Please refresh.');
+    }
+  }, []);
+
+  const loadTill = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const [activeShift, taxPricing] = await Promise.all([getActiveShift(), getTaxPricing()]);
+      setShift(activeShift);
+      setPricing(taxPricing);
+      await loadProducts();
+    } catch (err) {
+      console.error('Error loading point of sale:', err);
+      setError('Failed to load the point of sale. Please refresh.');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadProducts]);
+
+  useEffect(() => {
+    loadTill();
+  }, [loadTill]);
+
+  const visibleProducts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return products;
+    return products.filter(p => p.name.toLowerCase().includes(term));
+  }, [products, search]);
+
+  const quantityInCart = (productId: string) => cart.find(line => line.product.id === productId)?.quantity ?? 0;
+
+  // Quantities are capped at the stock on hand; checkout checks again under a lock
+  const setQuantity = (product: Product, quantity: number) => {
+    const capped = Math.min(quantity, product.current_stock);
+
+    setCart(current => {
+      if (capped <= 0) return current.filter(line => line.product.id !== product.id);
+      if (current.some(line => line.product.id === product.id)) {
+        return current.map(line => (line.product.id === product.id ? { ...line, quantity: capped } : line));
+      }
+      return [...current, { product, quantity: capped }];
+    });
+  };
+
+  const addToCart = (product: Product) => {
+    setSuccess(null);
+    setQuantity(product, quantityInCart(product.id) + 1);
+  };
+
+  // Member cards and coupons are looked up; any other code is treated as a product search
+  const handleScan = async (code: string) => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const result = await resolveScannedCode(code);
+
+      if (result.kind === 'unknown') {
+        setScanned(null);
+        setSearch(result.code);
+      } else {
+        setScanned(result);
+      }
+    } catch (err) {
+      console.error('Error resolving scanned code:', err);
+      setError('Failed to look up the scanned code. Please try again.');
+    }
+  };
+
+  const handleCompleted = async (sale: PosSale) => {
+    setShowCheckout(false);
+    setCart([]);
+    setError(null);
+    setSuccess(
+      `Sale completed — ${formatCurrency(sale.total)}` +
+        (sale.discount > 0 ? ` (${formatCurrency(sale.discount)} off with promotions)` : '')
+    );
+    setReceiptId(sale.transaction_ids[0] ?? null);
+    autoPrintReceipt(sale.transaction_ids[0] ?? null);
+    await loadProducts();
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Point of Sale</h1>
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-48 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!shift) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Point of Sale</h1>
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-6">
+            <div className="flex items-start">
+              <AlertTriangle className="h-6 w-6 text-orange-600 mr-3 mt-0.5" />
+              <div>
+                <h3 className="text-lg font-medium text-orange-800">No active shift</h3>
+                <p className="text-sm text-orange-700 mb-4">
+                  Every sale is recorded against a shift. Open a shift before selling.
+                </p>
+                <div className="flex space-x-3">
+                  <Link to="/shifts">
+                    <Button size="sm">Go to Shifts</Button>
+                  </Link>
+                  <Button size="sm" variant="outline" onClick={loadTill}>
+                    Refresh
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const subtotal = getCartTotal(cart, pricing);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Point of Sale</h1>
+        <div className="flex items-center space-x-4">
+          <p className="text-sm text-gray-600">
+            Shift started {formatDateTime(shift.start_time)}
+          </p>
+          <Link to="/pos/inventory">
+            <Button variant="outline">
+              <Boxes className="h-4 w-4 mr-2" />
+              Inventory
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{success}</span>
+          {receiptId && <ReceiptButton transactionId={receiptId} onError={setError} />}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          {scanned && <ScanResultCard result={scanned} onDismiss={() => setScanned(null)} />}
+
+          <Input
+            placeholder="Search products..."
+            autoComplete="off"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+
+          <BarcodeScanner onScan={handleScan} disabled={showCheckout} />
+
+          {visibleProducts.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-sm text-gray-500">
+                {products.length === 0 ? 'No products on sale.' : 'No products match your search.'}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+              {visibleProducts.map((product) => {
+                const available = product.current_stock - quantityInCart(product.id);
+                return (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => addToCart(product)}
+                    disabled={available <= 0}
+                    className="rounded-lg border border-gray-200 bg-white p-4 text-left shadow-sm transition-colors hover:border-blue-300 hover:bg-blue-50 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:border-gray-200 disabled:hover:bg-white"
+                  >
+                    <p className="font-medium text-gray-900 truncate">{product.name}</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatCurrency(priceWithTax(product.price, product.tax_rate_id, pricing))}</p>
+                    <p className={`text-xs ${product.current_stock > 0 ? 'text-gray-500' : 'text-red-600'}`}>
+                      {product.current_stock > 0 ? `${product.current_stock} in stock` : 'Out of stock'}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Cart</h3>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {cart.length === 0 ? (
+              <p className="text-sm text-gray-500">Select products to add them to the cart.</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {cart.map((line) => (
+                  <div key={line.product.id} className="py-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-900 truncate">{line.product.name}</span>
+                      <span className="text-gray-900">{formatCurrency(getLineTotal(line, pricing))}</span>
+                    </div>
+                    <div className="mt-2 flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setQuantity(line.product, line.quantity - 1)}
+                        aria-label="Decrease quantity"
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-8 text-center text-sm">{line.quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setQuantity(line.product, line.quantity + 1)}
+                        disabled={line.quantity >= line.product.current_stock}
+                        aria-label="Increase quantity"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                      <span className="text-xs text-gray-500">
+                        @ {formatCurrency(priceWithTax(line.product.price, line.product.tax_rate_id, pricing))}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto"
+                        onClick={() => setQuantity(line.product, 0)}
+                        aria-label="Remove from cart"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border-t border-gray-200 pt-4">
+              <div className="flex justify-between text-lg font-semibold text-gray-900">
+                <span>Subtotal</span>
+                <span>{formatCurrency(subtotal)}</span>
+              </div>
+              <p className="text-xs text-gray-500">Promotions are applied at checkout.</p>
+            </div>
+
+            <div className="flex space-x-3">
+              <Button variant="outline" onClick={() => setCart([])} disabled={cart.length === 0}>
+                Clear
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => {
+                  setError(null);
+                  setShowCheckout(true);
+                }}
+                disabled={cart.length === 0}
+              >
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Checkout
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal open={showCheckout} title="Checkout" onClose={() => setShowCheckout(false)}>
+        <CheckoutForm
+          shift={shift}
+          lines={cart}
+          onCompleted={handleCompleted}
+          onCancel={() => setShowCheckout(false)}
+        />
+      </Modal>
+    </div>
+  );
+}
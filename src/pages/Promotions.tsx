@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Edit, AlertCircle } from 'lucide-react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { PromotionForm } from '../components/promotions/PromotionForm';
+import {
+  PROMOTION_TARGETS,
+  describeDiscount,
+  getPromotionStatus,
+  getPromotions,
+  setPromotionActive,
+  type PromotionStatus,
+  type PromotionWithUsage,
+} from '../lib/promotions';
+import { formatDate, toISODate } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const statusStyles: Record<PromotionStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  SCHEDULED: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
+  ENDED: { label: 'Ended', className: 'bg-gray-100 text-gray-700' },
+  USED_UP: { label: 'Used up', className: 'bg-yellow-100 text-yellow-800' },
+  INACTIVE: { label: 'Inactive', className: 'bg-gray-100 text-gray-700' },
+};
+
+function describeWindow(promotion: PromotionWithUsage): string {
+  if (promotion.starts_on && promotion.ends_on) {
+    return `${formatDate(promotion.starts_on)} - ${formatDate(promotion.ends_on)}`;
+  }
+  if (promotion.starts_on) return `From ${formatDate(promotion.starts_on)}`;
+  if (promotion.ends_on) return `Until ${formatDate(promotion.ends_on)}`;
+  return 'Always';
+}
+
+export function Promotions() {
+  const [promotions, setPromotions] = useState<PromotionWithUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<PromotionWithUsage | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setPromotions(await getPromotions());
+    } catch (err) {
+      console.error('Error loading promotions:', err);
+      setError('Failed to load promotions.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (promotion: PromotionWithUsage) => {
+    setEditing(promotion);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSaved = async () => {
+    closeForm();
+    await loadPromotions();
+  };
+
+  const toggleActive = async (promotion: PromotionWithUsage) => {
+    setTogglingId(promotion.id);
+    setError(null);
+
+    try {
+      await setPromotionActive(promotion.id, !promotion.is_active);
+      await loadPromotions();
+    } catch (err) {
+      console.error('Error updating promotion:', err);
+      setError('Failed to update promotion. Please try again.');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const today = toISODate();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Promotions</h1>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Promotion
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-4 bg-red-50 border border-red-200 rounded-md">
+          <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Promotion</th>
+                <th className={headerCellClass}>Discount</th>
+                <th className={headerCellClass}>Applies To</th>
+                <th className={headerCellClass}>Runs</th>
+                <th className={headerCellClass}>Code</th>
+                <th className={headerCellClass}>Used</th>
+                <th className={headerCellClass}>Status</th>
+                <th className={headerCellClass}></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={8} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : promotions.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No promotions yet.
+                  </td>
+                </tr>
+              ) : (
+                promotions.map((promotion) => {
+                  const status = statusStyles[getPromotionStatus(promotion, today)];
+
+                  return (
+                    <tr key={promotion.id}>
+                      <td className={cellClass}>
+                        <p className="font-medium">{promotion.name}</p>
+                        {promotion.description && (
+                          <p className="text-xs text-gray-500 truncate max-w-xs">{promotion.description}</p>
+                        )}
+                      </td>
+                      <td className={cellClass}>{describeDiscount(promotion)}</td>
+                      <td className={cellClass}>
+                        {PROMOTION_TARGETS.find(target => target.value === promotion.applies_to)?.label}
+                        {promotion.applies_to === 'PRODUCT' && promotion.product_ids.length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            {promotion.product_ids.length} product{promotion.product_ids.length === 1 ? '' : 's'}
+                          </p>
+                        )}
+                      </td>
+                      <td className={cellClass}>{describeWindow(promotion)}</td>
+                      <td className={`${cellClass} font-mono`}>{promotion.code ?? '—'}</td>
+                      <td className={cellClass}>
+                        {promotion.times_used}
+                        {promotion.usage_limit !== null && ` / ${promotion.usage_limit}`}
+                      </td>
+                      <td className={cellClass}>
+                        <span
+                          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                        >
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(promotion)}>
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleActive(promotion)}
+                            loading={togglingId === promotion.id}
+                            disabled={togglingId !== null}
+                          >
+                            {promotion.is_active ? 'Deactivate' : 'Activate'}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal
+        open={showForm}
+        title={editing ? `Edit ${editing.name}` : 'Add Promotion'}
+        onClose={closeForm}
+        className="max-w-2xl"
+      >
+        <PromotionForm promotion={editing} onSaved={handleSaved} onCancel={closeForm} />
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Download, Printer } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { downloadCSV } from '../lib/csv';
+import {
+  DEFAULT_COVER_DAYS,
+  DEFAULT_SALES_DAYS,
+  getReorderReport,
+  type ReorderLine,
+} from '../lib/stockAlerts';
+import { toISODate } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+export function ReorderReport() {
+  const [salesDays, setSalesDays] = useState(DEFAULT_SALES_DAYS);
+  const [coverDays, setCoverDays] = useState(DEFAULT_COVER_DAYS);
+  const [lines, setLines] = useState<ReorderLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setLines(await getReorderReport(salesDays, coverDays));
+    } catch (err) {
+      console.error('Error loading reorder report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the reorder report.');
+    } finally {
+      setLoading(false);
+    }
+  }, [salesDays, coverDays]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleExport = () => {
+    downloadCSV(`reorder-report-${toISODate()}.csv`, [
+      ['Product', 'In Stock', 'Reorder At', `Sold (${salesDays} days)`, 'Sold per Day', 'Days of Stock', 'Order Quantity'],
+      ...lines.map(line => [
+        line.name,
+        line.current_stock,
+        line.low_stock_threshold,
+        line.units_sold,
+        line.daily_sales,
+        line.days_of_stock,
+        line.suggested_quantity,
+      ]),
+    ]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/pos/inventory" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700 print:hidden">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Inventory
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Reorder Report</h1>
+        <div className="flex space-x-3 print:hidden">
+          <Button variant="outline" onClick={handleExport} disabled={lines.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => window.print()} disabled={lines.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <Card className="print:hidden">
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Sales history (days)"
+              type="number"
+              min="1"
+              max="365"
+              value={salesDays}
+              onChange={(e) => setSalesDays(Math.max(1, e.target.valueAsNumber || 1))}
+              helperText="Recent sales used to work out how fast each product sells"
+            />
+            <Input
+              label="Order to cover (days)"
+              type="number"
+              min="1"
+              max="365"
+              value={coverDays}
+              onChange={(e) => setCoverDays(Math.max(1, e.target.valueAsNumber || 1))}
+              helperText="Days of sales to stock on top of the reorder level"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Product</th>
+                <th className={headerCellClass}>In Stock</th>
+                <th className={headerCellClass}>Reorder At</th>
+                <th className={headerCellClass}>Sold ({salesDays}d)</th>
+                <th className={headerCellClass}>Per Day</th>
+                <th className={headerCellClass}>Days of Stock</th>
+                <th className={headerCellClass}>Order Quantity</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={7} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : lines.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    Nothing needs reordering.
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => {
+                  const low = line.current_stock <= line.low_stock_threshold;
+                  return (
+                    <tr key={line.product_id}>
+                      <td className={cellClass}>
+                        <p className="font-medium">{line.name}</p>
+                        {low && <p className="text-xs text-orange-700">At or below reorder level</p>}
+                      </td>
+                      <td className={`${cellClass} ${low ? 'text-orange-700 font-medium' : ''}`}>{line.current_stock}</td>
+                      <td className={cellClass}>{line.low_stock_threshold}</td>
+                      <td className={cellClass}>{line.units_sold}</td>
+                      <td className={cellClass}>{line.daily_sales.toFixed(2)}</td>
+                      <td className={cellClass}>{line.days_of_stock === null ? '—' : line.days_of_stock.toFixed(1)}</td>
+                      <td className={`${cellClass} font-semibold`}>{line.suggested_quantity}</td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle, Clock, Printer, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { PrinterSettingsForm } from '../components/sales/PrinterSettingsForm';
+import { ReceiptButton } from '../components/sales/ReceiptButton';
+import { RefundForm } from '../components/sales/RefundForm';
+import { useAuthStore } from '../store/authStore';
+import { hasRole } from '../lib/auth';
+import type { Transaction } from '../lib/members';
+import { getActiveShift, type Shift } from '../lib/shifts';
+import { getTransactionsForDay } from '../lib/transactions';
+import { formatTaxRate, getTaxSummary, type TaxSummaryLine } from '../lib/tax';
+import { getPromotionSummary, type PromotionSummaryLine } from '../lib/promotions';
+import {
+  approveRefund,
+  getPendingRefundRequests,
+  getRefundedAmounts,
+  isRefundable,
+  rejectRefund,
+  type RefundRequest,
+  type RefundRequestWithTransaction,
+} from '../lib/refunds';
+import { roundCurrency } from '../lib/pos';
+import { formatCurrency, formatDateTime, toISODate } from '../lib/utils';
+
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+export function Sales() {
+  const { profile } = useAuthStore();
+  const isAdmin = hasRole(profile, 'ADMIN');
+  const [date, setDate] = useState(toISODate());
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [refunded, setRefunded] = useState<Record<string, number>>({});
+  const [pending, setPending] = useState<RefundRequestWithTransaction[]>([]);
+  const [taxSummary, setTaxSummary] = useState<TaxSummaryLine[]>([]);
+  const [promotionSummary, setPromotionSummary] = useState<PromotionSummaryLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refunding, setRefunding] = useState<Transaction | null>(null);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [showPrinter, setShowPrinter] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadSales = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const dayStart = new Date(`${date}T00:00:00`);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    try {
+      const [activeShift, dayTransactions, pendingRequests, dayTaxes, dayPromotions] = await Promise.all([
+        getActiveShift(),
+        getTransactionsForDay(date),
+        getPendingRefundRequests(),
+        getTaxSummary(dayStart, dayEnd),
+        getPromotionSummary(dayStart, dayEnd),
+      ]);
+
+      setShift(activeShift);
+      setTransactions(dayTransactions);
+      setPending(pendingRequests);
+      setTaxSummary(dayTaxes);
+      setPromotionSummary(dayPromotions);
+      setRefunded(await getRefundedAmounts(dayTransactions.filter(isRefundable).map(t => t.id)));
+    } catch (err) {
+      console.error('Error loading sales:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load sales.');
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    loadSales();
+  }, [loadSales]);
+
+  const handleRefunded = async (request: RefundRequest) => {
+    setRefunding(null);
+    setSuccess(
+      request.status === 'APPROVED'
+        ? `${request.kind === 'VOID' ? 'Voided' : 'Refunded'} ${formatCurrency(request.amount)}.`
+        : `Refund of ${formatCurrency(request.amount)} sent to an admin for approval.`
+    );
+    await loadSales();
+  };
+
+  const handleApprove = async (request: RefundRequestWithTransaction) => {
+    if (!shift) {
+      setError('Open a shift first; refunds are paid out of the current shift.');
+      return;
+    }
+
+    setDecidingId(request.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await approveRefund(request.id, shift.id);
+      setSuccess(`Refunded ${formatCurrency(request.amount)}.`);
+      await loadSales();
+    } catch (err) {
+      console.error('Error approving refund:', err);
+      setError(err instanceof Error ? err.message : 'Failed to approve the refund.');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleReject = async (request: RefundRequestWithTransaction) => {
+    const note = window.prompt('Why is this refund being rejected? (optional)');
+    if (note === null) return;
+
+    setDecidingId(request.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await rejectRefund(request.id, note);
+      setSuccess('Refund request rejected.');
+      await loadSales();
+    } catch (err) {
+      console.error('Error rejecting refund:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reject the refund.');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  // Refund entries are negative, so the day's net is a plain sum
+  const paid = transactions.filter(t => t.status !== 'OUTSTANDING');
+  const salesTotal = roundCurrency(paid.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0));
+  const refundsTotal = roundCurrency(-paid.filter(t => t.amount < 0 && t.refund_of).reduce((sum, t) => sum + t.amount, 0));
+  const netTotal = roundCurrency(paid.reduce((sum, t) => sum + t.amount, 0));
+
+  const statusLabel = (transaction: Transaction) => {
+    if (transaction.refund_of) return transaction.status;
+    const amountRefunded = refunded[transaction.id] ?? 0;
+    if (amountRefunded >= transaction.amount) return 'REFUNDED';
+    if (amountRefunded > 0) return `PART REFUNDED (${formatCurrency(amountRefunded)})`;
+    return transaction.status;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Sales</h1>
+        <div className="flex items-center space-x-4">
+          <Button variant="outline" onClick={() => setShowPrinter(true)}>
+            <Printer className="h-4 w-4 mr-2" />
+            Printer
+          </Button>
+          <Link to="/sales/debt">
+            <Button variant="outline">
+              <Clock className="h-4 w-4 mr-2" />
+              Aged Debt
+            </Button>
+          </Link>
+          <div className="w-48">
+            <Input type="date" value={date} max={toISODate()} onChange={(e) => setDate(e.target.value || toISODate())} />
+          </div>
+        </div>
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <Card className="border-yellow-200">
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Refunds Awaiting Approval</h3>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Requested</th>
+                  <th className={headerCellClass}>Transaction</th>
+                  <th className={headerCellClass}>Action</th>
+                  <th className={headerCellClass}>Refund</th>
+                  <th className={headerCellClass}>Reason</th>
+                  <th className={headerCellClass}></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pending.map((request) => (
+                  <tr key={request.id}>
+                    <td className={cellClass}>{formatDateTime(request.requested_at)}</td>
+                    <td className={cellClass}>
+                      <p>{request.transactions?.description || request.transactions?.type.replace(/_/g, ' ')}</p>
+                      {request.transactions && (
+                        <p className="text-xs text-gray-500">
+                          {formatCurrency(request.transactions.amount)} · {formatDateTime(request.transactions.created_at)}
+                        </p>
+                      )}
+                    </td>
+                    <td className={cellClass}>{request.kind}</td>
+                    <td className={cellClass}>
+                      {formatCurrency(request.amount)}
+                      <span className="text-xs text-gray-500"> {request.payment_method.replace(/_/g, ' ')}</span>
+                      {request.items.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {request.items.reduce((count, item) => count + item.quantity, 0)} item(s) back to stock
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{request.reason}</td>
+                    <td className={`${cellClass} text-right`}>
+                      {isAdmin ? (
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleApprove(request)}
+                            loading={decidingId === request.id}
+                            disabled={decidingId !== null}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReject(request)}
+                            disabled={decidingId !== null}
+                          >
+                            Reject
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-500">Awaiting an admin</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {[
+          { label: 'Sales', value: salesTotal },
+          { label: 'Refunds', value: refundsTotal },
+          { label: 'Net', value: netTotal },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-gray-600">{label}</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatCurrency(value)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerCellClass}>Time</th>
+                <th className={headerCellClass}>Type</th>
+                <th className={headerCellClass}>Description</th>
+                <th className={headerCellClass}>Method</th>
+                <th className={headerCellClass}>Amount</th>
+                <th className={headerCellClass}>Status</th>
+                <th className={headerCellClass}></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="animate-pulse">
+                    <td colSpan={7} className="px-6 py-4">
+                      <div className="h-5 bg-gray-200 rounded"></div>
+                    </td>
+                  </tr>
+                ))
+              ) : transactions.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No transactions on this day.
+                  </td>
+                </tr>
+              ) : (
+                transactions.map((transaction) => (
+                  <tr key={transaction.id}>
+                    <td className={cellClass}>{formatDateTime(transaction.created_at)}</td>
+                    <td className={cellClass}>{transaction.type.replace(/_/g, ' ')}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{transaction.description || '—'}</td>
+                    <td className={cellClass}>{transaction.payment_method.replace(/_/g, ' ')}</td>
+                    <td className={`${cellClass} ${transaction.amount < 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(transaction.amount)}
+                    </td>
+                    <td className={cellClass}>{statusLabel(transaction)}</td>
+                    <td className={`${cellClass} text-right`}>
+                      <ReceiptButton transactionId={transaction.id} onError={setError} />
+                      {isRefundable(transaction) && (refunded[transaction.id] ?? 0) < transaction.amount && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSuccess(null);
+                            setRefunding(transaction);
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Refund
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {taxSummary.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Tax by Rate</h3>
+            <p className="text-sm text-gray-600">Tax included in the money taken on this day, net of refunds.</p>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Rate</th>
+                  <th className={headerCellClass}>Net</th>
+                  <th className={headerCellClass}>Tax</th>
+                  <th className={headerCellClass}>Gross</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {taxSummary.map((line) => (
+                  <tr key={`${line.tax_name}-${line.rate}`}>
+                    <td className={`${cellClass} font-medium`}>{formatTaxRate({ name: line.tax_name, rate: line.rate })}</td>
+                    <td className={cellClass}>{formatCurrency(line.net_amount)}</td>
+                    <td className={cellClass}>{formatCurrency(line.tax_amount)}</td>
+                    <td className={cellClass}>{formatCurrency(line.gross_amount)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className={cellClass}>Total</td>
+                  <td className={cellClass}>
+                    {formatCurrency(roundCurrency(taxSummary.reduce((sum, line) => sum + line.net_amount, 0)))}
+                  </td>
+                  <td className={cellClass}>
+                    {formatCurrency(roundCurrency(taxSummary.reduce((sum, line) => sum + line.tax_amount, 0)))}
+                  </td>
+                  <td className={cellClass}>
+                    {formatCurrency(roundCurrency(taxSummary.reduce((sum, line) => sum + line.gross_amount, 0)))}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {promotionSummary.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Promotions</h3>
+            <p className="text-sm text-gray-600">Sales made on this day that used a promotion, and the discount given.</p>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerCellClass}>Promotion</th>
+                  <th className={headerCellClass}>Code</th>
+                  <th className={headerCellClass}>Sales</th>
+                  <th className={headerCellClass}>Discount</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {promotionSummary.map((line) => (
+                  <tr key={`${line.promotion_id}-${line.promotion_name}-${line.code}`}>
+                    <td className={`${cellClass} font-medium`}>{line.promotion_name}</td>
+                    <td className={`${cellClass} font-mono`}>{line.code ?? '—'}</td>
+                    <td className={cellClass}>{line.times_used}</td>
+                    <td className={cellClass}>{formatCurrency(line.discount_amount)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className={cellClass} colSpan={2}>Total</td>
+                  <td className={cellClass}>{promotionSummary.reduce((sum, line) => sum + line.times_used, 0)}</td>
+                  <td className={cellClass}>
+                    {formatCurrency(roundCurrency(promotionSummary.reduce((sum, line) => sum + line.discount_amount, 0)))}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <Modal open={showPrinter} title="Receipt Printer" onClose={() => setShowPrinter(false)}>
+        <PrinterSettingsForm onClose={() => setShowPrinter(false)} />
+      </Modal>
+
+      <Modal open={refunding !== null} title="Refund or Void" onClose={() => setRefunding(null)}>
+        {refunding && (
+          <RefundForm
+            transaction={refunding}
+            onCompleted={handleRefunded}
+            onCancel={() => setRefunding(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
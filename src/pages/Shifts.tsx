@@ -0,0 +1,392 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowRightLeft, CheckCircle, Clock, LogOut } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { Select } from '../components/ui/Select';
+import { AcceptHandoverForm } from '../components/shifts/AcceptHandoverForm';
+import { CashCountBreakdown } from '../components/shifts/CashCountBreakdown';
+import { CloseShiftForm } from '../components/shifts/CloseShiftForm';
+import { ShiftTable } from '../components/shifts/ShiftTable';
+import { useAuthStore } from '../store/authStore';
+import { hasRole } from '../lib/auth';
+import {
+  acknowledgeShiftDiscrepancy,
+  cancelHandover,
+  getShiftCash,
+  getShifts,
+  openShift,
+  type Shift,
+  type ShiftCash,
+  type ShiftDetails,
+} from '../lib/shifts';
+import { getCurrentTerminalId, getTerminals, setCurrentTerminalId, type Terminal } from '../lib/terminals';
+import { formatCurrency, formatDateTime, toISODate } from '../lib/utils';
+
+export function Shifts() {
+  const { profile } = useAuthStore();
+  const isAdmin = hasRole(profile, 'ADMIN');
+  const [terminals, setTerminals] = useState<Terminal[]>([]);
+  const [terminalId, setTerminalId] = useState(getCurrentTerminalId());
+  const [openShifts, setOpenShifts] = useState<ShiftDetails[]>([]);
+  const [awaiting, setAwaiting] = useState<ShiftDetails[]>([]);
+  const [history, setHistory] = useState<ShiftDetails[]>([]);
+  const [cash, setCash] = useState<ShiftCash | null>(null);
+  const [date, setDate] = useState(toISODate());
+  const [startingFloat, setStartingFloat] = useState(NaN);
+  const [closing, setClosing] = useState<ShiftDetails | null>(null);
+  const [takingOver, setTakingOver] = useState<ShiftDetails | null>(null);
+  const [viewingCount, setViewingCount] = useState<ShiftDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [opening, setOpening] = useState(false);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const [cancellingHandover, setCancellingHandover] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const terminal = terminals.find(t => t.id === terminalId) ?? null;
+  const currentShift = terminal ? openShifts.find(s => s.terminal_id === terminal.id) ?? null : null;
+
+  const loadShifts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const dayStart = new Date(`${date}T00:00:00`);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    try {
+      const [activeTerminals, active, unacknowledged, dayShifts] = await Promise.all([
+        getTerminals({ activeOnly: true }),
+        getShifts({ statuses: ['ACTIVE', 'HANDOVER'] }),
+        getShifts({ awaitingAcknowledgement: true }),
+        getShifts({ from: dayStart, to: dayEnd }),
+      ]);
+
+      setTerminals(activeTerminals);
+      setOpenShifts(active);
+      setAwaiting(unacknowledged);
+      setHistory(dayShifts);
+    } catch (err) {
+      console.error('Error loading shifts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load shifts.');
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  // Cash so far on this terminal's shift
+  useEffect(() => {
+    if (!currentShift || currentShift.status !== 'ACTIVE') {
+      setCash(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    getShiftCash(currentShift.id)
+      .then(result => {
+        if (!cancelled) setCash(result);
+      })
+      .catch(err => {
+        console.error('Error loading shift cash:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentShift]);
+
+  const chooseTerminal = (id: string) => {
+    setCurrentTerminalId(id || null);
+    setTerminalId(id || null);
+    setSuccess(null);
+  };
+
+  const handleOpen = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!terminal) return;
+
+    setOpening(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await openShift(terminal.id, startingFloat);
+      setStartingFloat(NaN);
+      setSuccess(`Shift opened on ${terminal.name} with a float of ${formatCurrency(startingFloat)}.`);
+      await loadShifts();
+    } catch (err) {
+      console.error('Error opening shift:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open the shift. Please try again.');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const handleClosed = async (shift: Shift) => {
+    setClosing(null);
+    setSuccess(
+      shift.status === 'HANDOVER'
+        ? 'Shift counted and waiting for the next staff member to take over.'
+        : shift.requires_acknowledgement
+          ? 'Shift closed. The cash difference has been sent to an admin to acknowledge.'
+          : 'Shift closed.'
+    );
+    await loadShifts();
+  };
+
+  const handleTakenOver = async (shift: Shift) => {
+    setTakingOver(null);
+    setSuccess(`Shift taken over with a float of ${formatCurrency(shift.starting_cash_float)}.`);
+    await loadShifts();
+  };
+
+  const handleCancelHandover = async (shift: ShiftDetails) => {
+    setCancellingHandover(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await cancelHandover(shift.id);
+      setSuccess('Handover cancelled. The shift is open again.');
+      await loadShifts();
+    } catch (err) {
+      console.error('Error cancelling handover:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel the handover. Please try again.');
+    } finally {
+      setCancellingHandover(false);
+    }
+  };
+
+  const handleAcknowledge = async (shift: ShiftDetails) => {
+    setAcknowledgingId(shift.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await acknowledgeShiftDiscrepancy(shift.id);
+      await loadShifts();
+    } catch (err) {
+      console.error('Error acknowledging shift:', err);
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge the shift. Please try again.');
+    } finally {
+      setAcknowledgingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Shifts</h1>
+        <div className="w-48">
+          <Input type="date" value={date} max={toISODate()} onChange={(e) => setDate(e.target.value || toISODate())} />
+        </div>
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex items-start">
+          <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">This Terminal</h3>
+          <p className="text-sm text-gray-600">Sales, check-ins and refunds made in this browser go on its terminal's shift.</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <Select label="Terminal" value={terminal?.id ?? ''} onChange={e => chooseTerminal(e.target.value)} disabled={loading}>
+              <option value="">Choose a terminal</option>
+              {terminals.map(t => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          {loading ? (
+            <div className="h-20 bg-gray-100 rounded animate-pulse"></div>
+          ) : !terminal ? (
+            <p className="text-sm text-gray-500">
+              {terminals.length === 0
+                ? 'No terminals are set up yet. An admin can add them in System Settings.'
+                : 'Choose the terminal this browser is used at to open or close its shift.'}
+            </p>
+          ) : currentShift?.status === 'HANDOVER' ? (
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="text-sm space-y-1">
+                <p className="flex items-center font-medium text-gray-900">
+                  <ArrowRightLeft className="h-4 w-4 mr-2 text-purple-600" />
+                  Waiting for handover from {currentShift.ending_staff_name ?? 'the previous staff member'}
+                </p>
+                <p className="text-gray-600">
+                  Counted {currentShift.end_time && formatDateTime(currentShift.end_time)}. The next staff member counts
+                  the drawer again to start their shift.
+                </p>
+              </div>
+              <div className="flex space-x-3">
+                {(isAdmin || profile?.id === currentShift.ending_staff_id) && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleCancelHandover(currentShift)}
+                    loading={cancellingHandover}
+                    disabled={cancellingHandover}
+                  >
+                    Cancel Handover
+                  </Button>
+                )}
+                <Button
+                  onClick={() => setTakingOver(currentShift)}
+                  disabled={cancellingHandover || profile?.id === currentShift.ending_staff_id}
+                  title={profile?.id === currentShift.ending_staff_id ? 'Another staff member must take over' : undefined}
+                >
+                  Take Over
+                </Button>
+              </div>
+            </div>
+          ) : currentShift ? (
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="text-sm space-y-1">
+                <p className="flex items-center font-medium text-gray-900">
+                  <Clock className="h-4 w-4 mr-2 text-blue-600" />
+                  Open since {formatDateTime(currentShift.start_time)}
+                </p>
+                <p className="text-gray-600">
+                  Opened by {currentShift.starting_staff_name} with a float of{' '}
+                  {formatCurrency(currentShift.starting_cash_float)}
+                </p>
+                {cash && (
+                  <p className="text-gray-600">
+                    Expected in drawer: <span className="font-medium text-gray-900">{formatCurrency(cash.expected_cash)}</span>
+                  </p>
+                )}
+              </div>
+              <Button variant="outline" onClick={() => setClosing(currentShift)}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Close Shift
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleOpen} className="flex items-end space-x-3">
+              <div className="w-48">
+                <Input
+                  label="Starting Cash Float"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={Number.isNaN(startingFloat) ? '' : startingFloat}
+                  onChange={e => setStartingFloat(e.target.valueAsNumber)}
+                />
+              </div>
+              <Button type="submit" loading={opening} disabled={opening || !(startingFloat >= 0)}>
+                Open Shift
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      {awaiting.length > 0 && (
+        <Card className="border-yellow-200">
+          <CardHeader>
+            <h3 className="text-lg font-medium text-gray-900">Cash Differences Awaiting Acknowledgement</h3>
+          </CardHeader>
+          <ShiftTable
+            shifts={awaiting}
+            emptyMessage="Nothing to acknowledge."
+            renderActions={(shift) =>
+              isAdmin ? (
+                <Button
+                  size="sm"
+                  onClick={() => handleAcknowledge(shift)}
+                  loading={acknowledgingId === shift.id}
+                  disabled={acknowledgingId !== null}
+                >
+                  Acknowledge
+                </Button>
+              ) : (
+                <span className="text-xs text-gray-500">Awaiting an admin</span>
+              )
+            }
+          />
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">Open Shifts</h3>
+        </CardHeader>
+        <ShiftTable
+          shifts={openShifts}
+          loading={loading}
+          emptyMessage="No shifts are open."
+          renderActions={(shift) =>
+            shift.status === 'ACTIVE' ? (
+              <Button variant="ghost" size="sm" onClick={() => setClosing(shift)}>
+                Close
+              </Button>
+            ) : (
+              <span className="text-xs text-gray-500">Awaiting takeover</span>
+            )
+          }
+        />
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">Shifts Started on This Day</h3>
+        </CardHeader>
+        <ShiftTable
+          shifts={history}
+          loading={loading}
+          emptyMessage="No shifts were started on this day."
+          renderActions={(shift) =>
+            shift.status !== 'ACTIVE' && (
+              <Button variant="ghost" size="sm" onClick={() => setViewingCount(shift)}>
+                Count
+              </Button>
+            )
+          }
+        />
+      </Card>
+
+      <Modal
+        open={closing !== null}
+        title={closing ? `Close Shift on ${closing.terminal_name ?? 'No Terminal'}` : 'Close Shift'}
+        onClose={() => setClosing(null)}
+      >
+        {closing && <CloseShiftForm shift={closing} onClosed={handleClosed} onCancel={() => setClosing(null)} />}
+      </Modal>
+
+      <Modal
+        open={takingOver !== null}
+        title={takingOver ? `Take Over on ${takingOver.terminal_name ?? 'No Terminal'}` : 'Take Over'}
+        onClose={() => setTakingOver(null)}
+      >
+        {takingOver && (
+          <AcceptHandoverForm shift={takingOver} onAccepted={handleTakenOver} onCancel={() => setTakingOver(null)} />
+        )}
+      </Modal>
+
+      <Modal open={viewingCount !== null} title="Cash Count" onClose={() => setViewingCount(null)}>
+        {viewingCount && <CashCountBreakdown shift={viewingCount} />}
+      </Modal>
+    </div>
+  );
+}
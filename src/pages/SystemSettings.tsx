@@ -6,7 +6,12 @@ import { Save, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { TaxRateList } from '../components/tax/TaxRateList';
+import { TerminalList } from '../components/shifts/TerminalList';
+import { DenominationList } from '../components/shifts/DenominationList';
 import { supabase } from '../lib/supabase';
+import { formatMemberID } from '../lib/utils';
 
 const settingsSchema = z.object({
   grace_period_days: z.string().min(1, 'Grace period is required'),
@@ -14,6 +19,28 @@ const settingsSchema = z.object({
   registration_fee_default: z.string().min(1, 'Registration fee is required'),
   gym_name: z.string().min(1, 'Gym name is required'),
   currency_symbol: z.string().min(1, 'Currency symbol is required'),
+  member_id_prefix: z.string()
+    .regex(/^[A-Z0-9-]{1,10}$/, 'Use 1-10 uppercase letters, digits or dashes'),
+  member_id_padding: z.string()
+    .min(1, 'Member ID digits is required')
+    .refine(value => Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 12, {
+      message: 'Member ID digits must be between 1 and 12',
+    }),
+  max_freeze_days_per_year: z.string()
+    .min(1, 'Maximum freeze days is required')
+    .refine(value => Number.isInteger(Number(value)) && Number(value) >= 0 && Number(value) <= 366, {
+      message: 'Maximum freeze days must be between 0 and 366',
+    }),
+  debt_overdue_days: z.string()
+    .min(1, 'Overdue days is required')
+    .refine(value => Number.isInteger(Number(value)) && Number(value) >= 0, {
+      message: 'Overdue days must be a whole number',
+    }),
+  debt_checkin_threshold: z.string().min(1, 'Overdue balance threshold is required'),
+  debt_checkin_action: z.enum(['WARN', 'BLOCK']),
+  prices_include_tax: z.enum(['true', 'false']),
+  cash_discrepancy_threshold: z.string().min(1, 'Cash discrepancy threshold is required'),
+  cash_currency: z.string().regex(/^[A-Z]{3}$/, 'Use a three-letter currency code such as USD'),
 });
 
 type SettingsFormData = z.infer<typeof settingsSchema>;
@@ -33,6 +60,7 @@ export function SystemSettings() {
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isDirty },
   } = useForm<SettingsFormData>({
     resolver: zodResolver(settingsSchema),
@@ -114,12 +142,28 @@ export function SystemSettings() {
     );
   }
 
+  const previewPadding = Number(watch('member_id_padding'));
+  const memberIdPreview = formatMemberID(
+    watch('member_id_prefix') ?? '',
+    42,
+    Number.isInteger(previewPadding) && previewPadding > 0 ? previewPadding : 1
+  );
+
   const settingDescriptions: Record<string, string> = {
     grace_period_days: 'Number of days members can access the gym after their membership expires',
     walk_in_rate: 'Rate charged for walk-in access (per visit)',
     registration_fee_default: 'Default one-time registration fee for new members',
     gym_name: 'Name of the gym displayed throughout the system',
     currency_symbol: 'Currency symbol used for displaying prices',
+    member_id_prefix: 'Prefix for new member IDs. Existing IDs can be migrated from Data Management',
+    member_id_padding: 'Minimum number of digits in new member IDs (zero-padded)',
+    max_freeze_days_per_year: 'Maximum number of days a member can freeze their membership per calendar year',
+    debt_overdue_days: 'Days after which an unpaid charge counts as overdue',
+    debt_checkin_threshold: 'Overdue balance above which check-in warns or blocks entry',
+    debt_checkin_action: 'What check-in does for members over the overdue threshold',
+    prices_include_tax: 'Whether product, plan and coupon prices already include their tax rate',
+    cash_discrepancy_threshold: 'Cash difference at shift close above which a note and admin acknowledgement are needed',
+    cash_currency: 'Currency the cash drawer is counted in at shift close and handover',
   };
 
   return (
@@ -184,6 +228,95 @@ export function SystemSettings() {
                 error={errors.registration_fee_default?.message}
                 helperText={settingDescriptions.registration_fee_default}
               />
+
+              <Input
+                label="Max Freeze Days per Year"
+                type="number"
+                min="0"
+                max="366"
+                {...register('max_freeze_days_per_year')}
+                error={errors.max_freeze_days_per_year?.message}
+                helperText={settingDescriptions.max_freeze_days_per_year}
+              />
+
+              <Input
+                label="Overdue After (Days)"
+                type="number"
+                min="0"
+                {...register('debt_overdue_days')}
+                error={errors.debt_overdue_days?.message}
+                helperText={settingDescriptions.debt_overdue_days}
+              />
+
+              <Input
+                label="Overdue Balance Threshold ($)"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register('debt_checkin_threshold')}
+                error={errors.debt_checkin_threshold?.message}
+                helperText={settingDescriptions.debt_checkin_threshold}
+              />
+
+              <Select
+                label="At Check-In"
+                {...register('debt_checkin_action')}
+                error={errors.debt_checkin_action?.message}
+                helperText={settingDescriptions.debt_checkin_action}
+              >
+                <option value="WARN">Warn staff</option>
+                <option value="BLOCK">Block entry</option>
+              </Select>
+
+              <Select
+                label="Tax Pricing"
+                {...register('prices_include_tax')}
+                error={errors.prices_include_tax?.message}
+                helperText={settingDescriptions.prices_include_tax}
+              >
+                <option value="true">Prices include tax</option>
+                <option value="false">Tax is added at the time of sale</option>
+              </Select>
+
+              <Input
+                label="Cash Discrepancy Threshold ($)"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register('cash_discrepancy_threshold')}
+                error={errors.cash_discrepancy_threshold?.message}
+                helperText={settingDescriptions.cash_discrepancy_threshold}
+              />
+
+              <Input
+                label="Cash Drawer Currency"
+                maxLength={3}
+                {...register('cash_currency')}
+                error={errors.cash_currency?.message}
+                helperText={settingDescriptions.cash_currency}
+              />
+
+              <Input
+                label="Member ID Prefix"
+                {...register('member_id_prefix')}
+                error={errors.member_id_prefix?.message}
+                helperText={settingDescriptions.member_id_prefix}
+              />
+
+              <Input
+                label="Member ID Digits"
+                type="number"
+                min="1"
+                max="12"
+                {...register('member_id_padding')}
+                error={errors.member_id_padding?.message}
+                helperText={settingDescriptions.member_id_padding}
+              />
+
+              <p className="text-sm text-gray-600 md:col-span-2">
+                New member IDs will look like{' '}
+                <span className="font-mono text-gray-900">{memberIdPreview}</span>
+              </p>
             </div>
 
             <div className="flex justify-end space-x-3">
@@ -208,6 +341,42 @@ export function SystemSettings() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">Tax Rates</h3>
+          <p className="text-sm text-gray-600">
+            Assign a rate to products, membership plans and coupon templates. Sales record the tax they include.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <TaxRateList />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">Terminals</h3>
+          <p className="text-sm text-gray-600">
+            The tills shifts are run on. Each terminal runs one shift at a time; each browser picks its terminal on the Shifts page.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <TerminalList />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium text-gray-900">Cash Denominations</h3>
+          <p className="text-sm text-gray-600">
+            The notes and coins staff count the drawer in, for the cash drawer currency.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <DenominationList currency={settings.find(s => s.key === 'cash_currency')?.value ?? 'USD'} />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <h3 className="text-lg font-medium text-gray-900">Current Settings</h3>
@@ -0,0 +1,39 @@
+// Shape Detection API (BarcodeDetector) is not yet part of TypeScript's DOM lib.
+// https://developer.mozilla.org/en-US/docs/Web/API/BarcodeDetector
+
+type BarcodeFormat =
+  | 'aztec'
+  | 'code_128'
+  | 'code_39'
+  | 'code_93'
+  | 'codabar'
+  | 'data_matrix'
+  | 'ean_13'
+  | 'ean_8'
+  | 'itf'
+  | 'pdf417'
+  | 'qr_code'
+  | 'upc_a'
+  | 'upc_e'
+  | 'unknown';
+
+interface DetectedBarcode {
+  boundingBox: DOMRectReadOnly;
+  cornerPoints: { x: number; y: number }[];
+  format: BarcodeFormat;
+  rawValue: string;
+}
+
+interface BarcodeDetectorOptions {
+  formats?: BarcodeFormat[];
+}
+
+declare class BarcodeDetector {
+  constructor(options?: BarcodeDetectorOptions);
+  static getSupportedFormats(): Promise<BarcodeFormat[]>;
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface Window {
+  BarcodeDetector?: typeof BarcodeDetector;
+}
@@ -0,0 +1,56 @@
+// WebUSB is not yet part of TypeScript's DOM lib; only what the receipt printer uses is declared.
+// https://developer.mozilla.org/en-US/docs/Web/API/WebUSB_API
+
+interface USBEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: 'bulk' | 'interrupt' | 'isochronous';
+}
+
+interface USBAlternateInterface {
+  interfaceClass: number;
+  endpoints: USBEndpoint[];
+}
+
+interface USBInterface {
+  interfaceNumber: number;
+  alternate: USBAlternateInterface;
+  claimed: boolean;
+}
+
+interface USBConfiguration {
+  configurationValue: number;
+  interfaces: USBInterface[];
+}
+
+interface USBOutTransferResult {
+  bytesWritten: number;
+  status: 'ok' | 'stall' | 'babble';
+}
+
+interface USBDevice {
+  productName?: string;
+  manufacturerName?: string;
+  opened: boolean;
+  configuration: USBConfiguration | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: BufferSource): Promise<USBOutTransferResult>;
+}
+
+interface USBDeviceFilter {
+  vendorId?: number;
+  productId?: number;
+  classCode?: number;
+}
+
+interface USB {
+  getDevices(): Promise<USBDevice[]>;
+  requestDevice(options: { filters: USBDeviceFilter[] }): Promise<USBDevice>;
+}
+
+interface Navigator {
+  readonly usb?: USB;
+}
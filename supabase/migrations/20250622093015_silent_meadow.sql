@@ -0,0 +1,89 @@
+/*
+  # Members Module Access & Search
+
+  1. Security
+    - Staff (ADMIN, CS) can read system settings (grace period, rates)
+    - Staff can read membership plans, memberships and check-ins
+
+  2. Performance
+    - Enable `pg_trgm` for substring search across 6000+ members
+    - Trigram indexes on name, member ID, phone and email for ILIKE search
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Read access for staff on tables used by the members module
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read system settings" ON system_settings;
+    CREATE POLICY "Staff can read system settings"
+        ON system_settings
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read membership plans" ON membership_plans;
+    CREATE POLICY "Staff can read membership plans"
+        ON membership_plans
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read memberships" ON memberships;
+    CREATE POLICY "Staff can read memberships"
+        ON memberships
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read check-ins" ON check_ins;
+    CREATE POLICY "Staff can read check-ins"
+        ON check_ins
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- Trigram indexes so ILIKE '%term%' searches don't scan the whole table
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_full_name_trgm') THEN
+        CREATE INDEX idx_members_full_name_trgm ON members USING gin (full_name gin_trgm_ops);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_member_id_trgm') THEN
+        CREATE INDEX idx_members_member_id_trgm ON members USING gin (member_id_string gin_trgm_ops);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_phone_trgm') THEN
+        CREATE INDEX idx_members_phone_trgm ON members USING gin (phone_number gin_trgm_ops);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_email_trgm') THEN
+        CREATE INDEX idx_members_email_trgm ON members USING gin (email gin_trgm_ops);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_created_at') THEN
+        CREATE INDEX idx_members_created_at ON members(created_at);
+    END IF;
+END $$;
@@ -0,0 +1,147 @@
+/*
+  # Check-In Desk Access
+
+  1. Security
+    - Staff can read shifts to find the current active shift
+    - Staff can record check-ins
+    - Staff can read coupon templates and sold coupons, and update
+      `entries_remaining` when a coupon is used at check-in
+
+  2. Performance
+    - Index on `check_ins.shift_id` for the per-shift recent check-ins list
+
+  3. Functions
+    - `record_walk_in(member_id, shift_id, amount, payment_method, notes)` - Staff
+      only; requires an ACTIVE shift and writes the WALK_IN charge and check-in
+      together, so a member is never charged without their entry being recorded
+*/
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read shifts" ON shifts;
+    CREATE POLICY "Staff can read shifts"
+        ON shifts
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can insert check-ins" ON check_ins;
+    CREATE POLICY "Staff can insert check-ins"
+        ON check_ins
+        FOR INSERT
+        TO authenticated
+        WITH CHECK (
+            processed_by = auth.uid()
+            AND EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read coupon templates" ON coupon_templates;
+    CREATE POLICY "Staff can read coupon templates"
+        ON coupon_templates
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read sold coupons" ON sold_coupons;
+    CREATE POLICY "Staff can read sold coupons"
+        ON sold_coupons
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can update sold coupons" ON sold_coupons;
+    CREATE POLICY "Staff can update sold coupons"
+        ON sold_coupons
+        FOR UPDATE
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_check_ins_shift_id') THEN
+        CREATE INDEX idx_check_ins_shift_id ON check_ins(shift_id);
+    END IF;
+END $$;
+
+-- Returns the check-in id; a null amount records the entry without a charge
+CREATE OR REPLACE FUNCTION record_walk_in(
+    p_member_id uuid,
+    p_shift_id uuid,
+    p_amount numeric DEFAULT NULL,
+    p_payment_method text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_check_in_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to check in' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_amount IS NOT NULL THEN
+        IF p_amount < 0 THEN
+            RAISE EXCEPTION 'Walk-in charge cannot be negative' USING ERRCODE = '22023';
+        END IF;
+
+        INSERT INTO transactions (
+            shift_id, amount, payment_method, type, related_id, description, processed_by
+        ) VALUES (
+            p_shift_id,
+            p_amount,
+            p_payment_method,
+            'WALK_IN',
+            p_member_id,
+            'Walk-in entry',
+            auth.uid()
+        );
+    END IF;
+
+    INSERT INTO check_ins (shift_id, type, member_id, processed_by, notes)
+    VALUES (p_shift_id, 'WALK_IN', p_member_id, auth.uid(), p_notes)
+    RETURNING id INTO v_check_in_id;
+
+    RETURN v_check_in_id;
+END;
+$$;
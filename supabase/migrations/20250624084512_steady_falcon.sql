@@ -0,0 +1,219 @@
+/*
+  # Sequential Member IDs
+
+  Member IDs were generated in the browser from the clock plus random characters,
+  which was neither sequential nor guaranteed unique. IDs are now issued by the
+  database from a sequence, formatted with a configurable prefix and zero-padding.
+
+  1. Settings
+    - `member_id_prefix` - Text placed before the sequence number (default 'FMF')
+    - `member_id_padding` - Minimum digits, zero-padded (default 6, e.g. FMF000042)
+
+  2. Schema
+    - `member_id_seq` sequence
+    - `members.member_id_string` defaults to `next_member_id()`
+    - `members.legacy_member_id` keeps the previous ID after migration so
+      already-printed cards still scan
+
+  3. Functions
+    - `next_member_id()` - Staff only; next formatted ID from the sequence
+    - `member_id_pattern()` - The prefix followed by digits. The padding is a
+      minimum, so IDs stay in the current format when it changes or the
+      sequence outgrows it
+    - `is_legacy_member_id(member_id)` - IDs not matching the pattern, and IDs
+      from the old browser generator that happen to be all digits
+      (FMF + 6 clock digits + up to 3 random characters, e.g. FMF123456789);
+      those are told apart by a number the sequence has not reached yet
+    - `sync_member_id_sequence()` - Move the sequence past any ID already in the new format
+    - `count_legacy_member_ids()` - Admin only; members whose ID is in an older format
+    - `migrate_member_ids()` - Admin only; renumbers those members in join order
+
+  4. Security
+    - `member_id_pattern`, `is_legacy_member_id` and `sync_member_id_sequence`
+      are internal and cannot be called by clients
+*/
+
+INSERT INTO system_settings (key, value, description) VALUES
+    ('member_id_prefix', 'FMF', 'Prefix for new member IDs'),
+    ('member_id_padding', '6', 'Minimum number of digits in member IDs (zero-padded)')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE SEQUENCE IF NOT EXISTS member_id_seq;
+
+ALTER TABLE members ADD COLUMN IF NOT EXISTS legacy_member_id text;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_legacy_member_id') THEN
+        CREATE INDEX idx_members_legacy_member_id ON members(legacy_member_id);
+    END IF;
+END $$;
+
+-- Regular expression matching IDs in the configured format
+CREATE OR REPLACE FUNCTION member_id_pattern()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_prefix text;
+    v_padding integer;
+BEGIN
+    SELECT value INTO v_prefix FROM system_settings WHERE key = 'member_id_prefix';
+    SELECT value::integer INTO v_padding FROM system_settings WHERE key = 'member_id_padding';
+
+    RETURN '^' || regexp_replace(coalesce(v_prefix, 'FMF'), '([^A-Za-z0-9])', '\\\1', 'g')
+        || '([0-9]+)$';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION member_id_pattern() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION is_legacy_member_id(p_member_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p_member_id !~ member_id_pattern()
+        OR (
+            p_member_id ~ '^FMF[0-9]{7,9}$'
+            AND substr(p_member_id, 4)::bigint > (SELECT last_value FROM member_id_seq)
+        );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_legacy_member_id(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION next_member_id()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_prefix text;
+    v_padding integer;
+    v_number text;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT value INTO v_prefix FROM system_settings WHERE key = 'member_id_prefix';
+    SELECT value::integer INTO v_padding FROM system_settings WHERE key = 'member_id_padding';
+
+    v_number := nextval('member_id_seq')::text;
+
+    -- lpad() truncates longer strings, so only pad numbers shorter than the padding
+    IF length(v_number) < coalesce(v_padding, 6) THEN
+        v_number := lpad(v_number, coalesce(v_padding, 6), '0');
+    END IF;
+
+    RETURN coalesce(v_prefix, 'FMF') || v_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_member_id_sequence()
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_max bigint;
+BEGIN
+    SELECT max((regexp_match(member_id_string, member_id_pattern()))[1]::bigint)
+    INTO v_max
+    FROM members
+    WHERE NOT is_legacy_member_id(member_id_string);
+
+    IF v_max IS NOT NULL AND v_max >= (SELECT last_value FROM member_id_seq) THEN
+        PERFORM setval('member_id_seq', v_max);
+    END IF;
+
+    RETURN coalesce(v_max, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_member_id_sequence() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION count_legacy_member_ids()
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN (SELECT count(*)::integer FROM members WHERE is_legacy_member_id(member_id_string));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION migrate_member_ids()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_member record;
+    v_new_id text;
+    v_migrated integer := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    -- Serialise concurrent migrations
+    LOCK TABLE members IN SHARE ROW EXCLUSIVE MODE;
+
+    PERFORM sync_member_id_sequence();
+
+    FOR v_member IN
+        SELECT id, member_id_string
+        FROM members
+        WHERE is_legacy_member_id(member_id_string)
+        ORDER BY join_date, created_at
+    LOOP
+        -- Skip any number already taken by a manually entered ID
+        LOOP
+            v_new_id := next_member_id();
+            EXIT WHEN NOT EXISTS (SELECT 1 FROM members WHERE member_id_string = v_new_id);
+        END LOOP;
+
+        UPDATE members
+        SET legacy_member_id = coalesce(legacy_member_id, v_member.member_id_string),
+            member_id_string = v_new_id
+        WHERE id = v_member.id;
+
+        v_migrated := v_migrated + 1;
+    END LOOP;
+
+    RETURN v_migrated;
+END;
+$$;
+
+ALTER TABLE members ALTER COLUMN member_id_string SET DEFAULT next_member_id();
+
+-- Start the sequence after any IDs that already use the new format
+SELECT sync_member_id_sequence();
@@ -0,0 +1,77 @@
+/*
+  # Member Photos
+
+  Member photos are stored in a private Storage bucket. `members.photo_url` holds
+  the object path inside the bucket (e.g. `<member id>/1719300000000.jpg`); the app
+  requests short-lived signed URLs to display them.
+
+  1. Storage
+    - `member-photos` bucket (private, JPEG/PNG/WebP, 2 MB limit)
+
+  2. Security
+    - Staff (ADMIN/CS) can read, upload, replace and delete member photos
+    - No anonymous or public access
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('member-photos', 'member-photos', false, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read member photos" ON storage.objects;
+    CREATE POLICY "Staff can read member photos"
+        ON storage.objects
+        FOR SELECT
+        TO authenticated
+        USING (
+            bucket_id = 'member-photos'
+            AND EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can upload member photos" ON storage.objects;
+    CREATE POLICY "Staff can upload member photos"
+        ON storage.objects
+        FOR INSERT
+        TO authenticated
+        WITH CHECK (
+            bucket_id = 'member-photos'
+            AND EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can update member photos" ON storage.objects;
+    CREATE POLICY "Staff can update member photos"
+        ON storage.objects
+        FOR UPDATE
+        TO authenticated
+        USING (
+            bucket_id = 'member-photos'
+            AND EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can delete member photos" ON storage.objects;
+    CREATE POLICY "Staff can delete member photos"
+        ON storage.objects
+        FOR DELETE
+        TO authenticated
+        USING (
+            bucket_id = 'member-photos'
+            AND EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
@@ -0,0 +1,95 @@
+/*
+  # Member Import
+
+  Members migrated from a spreadsheet can arrive with their current membership.
+  Imported memberships are historical records, so they are inserted directly
+  rather than sold through a shift.
+
+  1. Security
+    - Admins can insert memberships (used by the member import wizard)
+
+  2. Functions
+    - `find_import_matches(emails, phones, member_ids)` - Admin only; members
+      whose email (case-insensitive), phone number (digits only), or previous
+      or current member ID (case-insensitive) match any of the given values
+
+  3. Performance
+    - Indexes on the normalised email and phone number for import matching
+*/
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Admins can import memberships" ON memberships;
+    CREATE POLICY "Admins can import memberships"
+        ON memberships
+        FOR INSERT
+        TO authenticated
+        WITH CHECK (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_email_lower') THEN
+        CREATE INDEX idx_members_email_lower ON members(lower(trim(email)));
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_phone_digits') THEN
+        CREATE INDEX idx_members_phone_digits ON members(regexp_replace(phone_number, '\D', '', 'g'));
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_members_legacy_id_upper') THEN
+        CREATE INDEX idx_members_legacy_id_upper ON members(upper(trim(legacy_member_id)));
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION find_import_matches(
+    p_emails text[] DEFAULT '{}',
+    p_phones text[] DEFAULT '{}',
+    p_member_ids text[] DEFAULT '{}'
+)
+RETURNS SETOF members
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_emails text[];
+    v_phones text[];
+    v_member_ids text[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    -- Both sides are normalised the same way, so formatting differences still match
+    SELECT array_agg(DISTINCT lower(trim(v))) INTO v_emails
+    FROM unnest(coalesce(p_emails, '{}')) v WHERE trim(v) <> '';
+
+    SELECT array_agg(DISTINCT regexp_replace(v, '\D', '', 'g')) INTO v_phones
+    FROM unnest(coalesce(p_phones, '{}')) v WHERE regexp_replace(v, '\D', '', 'g') <> '';
+
+    SELECT array_agg(DISTINCT upper(trim(v))) INTO v_member_ids
+    FROM unnest(coalesce(p_member_ids, '{}')) v WHERE trim(v) <> '';
+
+    RETURN QUERY
+    SELECT m.*
+    FROM members m
+    WHERE m.id IN (
+        SELECT id FROM members WHERE lower(trim(email)) = ANY(v_emails)
+        UNION
+        SELECT id FROM members WHERE regexp_replace(phone_number, '\D', '', 'g') = ANY(v_phones)
+        UNION
+        SELECT id FROM members WHERE upper(trim(legacy_member_id)) = ANY(v_member_ids)
+        UNION
+        SELECT id FROM members WHERE upper(member_id_string) = ANY(v_member_ids)
+    );
+END;
+$$;
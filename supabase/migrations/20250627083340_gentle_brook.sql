@@ -0,0 +1,232 @@
+/*
+  # Duplicate Member Detection & Merge
+
+  Email and phone are not unique on `members`, so the same person is often
+  registered more than once. Admins can list likely duplicates and merge a
+  duplicate into the record that should survive.
+
+  1. New Tables
+    - `member_merges` - Audit trail of merges
+      - `surviving_member_id` - Member that was kept
+      - `merged_member_id` / `merged_member_id_string` - Member that was removed
+      - `merged_snapshot` - The removed member row as it was before the merge
+      - `moved_counts` - Number of memberships, check-ins, coupons and transactions moved
+      - `notes`, `merged_by`, `created_at`
+
+  2. Functions
+    - `find_duplicate_members(min_similarity, max_results)` - Pairs of members with
+      similar names (pg_trgm) and the same phone number or email
+    - `merge_members(surviving_id, duplicate_id, notes)` - Admin only; moves history
+      to the surviving member, fills in their missing contact details, records
+      the merge and deletes the duplicate
+
+  3. Security
+    - Admins can read merge history; rows are only written by `merge_members`
+*/
+
+CREATE TABLE IF NOT EXISTS member_merges (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    surviving_member_id uuid NOT NULL REFERENCES members(id),
+    merged_member_id uuid NOT NULL,
+    merged_member_id_string text NOT NULL,
+    merged_snapshot jsonb NOT NULL,
+    moved_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+    notes text,
+    merged_by uuid NOT NULL REFERENCES profiles(id),
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE member_merges ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Admins can read member merges" ON member_merges;
+    CREATE POLICY "Admins can read member merges"
+        ON member_merges
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_member_merges_surviving_member_id') THEN
+        CREATE INDEX idx_member_merges_surviving_member_id ON member_merges(surviving_member_id);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transactions_related_id') THEN
+        CREATE INDEX idx_transactions_related_id ON transactions(related_id);
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION find_duplicate_members(
+    min_similarity real DEFAULT 0.4,
+    max_results integer DEFAULT 200
+)
+RETURNS TABLE (
+    member_a_id uuid,
+    member_b_id uuid,
+    name_similarity real,
+    match_reason text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    WITH contacts AS (
+        SELECT
+            m.id,
+            m.full_name,
+            nullif(regexp_replace(coalesce(m.phone_number, ''), '\D', '', 'g'), '') AS phone,
+            nullif(lower(trim(coalesce(m.email, ''))), '') AS email
+        FROM members m
+    ),
+    -- Two equality joins are much cheaper than one join on "phone OR email"
+    pairs AS (
+        SELECT a.id AS a_id, b.id AS b_id, 'PHONE'::text AS reason
+        FROM contacts a
+        JOIN contacts b ON b.phone = a.phone AND b.id > a.id
+        UNION ALL
+        SELECT a.id, b.id, 'EMAIL'::text
+        FROM contacts a
+        JOIN contacts b ON b.email = a.email AND b.id > a.id
+    ),
+    grouped AS (
+        SELECT a_id, b_id, string_agg(reason, ',' ORDER BY reason) AS reasons
+        FROM pairs
+        GROUP BY a_id, b_id
+    )
+    SELECT
+        g.a_id,
+        g.b_id,
+        similarity(a.full_name, b.full_name),
+        g.reasons
+    FROM grouped g
+    JOIN contacts a ON a.id = g.a_id
+    JOIN contacts b ON b.id = g.b_id
+    WHERE similarity(a.full_name, b.full_name) >= min_similarity
+    ORDER BY similarity(a.full_name, b.full_name) DESC, g.a_id, g.b_id
+    LIMIT max_results;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_members(
+    surviving_id uuid,
+    duplicate_id uuid,
+    merge_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_survivor members%ROWTYPE;
+    v_duplicate members%ROWTYPE;
+    v_membership_ids uuid[];
+    v_memberships integer;
+    v_check_ins integer;
+    v_coupons integer;
+    v_transactions integer;
+    v_merge_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF surviving_id = duplicate_id THEN
+        RAISE EXCEPTION 'A member cannot be merged into itself' USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock both rows so concurrent edits or merges cannot interleave
+    PERFORM 1 FROM members WHERE id IN (surviving_id, duplicate_id) ORDER BY id FOR UPDATE;
+
+    SELECT * INTO v_survivor FROM members WHERE id = surviving_id;
+    SELECT * INTO v_duplicate FROM members WHERE id = duplicate_id;
+
+    IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT array_agg(id) INTO v_membership_ids FROM memberships WHERE member_id = duplicate_id;
+
+    UPDATE memberships SET member_id = surviving_id WHERE member_id = duplicate_id;
+    GET DIAGNOSTICS v_memberships = ROW_COUNT;
+
+    UPDATE check_ins SET member_id = surviving_id WHERE member_id = duplicate_id;
+    GET DIAGNOSTICS v_check_ins = ROW_COUNT;
+
+    UPDATE sold_coupons SET member_id = surviving_id WHERE member_id = duplicate_id;
+    GET DIAGNOSTICS v_coupons = ROW_COUNT;
+
+    -- Transactions that pointed at a moved membership still resolve through it
+    UPDATE transactions SET related_id = surviving_id WHERE related_id = duplicate_id;
+    GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+    -- Earlier merges into the duplicate now belong to the surviving member
+    UPDATE member_merges SET surviving_member_id = surviving_id WHERE surviving_member_id = duplicate_id;
+
+    INSERT INTO member_merges (
+        surviving_member_id,
+        merged_member_id,
+        merged_member_id_string,
+        merged_snapshot,
+        moved_counts,
+        notes,
+        merged_by
+    ) VALUES (
+        surviving_id,
+        duplicate_id,
+        v_duplicate.member_id_string,
+        to_jsonb(v_duplicate),
+        jsonb_build_object(
+            'memberships', v_memberships,
+            'membership_ids', coalesce(to_jsonb(v_membership_ids), '[]'::jsonb),
+            'check_ins', v_check_ins,
+            'sold_coupons', v_coupons,
+            'transactions', v_transactions
+        ),
+        nullif(trim(merge_notes), ''),
+        auth.uid()
+    )
+    RETURNING id INTO v_merge_id;
+
+    DELETE FROM members WHERE id = duplicate_id;
+
+    -- Keep whatever the surviving record is missing; the duplicate's ID keeps
+    -- scanning from its printed card when the survivor has no legacy ID yet
+    UPDATE members
+    SET email = coalesce(v_survivor.email, v_duplicate.email),
+        phone_number = coalesce(v_survivor.phone_number, v_duplicate.phone_number),
+        photo_url = coalesce(v_survivor.photo_url, v_duplicate.photo_url),
+        legacy_member_id = coalesce(v_survivor.legacy_member_id, v_duplicate.member_id_string),
+        join_date = least(v_survivor.join_date, v_duplicate.join_date),
+        is_active = coalesce(v_survivor.is_active, false) OR coalesce(v_duplicate.is_active, false),
+        notes = CASE
+            WHEN v_duplicate.notes IS NULL THEN v_survivor.notes
+            WHEN v_survivor.notes IS NULL THEN v_duplicate.notes
+            ELSE v_survivor.notes || E'\n\n' || v_duplicate.notes
+        END
+    WHERE id = surviving_id;
+
+    RETURN v_merge_id;
+END;
+$$;
@@ -0,0 +1,195 @@
+/*
+  # Membership Plan Administration & Versioning
+
+  Memberships reference the plan row they were sold under, so the commercial
+  terms of a plan that has been sold must never change in place. Changing them
+  creates a new version of the plan instead; the old version is retired and
+  keeps describing what earlier members actually bought.
+
+  1. Schema
+    - `membership_plans.plan_group_id` - Shared by every version of a plan
+    - `membership_plans.version` - 1 for the original plan, incremented per revision
+    - `membership_plans.superseded_by` - Next version, NULL for the current one
+    - Checks on price, duration and free months
+
+  2. Triggers
+    - New plans start their own group
+    - Name, price, duration, registration fee and free months cannot be
+      updated on a plan that has memberships
+
+  3. Functions
+    - `save_membership_plan(...)` - Admin only; creates a plan, edits it in place
+      while unsold, or creates a new version once it has been sold
+
+  4. Security
+    - Admins can manage membership plans
+*/
+
+ALTER TABLE membership_plans ADD COLUMN IF NOT EXISTS plan_group_id uuid;
+ALTER TABLE membership_plans ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE membership_plans ADD COLUMN IF NOT EXISTS superseded_by uuid REFERENCES membership_plans(id);
+
+UPDATE membership_plans SET plan_group_id = id WHERE plan_group_id IS NULL;
+
+ALTER TABLE membership_plans ALTER COLUMN plan_group_id SET NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'membership_plans_terms_check') THEN
+        ALTER TABLE membership_plans ADD CONSTRAINT membership_plans_terms_check
+            CHECK (price >= 0 AND duration_months >= 1 AND free_months_on_signup >= 0);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_membership_plans_group') THEN
+        CREATE INDEX idx_membership_plans_group ON membership_plans(plan_group_id, version);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_memberships_plan_id') THEN
+        CREATE INDEX idx_memberships_plan_id ON memberships(plan_id);
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION set_membership_plan_group()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.plan_group_id = coalesce(NEW.plan_group_id, NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION protect_sold_membership_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.name, NEW.price, NEW.duration_months, NEW.has_registration_fee, NEW.free_months_on_signup)
+        IS DISTINCT FROM
+       (OLD.name, OLD.price, OLD.duration_months, OLD.has_registration_fee, OLD.free_months_on_signup)
+    AND EXISTS (SELECT 1 FROM memberships WHERE plan_id = OLD.id) THEN
+        RAISE EXCEPTION 'Membership plan % has been sold; create a new version instead', OLD.id
+            USING ERRCODE = '55000';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS set_membership_plan_group ON membership_plans;
+    CREATE TRIGGER set_membership_plan_group
+        BEFORE INSERT ON membership_plans
+        FOR EACH ROW
+        EXECUTE FUNCTION set_membership_plan_group();
+
+    DROP TRIGGER IF EXISTS protect_sold_membership_plan ON membership_plans;
+    CREATE TRIGGER protect_sold_membership_plan
+        BEFORE UPDATE ON membership_plans
+        FOR EACH ROW
+        EXECUTE FUNCTION protect_sold_membership_plan();
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Admins can manage membership plans" ON membership_plans;
+    CREATE POLICY "Admins can manage membership plans"
+        ON membership_plans
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+END $$;
+
+-- Returns the id of the saved plan, which is a new row when a version was created
+CREATE OR REPLACE FUNCTION save_membership_plan(
+    p_plan_id uuid,
+    p_name text,
+    p_price numeric,
+    p_duration_months integer,
+    p_has_registration_fee boolean,
+    p_free_months_on_signup integer,
+    p_description text DEFAULT NULL,
+    p_is_active boolean DEFAULT true
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan membership_plans%ROWTYPE;
+    v_new_id uuid;
+    v_terms_changed boolean;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_plan_id IS NULL THEN
+        INSERT INTO membership_plans (
+            name, price, duration_months, has_registration_fee,
+            free_months_on_signup, description, is_active
+        ) VALUES (
+            p_name, p_price, p_duration_months, p_has_registration_fee,
+            p_free_months_on_signup, p_description, p_is_active
+        )
+        RETURNING id INTO v_new_id;
+
+        RETURN v_new_id;
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id FOR UPDATE;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'Only the current version of a plan can be edited' USING ERRCODE = '55000';
+    END IF;
+
+    v_terms_changed :=
+        (p_name, p_price, p_duration_months, p_has_registration_fee, p_free_months_on_signup)
+        IS DISTINCT FROM
+        (v_plan.name, v_plan.price, v_plan.duration_months, v_plan.has_registration_fee, v_plan.free_months_on_signup);
+
+    IF NOT v_terms_changed OR NOT EXISTS (SELECT 1 FROM memberships WHERE plan_id = p_plan_id) THEN
+        UPDATE membership_plans
+        SET name = p_name,
+            price = p_price,
+            duration_months = p_duration_months,
+            has_registration_fee = p_has_registration_fee,
+            free_months_on_signup = p_free_months_on_signup,
+            description = p_description,
+            is_active = p_is_active
+        WHERE id = p_plan_id;
+
+        RETURN p_plan_id;
+    END IF;
+
+    INSERT INTO membership_plans (
+        plan_group_id, version, name, price, duration_months,
+        has_registration_fee, free_months_on_signup, description, is_active
+    ) VALUES (
+        v_plan.plan_group_id,
+        (SELECT max(version) + 1 FROM membership_plans WHERE plan_group_id = v_plan.plan_group_id),
+        p_name, p_price, p_duration_months,
+        p_has_registration_fee, p_free_months_on_signup, p_description, p_is_active
+    )
+    RETURNING id INTO v_new_id;
+
+    UPDATE membership_plans
+    SET superseded_by = v_new_id,
+        is_active = false
+    WHERE id = p_plan_id;
+
+    RETURN v_new_id;
+END;
+$$;
@@ -0,0 +1,171 @@
+/*
+  # Membership Sales
+
+  Selling a membership writes a `memberships` row and one or two `transactions`
+  rows. Doing that from the browser risks half-finished sales, so the whole sale
+  now runs inside one database function.
+
+  1. Functions
+    - `quote_membership(member_id, plan_id)` - Price, dates, registration fee and
+      free months a sale would use; nothing is written
+    - `sell_membership(member_id, plan_id, shift_id, payment_method)` - Staff only;
+      requires an ACTIVE shift and records the membership, the MEMBERSHIP
+      transaction and, on a first purchase, the REGISTRATION_FEE transaction
+
+  2. Rules
+    - First purchase: registration fee from `registration_fee_default` when the
+      plan has `has_registration_fee`, plus the plan's `free_months_on_signup`
+    - Renewal: starts on the current membership's `end_date` when it has not
+      passed yet, so remaining days carry over; otherwise starts today
+    - Only the current version of an active plan can be sold
+    - The member is marked active
+*/
+
+CREATE OR REPLACE FUNCTION quote_membership(p_member_id uuid, p_plan_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan membership_plans%ROWTYPE;
+    v_is_first boolean;
+    v_current_end date;
+    v_start date;
+    v_free_months integer;
+    v_registration_fee numeric(10,2) := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_plan.is_active OR v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This membership plan is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    v_is_first := NOT EXISTS (SELECT 1 FROM memberships WHERE member_id = p_member_id);
+
+    SELECT max(end_date) INTO v_current_end FROM memberships WHERE member_id = p_member_id;
+
+    v_start := CASE
+        WHEN v_current_end IS NOT NULL AND v_current_end >= CURRENT_DATE THEN v_current_end
+        ELSE CURRENT_DATE
+    END;
+
+    v_free_months := CASE WHEN v_is_first THEN coalesce(v_plan.free_months_on_signup, 0) ELSE 0 END;
+
+    IF v_is_first AND coalesce(v_plan.has_registration_fee, false) THEN
+        SELECT coalesce(nullif(value, '')::numeric, 0) INTO v_registration_fee
+        FROM system_settings
+        WHERE key = 'registration_fee_default';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'plan_id', v_plan.id,
+        'is_renewal', NOT v_is_first,
+        'start_date', v_start,
+        'end_date', (v_start + make_interval(months => v_plan.duration_months + v_free_months))::date,
+        'free_months', v_free_months,
+        'price', v_plan.price,
+        'registration_fee', coalesce(v_registration_fee, 0),
+        'total', v_plan.price + coalesce(v_registration_fee, 0)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sell_membership(
+    p_member_id uuid,
+    p_plan_id uuid,
+    p_shift_id uuid,
+    p_payment_method text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quote jsonb;
+    v_plan_name text;
+    v_membership_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to sell a membership' USING ERRCODE = '55000';
+    END IF;
+
+    -- Serialise sales for the same member so two renewals cannot start on the same date
+    PERFORM 1 FROM members WHERE id = p_member_id FOR UPDATE;
+
+    v_quote := quote_membership(p_member_id, p_plan_id);
+
+    SELECT name INTO v_plan_name FROM membership_plans WHERE id = p_plan_id;
+
+    INSERT INTO memberships (
+        member_id, plan_id, start_date, end_date, status,
+        registration_fee_paid, amount_paid, created_by
+    ) VALUES (
+        p_member_id,
+        p_plan_id,
+        (v_quote->>'start_date')::date,
+        (v_quote->>'end_date')::date,
+        'ACTIVE',
+        (v_quote->>'registration_fee')::numeric,
+        (v_quote->>'price')::numeric,
+        auth.uid()
+    )
+    RETURNING id INTO v_membership_id;
+
+    IF (v_quote->>'price')::numeric > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            (v_quote->>'price')::numeric,
+            p_payment_method,
+            'MEMBERSHIP',
+            v_membership_id,
+            CASE WHEN (v_quote->>'is_renewal')::boolean THEN 'Renewal: ' ELSE 'New membership: ' END || v_plan_name,
+            auth.uid()
+        );
+    END IF;
+
+    IF (v_quote->>'registration_fee')::numeric > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            (v_quote->>'registration_fee')::numeric,
+            p_payment_method,
+            'REGISTRATION_FEE',
+            v_membership_id,
+            'Registration fee',
+            auth.uid()
+        );
+    END IF;
+
+    UPDATE members SET is_active = true WHERE id = p_member_id;
+
+    RETURN v_quote || jsonb_build_object('membership_id', v_membership_id);
+END;
+$$;
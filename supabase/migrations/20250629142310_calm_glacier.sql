@@ -0,0 +1,339 @@
+/*
+  # Membership Freezes
+
+  Members can pause their membership for travel or injury. A frozen membership
+  cannot be used to check in, and when the freeze ends the membership's
+  `end_date` moves out by the number of days it was frozen.
+
+  1. Schema
+    - `memberships.status` also allows FROZEN
+    - `membership_freezes` - Freeze periods with a reason; `ended_at` and
+      `days_frozen` are filled in once the days have been added to the membership
+    - `max_freeze_days_per_year` setting (default 30)
+
+  2. Functions
+    - `freeze_membership(membership_id, start_date, end_date, reason)` - Staff only;
+      the freeze must not overlap another one or exceed the yearly allowance
+    - `end_membership_freeze(freeze_id)` - Staff only; ends a freeze early, or
+      cancels one that has not started yet
+    - `apply_membership_freezes()` - Marks memberships FROZEN when a freeze
+      starts and extends them when it ends; safe to run repeatedly
+
+  3. Rules
+    - Freeze dates are inclusive; a freeze ended early counts the days up to,
+      but not including, today
+    - Memberships that follow the frozen one (renewals) move out by the same
+      number of days so they do not overlap
+    - Check-ins are rejected for members with a freeze covering today
+
+  4. Security
+    - Staff can read membership freezes
+*/
+
+INSERT INTO system_settings (key, value, description) VALUES
+    ('max_freeze_days_per_year', '30', 'Maximum number of days a member can freeze their membership per calendar year')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_status_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_status_check
+    CHECK (status IN ('ACTIVE', 'FROZEN', 'EXPIRED'));
+
+CREATE TABLE IF NOT EXISTS membership_freezes (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    membership_id uuid NOT NULL REFERENCES memberships(id) ON DELETE CASCADE,
+    start_date date NOT NULL,
+    end_date date NOT NULL,
+    reason text NOT NULL,
+    ended_at timestamptz,
+    days_frozen integer,
+    created_by uuid REFERENCES profiles(id),
+    ended_by uuid REFERENCES profiles(id),
+    created_at timestamptz DEFAULT now(),
+    CHECK (end_date >= start_date)
+);
+
+ALTER TABLE membership_freezes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_membership_freezes_membership_id') THEN
+        CREATE INDEX idx_membership_freezes_membership_id ON membership_freezes(membership_id);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_membership_freezes_open') THEN
+        CREATE INDEX idx_membership_freezes_open ON membership_freezes(start_date, end_date)
+            WHERE ended_at IS NULL;
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read membership freezes" ON membership_freezes;
+    CREATE POLICY "Staff can read membership freezes"
+        ON membership_freezes
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- Add the frozen days to a membership and push any later memberships back to match
+CREATE OR REPLACE FUNCTION extend_frozen_membership(p_membership_id uuid, p_days integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_membership memberships%ROWTYPE;
+BEGIN
+    SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+    IF p_days > 0 THEN
+        UPDATE memberships
+        SET start_date = start_date + p_days,
+            end_date = end_date + p_days
+        WHERE member_id = v_membership.member_id
+        AND id <> v_membership.id
+        AND start_date >= v_membership.end_date;
+
+        UPDATE memberships
+        SET end_date = end_date + p_days
+        WHERE id = v_membership.id;
+    END IF;
+
+    UPDATE memberships
+    SET status = 'ACTIVE'
+    WHERE id = v_membership.id
+    AND status = 'FROZEN'
+    AND NOT EXISTS (
+        SELECT 1 FROM membership_freezes
+        WHERE membership_id = v_membership.id
+        AND ended_at IS NULL
+        AND start_date <= CURRENT_DATE
+        AND end_date >= CURRENT_DATE
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION extend_frozen_membership(uuid, integer) FROM PUBLIC;
+
+-- Returns the number of freezes that started or ended
+CREATE OR REPLACE FUNCTION apply_membership_freezes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_freeze membership_freezes%ROWTYPE;
+    v_days integer;
+    v_changed integer := 0;
+    v_started integer;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    FOR v_freeze IN
+        SELECT * FROM membership_freezes
+        WHERE ended_at IS NULL
+        AND end_date < CURRENT_DATE
+        ORDER BY end_date
+        FOR UPDATE
+    LOOP
+        v_days := v_freeze.end_date - v_freeze.start_date + 1;
+
+        UPDATE membership_freezes
+        SET ended_at = now(),
+            days_frozen = v_days
+        WHERE id = v_freeze.id;
+
+        PERFORM extend_frozen_membership(v_freeze.membership_id, v_days);
+        v_changed := v_changed + 1;
+    END LOOP;
+
+    UPDATE memberships
+    SET status = 'FROZEN'
+    WHERE status = 'ACTIVE'
+    AND EXISTS (
+        SELECT 1 FROM membership_freezes
+        WHERE membership_id = memberships.id
+        AND ended_at IS NULL
+        AND start_date <= CURRENT_DATE
+        AND end_date >= CURRENT_DATE
+    );
+
+    GET DIAGNOSTICS v_started = ROW_COUNT;
+
+    RETURN v_changed + v_started;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION freeze_membership(
+    p_membership_id uuid,
+    p_start_date date,
+    p_end_date date,
+    p_reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_membership memberships%ROWTYPE;
+    v_max_days integer;
+    v_used_days integer;
+    v_freeze_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF nullif(trim(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to freeze a membership' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_end_date < p_start_date THEN
+        RAISE EXCEPTION 'Freeze end date must be on or after its start date' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_start_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'A freeze cannot start in the past' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+    IF v_membership.id IS NULL THEN
+        RAISE EXCEPTION 'Membership not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_membership.status = 'EXPIRED'
+    OR p_start_date < v_membership.start_date
+    OR p_start_date > v_membership.end_date THEN
+        RAISE EXCEPTION 'A freeze must start while the membership is running' USING ERRCODE = '55000';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM membership_freezes f
+        JOIN memberships m ON m.id = f.membership_id
+        WHERE m.member_id = v_membership.member_id
+        AND f.ended_at IS NULL
+        AND f.start_date <= p_end_date
+        AND f.end_date >= p_start_date
+    ) THEN
+        RAISE EXCEPTION 'This freeze overlaps another freeze for the member' USING ERRCODE = '23P01';
+    END IF;
+
+    SELECT coalesce(nullif(value, '')::integer, 30) INTO v_max_days
+    FROM system_settings
+    WHERE key = 'max_freeze_days_per_year';
+
+    -- Ended freezes count what was actually used, open ones their planned length
+    SELECT coalesce(sum(coalesce(f.days_frozen, f.end_date - f.start_date + 1)), 0) INTO v_used_days
+    FROM membership_freezes f
+    JOIN memberships m ON m.id = f.membership_id
+    WHERE m.member_id = v_membership.member_id
+    AND extract(year FROM f.start_date) = extract(year FROM p_start_date);
+
+    IF v_used_days + (p_end_date - p_start_date + 1) > coalesce(v_max_days, 30) THEN
+        RAISE EXCEPTION 'Freeze exceeds the yearly allowance: % of % days already used',
+            v_used_days, coalesce(v_max_days, 30)
+            USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO membership_freezes (membership_id, start_date, end_date, reason, created_by)
+    VALUES (p_membership_id, p_start_date, p_end_date, trim(p_reason), auth.uid())
+    RETURNING id INTO v_freeze_id;
+
+    IF p_start_date = CURRENT_DATE THEN
+        UPDATE memberships SET status = 'FROZEN' WHERE id = p_membership_id;
+    END IF;
+
+    RETURN v_freeze_id;
+END;
+$$;
+
+-- Returns the number of days added to the membership
+CREATE OR REPLACE FUNCTION end_membership_freeze(p_freeze_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_freeze membership_freezes%ROWTYPE;
+    v_days integer;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_freeze FROM membership_freezes WHERE id = p_freeze_id FOR UPDATE;
+
+    IF v_freeze.id IS NULL THEN
+        RAISE EXCEPTION 'Freeze not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_freeze.ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This freeze has already ended' USING ERRCODE = '55000';
+    END IF;
+
+    v_days := greatest(least(CURRENT_DATE, v_freeze.end_date + 1) - v_freeze.start_date, 0);
+
+    UPDATE membership_freezes
+    SET ended_at = now(),
+        ended_by = auth.uid(),
+        days_frozen = v_days
+    WHERE id = p_freeze_id;
+
+    PERFORM extend_frozen_membership(v_freeze.membership_id, v_days);
+
+    RETURN v_days;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_frozen_check_in()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.member_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM membership_freezes f
+        JOIN memberships m ON m.id = f.membership_id
+        WHERE m.member_id = NEW.member_id
+        AND f.ended_at IS NULL
+        AND f.start_date <= CURRENT_DATE
+        AND f.end_date >= CURRENT_DATE
+    ) THEN
+        RAISE EXCEPTION 'Membership is frozen; end the freeze before checking in' USING ERRCODE = '55000';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS reject_frozen_check_in ON check_ins;
+    CREATE TRIGGER reject_frozen_check_in
+        BEFORE INSERT ON check_ins
+        FOR EACH ROW
+        EXECUTE FUNCTION reject_frozen_check_in();
+END $$;
@@ -0,0 +1,265 @@
+/*
+  # Membership Expiry Job
+
+  Nothing moved memberships to EXPIRED or kept `members.is_active` in step with
+  them, so the dashboard counted every member ever created as active. A daily
+  job now reconciles both and logs each run.
+
+  1. Schema
+    - `job_runs` - One row per run of a background job with its outcome and counts
+
+  2. Functions
+    - `expire_memberships(triggered_by)` - Applies freezes, expires memberships
+      past `end_date` plus `grace_period_days` and updates member activity;
+      not callable through the API
+    - `run_membership_expiry()` - Admin only; runs the job on demand
+    - `process_membership_freezes()` - Body of `apply_membership_freezes()` so the
+      job can run it without a signed-in user
+
+  3. Rules
+    - Members are active while they hold an ACTIVE or FROZEN membership
+    - Runs take an advisory lock; a run that finds another in progress is logged
+      as SKIPPED
+    - Running the job again the same day changes nothing
+    - Failures are logged with the error message and leave data untouched
+
+  4. Schedule
+    - Daily at 00:15 through pg_cron when the extension is available
+
+  5. Security
+    - Admins can read job runs
+    - Internal helpers are not executable by API roles
+*/
+
+CREATE TABLE IF NOT EXISTS job_runs (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_name text NOT NULL,
+    status text NOT NULL DEFAULT 'RUNNING' CHECK (status IN ('RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED')),
+    started_at timestamptz NOT NULL DEFAULT now(),
+    finished_at timestamptz,
+    result jsonb,
+    error text,
+    triggered_by uuid REFERENCES profiles(id)
+);
+
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_job_runs_job_name_started_at') THEN
+        CREATE INDEX idx_job_runs_job_name_started_at ON job_runs(job_name, started_at DESC);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_memberships_status_end_date') THEN
+        CREATE INDEX idx_memberships_status_end_date ON memberships(status, end_date);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Admins can read job runs" ON job_runs;
+    CREATE POLICY "Admins can read job runs"
+        ON job_runs
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+END $$;
+
+-- Returns the number of freezes that started or ended
+CREATE OR REPLACE FUNCTION process_membership_freezes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_freeze membership_freezes%ROWTYPE;
+    v_days integer;
+    v_changed integer := 0;
+    v_started integer;
+BEGIN
+    FOR v_freeze IN
+        SELECT * FROM membership_freezes
+        WHERE ended_at IS NULL
+        AND end_date < CURRENT_DATE
+        ORDER BY end_date
+        FOR UPDATE
+    LOOP
+        v_days := v_freeze.end_date - v_freeze.start_date + 1;
+
+        UPDATE membership_freezes
+        SET ended_at = now(),
+            days_frozen = v_days
+        WHERE id = v_freeze.id;
+
+        PERFORM extend_frozen_membership(v_freeze.membership_id, v_days);
+        v_changed := v_changed + 1;
+    END LOOP;
+
+    UPDATE memberships
+    SET status = 'FROZEN'
+    WHERE status = 'ACTIVE'
+    AND EXISTS (
+        SELECT 1 FROM membership_freezes
+        WHERE membership_id = memberships.id
+        AND ended_at IS NULL
+        AND start_date <= CURRENT_DATE
+        AND end_date >= CURRENT_DATE
+    );
+
+    GET DIAGNOSTICS v_started = ROW_COUNT;
+
+    RETURN v_changed + v_started;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_membership_freezes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN process_membership_freezes();
+END;
+$$;
+
+-- Returns the job_runs row written for this run
+CREATE OR REPLACE FUNCTION expire_memberships(p_triggered_by uuid DEFAULT NULL)
+RETURNS job_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_run job_runs%ROWTYPE;
+    v_grace_days integer;
+    v_freezes integer;
+    v_expired integer;
+    v_activated integer;
+    v_deactivated integer;
+BEGIN
+    INSERT INTO job_runs (job_name, triggered_by)
+    VALUES ('membership_expiry', p_triggered_by)
+    RETURNING * INTO v_run;
+
+    -- Released at the end of the transaction; a second caller skips instead of waiting
+    IF NOT pg_try_advisory_xact_lock(hashtext('membership_expiry')) THEN
+        UPDATE job_runs
+        SET status = 'SKIPPED',
+            finished_at = now(),
+            error = 'Another run was already in progress'
+        WHERE id = v_run.id
+        RETURNING * INTO v_run;
+
+        RETURN v_run;
+    END IF;
+
+    BEGIN
+        SELECT coalesce(nullif(value, '')::integer, 7) INTO v_grace_days
+        FROM system_settings
+        WHERE key = 'grace_period_days';
+
+        v_freezes := process_membership_freezes();
+
+        UPDATE memberships
+        SET status = 'EXPIRED'
+        WHERE status = 'ACTIVE'
+        AND end_date + coalesce(v_grace_days, 7) < CURRENT_DATE;
+
+        GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+        UPDATE members
+        SET is_active = true,
+            updated_at = now()
+        WHERE is_active IS NOT TRUE
+        AND EXISTS (
+            SELECT 1 FROM memberships
+            WHERE memberships.member_id = members.id
+            AND memberships.status IN ('ACTIVE', 'FROZEN')
+        );
+
+        GET DIAGNOSTICS v_activated = ROW_COUNT;
+
+        UPDATE members
+        SET is_active = false,
+            updated_at = now()
+        WHERE is_active IS NOT FALSE
+        AND NOT EXISTS (
+            SELECT 1 FROM memberships
+            WHERE memberships.member_id = members.id
+            AND memberships.status IN ('ACTIVE', 'FROZEN')
+        );
+
+        GET DIAGNOSTICS v_deactivated = ROW_COUNT;
+
+        UPDATE job_runs
+        SET status = 'SUCCEEDED',
+            finished_at = now(),
+            result = jsonb_build_object(
+                'freezes_applied', v_freezes,
+                'memberships_expired', v_expired,
+                'members_activated', v_activated,
+                'members_deactivated', v_deactivated
+            )
+        WHERE id = v_run.id
+        RETURNING * INTO v_run;
+    EXCEPTION WHEN OTHERS THEN
+        UPDATE job_runs
+        SET status = 'FAILED',
+            finished_at = now(),
+            error = SQLERRM
+        WHERE id = v_run.id
+        RETURNING * INTO v_run;
+    END;
+
+    RETURN v_run;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION run_membership_expiry()
+RETURNS job_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN expire_memberships(auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION extend_frozen_membership(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_membership_freezes() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_memberships(uuid) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+        CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+        -- Scheduling under an existing job name replaces that job
+        PERFORM cron.schedule('membership-expiry', '15 0 * * *', 'SELECT expire_memberships()');
+    END IF;
+END $$;
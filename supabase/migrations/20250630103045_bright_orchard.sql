@@ -0,0 +1,201 @@
+/*
+  # Membership Plan Changes
+
+  Members moving to another plan mid-term get a credit for the unused part of
+  their current membership. The old membership closes today and the new one
+  starts today, with the credit set against the new plan's price. A renewal
+  that has not started yet is replaced from its own start date, so it never
+  overlaps the membership running before it.
+
+  1. Schema
+    - `memberships.replaced_by` - Membership that took over after a plan change
+
+  2. Functions
+    - `quote_membership_change(membership_id, plan_id)` - Credit, new dates and
+      the balance due or refund; nothing is written
+    - `change_membership_plan(membership_id, plan_id, shift_id, payment_method)` -
+      Staff only; requires an ACTIVE shift, closes the old membership, opens the
+      new one and records the charge and the credit as transactions
+
+  3. Rules
+    - Credit = `amount_paid` x unused days / days in the term, rounded to cents;
+      a membership that has not started yet is credited in full
+    - Only ACTIVE memberships without an open freeze can change plan
+    - The charge is a MEMBERSHIP transaction for the new plan's price; the credit
+      is a MEMBERSHIP transaction for the negative credit amount
+    - Memberships queued after the old one move to follow the new one
+*/
+
+ALTER TABLE memberships ADD COLUMN IF NOT EXISTS replaced_by uuid REFERENCES memberships(id);
+
+CREATE OR REPLACE FUNCTION quote_membership_change(p_membership_id uuid, p_plan_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_membership memberships%ROWTYPE;
+    v_plan membership_plans%ROWTYPE;
+    v_start date;
+    v_total_days integer;
+    v_unused_days integer;
+    v_credit numeric(10,2);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id;
+
+    IF v_membership.id IS NULL THEN
+        RAISE EXCEPTION 'Membership not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_membership.status <> 'ACTIVE' OR v_membership.end_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Only a running membership can change plan' USING ERRCODE = '55000';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM membership_freezes
+        WHERE membership_id = p_membership_id
+        AND ended_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'End or cancel the membership freeze before changing plan' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_plan.is_active OR v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This membership plan is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_plan.id = v_membership.plan_id THEN
+        RAISE EXCEPTION 'The member is already on this plan' USING ERRCODE = '22023';
+    END IF;
+
+    v_start := greatest(CURRENT_DATE, v_membership.start_date);
+    v_total_days := greatest(v_membership.end_date - v_membership.start_date, 1);
+    v_unused_days := greatest(v_membership.end_date - v_start, 0);
+    v_credit := round(coalesce(v_membership.amount_paid, 0) * v_unused_days / v_total_days, 2);
+
+    RETURN jsonb_build_object(
+        'membership_id', v_membership.id,
+        'plan_id', v_plan.id,
+        'total_days', v_total_days,
+        'unused_days', v_unused_days,
+        'credit', v_credit,
+        'price', v_plan.price,
+        'balance', v_plan.price - v_credit,
+        'start_date', v_start,
+        'end_date', (v_start + make_interval(months => v_plan.duration_months))::date
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_membership_plan(
+    p_membership_id uuid,
+    p_plan_id uuid,
+    p_shift_id uuid,
+    p_payment_method text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_membership memberships%ROWTYPE;
+    v_quote jsonb;
+    v_old_plan_name text;
+    v_new_plan_name text;
+    v_new_id uuid;
+    v_shift_days integer;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to change a membership plan' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+    v_quote := quote_membership_change(p_membership_id, p_plan_id);
+
+    SELECT name INTO v_old_plan_name FROM membership_plans WHERE id = v_membership.plan_id;
+    SELECT name INTO v_new_plan_name FROM membership_plans WHERE id = p_plan_id;
+
+    INSERT INTO memberships (
+        member_id, plan_id, start_date, end_date, status, amount_paid, created_by
+    ) VALUES (
+        v_membership.member_id,
+        p_plan_id,
+        (v_quote->>'start_date')::date,
+        (v_quote->>'end_date')::date,
+        'ACTIVE',
+        (v_quote->>'price')::numeric,
+        auth.uid()
+    )
+    RETURNING id INTO v_new_id;
+
+    -- Renewals queued behind the old membership now follow the new one
+    v_shift_days := (v_quote->>'end_date')::date - v_membership.end_date;
+
+    UPDATE memberships
+    SET start_date = start_date + v_shift_days,
+        end_date = end_date + v_shift_days
+    WHERE member_id = v_membership.member_id
+    AND id NOT IN (v_membership.id, v_new_id)
+    AND status = 'ACTIVE'
+    AND start_date >= v_membership.end_date;
+
+    UPDATE memberships
+    SET end_date = least(end_date, greatest(CURRENT_DATE, start_date)),
+        status = 'EXPIRED',
+        replaced_by = v_new_id
+    WHERE id = v_membership.id;
+
+    IF (v_quote->>'price')::numeric > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            (v_quote->>'price')::numeric,
+            p_payment_method,
+            'MEMBERSHIP',
+            v_new_id,
+            'Plan change: ' || v_old_plan_name || ' to ' || v_new_plan_name,
+            auth.uid()
+        );
+    END IF;
+
+    IF (v_quote->>'credit')::numeric > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            -(v_quote->>'credit')::numeric,
+            p_payment_method,
+            'MEMBERSHIP',
+            v_membership.id,
+            'Credit for ' || (v_quote->>'unused_days') || ' unused days of ' || v_old_plan_name,
+            auth.uid()
+        );
+    END IF;
+
+    RETURN v_quote || jsonb_build_object('new_membership_id', v_new_id);
+END;
+$$;
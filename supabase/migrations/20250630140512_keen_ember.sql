@@ -0,0 +1,187 @@
+/*
+  # Coupon Templates & Coupon Sales
+
+  Admins manage coupon templates, and staff sell coupons from them at the desk,
+  either to a registered member or to an anonymous buyer.
+
+  1. Coupon Codes
+    - Format `XXXX-XXXX-XXXX`, drawn from 23456789ABCDEFGHJKMNPQRSTUVWXYZ so
+      0/O, 1/I/L cannot be confused
+    - The last character is a Luhn mod 31 check character, so a single mistyped
+      character or swapped neighbours are caught before a lookup
+    - `coupon_code_check_char(payload)` - Check character for the 11-character payload
+    - `generate_coupon_code()` - Random code with its check character
+
+  2. Functions
+    - `sell_coupon(template_id, member_id, shift_id, payment_method)` - Staff only;
+      requires an ACTIVE shift, creates the sold coupon with `expiry_date` on the
+      last of its `duration_days` (a 1-day pass expires the day it is sold) and
+      `entries_remaining` from `max_entries`, and records a
+      COUPON_SALE transaction; `member_id` may be NULL for anonymous sales
+
+  3. Schema
+    - Checks on template price, entries and duration
+
+  4. Security
+    - Admins can manage coupon templates
+*/
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'coupon_templates_terms_check') THEN
+        ALTER TABLE coupon_templates ADD CONSTRAINT coupon_templates_terms_check
+            CHECK (price >= 0 AND max_entries >= 1 AND duration_days >= 1);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_sold_coupons_template_id') THEN
+        CREATE INDEX idx_sold_coupons_template_id ON sold_coupons(template_id);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Admins can manage coupon templates" ON coupon_templates;
+    CREATE POLICY "Admins can manage coupon templates"
+        ON coupon_templates
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+END $$;
+
+CREATE OR REPLACE FUNCTION coupon_code_check_char(p_payload text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_alphabet constant text := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+    v_base constant integer := 31;
+    v_factor integer := 2;
+    v_sum integer := 0;
+    v_addend integer;
+BEGIN
+    FOR i IN REVERSE length(p_payload)..1 LOOP
+        v_addend := v_factor * (strpos(v_alphabet, substr(p_payload, i, 1)) - 1);
+        v_factor := CASE WHEN v_factor = 2 THEN 1 ELSE 2 END;
+        v_sum := v_sum + v_addend / v_base + v_addend % v_base;
+    END LOOP;
+
+    RETURN substr(v_alphabet, (v_base - v_sum % v_base) % v_base + 1, 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION generate_coupon_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+    v_alphabet constant text := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+    v_bytes bytea := uuid_send(gen_random_uuid());
+    v_payload text := '';
+    v_index integer;
+    v_code text;
+BEGIN
+    -- Bytes 6 and 8 carry the UUID version and variant bits, so they are skipped
+    FOREACH v_index IN ARRAY ARRAY[0, 1, 2, 3, 4, 5, 7, 9, 10, 11, 12] LOOP
+        v_payload := v_payload || substr(v_alphabet, get_byte(v_bytes, v_index) % 31 + 1, 1);
+    END LOOP;
+
+    v_code := v_payload || coupon_code_check_char(v_payload);
+
+    RETURN substr(v_code, 1, 4) || '-' || substr(v_code, 5, 4) || '-' || substr(v_code, 9, 4);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sell_coupon(
+    p_template_id uuid,
+    p_member_id uuid,
+    p_shift_id uuid,
+    p_payment_method text
+)
+RETURNS sold_coupons
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_template coupon_templates%ROWTYPE;
+    v_coupon sold_coupons%ROWTYPE;
+    v_attempt integer := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to sell a coupon' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT * INTO v_template FROM coupon_templates WHERE id = p_template_id;
+
+    IF v_template.id IS NULL THEN
+        RAISE EXCEPTION 'Coupon template not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_template.is_active THEN
+        RAISE EXCEPTION 'This coupon is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_member_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Collisions are very unlikely, but retry a few times rather than fail the sale
+    LOOP
+        BEGIN
+            INSERT INTO sold_coupons (
+                template_id, code, member_id, purchase_date, expiry_date,
+                entries_remaining, is_active, sold_by
+            ) VALUES (
+                v_template.id,
+                generate_coupon_code(),
+                p_member_id,
+                CURRENT_DATE,
+                -- The expiry date is the last valid day, so the sale day counts as day one
+                CURRENT_DATE + v_template.duration_days - 1,
+                v_template.max_entries,
+                true,
+                auth.uid()
+            )
+            RETURNING * INTO v_coupon;
+
+            EXIT;
+        EXCEPTION WHEN unique_violation THEN
+            v_attempt := v_attempt + 1;
+            IF v_attempt >= 5 THEN
+                RAISE;
+            END IF;
+        END;
+    END LOOP;
+
+    IF v_template.price > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            v_template.price,
+            p_payment_method,
+            'COUPON_SALE',
+            v_coupon.id,
+            'Coupon: ' || v_template.name || ' (' || v_coupon.code || ')',
+            auth.uid()
+        );
+    END IF;
+
+    RETURN v_coupon;
+END;
+$$;
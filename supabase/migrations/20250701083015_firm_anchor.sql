@@ -0,0 +1,110 @@
+/*
+  # Coupon Redemption
+
+  Coupon entries were decremented from the browser with a read-then-write, so
+  two desks scanning the same code could both let someone in on the last entry.
+  Redemption now locks the coupon row and records the check-in in the same
+  transaction.
+
+  1. Schema
+    - `check_ins.coupon_entries_remaining` - Entries left on the coupon after this
+      visit, so the check-ins of a coupon read as its entry ledger
+
+  2. Functions
+    - `redeem_coupon(coupon_id, member_id, shift_id, notes)` - Staff only; requires
+      an ACTIVE shift, uses one entry and writes the COUPON check-in
+
+  3. Error Codes
+    - `CPN01` - Coupon is inactive
+    - `CPN02` - Coupon has expired
+    - `CPN03` - Coupon has no entries remaining
+    - `P0002` - Coupon not found
+
+  4. Security
+    - Staff can no longer update sold coupons directly
+*/
+
+ALTER TABLE check_ins ADD COLUMN IF NOT EXISTS coupon_entries_remaining integer;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_check_ins_sold_coupon_id') THEN
+        CREATE INDEX idx_check_ins_sold_coupon_id ON check_ins(sold_coupon_id, check_in_time);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can update sold coupons" ON sold_coupons;
+END $$;
+
+-- Returns the check-in id and the entries left on the coupon
+CREATE OR REPLACE FUNCTION redeem_coupon(
+    p_coupon_id uuid,
+    p_member_id uuid,
+    p_shift_id uuid,
+    p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_coupon sold_coupons%ROWTYPE;
+    v_check_in_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to check in' USING ERRCODE = '55000';
+    END IF;
+
+    -- A second desk redeeming the same coupon waits here and then sees the new count
+    SELECT * INTO v_coupon FROM sold_coupons WHERE id = p_coupon_id FOR UPDATE;
+
+    IF v_coupon.id IS NULL THEN
+        RAISE EXCEPTION 'Coupon not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_coupon.is_active THEN
+        RAISE EXCEPTION 'Coupon % is inactive', v_coupon.code USING ERRCODE = 'CPN01';
+    END IF;
+
+    IF v_coupon.expiry_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Coupon % expired on %', v_coupon.code, v_coupon.expiry_date USING ERRCODE = 'CPN02';
+    END IF;
+
+    IF v_coupon.entries_remaining <= 0 THEN
+        RAISE EXCEPTION 'Coupon % has no entries remaining', v_coupon.code USING ERRCODE = 'CPN03';
+    END IF;
+
+    UPDATE sold_coupons
+    SET entries_remaining = entries_remaining - 1
+    WHERE id = v_coupon.id;
+
+    INSERT INTO check_ins (
+        shift_id, type, member_id, sold_coupon_id, coupon_entries_remaining, processed_by, notes
+    ) VALUES (
+        p_shift_id,
+        'COUPON',
+        coalesce(p_member_id, v_coupon.member_id),
+        v_coupon.id,
+        v_coupon.entries_remaining - 1,
+        auth.uid(),
+        p_notes
+    )
+    RETURNING id INTO v_check_in_id;
+
+    RETURN jsonb_build_object(
+        'check_in_id', v_check_in_id,
+        'entries_remaining', v_coupon.entries_remaining - 1
+    );
+END;
+$$;
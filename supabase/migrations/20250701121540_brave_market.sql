@@ -0,0 +1,278 @@
+/*
+  # Point of Sale Checkout
+
+  The POS sells products from a cart and takes one or more payments. The whole
+  sale is written by a single function so stock, payments and the sale record
+  never disagree.
+
+  1. New Tables
+    - `pos_sales` - One row per checkout, tied to the shift it was rung up on
+    - `pos_sale_items` - Products on the sale with the price charged at the time
+
+  2. Functions
+    - `pos_checkout(shift_id, items, payments)` - Staff only; requires an ACTIVE
+      shift. `items` is `[{product_id, quantity}]` and `payments` is
+      `[{payment_method, amount}]`. Prices come from `products`, the payments must
+      add up to the sale total, and stock cannot go below zero.
+      - One POS_SALE transaction per payment, with `related_id` set to the sale
+      - One SALE stock movement per product, with `transaction_id` set to the
+        sale's first payment
+
+  3. Security
+    - Staff can read products, stock movements and POS sales
+    - Admins can manage products
+*/
+
+-- 1. POS Sales
+CREATE TABLE IF NOT EXISTS pos_sales (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shift_id uuid NOT NULL REFERENCES shifts(id),
+    total numeric(10,2) NOT NULL CHECK (total >= 0),
+    processed_by uuid NOT NULL REFERENCES profiles(id),
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS pos_sale_items (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id uuid NOT NULL REFERENCES pos_sales(id) ON DELETE CASCADE,
+    product_id uuid NOT NULL REFERENCES products(id),
+    quantity integer NOT NULL CHECK (quantity > 0),
+    unit_price numeric(10,2) NOT NULL,
+    line_total numeric(10,2) NOT NULL
+);
+
+ALTER TABLE pos_sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pos_sale_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_pos_sales_shift_id') THEN
+        CREATE INDEX idx_pos_sales_shift_id ON pos_sales(shift_id);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_pos_sale_items_sale_id') THEN
+        CREATE INDEX idx_pos_sale_items_sale_id ON pos_sale_items(sale_id);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_stock_movements_product_id') THEN
+        CREATE INDEX idx_stock_movements_product_id ON stock_movements(product_id, created_at);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_stock_movements_transaction_id') THEN
+        CREATE INDEX idx_stock_movements_transaction_id ON stock_movements(transaction_id);
+    END IF;
+END $$;
+
+-- 2. Policies
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read products" ON products;
+    CREATE POLICY "Staff can read products"
+        ON products
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Admins can manage products" ON products;
+    CREATE POLICY "Admins can manage products"
+        ON products
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read stock movements" ON stock_movements;
+    CREATE POLICY "Staff can read stock movements"
+        ON stock_movements
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read POS sales" ON pos_sales;
+    CREATE POLICY "Staff can read POS sales"
+        ON pos_sales
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read POS sale items" ON pos_sale_items;
+    CREATE POLICY "Staff can read POS sale items"
+        ON pos_sale_items
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- 3. Checkout
+-- Returns the sale id, its total and the id of each payment transaction
+CREATE OR REPLACE FUNCTION pos_checkout(
+    p_shift_id uuid,
+    p_items jsonb,
+    p_payments jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_items jsonb;
+    v_total numeric(10,2) := 0;
+    v_paid numeric(10,2) := 0;
+    v_item record;
+    v_payment record;
+    v_transaction_id uuid;
+    v_transaction_ids uuid[] := ARRAY[]::uuid[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to make a sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'The cart is empty' USING ERRCODE = '22023';
+    END IF;
+
+    IF jsonb_typeof(p_payments) IS DISTINCT FROM 'array' OR jsonb_array_length(p_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required' USING ERRCODE = '22023';
+    END IF;
+
+    -- The same product may appear on several cart lines
+    SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity))
+    INTO v_items
+    FROM (
+        SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(p_items) AS item
+        GROUP BY 1
+    ) grouped;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+        WHERE i.product_id IS NULL OR i.quantity IS NULL OR i.quantity <= 0
+    ) THEN
+        RAISE EXCEPTION 'Every cart line needs a product and a quantity of at least 1' USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock in a fixed order so two tills selling the same products cannot deadlock
+    PERFORM 1 FROM products
+    WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer))
+    ORDER BY id
+    FOR UPDATE;
+
+    FOR v_item IN
+        SELECT i.product_id, i.quantity, p.name, p.price, p.is_active, coalesce(p.current_stock, 0) AS current_stock
+        FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+        LEFT JOIN products p ON p.id = i.product_id
+    LOOP
+        IF v_item.name IS NULL THEN
+            RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        IF NOT v_item.is_active THEN
+            RAISE EXCEPTION '% is no longer on sale', v_item.name USING ERRCODE = '55000';
+        END IF;
+
+        IF v_item.current_stock < v_item.quantity THEN
+            RAISE EXCEPTION 'Only % of % left in stock', v_item.current_stock, v_item.name USING ERRCODE = '55000';
+        END IF;
+
+        v_total := v_total + v_item.price * v_item.quantity;
+    END LOOP;
+
+    FOR v_payment IN
+        SELECT payment->>'payment_method' AS payment_method, (payment->>'amount')::numeric(10,2) AS amount
+        FROM jsonb_array_elements(p_payments) AS payment
+    LOOP
+        IF v_payment.amount IS NULL OR v_payment.amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero' USING ERRCODE = '22023';
+        END IF;
+
+        v_paid := v_paid + v_payment.amount;
+    END LOOP;
+
+    IF v_paid <> v_total THEN
+        RAISE EXCEPTION 'Payments of % do not match the sale total of %', v_paid, v_total USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO pos_sales (shift_id, total, processed_by)
+    VALUES (p_shift_id, v_total, auth.uid())
+    RETURNING id INTO v_sale_id;
+
+    INSERT INTO pos_sale_items (sale_id, product_id, quantity, unit_price, line_total)
+    SELECT v_sale_id, i.product_id, i.quantity, p.price, p.price * i.quantity
+    FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+    JOIN products p ON p.id = i.product_id;
+
+    FOR v_payment IN
+        SELECT payment->>'payment_method' AS payment_method, (payment->>'amount')::numeric(10,2) AS amount
+        FROM jsonb_array_elements(p_payments) WITH ORDINALITY AS payments(payment, position)
+        ORDER BY position
+    LOOP
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            v_payment.amount,
+            v_payment.payment_method,
+            'POS_SALE',
+            v_sale_id,
+            'POS sale',
+            auth.uid()
+        )
+        RETURNING id INTO v_transaction_id;
+
+        v_transaction_ids := v_transaction_ids || v_transaction_id;
+    END LOOP;
+
+    UPDATE products p
+    SET current_stock = coalesce(p.current_stock, 0) - i.quantity
+    FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+    WHERE p.id = i.product_id;
+
+    INSERT INTO stock_movements (product_id, change_quantity, reason, transaction_id, created_by)
+    SELECT product_id, -quantity, 'SALE', v_transaction_ids[1], auth.uid()
+    FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer);
+
+    RETURN jsonb_build_object(
+        'sale_id', v_sale_id,
+        'total', v_total,
+        'transaction_ids', to_jsonb(v_transaction_ids)
+    );
+END;
+$$;
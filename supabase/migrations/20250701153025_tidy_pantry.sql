@@ -0,0 +1,305 @@
+/*
+  # Inventory Movements & Stocktake
+
+  Every change to `products.current_stock` is now recorded in `stock_movements`
+  with a reason from a fixed list, so the movements of a product add up to its
+  stock on hand.
+
+  1. Stock Reasons
+    - `SALE` - Sold at the POS (negative)
+    - `RECEIVED` - Goods received from a supplier (positive)
+    - `DAMAGE` - Damaged stock taken off the shelf (negative)
+    - `WRITE_OFF` - Expired, lost or otherwise written off (negative)
+    - `ADJUSTMENT` - Manual correction in either direction
+    - `STOCKTAKE` - Variance posted by a stocktake
+    - `OPENING_BALANCE` - Stock a product had before it had any movements
+    - Existing free-text reasons become `ADJUSTMENT`, keeping the old text in `notes`
+
+  2. New Tables
+    - `stocktakes` - One row per posted stocktake; its variance movements point back to it
+
+  3. Functions
+    - `adjust_stock(product_id, reason, change_quantity, notes)` - Staff only;
+      records a RECEIVED, DAMAGE, WRITE_OFF or ADJUSTMENT movement
+    - `post_stocktake(counts, notes)` - Staff only; `counts` is
+      `[{product_id, counted_quantity}]` and a STOCKTAKE movement is posted for
+      every product whose count differs from its stock
+    - `get_stock_reconciliation()` - Admin only; stock on hand against the sum of
+      each product's movements
+
+  4. Opening Balances
+    - Products get an OPENING_BALANCE movement for any stock not yet covered by
+      movements, including new products created with stock
+*/
+
+-- 1. Stock Reasons
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS stocktake_id uuid;
+
+UPDATE stock_movements
+SET notes = CASE WHEN notes IS NULL THEN reason ELSE reason || ': ' || notes END,
+    reason = 'ADJUSTMENT'
+WHERE reason NOT IN ('SALE', 'RECEIVED', 'DAMAGE', 'WRITE_OFF', 'ADJUSTMENT', 'STOCKTAKE', 'OPENING_BALANCE');
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'stock_movements_reason_check') THEN
+        ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_reason_check
+            CHECK (reason IN ('SALE', 'RECEIVED', 'DAMAGE', 'WRITE_OFF', 'ADJUSTMENT', 'STOCKTAKE', 'OPENING_BALANCE'));
+    END IF;
+END $$;
+
+-- 2. Stocktakes
+CREATE TABLE IF NOT EXISTS stocktakes (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    notes text,
+    products_counted integer NOT NULL DEFAULT 0,
+    products_adjusted integer NOT NULL DEFAULT 0,
+    created_by uuid NOT NULL REFERENCES profiles(id),
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stocktakes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'stock_movements_stocktake_id_fkey') THEN
+        ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_stocktake_id_fkey
+            FOREIGN KEY (stocktake_id) REFERENCES stocktakes(id);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read stocktakes" ON stocktakes;
+    CREATE POLICY "Staff can read stocktakes"
+        ON stocktakes
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- 3. Opening Balances
+INSERT INTO stock_movements (product_id, change_quantity, reason, notes)
+SELECT p.id, coalesce(p.current_stock, 0) - coalesce(m.total, 0), 'OPENING_BALANCE', 'Stock on hand before movements were recorded'
+FROM products p
+LEFT JOIN (
+    SELECT product_id, sum(change_quantity) AS total
+    FROM stock_movements
+    GROUP BY product_id
+) m ON m.product_id = p.id
+WHERE coalesce(p.current_stock, 0) <> coalesce(m.total, 0);
+
+CREATE OR REPLACE FUNCTION record_opening_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF coalesce(NEW.current_stock, 0) <> 0 THEN
+        INSERT INTO stock_movements (product_id, change_quantity, reason, created_by)
+        VALUES (NEW.id, NEW.current_stock, 'OPENING_BALANCE', auth.uid());
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_opening_stock() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS record_opening_stock ON products;
+    CREATE TRIGGER record_opening_stock
+        AFTER INSERT ON products
+        FOR EACH ROW
+        EXECUTE FUNCTION record_opening_stock();
+END $$;
+
+-- 4. Adjustments
+CREATE OR REPLACE FUNCTION adjust_stock(
+    p_product_id uuid,
+    p_reason text,
+    p_change_quantity integer,
+    p_notes text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_product products%ROWTYPE;
+    v_movement stock_movements%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_reason NOT IN ('RECEIVED', 'DAMAGE', 'WRITE_OFF', 'ADJUSTMENT') THEN
+        RAISE EXCEPTION 'Stock cannot be adjusted with reason %', p_reason USING ERRCODE = '22023';
+    END IF;
+
+    IF p_change_quantity IS NULL OR p_change_quantity = 0 THEN
+        RAISE EXCEPTION 'The quantity cannot be zero' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_reason = 'RECEIVED' AND p_change_quantity < 0 THEN
+        RAISE EXCEPTION 'Received quantities must be positive' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_reason IN ('DAMAGE', 'WRITE_OFF') AND p_change_quantity > 0 THEN
+        RAISE EXCEPTION 'Damage and write-offs must reduce stock' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_reason = 'ADJUSTMENT' AND nullif(trim(coalesce(p_notes, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'A note is required for a manual adjustment' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+    IF v_product.id IS NULL THEN
+        RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF coalesce(v_product.current_stock, 0) + p_change_quantity < 0 THEN
+        RAISE EXCEPTION 'Only % of % in stock', coalesce(v_product.current_stock, 0), v_product.name
+            USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE products
+    SET current_stock = coalesce(current_stock, 0) + p_change_quantity
+    WHERE id = v_product.id;
+
+    INSERT INTO stock_movements (product_id, change_quantity, reason, notes, created_by)
+    VALUES (v_product.id, p_change_quantity, p_reason, nullif(trim(p_notes), ''), auth.uid())
+    RETURNING * INTO v_movement;
+
+    RETURN v_movement;
+END;
+$$;
+
+-- 5. Stocktake
+-- Variances are worked out against the stock at the moment the count is posted
+CREATE OR REPLACE FUNCTION post_stocktake(
+    p_counts jsonb,
+    p_notes text DEFAULT NULL
+)
+RETURNS stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stocktake stocktakes%ROWTYPE;
+    v_count record;
+    v_adjusted integer := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF jsonb_typeof(p_counts) IS DISTINCT FROM 'array' OR jsonb_array_length(p_counts) = 0 THEN
+        RAISE EXCEPTION 'Count at least one product' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_counts) AS c(product_id uuid, counted_quantity integer)
+        WHERE c.product_id IS NULL OR c.counted_quantity IS NULL OR c.counted_quantity < 0
+    ) THEN
+        RAISE EXCEPTION 'Counted quantities must be zero or more' USING ERRCODE = '22023';
+    END IF;
+
+    IF (SELECT count(DISTINCT c.product_id) FROM jsonb_to_recordset(p_counts) AS c(product_id uuid, counted_quantity integer))
+        <> jsonb_array_length(p_counts) THEN
+        RAISE EXCEPTION 'Each product can only be counted once' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO stocktakes (notes, products_counted, created_by)
+    VALUES (nullif(trim(p_notes), ''), jsonb_array_length(p_counts), auth.uid())
+    RETURNING * INTO v_stocktake;
+
+    -- Lock in a fixed order so a stocktake and a sale cannot deadlock
+    PERFORM 1 FROM products
+    WHERE id IN (SELECT c.product_id FROM jsonb_to_recordset(p_counts) AS c(product_id uuid, counted_quantity integer))
+    ORDER BY id
+    FOR UPDATE;
+
+    FOR v_count IN
+        SELECT c.product_id, c.counted_quantity, p.id AS found_id, coalesce(p.current_stock, 0) AS current_stock
+        FROM jsonb_to_recordset(p_counts) AS c(product_id uuid, counted_quantity integer)
+        LEFT JOIN products p ON p.id = c.product_id
+    LOOP
+        IF v_count.found_id IS NULL THEN
+            RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        CONTINUE WHEN v_count.counted_quantity = v_count.current_stock;
+
+        UPDATE products SET current_stock = v_count.counted_quantity WHERE id = v_count.product_id;
+
+        INSERT INTO stock_movements (product_id, change_quantity, reason, stocktake_id, created_by)
+        VALUES (
+            v_count.product_id,
+            v_count.counted_quantity - v_count.current_stock,
+            'STOCKTAKE',
+            v_stocktake.id,
+            auth.uid()
+        );
+
+        v_adjusted := v_adjusted + 1;
+    END LOOP;
+
+    UPDATE stocktakes SET products_adjusted = v_adjusted WHERE id = v_stocktake.id
+    RETURNING * INTO v_stocktake;
+
+    RETURN v_stocktake;
+END;
+$$;
+
+-- 6. Reconciliation
+CREATE OR REPLACE FUNCTION get_stock_reconciliation()
+RETURNS TABLE (product_id uuid, current_stock integer, ledger_quantity integer, difference integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        coalesce(p.current_stock, 0),
+        coalesce(m.total, 0)::integer,
+        (coalesce(p.current_stock, 0) - coalesce(m.total, 0))::integer
+    FROM products p
+    LEFT JOIN (
+        SELECT sm.product_id, sum(sm.change_quantity) AS total
+        FROM stock_movements sm
+        GROUP BY sm.product_id
+    ) m ON m.product_id = p.id
+    ORDER BY p.name;
+END;
+$$;
@@ -0,0 +1,210 @@
+/*
+  # Low-Stock Alerts & Reorder Report
+
+  `products.low_stock_threshold` now drives alerts. An alert is raised the
+  moment an active product's stock falls to or below its threshold and stays
+  open until stock is back above it, so a product that keeps selling while low
+  does not raise a new alert on every sale.
+
+  1. New Tables
+    - `stock_alerts` - One row each time a product crosses its threshold
+      - `stock_level` / `threshold` - Values at the moment the alert was raised
+      - `acknowledged_at` / `acknowledged_by` - Set when staff dismiss the alert
+      - `resolved_at` - Set when stock rises above the threshold again
+    - At most one unresolved alert per product
+
+  2. Functions
+    - `acknowledge_stock_alert(alert_id)` - Staff only
+    - `get_reorder_report(sales_days, cover_days)` - Staff only; for every active
+      product that is low or will run low within `cover_days`, units sold in the
+      last `sales_days`, the daily sales rate and a suggested order quantity that
+      covers `cover_days` of sales on top of the threshold
+
+  3. Triggers
+    - `check_low_stock` on products raises and resolves alerts as stock changes
+*/
+
+-- 1. Stock Alerts
+CREATE TABLE IF NOT EXISTS stock_alerts (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    stock_level integer NOT NULL,
+    threshold integer NOT NULL,
+    created_at timestamptz DEFAULT now(),
+    acknowledged_at timestamptz,
+    acknowledged_by uuid REFERENCES profiles(id),
+    resolved_at timestamptz
+);
+
+ALTER TABLE stock_alerts ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_stock_alerts_open_product') THEN
+        CREATE UNIQUE INDEX idx_stock_alerts_open_product ON stock_alerts(product_id) WHERE resolved_at IS NULL;
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read stock alerts" ON stock_alerts;
+    CREATE POLICY "Staff can read stock alerts"
+        ON stock_alerts
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- 2. Raising and Resolving Alerts
+CREATE OR REPLACE FUNCTION check_low_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.is_active AND coalesce(NEW.current_stock, 0) <= coalesce(NEW.low_stock_threshold, 0) THEN
+        INSERT INTO stock_alerts (product_id, stock_level, threshold)
+        VALUES (NEW.id, coalesce(NEW.current_stock, 0), coalesce(NEW.low_stock_threshold, 0))
+        ON CONFLICT (product_id) WHERE resolved_at IS NULL DO NOTHING;
+    ELSE
+        UPDATE stock_alerts
+        SET resolved_at = now()
+        WHERE product_id = NEW.id
+        AND resolved_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_low_stock() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS check_low_stock ON products;
+    CREATE TRIGGER check_low_stock
+        AFTER INSERT OR UPDATE OF current_stock, low_stock_threshold, is_active ON products
+        FOR EACH ROW
+        EXECUTE FUNCTION check_low_stock();
+END $$;
+
+-- Products that are already low get their alert now
+INSERT INTO stock_alerts (product_id, stock_level, threshold)
+SELECT id, coalesce(current_stock, 0), coalesce(low_stock_threshold, 0)
+FROM products
+WHERE is_active
+AND coalesce(current_stock, 0) <= coalesce(low_stock_threshold, 0)
+ON CONFLICT (product_id) WHERE resolved_at IS NULL DO NOTHING;
+
+-- 3. Acknowledging Alerts
+CREATE OR REPLACE FUNCTION acknowledge_stock_alert(p_alert_id uuid)
+RETURNS stock_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_alert stock_alerts%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE stock_alerts
+    SET acknowledged_at = coalesce(acknowledged_at, now()),
+        acknowledged_by = coalesce(acknowledged_by, auth.uid())
+    WHERE id = p_alert_id
+    RETURNING * INTO v_alert;
+
+    IF v_alert.id IS NULL THEN
+        RAISE EXCEPTION 'Stock alert not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_alert;
+END;
+$$;
+
+-- 4. Reorder Report
+CREATE OR REPLACE FUNCTION get_reorder_report(
+    p_sales_days integer DEFAULT 30,
+    p_cover_days integer DEFAULT 14
+)
+RETURNS TABLE (
+    product_id uuid,
+    name text,
+    current_stock integer,
+    low_stock_threshold integer,
+    units_sold integer,
+    daily_sales numeric,
+    days_of_stock numeric,
+    suggested_quantity integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_sales_days IS NULL OR p_sales_days < 1 OR p_cover_days IS NULL OR p_cover_days < 1 THEN
+        RAISE EXCEPTION 'Sales and cover periods must be at least 1 day' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN QUERY
+    WITH sales AS (
+        SELECT sm.product_id, -sum(sm.change_quantity)::integer AS units
+        FROM stock_movements sm
+        WHERE sm.reason = 'SALE'
+        AND sm.created_at >= now() - make_interval(days => p_sales_days)
+        GROUP BY sm.product_id
+    ),
+    rates AS (
+        SELECT
+            p.id,
+            p.name,
+            coalesce(p.current_stock, 0) AS stock,
+            coalesce(p.low_stock_threshold, 0) AS threshold,
+            coalesce(s.units, 0) AS units,
+            round(coalesce(s.units, 0)::numeric / p_sales_days, 2) AS rate
+        FROM products p
+        LEFT JOIN sales s ON s.product_id = p.id
+        WHERE p.is_active
+    ),
+    suggestions AS (
+        SELECT
+            r.*,
+            greatest(0, ceil(r.threshold + r.rate * p_cover_days - r.stock))::integer AS suggested
+        FROM rates r
+    )
+    SELECT
+        s.id,
+        s.name,
+        s.stock,
+        s.threshold,
+        s.units,
+        s.rate,
+        CASE WHEN s.rate > 0 THEN round(s.stock / s.rate, 1) END,
+        s.suggested
+    FROM suggestions s
+    WHERE s.stock <= s.threshold OR s.suggested > 0
+    ORDER BY s.stock <= s.threshold DESC, s.suggested DESC, s.name;
+END;
+$$;
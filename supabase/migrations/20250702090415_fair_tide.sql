@@ -0,0 +1,534 @@
+/*
+  # Refunds & Voids
+
+  Money is given back by recording a new, negative transaction that points at
+  the one it refunds. The original transaction is never changed, so the audit
+  trail shows both the sale and its refunds.
+
+  1. Schema
+    - `transactions.refund_of` - The transaction a refund entry gives money back for.
+      Refund entries have a negative amount, status REFUNDED, the type and
+      `related_id` of the original, and the shift the money was paid out on
+    - `refund_requests` - Every refund or void with its reason and approval
+      - `kind` - VOID cancels a whole transaction on a shift that is still open;
+        REFUND may be partial and is allowed at any time. A POS void returns
+        every item on the sale to stock, so sales split across several payments
+        can only be refunded
+      - `items` - POS products being returned, as `[{product_id, quantity}]`
+      - `status` - PENDING until an admin approves or rejects it
+    - Membership status CANCELLED for memberships whose sale was refunded in full
+    - Stock movement reason REFUND for products returned to stock
+
+  2. Functions
+    - `get_refundable_items(transaction_id)` - Products on a POS sale with the
+      quantities still available to return
+    - `request_refund(transaction_id, kind, amount, payment_method, items, reason, shift_id)` -
+      Staff only; requests from CS wait for approval, requests from admins are
+      carried out immediately on `shift_id`
+    - `approve_refund(request_id, shift_id)` - Admin only; pays the refund out on `shift_id`
+    - `reject_refund(request_id, note)` - Admin only
+
+  3. Carrying Out a Refund
+    - Returned POS items go back into stock
+    - Once a MEMBERSHIP transaction is refunded in full, its membership is
+      cancelled and queued renewals move forward
+    - Once a COUPON_SALE transaction is refunded in full, its coupon is deactivated
+
+  4. Membership Quotes
+    - `quote_membership` ignores cancelled memberships when deciding whether a
+      sale is a first sign-up and when the next membership starts
+*/
+
+-- 1. Schema
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refund_of uuid REFERENCES transactions(id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transactions_refund_of') THEN
+        CREATE INDEX idx_transactions_refund_of ON transactions(refund_of) WHERE refund_of IS NOT NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transactions_related_id') THEN
+        CREATE INDEX idx_transactions_related_id ON transactions(related_id);
+    END IF;
+END $$;
+
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_status_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_status_check
+    CHECK (status IN ('ACTIVE', 'FROZEN', 'EXPIRED', 'CANCELLED'));
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_reason_check
+    CHECK (reason IN ('SALE', 'RECEIVED', 'DAMAGE', 'WRITE_OFF', 'ADJUSTMENT', 'STOCKTAKE', 'OPENING_BALANCE', 'REFUND'));
+
+CREATE TABLE IF NOT EXISTS refund_requests (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id uuid NOT NULL REFERENCES transactions(id),
+    kind text NOT NULL CHECK (kind IN ('REFUND', 'VOID')),
+    amount numeric(10,2) NOT NULL CHECK (amount > 0),
+    payment_method text NOT NULL CHECK (payment_method IN ('CASH', 'CARD', 'BANK_TRANSFER', 'OTHER')),
+    items jsonb NOT NULL DEFAULT '[]'::jsonb,
+    reason text NOT NULL CHECK (length(trim(reason)) > 0),
+    status text NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+    requested_by uuid NOT NULL REFERENCES profiles(id),
+    requested_at timestamptz DEFAULT now(),
+    decided_by uuid REFERENCES profiles(id),
+    decided_at timestamptz,
+    decision_note text,
+    refund_transaction_id uuid REFERENCES transactions(id)
+);
+
+ALTER TABLE refund_requests ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_refund_requests_transaction_id') THEN
+        CREATE INDEX idx_refund_requests_transaction_id ON refund_requests(transaction_id);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_refund_requests_pending') THEN
+        CREATE INDEX idx_refund_requests_pending ON refund_requests(requested_at) WHERE status = 'PENDING';
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read refund requests" ON refund_requests;
+    CREATE POLICY "Staff can read refund requests"
+        ON refund_requests
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- 2. Refundable Items
+CREATE OR REPLACE FUNCTION get_refundable_items(p_transaction_id uuid)
+RETURNS TABLE (
+    product_id uuid,
+    name text,
+    unit_price numeric,
+    quantity_sold integer,
+    quantity_returned integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT related_id INTO v_sale_id
+    FROM transactions
+    WHERE id = p_transaction_id
+    AND type = 'POS_SALE';
+
+    RETURN QUERY
+    WITH returned AS (
+        SELECT sm.product_id, sum(sm.change_quantity)::integer AS quantity
+        FROM stock_movements sm
+        JOIN transactions refund ON refund.id = sm.transaction_id
+        JOIN transactions sale_payment ON sale_payment.id = refund.refund_of
+        WHERE sm.reason = 'REFUND'
+        AND sale_payment.type = 'POS_SALE'
+        AND sale_payment.related_id = v_sale_id
+        GROUP BY sm.product_id
+    )
+    SELECT i.product_id, p.name, i.unit_price, i.quantity, coalesce(r.quantity, 0)
+    FROM pos_sale_items i
+    JOIN products p ON p.id = i.product_id
+    LEFT JOIN returned r ON r.product_id = i.product_id
+    WHERE i.sale_id = v_sale_id
+    ORDER BY p.name;
+END;
+$$;
+
+-- 3. Carrying Out a Refund
+-- Internal: called once a request is approved; the original transaction is locked by the caller
+CREATE OR REPLACE FUNCTION execute_refund(p_request_id uuid, p_shift_id uuid)
+RETURNS refund_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request refund_requests%ROWTYPE;
+    v_original transactions%ROWTYPE;
+    v_refunded numeric(10,2);
+    v_refund_id uuid;
+    v_item record;
+    v_membership memberships%ROWTYPE;
+    v_new_end date;
+BEGIN
+    SELECT * INTO v_request FROM refund_requests WHERE id = p_request_id FOR UPDATE;
+    SELECT * INTO v_original FROM transactions WHERE id = v_request.transaction_id FOR UPDATE;
+
+    IF v_request.status <> 'PENDING' THEN
+        RAISE EXCEPTION 'This refund has already been %', lower(v_request.status) USING ERRCODE = '55000';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to pay out a refund' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT coalesce(-sum(amount), 0) INTO v_refunded FROM transactions WHERE refund_of = v_original.id;
+
+    IF v_request.amount > v_original.amount - v_refunded THEN
+        RAISE EXCEPTION 'Only % of this transaction is left to refund', v_original.amount - v_refunded
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF v_request.kind = 'VOID' AND (
+        v_refunded > 0
+        OR NOT EXISTS (SELECT 1 FROM shifts WHERE id = v_original.shift_id AND status = 'ACTIVE')
+    ) THEN
+        RAISE EXCEPTION 'Only an unrefunded transaction on an open shift can be voided; issue a refund instead'
+            USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO transactions (
+        shift_id, amount, payment_method, type, related_id, description, processed_by, status, refund_of
+    ) VALUES (
+        p_shift_id,
+        -v_request.amount,
+        v_request.payment_method,
+        v_original.type,
+        v_original.related_id,
+        initcap(v_request.kind) || ': ' || v_request.reason,
+        auth.uid(),
+        'REFUNDED',
+        v_original.id
+    )
+    RETURNING id INTO v_refund_id;
+
+    -- Returned products go back on the shelf
+    FOR v_item IN
+        SELECT i.product_id, i.quantity, r.quantity_sold, r.quantity_returned, r.name
+        FROM jsonb_to_recordset(v_request.items) AS i(product_id uuid, quantity integer)
+        LEFT JOIN get_refundable_items(v_original.id) r ON r.product_id = i.product_id
+    LOOP
+        IF v_item.quantity_sold IS NULL THEN
+            RAISE EXCEPTION 'A returned product was not part of this sale' USING ERRCODE = '22023';
+        END IF;
+
+        IF v_item.quantity > v_item.quantity_sold - v_item.quantity_returned THEN
+            RAISE EXCEPTION 'Only % of % can still be returned', v_item.quantity_sold - v_item.quantity_returned, v_item.name
+                USING ERRCODE = '22023';
+        END IF;
+
+        UPDATE products
+        SET current_stock = coalesce(current_stock, 0) + v_item.quantity
+        WHERE id = v_item.product_id;
+
+        INSERT INTO stock_movements (product_id, change_quantity, reason, transaction_id, notes, created_by)
+        VALUES (v_item.product_id, v_item.quantity, 'REFUND', v_refund_id, v_request.reason, auth.uid());
+    END LOOP;
+
+    -- A sale refunded in full no longer grants what it sold
+    IF v_refunded + v_request.amount = v_original.amount THEN
+        IF v_original.type = 'MEMBERSHIP' THEN
+            SELECT * INTO v_membership FROM memberships WHERE id = v_original.related_id FOR UPDATE;
+
+            IF v_membership.id IS NOT NULL AND v_membership.status <> 'CANCELLED' THEN
+                UPDATE membership_freezes
+                SET ended_at = now(), ended_by = auth.uid()
+                WHERE membership_id = v_membership.id
+                AND ended_at IS NULL;
+
+                v_new_end := greatest(v_membership.start_date, least(v_membership.end_date, CURRENT_DATE));
+
+                UPDATE memberships
+                SET status = 'CANCELLED',
+                    end_date = v_new_end
+                WHERE id = v_membership.id;
+
+                -- Renewals queued behind the cancelled membership start sooner
+                UPDATE memberships
+                SET start_date = start_date - (v_membership.end_date - v_new_end),
+                    end_date = end_date - (v_membership.end_date - v_new_end)
+                WHERE member_id = v_membership.member_id
+                AND id <> v_membership.id
+                AND status = 'ACTIVE'
+                AND start_date >= v_membership.end_date;
+
+                UPDATE members
+                SET is_active = EXISTS (
+                        SELECT 1 FROM memberships
+                        WHERE memberships.member_id = members.id
+                        AND memberships.status IN ('ACTIVE', 'FROZEN')
+                    ),
+                    updated_at = now()
+                WHERE id = v_membership.member_id;
+            END IF;
+        ELSIF v_original.type = 'COUPON_SALE' THEN
+            UPDATE sold_coupons SET is_active = false WHERE id = v_original.related_id;
+        END IF;
+    END IF;
+
+    UPDATE refund_requests
+    SET status = 'APPROVED',
+        decided_by = coalesce(decided_by, auth.uid()),
+        decided_at = coalesce(decided_at, now()),
+        refund_transaction_id = v_refund_id
+    WHERE id = v_request.id
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION execute_refund(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4. Requests and Approval
+CREATE OR REPLACE FUNCTION request_refund(
+    p_transaction_id uuid,
+    p_kind text,
+    p_amount numeric,
+    p_payment_method text,
+    p_items jsonb,
+    p_reason text,
+    p_shift_id uuid DEFAULT NULL
+)
+RETURNS refund_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role text;
+    v_original transactions%ROWTYPE;
+    v_committed numeric(10,2);
+    v_items jsonb := coalesce(p_items, '[]'::jsonb);
+    v_request refund_requests%ROWTYPE;
+BEGIN
+    SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+    IF v_role IS NULL OR v_role NOT IN ('ADMIN', 'CS') THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF nullif(trim(coalesce(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_original FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF v_original.id IS NULL THEN
+        RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_original.refund_of IS NOT NULL OR v_original.amount <= 0 OR v_original.status <> 'PAID' THEN
+        RAISE EXCEPTION 'Only paid sales can be refunded' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_items IS NOT NULL AND jsonb_array_length(p_items) > 0 AND v_original.type <> 'POS_SALE' THEN
+        RAISE EXCEPTION 'Only POS sales have items to return' USING ERRCODE = '22023';
+    END IF;
+
+    -- Pending requests count too, so two requests cannot refund the same money
+    SELECT coalesce(-sum(amount), 0) INTO v_committed FROM transactions WHERE refund_of = v_original.id;
+    v_committed := v_committed + coalesce((
+        SELECT sum(amount) FROM refund_requests
+        WHERE transaction_id = v_original.id
+        AND status = 'PENDING'
+    ), 0);
+
+    IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_original.amount - v_committed THEN
+        RAISE EXCEPTION 'The refund must be more than zero and at most %', v_original.amount - v_committed
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_kind = 'VOID' AND p_amount <> v_original.amount THEN
+        RAISE EXCEPTION 'A void cancels the whole transaction; use a refund for part of it' USING ERRCODE = '22023';
+    END IF;
+
+    -- A void takes back the whole sale, so it cannot cancel just one payment of a split sale
+    IF p_kind = 'VOID' AND v_original.type = 'POS_SALE' THEN
+        IF EXISTS (
+            SELECT 1 FROM transactions
+            WHERE type = 'POS_SALE'
+            AND related_id = v_original.related_id
+            AND refund_of IS NULL
+            AND id <> v_original.id
+        ) THEN
+            RAISE EXCEPTION 'This sale was paid in more than one payment; refund each payment instead'
+                USING ERRCODE = '55000';
+        END IF;
+
+        SELECT coalesce(jsonb_agg(jsonb_build_object(
+                'product_id', r.product_id,
+                'quantity', r.quantity_sold - r.quantity_returned
+            )), '[]'::jsonb)
+        INTO v_items
+        FROM get_refundable_items(v_original.id) r
+        WHERE r.quantity_sold > r.quantity_returned;
+    END IF;
+
+    INSERT INTO refund_requests (
+        transaction_id, kind, amount, payment_method, items, reason, requested_by
+    ) VALUES (
+        v_original.id,
+        p_kind,
+        p_amount,
+        p_payment_method,
+        v_items,
+        trim(p_reason),
+        auth.uid()
+    )
+    RETURNING * INTO v_request;
+
+    IF v_role = 'ADMIN' THEN
+        v_request := execute_refund(v_request.id, p_shift_id);
+    END IF;
+
+    RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_refund(p_request_id uuid, p_shift_id uuid)
+RETURNS refund_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM refund_requests WHERE id = p_request_id) THEN
+        RAISE EXCEPTION 'Refund request not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN execute_refund(p_request_id, p_shift_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_refund(p_request_id uuid, p_note text DEFAULT NULL)
+RETURNS refund_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request refund_requests%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE refund_requests
+    SET status = 'REJECTED',
+        decided_by = auth.uid(),
+        decided_at = now(),
+        decision_note = nullif(trim(p_note), '')
+    WHERE id = p_request_id
+    AND status = 'PENDING'
+    RETURNING * INTO v_request;
+
+    IF v_request.id IS NULL THEN
+        RAISE EXCEPTION 'No pending refund request found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_request;
+END;
+$$;
+
+-- 5. Membership Quotes
+-- A cancelled membership does not count, so a member whose only sale was refunded signs up afresh
+CREATE OR REPLACE FUNCTION quote_membership(p_member_id uuid, p_plan_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan membership_plans%ROWTYPE;
+    v_is_first boolean;
+    v_current_end date;
+    v_start date;
+    v_free_months integer;
+    v_registration_fee numeric(10,2) := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_plan.is_active OR v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This membership plan is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    v_is_first := NOT EXISTS (
+        SELECT 1 FROM memberships
+        WHERE member_id = p_member_id
+        AND status <> 'CANCELLED'
+    );
+
+    SELECT max(end_date) INTO v_current_end
+    FROM memberships
+    WHERE member_id = p_member_id
+    AND status <> 'CANCELLED';
+
+    v_start := CASE
+        WHEN v_current_end IS NOT NULL AND v_current_end >= CURRENT_DATE THEN v_current_end
+        ELSE CURRENT_DATE
+    END;
+
+    v_free_months := CASE WHEN v_is_first THEN coalesce(v_plan.free_months_on_signup, 0) ELSE 0 END;
+
+    IF v_is_first AND coalesce(v_plan.has_registration_fee, false) THEN
+        SELECT coalesce(nullif(value, '')::numeric, 0) INTO v_registration_fee
+        FROM system_settings
+        WHERE key = 'registration_fee_default';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'plan_id', v_plan.id,
+        'is_renewal', NOT v_is_first,
+        'start_date', v_start,
+        'end_date', (v_start + make_interval(months => v_plan.duration_months + v_free_months))::date,
+        'free_months', v_free_months,
+        'price', v_plan.price,
+        'registration_fee', coalesce(v_registration_fee, 0),
+        'total', v_plan.price + coalesce(v_registration_fee, 0)
+    );
+END;
+$$;
+
@@ -0,0 +1,350 @@
+/*
+  # Member Accounts & Outstanding Balances
+
+  A transaction with status OUTSTANDING is a charge a member has not paid yet.
+  Payments against it are recorded as their own PAID transactions on the shift
+  that takes the money, so revenue and shift cash only count money received.
+  The charge itself is never changed; what is still owed is the charge less
+  everything paid against it (net of any refunds of those payments).
+
+  1. Schema
+    - `transactions.payment_for` - The outstanding charge a payment settles
+    - Settings
+      - `debt_overdue_days` - Age after which an unpaid charge is overdue
+      - `debt_checkin_threshold` - Overdue balance above which check-in reacts
+      - `debt_checkin_action` - WARN shows a warning at check-in, BLOCK refuses entry
+
+  2. Functions
+    - `charge_to_account(member_id, amount, description, shift_id)` - Staff only;
+      records an OUTSTANDING charge on a member's account
+    - `pay_outstanding(transaction_id, amount, payment_method, shift_id)` - Staff
+      only; takes a full or partial payment against a charge
+    - `get_outstanding_charges(member_id)` - Charges with money still owed, with
+      what has been paid and their age in days; every member when `member_id` is null
+    - `get_aged_debt(member_id)` - Per member balance split into 0-30, 31-60 and
+      60+ day buckets, plus the overdue part
+
+  3. Check-in
+    - When `debt_checkin_action` is BLOCK, a trigger on `check_ins` refuses
+      entry to a member whose overdue balance is above `debt_checkin_threshold`,
+      whichever way the check-in is recorded
+
+  4. Notes
+    - A charge belongs to a member through `related_id`, the same way the
+      member's other transactions do: the member for walk-ins and account
+      charges, the membership for membership sales and the coupon for coupon sales
+*/
+
+-- 1. Schema
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payment_for uuid REFERENCES transactions(id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transactions_payment_for') THEN
+        CREATE INDEX idx_transactions_payment_for ON transactions(payment_for) WHERE payment_for IS NOT NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transactions_outstanding') THEN
+        CREATE INDEX idx_transactions_outstanding ON transactions(created_at) WHERE status = 'OUTSTANDING';
+    END IF;
+END $$;
+
+INSERT INTO system_settings (key, value, description) VALUES
+    ('debt_overdue_days', '30', 'Days after which an unpaid charge counts as overdue'),
+    ('debt_checkin_threshold', '50.00', 'Overdue balance above which check-in warns or blocks entry'),
+    ('debt_checkin_action', 'WARN', 'What check-in does for members over the overdue threshold (WARN or BLOCK)')
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Working Out Who Owes What
+-- Internal: the member a transaction belongs to, following related_id by transaction type
+CREATE OR REPLACE FUNCTION transaction_member_id(p_type text, p_related_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_type IN ('WALK_IN', 'OTHER') THEN
+            (SELECT id FROM members WHERE id = p_related_id)
+        WHEN p_type IN ('MEMBERSHIP', 'REGISTRATION_FEE') THEN
+            (SELECT member_id FROM memberships WHERE id = p_related_id)
+        WHEN p_type = 'COUPON_SALE' THEN
+            (SELECT member_id FROM sold_coupons WHERE id = p_related_id)
+    END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION transaction_member_id(text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_outstanding_charges(p_member_id uuid DEFAULT NULL)
+RETURNS TABLE (
+    transaction_id uuid,
+    member_id uuid,
+    created_at timestamptz,
+    type text,
+    description text,
+    amount numeric,
+    amount_paid numeric,
+    balance numeric,
+    age_days integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    WITH charges AS (
+        SELECT
+            t.id,
+            transaction_member_id(t.type, t.related_id) AS member_id,
+            t.created_at,
+            t.type,
+            t.description,
+            t.amount,
+            -- Payments, less any refunds of those payments
+            coalesce((
+                SELECT sum(p.amount)
+                FROM transactions p
+                WHERE p.payment_for = t.id
+                OR p.refund_of IN (SELECT id FROM transactions WHERE payment_for = t.id)
+            ), 0) AS paid
+        FROM transactions t
+        WHERE t.status = 'OUTSTANDING'
+    )
+    SELECT
+        c.id,
+        c.member_id,
+        c.created_at,
+        c.type,
+        c.description,
+        c.amount,
+        c.paid,
+        c.amount - c.paid,
+        (CURRENT_DATE - c.created_at::date)::integer
+    FROM charges c
+    WHERE c.amount - c.paid > 0
+    AND (p_member_id IS NULL OR c.member_id = p_member_id)
+    ORDER BY c.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_aged_debt(p_member_id uuid DEFAULT NULL)
+RETURNS TABLE (
+    member_id uuid,
+    member_id_string text,
+    full_name text,
+    phone_number text,
+    days_0_30 numeric,
+    days_31_60 numeric,
+    days_over_60 numeric,
+    total numeric,
+    overdue numeric,
+    oldest_charge_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_overdue_days integer;
+BEGIN
+    SELECT coalesce(nullif(value, '')::integer, 30) INTO v_overdue_days
+    FROM system_settings
+    WHERE key = 'debt_overdue_days';
+
+    v_overdue_days := coalesce(v_overdue_days, 30);
+
+    RETURN QUERY
+    SELECT
+        m.id,
+        m.member_id_string,
+        m.full_name,
+        m.phone_number,
+        coalesce(sum(c.balance) FILTER (WHERE c.age_days <= 30), 0),
+        coalesce(sum(c.balance) FILTER (WHERE c.age_days BETWEEN 31 AND 60), 0),
+        coalesce(sum(c.balance) FILTER (WHERE c.age_days > 60), 0),
+        sum(c.balance),
+        coalesce(sum(c.balance) FILTER (WHERE c.age_days > v_overdue_days), 0),
+        min(c.created_at)
+    FROM get_outstanding_charges(p_member_id) c
+    JOIN members m ON m.id = c.member_id
+    GROUP BY m.id, m.member_id_string, m.full_name, m.phone_number
+    ORDER BY sum(c.balance) FILTER (WHERE c.age_days > 60) DESC NULLS LAST, sum(c.balance) DESC;
+END;
+$$;
+
+-- 3. Charges and Payments
+CREATE OR REPLACE FUNCTION charge_to_account(
+    p_member_id uuid,
+    p_amount numeric,
+    p_description text,
+    p_shift_id uuid
+)
+RETURNS transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to charge an account' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'The charge must be more than zero' USING ERRCODE = '22023';
+    END IF;
+
+    IF nullif(trim(coalesce(p_description, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Describe what the charge is for' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO transactions (
+        shift_id, amount, payment_method, type, related_id, description, processed_by, status
+    ) VALUES (
+        p_shift_id,
+        round(p_amount, 2),
+        'OTHER',
+        'OTHER',
+        p_member_id,
+        trim(p_description),
+        auth.uid(),
+        'OUTSTANDING'
+    )
+    RETURNING * INTO v_transaction;
+
+    RETURN v_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pay_outstanding(
+    p_transaction_id uuid,
+    p_amount numeric,
+    p_payment_method text,
+    p_shift_id uuid
+)
+RETURNS transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_charge transactions%ROWTYPE;
+    v_balance numeric(10,2);
+    v_payment transactions%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to take a payment' USING ERRCODE = '55000';
+    END IF;
+
+    -- Serialise payments against the same charge so it cannot be overpaid
+    SELECT * INTO v_charge FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF v_charge.id IS NULL OR v_charge.status <> 'OUTSTANDING' THEN
+        RAISE EXCEPTION 'Outstanding charge not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT c.balance INTO v_balance
+    FROM get_outstanding_charges(NULL) c
+    WHERE c.transaction_id = v_charge.id;
+
+    IF v_balance IS NULL THEN
+        RAISE EXCEPTION 'This charge has already been paid' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_balance THEN
+        RAISE EXCEPTION 'The payment must be more than zero and at most %', v_balance USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO transactions (
+        shift_id, amount, payment_method, type, related_id, description, processed_by, status, payment_for
+    ) VALUES (
+        p_shift_id,
+        round(p_amount, 2),
+        p_payment_method,
+        v_charge.type,
+        v_charge.related_id,
+        'Payment: ' || coalesce(v_charge.description, replace(v_charge.type, '_', ' ')),
+        auth.uid(),
+        'PAID',
+        v_charge.id
+    )
+    RETURNING * INTO v_payment;
+
+    RETURN v_payment;
+END;
+$$;
+
+-- 4. Check-in
+CREATE OR REPLACE FUNCTION reject_indebted_check_in()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_action text;
+    v_threshold numeric;
+    v_overdue numeric;
+BEGIN
+    IF NEW.member_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT value INTO v_action FROM system_settings WHERE key = 'debt_checkin_action';
+
+    IF coalesce(v_action, 'WARN') <> 'BLOCK' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT coalesce(nullif(value, '')::numeric, 50) INTO v_threshold
+    FROM system_settings
+    WHERE key = 'debt_checkin_threshold';
+
+    SELECT d.overdue INTO v_overdue FROM get_aged_debt(NEW.member_id) d;
+
+    IF coalesce(v_overdue, 0) > coalesce(v_threshold, 50) THEN
+        RAISE EXCEPTION 'Member has % overdue; take a payment before checking in', v_overdue
+            USING ERRCODE = '55000';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS reject_indebted_check_in ON check_ins;
+    CREATE TRIGGER reject_indebted_check_in
+        BEFORE INSERT ON check_ins
+        FOR EACH ROW
+        EXECUTE FUNCTION reject_indebted_check_in();
+END $$;
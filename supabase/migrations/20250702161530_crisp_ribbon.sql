@@ -0,0 +1,148 @@
+/*
+  # Receipts
+
+  Receipts are put together on the server so staff can print or reprint any
+  transaction, including the name of whoever processed it, without being able
+  to read other staff profiles.
+
+  1. Functions
+    - `get_receipt(transaction_id)` - Staff only; returns the transaction with
+      everything printed on its receipt:
+      - `staff_name` - Full name of `processed_by`
+      - `member_name` - The member the transaction belongs to, when there is one
+      - `lines` - `[{description, quantity, unit_price, amount}]`
+      - `payments` - `[{payment_method, amount}]`; a POS sale paid in several
+        ways lists every payment, whichever of its transactions is printed
+      - `total`
+
+  2. What Is Printed
+    - POS sales list the products sold
+    - Membership sales list the plan with its dates, plus the registration fee
+      charged in the same sale
+    - Coupon sales list the coupon with its code and expiry date
+    - Anything else, including refunds and account payments, prints its description
+*/
+
+CREATE OR REPLACE FUNCTION get_receipt(p_transaction_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_lines jsonb;
+    v_payments jsonb;
+    v_total numeric(10,2);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+    IF v_transaction.id IS NULL THEN
+        RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+        'payment_method', v_transaction.payment_method,
+        'amount', v_transaction.amount
+    ));
+    v_total := v_transaction.amount;
+
+    IF v_transaction.refund_of IS NULL AND v_transaction.payment_for IS NULL THEN
+        IF v_transaction.type = 'POS_SALE' THEN
+            SELECT jsonb_agg(jsonb_build_object(
+                    'description', p.name,
+                    'quantity', i.quantity,
+                    'unit_price', i.unit_price,
+                    'amount', i.line_total
+                ) ORDER BY p.name)
+            INTO v_lines
+            FROM pos_sale_items i
+            JOIN products p ON p.id = i.product_id
+            WHERE i.sale_id = v_transaction.related_id;
+
+            SELECT jsonb_agg(jsonb_build_object('payment_method', t.payment_method, 'amount', t.amount) ORDER BY t.created_at, t.id),
+                   sum(t.amount)
+            INTO v_payments, v_total
+            FROM transactions t
+            WHERE t.type = 'POS_SALE'
+            AND t.related_id = v_transaction.related_id
+            AND t.refund_of IS NULL;
+        ELSIF v_transaction.type IN ('MEMBERSHIP', 'REGISTRATION_FEE') THEN
+            -- sell_membership writes the plan and the registration fee in one statement, so they share created_at
+            SELECT jsonb_agg(jsonb_build_object(
+                    'description', CASE
+                        WHEN t.type = 'MEMBERSHIP' THEN
+                            coalesce(mp.name, 'Membership') || ' membership ' ||
+                            to_char(m.start_date, 'DD Mon YYYY') || ' - ' || to_char(m.end_date, 'DD Mon YYYY')
+                        ELSE coalesce(t.description, 'Registration fee')
+                    END,
+                    'quantity', 1,
+                    'unit_price', t.amount,
+                    'amount', t.amount
+                ) ORDER BY t.type),
+                sum(t.amount)
+            INTO v_lines, v_total
+            FROM transactions t
+            LEFT JOIN memberships m ON m.id = t.related_id
+            LEFT JOIN membership_plans mp ON mp.id = m.plan_id
+            WHERE t.related_id = v_transaction.related_id
+            AND t.type IN ('MEMBERSHIP', 'REGISTRATION_FEE')
+            AND t.created_at = v_transaction.created_at
+            AND t.refund_of IS NULL
+            AND t.payment_for IS NULL;
+
+            -- Both are paid the same way, so they print as one payment
+            v_payments := jsonb_build_array(jsonb_build_object(
+                'payment_method', v_transaction.payment_method,
+                'amount', v_total
+            ));
+        ELSIF v_transaction.type = 'COUPON_SALE' THEN
+            SELECT jsonb_build_array(jsonb_build_object(
+                    'description', coalesce(ct.name, 'Coupon') || ' ' || sc.code ||
+                        ' (valid until ' || to_char(sc.expiry_date, 'DD Mon YYYY') || ')',
+                    'quantity', 1,
+                    'unit_price', v_transaction.amount,
+                    'amount', v_transaction.amount
+                ))
+            INTO v_lines
+            FROM sold_coupons sc
+            LEFT JOIN coupon_templates ct ON ct.id = sc.template_id
+            WHERE sc.id = v_transaction.related_id;
+        END IF;
+    END IF;
+
+    IF v_lines IS NULL THEN
+        v_lines := jsonb_build_array(jsonb_build_object(
+            'description', coalesce(v_transaction.description, replace(v_transaction.type, '_', ' ')),
+            'quantity', 1,
+            'unit_price', v_transaction.amount,
+            'amount', v_transaction.amount
+        ));
+    END IF;
+
+    RETURN jsonb_build_object(
+        'transaction_id', v_transaction.id,
+        'created_at', v_transaction.created_at,
+        'type', v_transaction.type,
+        'status', v_transaction.status,
+        'refund_of', v_transaction.refund_of,
+        'staff_name', (SELECT full_name FROM profiles WHERE id = v_transaction.processed_by),
+        'member_name', (
+            SELECT full_name FROM members
+            WHERE id = transaction_member_id(v_transaction.type, v_transaction.related_id)
+        ),
+        'lines', v_lines,
+        'payments', v_payments,
+        'total', v_total
+    );
+END;
+$$;
@@ -0,0 +1,1006 @@
+/*
+  # Tax Rates & Tax Lines
+
+  Products, membership plans and coupon templates can each be given a tax rate.
+  Admins choose whether their prices already include tax or have it added at
+  the till. Every taxed transaction records how much of its amount was tax, by
+  rate, so tax can be reported without recalculating old sales.
+
+  1. Schema
+    - `tax_rates` - Named percentage rates, e.g. "VAT 20%"; staff can read,
+      admins manage them
+    - `products.tax_rate_id`, `membership_plans.tax_rate_id`,
+      `coupon_templates.tax_rate_id` - The rate charged on each; null is untaxed
+    - `pos_sale_items.tax_rate_id`, `pos_sale_items.tax_amount` - The tax on each
+      sold line; `line_total` is now the amount paid for the line, tax included
+    - `transaction_taxes` - Tax lines per transaction, keeping the rate's name
+      and percentage as they were at the time of sale
+    - Setting `prices_include_tax` - 'true' when prices are entered with tax
+      included, 'false' when tax is added on top at the time of sale
+
+  2. Pricing
+    - `pos_checkout`, `quote_membership`, `quote_membership_change` and
+      `sell_coupon` charge prices with tax added when prices exclude tax
+    - `quote_membership` also returns the `tax` included in its total
+    - The registration fee is taxed at the rate of the plan it is sold with
+    - Walk-ins and account charges are not taxed
+
+  3. Recording Tax
+    - Tax lines are written by a trigger as each transaction is inserted:
+      - POS sales get one line per rate on the sale's first transaction, the
+        same transaction its stock movements point at
+      - Membership, registration fee and coupon sales get a line for their
+        plan's or template's rate, including the credit from a plan change
+      - Refunds get the original's lines scaled to the amount refunded, negated.
+        Each line's tax is scaled and its net is the rest of its share, so the
+        lines add up to the refund
+      - Account payments get none; account charges are not taxed
+    - Tax is always worked out from the amount paid, tax included, so the tax
+      line matches to the cent whichever way prices are entered
+
+  4. Functions
+    - `get_tax_summary(from, to)` - Staff only; net, tax and gross per rate for
+      the money taken between the two times, refunds included
+    - `get_refundable_items` returns the price paid per unit, tax included
+    - `get_receipt` also returns the receipt's `taxes`
+    - `save_membership_plan` takes the plan's `tax_rate_id`; changing it applies
+      to future sales without creating a new plan version
+*/
+
+-- 1. Schema
+CREATE TABLE IF NOT EXISTS tax_rates (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    rate numeric(5,2) NOT NULL CHECK (rate >= 0 AND rate < 100),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS update_tax_rates_updated_at ON tax_rates;
+    CREATE TRIGGER update_tax_rates_updated_at
+        BEFORE UPDATE ON tax_rates
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+END $$;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL;
+ALTER TABLE membership_plans ADD COLUMN IF NOT EXISTS tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL;
+ALTER TABLE coupon_templates ADD COLUMN IF NOT EXISTS tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL;
+
+ALTER TABLE pos_sale_items ADD COLUMN IF NOT EXISTS tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL;
+ALTER TABLE pos_sale_items ADD COLUMN IF NOT EXISTS tax_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS transaction_taxes (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL,
+    tax_name text NOT NULL,
+    rate numeric(5,2) NOT NULL,
+    net_amount numeric(10,2) NOT NULL,
+    tax_amount numeric(10,2) NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transaction_taxes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transaction_taxes_transaction_id') THEN
+        CREATE INDEX idx_transaction_taxes_transaction_id ON transaction_taxes(transaction_id);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read tax rates" ON tax_rates;
+    CREATE POLICY "Staff can read tax rates"
+        ON tax_rates
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Admins can manage tax rates" ON tax_rates;
+    CREATE POLICY "Admins can manage tax rates"
+        ON tax_rates
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read transaction taxes" ON transaction_taxes;
+    CREATE POLICY "Staff can read transaction taxes"
+        ON transaction_taxes
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+INSERT INTO system_settings (key, value, description) VALUES
+    ('prices_include_tax', 'true', 'Whether prices already include tax (true) or have it added at the time of sale (false)')
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Pricing
+-- Internal: what is charged for a price, adding the tax when prices are entered without it
+CREATE OR REPLACE FUNCTION price_with_tax(p_price numeric, p_tax_rate_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN r.rate IS NULL OR coalesce(s.value, 'true') <> 'false' THEN p_price
+        ELSE p_price + round(p_price * r.rate / 100, 2)
+    END
+    FROM (SELECT 1) one
+    LEFT JOIN tax_rates r ON r.id = p_tax_rate_id
+    LEFT JOIN system_settings s ON s.key = 'prices_include_tax';
+$$;
+
+REVOKE EXECUTE ON FUNCTION price_with_tax(numeric, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Internal: the tax contained in an amount paid at the given rate; null when there is no rate
+CREATE OR REPLACE FUNCTION included_tax(p_amount numeric, p_rate numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT round(p_amount * p_rate / (100 + p_rate), 2);
+$$;
+
+REVOKE EXECUTE ON FUNCTION included_tax(numeric, numeric) FROM PUBLIC, anon, authenticated;
+
+-- 3. Recording Tax
+CREATE OR REPLACE FUNCTION record_transaction_taxes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_original transactions%ROWTYPE;
+    v_base_total numeric;
+    v_tax_rate_id uuid;
+BEGIN
+    IF NEW.payment_for IS NOT NULL OR NEW.amount = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.refund_of IS NOT NULL THEN
+        SELECT * INTO v_original FROM transactions WHERE id = NEW.refund_of;
+
+        IF v_original.type = 'POS_SALE' THEN
+            SELECT total INTO v_base_total FROM pos_sales WHERE id = v_original.related_id;
+        ELSE
+            v_base_total := v_original.amount;
+        END IF;
+
+        -- Each rate gets its share of the refund and the tax in that share. When the whole sale was
+        -- taxed the largest share takes the rounding, so the lines add up to the refund exactly
+        INSERT INTO transaction_taxes (transaction_id, tax_rate_id, tax_name, rate, net_amount, tax_amount)
+        WITH lines AS (
+            SELECT tt.tax_rate_id, tt.tax_name, tt.rate,
+                   sum(tt.net_amount + tt.tax_amount) AS gross,
+                   sum(tt.tax_amount) AS tax
+            FROM transaction_taxes tt
+            JOIN transactions t ON t.id = tt.transaction_id
+            -- A POS sale's tax lines cover every payment made for it
+            WHERE CASE
+                WHEN v_original.type = 'POS_SALE' THEN
+                    t.type = 'POS_SALE' AND t.related_id = v_original.related_id AND t.refund_of IS NULL
+                ELSE t.id = v_original.id
+            END
+            GROUP BY tt.tax_rate_id, tt.tax_name, tt.rate
+        ),
+        shares AS (
+            SELECT lines.*,
+                   round(gross * NEW.amount / v_base_total, 2) AS share,
+                   round(tax * NEW.amount / v_base_total, 2) AS share_tax,
+                   row_number() OVER (ORDER BY gross DESC, tax_rate_id) AS position,
+                   sum(gross) OVER () AS taxed_total
+            FROM lines
+        ),
+        adjusted AS (
+            SELECT shares.*,
+                   CASE
+                       WHEN position = 1 AND taxed_total = v_base_total THEN NEW.amount - (sum(share) OVER () - share)
+                       ELSE share
+                   END AS share_gross
+            FROM shares
+        )
+        SELECT NEW.id, tax_rate_id, tax_name, rate, share_gross - share_tax, share_tax
+        FROM adjusted;
+
+        RETURN NEW;
+    END IF;
+
+    IF NEW.type = 'POS_SALE' THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM transaction_taxes tt
+            JOIN transactions t ON t.id = tt.transaction_id
+            WHERE t.type = 'POS_SALE'
+            AND t.related_id = NEW.related_id
+        ) THEN
+            INSERT INTO transaction_taxes (transaction_id, tax_rate_id, tax_name, rate, net_amount, tax_amount)
+            SELECT NEW.id, r.id, r.name, r.rate, sum(i.line_total - i.tax_amount), sum(i.tax_amount)
+            FROM pos_sale_items i
+            JOIN tax_rates r ON r.id = i.tax_rate_id
+            WHERE i.sale_id = NEW.related_id
+            GROUP BY r.id, r.name, r.rate;
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    v_tax_rate_id := CASE
+        WHEN NEW.type IN ('MEMBERSHIP', 'REGISTRATION_FEE') THEN (
+            SELECT mp.tax_rate_id
+            FROM memberships m
+            JOIN membership_plans mp ON mp.id = m.plan_id
+            WHERE m.id = NEW.related_id
+        )
+        WHEN NEW.type = 'COUPON_SALE' THEN (
+            SELECT ct.tax_rate_id
+            FROM sold_coupons sc
+            JOIN coupon_templates ct ON ct.id = sc.template_id
+            WHERE sc.id = NEW.related_id
+        )
+    END;
+
+    INSERT INTO transaction_taxes (transaction_id, tax_rate_id, tax_name, rate, net_amount, tax_amount)
+    SELECT NEW.id, r.id, r.name, r.rate, NEW.amount - included_tax(NEW.amount, r.rate), included_tax(NEW.amount, r.rate)
+    FROM tax_rates r
+    WHERE r.id = v_tax_rate_id;
+
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_transaction_taxes() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS record_transaction_taxes ON transactions;
+    CREATE TRIGGER record_transaction_taxes
+        AFTER INSERT ON transactions
+        FOR EACH ROW
+        EXECUTE FUNCTION record_transaction_taxes();
+END $$;
+
+-- 4. Reporting
+CREATE OR REPLACE FUNCTION get_tax_summary(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+    tax_name text,
+    rate numeric,
+    net_amount numeric,
+    tax_amount numeric,
+    gross_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT tt.tax_name, tt.rate, sum(tt.net_amount), sum(tt.tax_amount), sum(tt.net_amount + tt.tax_amount)
+    FROM transaction_taxes tt
+    JOIN transactions t ON t.id = tt.transaction_id
+    WHERE t.created_at >= p_from
+    AND t.created_at < p_to
+    AND t.status <> 'OUTSTANDING'
+    GROUP BY tt.tax_name, tt.rate
+    ORDER BY tt.rate DESC, tt.tax_name;
+END;
+$$;
+
+-- 5. Charging Tax at the Time of Sale
+CREATE OR REPLACE FUNCTION pos_checkout(
+    p_shift_id uuid,
+    p_items jsonb,
+    p_payments jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_items jsonb;
+    v_total numeric(10,2) := 0;
+    v_paid numeric(10,2) := 0;
+    v_item record;
+    v_payment record;
+    v_transaction_id uuid;
+    v_transaction_ids uuid[] := ARRAY[]::uuid[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to make a sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'The cart is empty' USING ERRCODE = '22023';
+    END IF;
+
+    IF jsonb_typeof(p_payments) IS DISTINCT FROM 'array' OR jsonb_array_length(p_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required' USING ERRCODE = '22023';
+    END IF;
+
+    -- The same product may appear on several cart lines
+    SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity))
+    INTO v_items
+    FROM (
+        SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(p_items) AS item
+        GROUP BY 1
+    ) grouped;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+        WHERE i.product_id IS NULL OR i.quantity IS NULL OR i.quantity <= 0
+    ) THEN
+        RAISE EXCEPTION 'Every cart line needs a product and a quantity of at least 1' USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock in a fixed order so two tills selling the same products cannot deadlock
+    PERFORM 1 FROM products
+    WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer))
+    ORDER BY id
+    FOR UPDATE;
+
+    FOR v_item IN
+        SELECT i.product_id, i.quantity, p.name, p.price, p.tax_rate_id, p.is_active, coalesce(p.current_stock, 0) AS current_stock
+        FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+        LEFT JOIN products p ON p.id = i.product_id
+    LOOP
+        IF v_item.name IS NULL THEN
+            RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        IF NOT v_item.is_active THEN
+            RAISE EXCEPTION '% is no longer on sale', v_item.name USING ERRCODE = '55000';
+        END IF;
+
+        IF v_item.current_stock < v_item.quantity THEN
+            RAISE EXCEPTION 'Only % of % left in stock', v_item.current_stock, v_item.name USING ERRCODE = '55000';
+        END IF;
+
+        v_total := v_total + price_with_tax(v_item.price * v_item.quantity, v_item.tax_rate_id);
+    END LOOP;
+
+    FOR v_payment IN
+        SELECT payment->>'payment_method' AS payment_method, (payment->>'amount')::numeric(10,2) AS amount
+        FROM jsonb_array_elements(p_payments) AS payment
+    LOOP
+        IF v_payment.amount IS NULL OR v_payment.amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero' USING ERRCODE = '22023';
+        END IF;
+
+        v_paid := v_paid + v_payment.amount;
+    END LOOP;
+
+    IF v_paid <> v_total THEN
+        RAISE EXCEPTION 'Payments of % do not match the sale total of %', v_paid, v_total USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO pos_sales (shift_id, total, processed_by)
+    VALUES (p_shift_id, v_total, auth.uid())
+    RETURNING id INTO v_sale_id;
+
+    INSERT INTO pos_sale_items (sale_id, product_id, quantity, unit_price, line_total, tax_rate_id, tax_amount)
+    SELECT v_sale_id, i.product_id, i.quantity, p.price, priced.line_total, r.id,
+           coalesce(included_tax(priced.line_total, r.rate), 0)
+    FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+    JOIN products p ON p.id = i.product_id
+    LEFT JOIN tax_rates r ON r.id = p.tax_rate_id
+    CROSS JOIN LATERAL (SELECT price_with_tax(p.price * i.quantity, p.tax_rate_id) AS line_total) priced;
+
+    FOR v_payment IN
+        SELECT payment->>'payment_method' AS payment_method, (payment->>'amount')::numeric(10,2) AS amount
+        FROM jsonb_array_elements(p_payments) WITH ORDINALITY AS payments(payment, position)
+        ORDER BY position
+    LOOP
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            v_payment.amount,
+            v_payment.payment_method,
+            'POS_SALE',
+            v_sale_id,
+            'POS sale',
+            auth.uid()
+        )
+        RETURNING id INTO v_transaction_id;
+
+        v_transaction_ids := v_transaction_ids || v_transaction_id;
+    END LOOP;
+
+    UPDATE products p
+    SET current_stock = coalesce(p.current_stock, 0) - i.quantity
+    FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer)
+    WHERE p.id = i.product_id;
+
+    INSERT INTO stock_movements (product_id, change_quantity, reason, transaction_id, created_by)
+    SELECT product_id, -quantity, 'SALE', v_transaction_ids[1], auth.uid()
+    FROM jsonb_to_recordset(v_items) AS i(product_id uuid, quantity integer);
+
+    RETURN jsonb_build_object(
+        'sale_id', v_sale_id,
+        'total', v_total,
+        'transaction_ids', to_jsonb(v_transaction_ids)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION quote_membership(p_member_id uuid, p_plan_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan membership_plans%ROWTYPE;
+    v_is_first boolean;
+    v_current_end date;
+    v_start date;
+    v_free_months integer;
+    v_registration_fee numeric(10,2) := 0;
+    v_price numeric(10,2);
+    v_rate numeric;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_plan.is_active OR v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This membership plan is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    v_is_first := NOT EXISTS (
+        SELECT 1 FROM memberships
+        WHERE member_id = p_member_id
+        AND status <> 'CANCELLED'
+    );
+
+    SELECT max(end_date) INTO v_current_end
+    FROM memberships
+    WHERE member_id = p_member_id
+    AND status <> 'CANCELLED';
+
+    v_start := CASE
+        WHEN v_current_end IS NOT NULL AND v_current_end >= CURRENT_DATE THEN v_current_end
+        ELSE CURRENT_DATE
+    END;
+
+    v_free_months := CASE WHEN v_is_first THEN coalesce(v_plan.free_months_on_signup, 0) ELSE 0 END;
+
+    IF v_is_first AND coalesce(v_plan.has_registration_fee, false) THEN
+        SELECT coalesce(nullif(value, '')::numeric, 0) INTO v_registration_fee
+        FROM system_settings
+        WHERE key = 'registration_fee_default';
+    END IF;
+
+    v_price := price_with_tax(v_plan.price, v_plan.tax_rate_id);
+    v_registration_fee := price_with_tax(coalesce(v_registration_fee, 0), v_plan.tax_rate_id);
+    SELECT rate INTO v_rate FROM tax_rates WHERE id = v_plan.tax_rate_id;
+
+    RETURN jsonb_build_object(
+        'plan_id', v_plan.id,
+        'is_renewal', NOT v_is_first,
+        'start_date', v_start,
+        'end_date', (v_start + make_interval(months => v_plan.duration_months + v_free_months))::date,
+        'free_months', v_free_months,
+        'price', v_price,
+        'registration_fee', v_registration_fee,
+        'total', v_price + v_registration_fee,
+        'tax', coalesce(included_tax(v_price, v_rate) + included_tax(v_registration_fee, v_rate), 0)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION quote_membership_change(p_membership_id uuid, p_plan_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_membership memberships%ROWTYPE;
+    v_plan membership_plans%ROWTYPE;
+    v_start date;
+    v_total_days integer;
+    v_unused_days integer;
+    v_credit numeric(10,2);
+    v_price numeric(10,2);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id;
+
+    IF v_membership.id IS NULL THEN
+        RAISE EXCEPTION 'Membership not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_membership.status <> 'ACTIVE' OR v_membership.end_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Only a running membership can change plan' USING ERRCODE = '55000';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM membership_freezes
+        WHERE membership_id = p_membership_id
+        AND ended_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'End or cancel the membership freeze before changing plan' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_plan.is_active OR v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This membership plan is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_plan.id = v_membership.plan_id THEN
+        RAISE EXCEPTION 'The member is already on this plan' USING ERRCODE = '22023';
+    END IF;
+
+    v_start := greatest(CURRENT_DATE, v_membership.start_date);
+    v_total_days := greatest(v_membership.end_date - v_membership.start_date, 1);
+    v_unused_days := greatest(v_membership.end_date - v_start, 0);
+    v_credit := round(coalesce(v_membership.amount_paid, 0) * v_unused_days / v_total_days, 2);
+
+    v_price := price_with_tax(v_plan.price, v_plan.tax_rate_id);
+
+    RETURN jsonb_build_object(
+        'membership_id', v_membership.id,
+        'plan_id', v_plan.id,
+        'total_days', v_total_days,
+        'unused_days', v_unused_days,
+        'credit', v_credit,
+        'price', v_price,
+        'balance', v_price - v_credit,
+        'start_date', v_start,
+        'end_date', (v_start + make_interval(months => v_plan.duration_months))::date
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sell_coupon(
+    p_template_id uuid,
+    p_member_id uuid,
+    p_shift_id uuid,
+    p_payment_method text
+)
+RETURNS sold_coupons
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_template coupon_templates%ROWTYPE;
+    v_coupon sold_coupons%ROWTYPE;
+    v_attempt integer := 0;
+    v_price numeric(10,2);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to sell a coupon' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT * INTO v_template FROM coupon_templates WHERE id = p_template_id;
+
+    IF v_template.id IS NULL THEN
+        RAISE EXCEPTION 'Coupon template not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_template.is_active THEN
+        RAISE EXCEPTION 'This coupon is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_member_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Collisions are very unlikely, but retry a few times rather than fail the sale
+    LOOP
+        BEGIN
+            INSERT INTO sold_coupons (
+                template_id, code, member_id, purchase_date, expiry_date,
+                entries_remaining, is_active, sold_by
+            ) VALUES (
+                v_template.id,
+                generate_coupon_code(),
+                p_member_id,
+                CURRENT_DATE,
+                CURRENT_DATE + v_template.duration_days - 1,
+                v_template.max_entries,
+                true,
+                auth.uid()
+            )
+            RETURNING * INTO v_coupon;
+
+            EXIT;
+        EXCEPTION WHEN unique_violation THEN
+            v_attempt := v_attempt + 1;
+            IF v_attempt >= 5 THEN
+                RAISE;
+            END IF;
+        END;
+    END LOOP;
+
+    v_price := price_with_tax(v_template.price, v_template.tax_rate_id);
+
+    IF v_price > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            v_price,
+            p_payment_method,
+            'COUPON_SALE',
+            v_coupon.id,
+            'Coupon: ' || v_template.name || ' (' || v_coupon.code || ')',
+            auth.uid()
+        );
+    END IF;
+
+    RETURN v_coupon;
+END;
+$$;
+
+-- 6. Tax Rates on Membership Plans
+DROP FUNCTION IF EXISTS save_membership_plan(uuid, text, numeric, integer, boolean, integer, text, boolean);
+
+CREATE OR REPLACE FUNCTION save_membership_plan(
+    p_plan_id uuid,
+    p_name text,
+    p_price numeric,
+    p_duration_months integer,
+    p_has_registration_fee boolean,
+    p_free_months_on_signup integer,
+    p_description text DEFAULT NULL,
+    p_is_active boolean DEFAULT true,
+    p_tax_rate_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan membership_plans%ROWTYPE;
+    v_new_id uuid;
+    v_terms_changed boolean;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_plan_id IS NULL THEN
+        INSERT INTO membership_plans (
+            name, price, duration_months, has_registration_fee,
+            free_months_on_signup, description, is_active, tax_rate_id
+        ) VALUES (
+            p_name, p_price, p_duration_months, p_has_registration_fee,
+            p_free_months_on_signup, p_description, p_is_active, p_tax_rate_id
+        )
+        RETURNING id INTO v_new_id;
+
+        RETURN v_new_id;
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id FOR UPDATE;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'Only the current version of a plan can be edited' USING ERRCODE = '55000';
+    END IF;
+
+    v_terms_changed :=
+        (p_name, p_price, p_duration_months, p_has_registration_fee, p_free_months_on_signup)
+        IS DISTINCT FROM
+        (v_plan.name, v_plan.price, v_plan.duration_months, v_plan.has_registration_fee, v_plan.free_months_on_signup);
+
+    IF NOT v_terms_changed OR NOT EXISTS (SELECT 1 FROM memberships WHERE plan_id = p_plan_id) THEN
+        UPDATE membership_plans
+        SET name = p_name,
+            price = p_price,
+            duration_months = p_duration_months,
+            has_registration_fee = p_has_registration_fee,
+            free_months_on_signup = p_free_months_on_signup,
+            description = p_description,
+            is_active = p_is_active,
+            tax_rate_id = p_tax_rate_id
+        WHERE id = p_plan_id;
+
+        RETURN p_plan_id;
+    END IF;
+
+    INSERT INTO membership_plans (
+        plan_group_id, version, name, price, duration_months,
+        has_registration_fee, free_months_on_signup, description, is_active, tax_rate_id
+    ) VALUES (
+        v_plan.plan_group_id,
+        (SELECT max(version) + 1 FROM membership_plans WHERE plan_group_id = v_plan.plan_group_id),
+        p_name, p_price, p_duration_months,
+        p_has_registration_fee, p_free_months_on_signup, p_description, p_is_active, p_tax_rate_id
+    )
+    RETURNING id INTO v_new_id;
+
+    UPDATE membership_plans
+    SET superseded_by = v_new_id,
+        is_active = false
+    WHERE id = p_plan_id;
+
+    RETURN v_new_id;
+END;
+$$;
+
+-- 7. Refunds and Receipts
+CREATE OR REPLACE FUNCTION get_refundable_items(p_transaction_id uuid)
+RETURNS TABLE (
+    product_id uuid,
+    name text,
+    unit_price numeric,
+    quantity_sold integer,
+    quantity_returned integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT related_id INTO v_sale_id
+    FROM transactions
+    WHERE id = p_transaction_id
+    AND type = 'POS_SALE';
+
+    RETURN QUERY
+    WITH returned AS (
+        SELECT sm.product_id, sum(sm.change_quantity)::integer AS quantity
+        FROM stock_movements sm
+        JOIN transactions refund ON refund.id = sm.transaction_id
+        JOIN transactions sale_payment ON sale_payment.id = refund.refund_of
+        WHERE sm.reason = 'REFUND'
+        AND sale_payment.type = 'POS_SALE'
+        AND sale_payment.related_id = v_sale_id
+        GROUP BY sm.product_id
+    )
+    SELECT i.product_id, p.name, round(i.line_total / i.quantity, 2), i.quantity, coalesce(r.quantity, 0)
+    FROM pos_sale_items i
+    JOIN products p ON p.id = i.product_id
+    LEFT JOIN returned r ON r.product_id = i.product_id
+    WHERE i.sale_id = v_sale_id
+    ORDER BY p.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_receipt(p_transaction_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_lines jsonb;
+    v_payments jsonb;
+    v_total numeric(10,2);
+    v_taxed_ids uuid[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+    IF v_transaction.id IS NULL THEN
+        RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+        'payment_method', v_transaction.payment_method,
+        'amount', v_transaction.amount
+    ));
+    v_total := v_transaction.amount;
+    v_taxed_ids := ARRAY[v_transaction.id];
+
+    IF v_transaction.refund_of IS NULL AND v_transaction.payment_for IS NULL THEN
+        IF v_transaction.type = 'POS_SALE' THEN
+            SELECT jsonb_agg(jsonb_build_object(
+                    'description', p.name,
+                    'quantity', i.quantity,
+                    'unit_price', round(i.line_total / i.quantity, 2),
+                    'amount', i.line_total
+                ) ORDER BY p.name)
+            INTO v_lines
+            FROM pos_sale_items i
+            JOIN products p ON p.id = i.product_id
+            WHERE i.sale_id = v_transaction.related_id;
+
+            SELECT jsonb_agg(jsonb_build_object('payment_method', t.payment_method, 'amount', t.amount) ORDER BY t.created_at, t.id),
+                   sum(t.amount),
+                   array_agg(t.id)
+            INTO v_payments, v_total, v_taxed_ids
+            FROM transactions t
+            WHERE t.type = 'POS_SALE'
+            AND t.related_id = v_transaction.related_id
+            AND t.refund_of IS NULL;
+        ELSIF v_transaction.type IN ('MEMBERSHIP', 'REGISTRATION_FEE') THEN
+            -- sell_membership writes the plan and the registration fee in one statement, so they share created_at
+            SELECT jsonb_agg(jsonb_build_object(
+                    'description', CASE
+                        WHEN t.type = 'MEMBERSHIP' THEN
+                            coalesce(mp.name, 'Membership') || ' membership ' ||
+                            to_char(m.start_date, 'DD Mon YYYY') || ' - ' || to_char(m.end_date, 'DD Mon YYYY')
+                        ELSE coalesce(t.description, 'Registration fee')
+                    END,
+                    'quantity', 1,
+                    'unit_price', t.amount,
+                    'amount', t.amount
+                ) ORDER BY t.type),
+                sum(t.amount),
+                array_agg(t.id)
+            INTO v_lines, v_total, v_taxed_ids
+            FROM transactions t
+            LEFT JOIN memberships m ON m.id = t.related_id
+            LEFT JOIN membership_plans mp ON mp.id = m.plan_id
+            WHERE t.related_id = v_transaction.related_id
+            AND t.type IN ('MEMBERSHIP', 'REGISTRATION_FEE')
+            AND t.created_at = v_transaction.created_at
+            AND t.refund_of IS NULL
+            AND t.payment_for IS NULL;
+
+            -- Both are paid the same way, so they print as one payment
+            v_payments := jsonb_build_array(jsonb_build_object(
+                'payment_method', v_transaction.payment_method,
+                'amount', v_total
+            ));
+        ELSIF v_transaction.type = 'COUPON_SALE' THEN
+            SELECT jsonb_build_array(jsonb_build_object(
+                    'description', coalesce(ct.name, 'Coupon') || ' ' || sc.code ||
+                        ' (valid until ' || to_char(sc.expiry_date, 'DD Mon YYYY') || ')',
+                    'quantity', 1,
+                    'unit_price', v_transaction.amount,
+                    'amount', v_transaction.amount
+                ))
+            INTO v_lines
+            FROM sold_coupons sc
+            LEFT JOIN coupon_templates ct ON ct.id = sc.template_id
+            WHERE sc.id = v_transaction.related_id;
+        END IF;
+    END IF;
+
+    IF v_lines IS NULL THEN
+        v_lines := jsonb_build_array(jsonb_build_object(
+            'description', coalesce(v_transaction.description, replace(v_transaction.type, '_', ' ')),
+            'quantity', 1,
+            'unit_price', v_transaction.amount,
+            'amount', v_transaction.amount
+        ));
+    END IF;
+
+    RETURN jsonb_build_object(
+        'transaction_id', v_transaction.id,
+        'created_at', v_transaction.created_at,
+        'type', v_transaction.type,
+        'status', v_transaction.status,
+        'refund_of', v_transaction.refund_of,
+        'staff_name', (SELECT full_name FROM profiles WHERE id = v_transaction.processed_by),
+        'member_name', (
+            SELECT full_name FROM members
+            WHERE id = transaction_member_id(v_transaction.type, v_transaction.related_id)
+        ),
+        'lines', v_lines,
+        'payments', v_payments,
+        'total', v_total,
+        'taxes', (
+            SELECT coalesce(jsonb_agg(jsonb_build_object(
+                    'tax_name', tax_name,
+                    'rate', rate,
+                    'net_amount', net_amount,
+                    'tax_amount', tax_amount
+                ) ORDER BY rate DESC, tax_name), '[]'::jsonb)
+            FROM (
+                SELECT tax_name, rate, sum(net_amount) AS net_amount, sum(tax_amount) AS tax_amount
+                FROM transaction_taxes
+                WHERE transaction_id = ANY (v_taxed_ids)
+                GROUP BY tax_name, rate
+            ) taxes
+        )
+    );
+END;
+$$;
@@ -0,0 +1,1114 @@
+/*
+  # Promotions
+
+  Promotions take money off POS sales and membership sales for a while, e.g.
+  "20% off Annual in January" or "buy 2 drinks, get 1 free". They apply
+  automatically unless they have a promo code, in which case staff enter the
+  code at the till. Every sale records the promotions it used.
+
+  1. Schema
+    - `promotions` - A discount rule:
+      - `applies_to` - 'PRODUCT' for POS sales or 'MEMBERSHIP' for plan sales
+      - `discount_type` - 'PERCENTAGE' (`percent_off`), 'FIXED' (`amount_off`,
+        taken off each unit or off the plan price) or 'BUNDLE' (buy
+        `buy_quantity`, get `free_quantity` free; products only)
+      - `plan_id` - The plan a membership promotion is for; null for any plan
+      - `starts_on`, `ends_on` - Optional date window, inclusive
+      - `usage_limit` - Optional number of sales the promotion can be used in
+      - `code` - Optional promo code, upper case; without one the promotion
+        applies automatically
+    - `promotion_products` - The products a product promotion covers; none
+      means every product
+    - `pos_sale_items.promotion_id`, `pos_sale_items.discount_amount` - The
+      promotion used on each sold line; `line_total` is after the discount
+    - `transaction_promotions` - Promotions used per transaction, keeping the
+      promotion's name and the discount given; a POS sale records them on its
+      first transaction, a membership sale on its MEMBERSHIP transaction
+    - Staff can read promotions; admins manage them
+
+  2. Applying Promotions
+    - Prices are discounted after tax is added, and tax is worked out from the
+      discounted amount
+    - Each line or plan gets at most one promotion. The promotion giving the
+      biggest discount is applied first, then the next biggest on what is left
+    - Bundles pool the units of every product they cover and make the cheapest
+      ones free
+    - A promotion whose usage limit is reached stops applying; refunds do not
+      give uses back
+    - Promotions on a plan follow it to its new version when its terms change
+
+  3. Functions
+    - `save_promotion(...)` - Admin only; creates or updates a promotion and
+      the products it covers
+    - `quote_pos_sale(items, promo_code)` - Staff only; prices a cart with its
+      promotions, tax and total, exactly as `pos_checkout` will charge it
+    - `pos_checkout` takes an optional `promo_code`; a sale made free by its
+      promotions is paid with a single zero payment
+    - `quote_membership` and `sell_membership` take an optional `promo_code`;
+      `price` is after the discount, with the `discount` and promotion returned
+    - `get_promotion_summary(from, to)` - Staff only; uses and discount given
+      per promotion, for sales between the two times
+    - `get_receipt` prints lines before their discount and returns the
+      receipt's `discounts`
+*/
+
+-- 1. Schema
+CREATE TABLE IF NOT EXISTS promotions (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    description text,
+    applies_to text NOT NULL CHECK (applies_to IN ('PRODUCT', 'MEMBERSHIP')),
+    discount_type text NOT NULL CHECK (discount_type IN ('PERCENTAGE', 'FIXED', 'BUNDLE')),
+    percent_off numeric(5,2) CHECK (percent_off > 0 AND percent_off <= 100),
+    amount_off numeric(10,2) CHECK (amount_off > 0),
+    buy_quantity integer CHECK (buy_quantity > 0),
+    free_quantity integer CHECK (free_quantity > 0),
+    plan_id uuid REFERENCES membership_plans(id) ON DELETE CASCADE,
+    starts_on date,
+    ends_on date,
+    usage_limit integer CHECK (usage_limit > 0),
+    code text UNIQUE CHECK (code ~ '^[A-Z0-9-]{3,20}$'),
+    is_active boolean NOT NULL DEFAULT true,
+    created_by uuid REFERENCES profiles(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT promotions_discount_check CHECK (
+        (discount_type = 'PERCENTAGE' AND percent_off IS NOT NULL
+            AND amount_off IS NULL AND buy_quantity IS NULL AND free_quantity IS NULL)
+        OR (discount_type = 'FIXED' AND amount_off IS NOT NULL
+            AND percent_off IS NULL AND buy_quantity IS NULL AND free_quantity IS NULL)
+        OR (discount_type = 'BUNDLE' AND applies_to = 'PRODUCT'
+            AND buy_quantity IS NOT NULL AND free_quantity IS NOT NULL
+            AND percent_off IS NULL AND amount_off IS NULL)
+    ),
+    CONSTRAINT promotions_plan_check CHECK (applies_to = 'MEMBERSHIP' OR plan_id IS NULL),
+    CONSTRAINT promotions_dates_check CHECK (starts_on IS NULL OR ends_on IS NULL OR ends_on >= starts_on)
+);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS update_promotions_updated_at ON promotions;
+    CREATE TRIGGER update_promotions_updated_at
+        BEFORE UPDATE ON promotions
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+END $$;
+
+CREATE TABLE IF NOT EXISTS promotion_products (
+    promotion_id uuid NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+    product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    PRIMARY KEY (promotion_id, product_id)
+);
+
+ALTER TABLE promotion_products ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE pos_sale_items ADD COLUMN IF NOT EXISTS promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+ALTER TABLE pos_sale_items ADD COLUMN IF NOT EXISTS discount_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS transaction_promotions (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+    promotion_name text NOT NULL,
+    code text,
+    discount_amount numeric(10,2) NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transaction_promotions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transaction_promotions_transaction_id') THEN
+        CREATE INDEX idx_transaction_promotions_transaction_id ON transaction_promotions(transaction_id);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_transaction_promotions_promotion_id') THEN
+        CREATE INDEX idx_transaction_promotions_promotion_id ON transaction_promotions(promotion_id);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read promotions" ON promotions;
+    CREATE POLICY "Staff can read promotions"
+        ON promotions
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Admins can manage promotions" ON promotions;
+    CREATE POLICY "Admins can manage promotions"
+        ON promotions
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read promotion products" ON promotion_products;
+    CREATE POLICY "Staff can read promotion products"
+        ON promotion_products
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read transaction promotions" ON transaction_promotions;
+    CREATE POLICY "Staff can read transaction promotions"
+        ON transaction_promotions
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+-- Internal: a plan's promotions move to the version that replaces it
+CREATE OR REPLACE FUNCTION carry_plan_promotions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE promotions SET plan_id = NEW.superseded_by WHERE plan_id = NEW.id;
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION carry_plan_promotions() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    DROP TRIGGER IF EXISTS carry_plan_promotions ON membership_plans;
+    CREATE TRIGGER carry_plan_promotions
+        AFTER UPDATE OF superseded_by ON membership_plans
+        FOR EACH ROW
+        WHEN (NEW.superseded_by IS NOT NULL AND OLD.superseded_by IS DISTINCT FROM NEW.superseded_by)
+        EXECUTE FUNCTION carry_plan_promotions();
+END $$;
+
+-- 2. Applying Promotions
+-- Internal: promotions that can be used today, with or without the given code
+CREATE OR REPLACE FUNCTION usable_promotions(p_applies_to text, p_code text)
+RETURNS SETOF promotions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.*
+    FROM promotions p
+    WHERE p.applies_to = p_applies_to
+    AND p.is_active
+    AND (p.starts_on IS NULL OR p.starts_on <= CURRENT_DATE)
+    AND (p.ends_on IS NULL OR p.ends_on >= CURRENT_DATE)
+    AND (p.code IS NULL OR p.code = upper(trim(p_code)))
+    AND (
+        p.usage_limit IS NULL
+        OR p.usage_limit > (SELECT count(*) FROM transaction_promotions tp WHERE tp.promotion_id = p.id)
+    )
+    ORDER BY p.created_at, p.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION usable_promotions(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Internal: explains why an entered promo code cannot be used
+CREATE OR REPLACE FUNCTION check_promo_code(p_code text, p_applies_to text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_promotion promotions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_promotion FROM promotions WHERE code = upper(trim(p_code));
+
+    IF v_promotion.id IS NULL THEN
+        RAISE EXCEPTION 'Promo code % was not recognised', upper(trim(p_code)) USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_promotion.applies_to <> p_applies_to THEN
+        RAISE EXCEPTION 'Promo code % is for %', v_promotion.code,
+            CASE WHEN v_promotion.applies_to = 'PRODUCT' THEN 'POS sales' ELSE 'memberships' END
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT v_promotion.is_active
+        OR v_promotion.starts_on > CURRENT_DATE
+        OR v_promotion.ends_on < CURRENT_DATE THEN
+        RAISE EXCEPTION 'Promo code % is not valid today', v_promotion.code USING ERRCODE = '55000';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM usable_promotions(p_applies_to, p_code) WHERE id = v_promotion.id) THEN
+        RAISE EXCEPTION 'Promo code % has been used up', v_promotion.code USING ERRCODE = '55000';
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_promo_code(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Internal: the discount a product promotion gives each cart line, null for
+-- lines it does not cover or that already have a promotion
+CREATE OR REPLACE FUNCTION promotion_line_discounts(p_promotion promotions, p_lines jsonb)
+RETURNS numeric[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_discounts numeric[];
+    v_line record;
+    v_free integer;
+    v_take integer;
+BEGIN
+    SELECT array_agg(
+            CASE
+                WHEN NOT covered THEN NULL
+                WHEN p_promotion.discount_type = 'PERCENTAGE' THEN round(gross_total * p_promotion.percent_off / 100, 2)
+                WHEN p_promotion.discount_type = 'FIXED' THEN least(p_promotion.amount_off * quantity, gross_total)
+                ELSE 0
+            END
+            ORDER BY position
+        ),
+        sum(quantity) FILTER (WHERE covered)
+    INTO v_discounts, v_free
+    FROM (
+        SELECT position, (line->>'quantity')::integer AS quantity, (line->>'gross_total')::numeric AS gross_total,
+               NOT coalesce((line->>'taken')::boolean, false) AND (
+                   NOT EXISTS (SELECT 1 FROM promotion_products WHERE promotion_id = p_promotion.id)
+                   OR EXISTS (
+                       SELECT 1 FROM promotion_products
+                       WHERE promotion_id = p_promotion.id
+                       AND product_id = (line->>'product_id')::uuid
+                   )
+               ) AS covered
+        FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS lines(line, position)
+    ) cart;
+
+    IF p_promotion.discount_type = 'BUNDLE' THEN
+        -- Every full group of buy + free units makes its cheapest units free
+        v_free := (coalesce(v_free, 0) / (p_promotion.buy_quantity + p_promotion.free_quantity)) * p_promotion.free_quantity;
+
+        FOR v_line IN
+            SELECT position::integer AS position, (line->>'quantity')::integer AS quantity,
+                   (line->>'unit_price')::numeric AS unit_price, (line->>'gross_total')::numeric AS gross_total
+            FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS lines(line, position)
+            WHERE v_discounts[position::integer] IS NOT NULL
+            ORDER BY (line->>'unit_price')::numeric, position
+        LOOP
+            v_take := least(v_line.quantity, v_free);
+            v_discounts[v_line.position] := least(v_take * v_line.unit_price, v_line.gross_total);
+            v_free := v_free - v_take;
+        END LOOP;
+    END IF;
+
+    RETURN v_discounts;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION promotion_line_discounts(promotions, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- 3. Functions
+CREATE OR REPLACE FUNCTION save_promotion(
+    p_promotion_id uuid,
+    p_name text,
+    p_description text,
+    p_applies_to text,
+    p_discount_type text,
+    p_percent_off numeric,
+    p_amount_off numeric,
+    p_buy_quantity integer,
+    p_free_quantity integer,
+    p_plan_id uuid,
+    p_product_ids uuid[],
+    p_starts_on date,
+    p_ends_on date,
+    p_usage_limit integer,
+    p_code text,
+    p_is_active boolean DEFAULT true
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_promotion_id uuid;
+    v_code text := upper(nullif(trim(p_code), ''));
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM promotions WHERE code = v_code AND id IS DISTINCT FROM p_promotion_id) THEN
+        RAISE EXCEPTION 'Promo code % is already used by another promotion', v_code USING ERRCODE = '23505';
+    END IF;
+
+    IF p_promotion_id IS NULL THEN
+        INSERT INTO promotions (
+            name, description, applies_to, discount_type, percent_off, amount_off,
+            buy_quantity, free_quantity, plan_id, starts_on, ends_on, usage_limit,
+            code, is_active, created_by
+        ) VALUES (
+            p_name, p_description, p_applies_to, p_discount_type, p_percent_off, p_amount_off,
+            p_buy_quantity, p_free_quantity, p_plan_id, p_starts_on, p_ends_on, p_usage_limit,
+            v_code, p_is_active, auth.uid()
+        )
+        RETURNING id INTO v_promotion_id;
+    ELSE
+        UPDATE promotions
+        SET name = p_name,
+            description = p_description,
+            applies_to = p_applies_to,
+            discount_type = p_discount_type,
+            percent_off = p_percent_off,
+            amount_off = p_amount_off,
+            buy_quantity = p_buy_quantity,
+            free_quantity = p_free_quantity,
+            plan_id = p_plan_id,
+            starts_on = p_starts_on,
+            ends_on = p_ends_on,
+            usage_limit = p_usage_limit,
+            code = v_code,
+            is_active = p_is_active
+        WHERE id = p_promotion_id
+        RETURNING id INTO v_promotion_id;
+
+        IF v_promotion_id IS NULL THEN
+            RAISE EXCEPTION 'Promotion not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        DELETE FROM promotion_products WHERE promotion_id = v_promotion_id;
+    END IF;
+
+    IF p_applies_to = 'PRODUCT' THEN
+        INSERT INTO promotion_products (promotion_id, product_id)
+        SELECT DISTINCT v_promotion_id, product_id
+        FROM unnest(coalesce(p_product_ids, ARRAY[]::uuid[])) AS product_id;
+    END IF;
+
+    RETURN v_promotion_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION quote_pos_sale(p_items jsonb, p_promo_code text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code text := upper(nullif(trim(p_promo_code), ''));
+    v_lines jsonb;
+    v_promotion promotions%ROWTYPE;
+    v_best promotions%ROWTYPE;
+    v_best_id uuid;
+    v_best_total numeric(10,2);
+    v_best_discounts numeric[];
+    v_discounts numeric[];
+    v_discount_total numeric(10,2);
+    v_applied jsonb := '[]'::jsonb;
+    v_product record;
+    i integer;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'The cart is empty' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_code IS NOT NULL THEN
+        PERFORM check_promo_code(v_code, 'PRODUCT');
+    END IF;
+
+    -- The same product may appear on several cart lines
+    SELECT jsonb_agg(jsonb_build_object(
+            'product_id', i.product_id,
+            'name', p.name,
+            'quantity', i.quantity,
+            'unit_price', price_with_tax(p.price, p.tax_rate_id),
+            'gross_total', price_with_tax(p.price * i.quantity, p.tax_rate_id),
+            'tax_rate_id', p.tax_rate_id,
+            'is_active', p.is_active
+        ) ORDER BY p.name, i.product_id)
+    INTO v_lines
+    FROM (
+        SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(p_items) AS item
+        GROUP BY 1
+    ) i
+    LEFT JOIN products p ON p.id = i.product_id;
+
+    FOR v_product IN
+        SELECT line->>'name' AS name, (line->>'quantity')::integer AS quantity, (line->>'is_active')::boolean AS is_active,
+               line->>'product_id' AS product_id
+        FROM jsonb_array_elements(v_lines) AS line
+    LOOP
+        IF v_product.product_id IS NULL OR v_product.quantity IS NULL OR v_product.quantity <= 0 THEN
+            RAISE EXCEPTION 'Every cart line needs a product and a quantity of at least 1' USING ERRCODE = '22023';
+        END IF;
+
+        IF v_product.name IS NULL THEN
+            RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        IF NOT v_product.is_active THEN
+            RAISE EXCEPTION '% is no longer on sale', v_product.name USING ERRCODE = '55000';
+        END IF;
+    END LOOP;
+
+    -- Biggest discount first; a promotion's lines are then off the table for the rest
+    LOOP
+        v_best_id := NULL;
+        v_best_total := 0;
+
+        FOR v_promotion IN SELECT * FROM usable_promotions('PRODUCT', v_code) LOOP
+            v_discounts := promotion_line_discounts(v_promotion, v_lines);
+            v_discount_total := coalesce((SELECT sum(d) FROM unnest(v_discounts) AS d), 0);
+
+            IF v_discount_total > v_best_total THEN
+                v_best := v_promotion;
+                v_best_id := v_promotion.id;
+                v_best_total := v_discount_total;
+                v_best_discounts := v_discounts;
+            END IF;
+        END LOOP;
+
+        EXIT WHEN v_best_id IS NULL;
+
+        FOR i IN 1 .. jsonb_array_length(v_lines) LOOP
+            IF v_best_discounts[i] IS NOT NULL THEN
+                v_lines := jsonb_set(v_lines, ARRAY[(i - 1)::text], (v_lines->(i - 1)) || jsonb_build_object(
+                    'taken', true,
+                    'discount', v_best_discounts[i],
+                    'promotion_id', v_best.id,
+                    'promotion_name', v_best.name
+                ));
+            END IF;
+        END LOOP;
+
+        v_applied := v_applied || jsonb_build_array(jsonb_build_object(
+            'promotion_id', v_best.id,
+            'name', v_best.name,
+            'code', v_best.code,
+            'discount', v_best_total
+        ));
+    END LOOP;
+
+    SELECT jsonb_agg(jsonb_build_object(
+            'product_id', l.product_id,
+            'name', l.name,
+            'quantity', l.quantity,
+            'unit_price', l.unit_price,
+            'gross_total', l.gross_total,
+            'discount', l.discount,
+            'line_total', l.gross_total - l.discount,
+            'tax_rate_id', r.id,
+            'tax_amount', coalesce(included_tax(l.gross_total - l.discount, r.rate), 0),
+            'promotion_id', l.promotion_id,
+            'promotion_name', l.promotion_name
+        ) ORDER BY l.position)
+    INTO v_lines
+    FROM (
+        SELECT position, (line->>'product_id')::uuid AS product_id, line->>'name' AS name,
+               (line->>'quantity')::integer AS quantity, (line->>'unit_price')::numeric AS unit_price,
+               (line->>'gross_total')::numeric AS gross_total, coalesce((line->>'discount')::numeric, 0) AS discount,
+               (line->>'tax_rate_id')::uuid AS tax_rate_id, (line->>'promotion_id')::uuid AS promotion_id,
+               line->>'promotion_name' AS promotion_name
+        FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS lines(line, position)
+    ) l
+    LEFT JOIN tax_rates r ON r.id = l.tax_rate_id;
+
+    RETURN jsonb_build_object(
+        'lines', v_lines,
+        'promotions', v_applied,
+        'subtotal', (SELECT sum((line->>'gross_total')::numeric) FROM jsonb_array_elements(v_lines) AS line),
+        'discount', (SELECT sum((line->>'discount')::numeric) FROM jsonb_array_elements(v_lines) AS line),
+        'total', (SELECT sum((line->>'line_total')::numeric) FROM jsonb_array_elements(v_lines) AS line),
+        'tax', (SELECT sum((line->>'tax_amount')::numeric) FROM jsonb_array_elements(v_lines) AS line)
+    );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS pos_checkout(uuid, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION pos_checkout(
+    p_shift_id uuid,
+    p_items jsonb,
+    p_payments jsonb,
+    p_promo_code text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sale_id uuid;
+    v_quote jsonb;
+    v_total numeric(10,2);
+    v_paid numeric(10,2) := 0;
+    v_item record;
+    v_payment record;
+    v_transaction_id uuid;
+    v_transaction_ids uuid[] := ARRAY[]::uuid[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to make a sale' USING ERRCODE = '55000';
+    END IF;
+
+    -- Lock in a fixed order so two tills selling the same products cannot deadlock
+    PERFORM 1 FROM products
+    WHERE id IN (
+        SELECT (item->>'product_id')::uuid
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_items) = 'array' THEN p_items ELSE '[]'::jsonb END) AS item
+    )
+    ORDER BY id
+    FOR UPDATE;
+
+    -- Two tills cannot both use the last use of a limited promotion
+    PERFORM 1 FROM promotions
+    WHERE applies_to = 'PRODUCT'
+    AND usage_limit IS NOT NULL
+    ORDER BY id
+    FOR UPDATE;
+
+    v_quote := quote_pos_sale(p_items, p_promo_code);
+    v_total := (v_quote->>'total')::numeric;
+
+    IF jsonb_typeof(p_payments) IS DISTINCT FROM 'array' OR jsonb_array_length(p_payments) = 0 THEN
+        RAISE EXCEPTION 'At least one payment is required' USING ERRCODE = '22023';
+    END IF;
+
+    FOR v_item IN
+        SELECT l.product_id, l.quantity, p.name, coalesce(p.current_stock, 0) AS current_stock
+        FROM jsonb_to_recordset(v_quote->'lines') AS l(product_id uuid, quantity integer)
+        JOIN products p ON p.id = l.product_id
+    LOOP
+        IF v_item.current_stock < v_item.quantity THEN
+            RAISE EXCEPTION 'Only % of % left in stock', v_item.current_stock, v_item.name USING ERRCODE = '55000';
+        END IF;
+    END LOOP;
+
+    FOR v_payment IN
+        SELECT payment->>'payment_method' AS payment_method, (payment->>'amount')::numeric(10,2) AS amount
+        FROM jsonb_array_elements(p_payments) AS payment
+    LOOP
+        -- A sale made free by its promotions is recorded with one zero payment
+        IF v_payment.amount IS NULL OR v_payment.amount < 0 OR (v_payment.amount = 0 AND v_total > 0) THEN
+            RAISE EXCEPTION 'Payment amounts must be greater than zero' USING ERRCODE = '22023';
+        END IF;
+
+        v_paid := v_paid + v_payment.amount;
+    END LOOP;
+
+    IF v_paid <> v_total THEN
+        RAISE EXCEPTION 'Payments of % do not match the sale total of %', v_paid, v_total USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO pos_sales (shift_id, total, processed_by)
+    VALUES (p_shift_id, v_total, auth.uid())
+    RETURNING id INTO v_sale_id;
+
+    INSERT INTO pos_sale_items (
+        sale_id, product_id, quantity, unit_price, line_total, tax_rate_id, tax_amount, promotion_id, discount_amount
+    )
+    SELECT v_sale_id, l.product_id, l.quantity, p.price, l.line_total, l.tax_rate_id, l.tax_amount, l.promotion_id, l.discount
+    FROM jsonb_to_recordset(v_quote->'lines') AS l(
+        product_id uuid, quantity integer, line_total numeric, tax_rate_id uuid, tax_amount numeric,
+        promotion_id uuid, discount numeric
+    )
+    JOIN products p ON p.id = l.product_id;
+
+    FOR v_payment IN
+        SELECT payment->>'payment_method' AS payment_method, (payment->>'amount')::numeric(10,2) AS amount
+        FROM jsonb_array_elements(p_payments) WITH ORDINALITY AS payments(payment, position)
+        ORDER BY position
+    LOOP
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            v_payment.amount,
+            v_payment.payment_method,
+            'POS_SALE',
+            v_sale_id,
+            'POS sale',
+            auth.uid()
+        )
+        RETURNING id INTO v_transaction_id;
+
+        v_transaction_ids := v_transaction_ids || v_transaction_id;
+    END LOOP;
+
+    UPDATE products p
+    SET current_stock = coalesce(p.current_stock, 0) - l.quantity
+    FROM jsonb_to_recordset(v_quote->'lines') AS l(product_id uuid, quantity integer)
+    WHERE p.id = l.product_id;
+
+    INSERT INTO stock_movements (product_id, change_quantity, reason, transaction_id, created_by)
+    SELECT product_id, -quantity, 'SALE', v_transaction_ids[1], auth.uid()
+    FROM jsonb_to_recordset(v_quote->'lines') AS l(product_id uuid, quantity integer);
+
+    INSERT INTO transaction_promotions (transaction_id, promotion_id, promotion_name, code, discount_amount)
+    SELECT v_transaction_ids[1], a.promotion_id, a.name, a.code, a.discount
+    FROM jsonb_to_recordset(v_quote->'promotions') AS a(promotion_id uuid, name text, code text, discount numeric);
+
+    RETURN jsonb_build_object(
+        'sale_id', v_sale_id,
+        'total', v_total,
+        'discount', (v_quote->>'discount')::numeric,
+        'transaction_ids', to_jsonb(v_transaction_ids)
+    );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS quote_membership(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION quote_membership(p_member_id uuid, p_plan_id uuid, p_promo_code text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan membership_plans%ROWTYPE;
+    v_code text := upper(nullif(trim(p_promo_code), ''));
+    v_is_first boolean;
+    v_current_end date;
+    v_start date;
+    v_free_months integer;
+    v_registration_fee numeric(10,2) := 0;
+    v_list_price numeric(10,2);
+    v_price numeric(10,2);
+    v_rate numeric;
+    v_promotion promotions%ROWTYPE;
+    v_discount numeric(10,2) := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM members WHERE id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_plan FROM membership_plans WHERE id = p_plan_id;
+
+    IF v_plan.id IS NULL THEN
+        RAISE EXCEPTION 'Membership plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_plan.is_active OR v_plan.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This membership plan is no longer on sale' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_code IS NOT NULL THEN
+        PERFORM check_promo_code(v_code, 'MEMBERSHIP');
+    END IF;
+
+    v_is_first := NOT EXISTS (
+        SELECT 1 FROM memberships
+        WHERE member_id = p_member_id
+        AND status <> 'CANCELLED'
+    );
+
+    SELECT max(end_date) INTO v_current_end
+    FROM memberships
+    WHERE member_id = p_member_id
+    AND status <> 'CANCELLED';
+
+    v_start := CASE
+        WHEN v_current_end IS NOT NULL AND v_current_end >= CURRENT_DATE THEN v_current_end
+        ELSE CURRENT_DATE
+    END;
+
+    v_free_months := CASE WHEN v_is_first THEN coalesce(v_plan.free_months_on_signup, 0) ELSE 0 END;
+
+    IF v_is_first AND coalesce(v_plan.has_registration_fee, false) THEN
+        SELECT coalesce(nullif(value, '')::numeric, 0) INTO v_registration_fee
+        FROM system_settings
+        WHERE key = 'registration_fee_default';
+    END IF;
+
+    v_list_price := price_with_tax(v_plan.price, v_plan.tax_rate_id);
+    v_registration_fee := price_with_tax(coalesce(v_registration_fee, 0), v_plan.tax_rate_id);
+    SELECT rate INTO v_rate FROM tax_rates WHERE id = v_plan.tax_rate_id;
+
+    -- The registration fee is never discounted
+    SELECT p.* INTO v_promotion
+    FROM usable_promotions('MEMBERSHIP', v_code) p
+    WHERE p.plan_id IS NULL OR p.plan_id = v_plan.id
+    ORDER BY CASE
+        WHEN p.discount_type = 'PERCENTAGE' THEN round(v_list_price * p.percent_off / 100, 2)
+        ELSE least(p.amount_off, v_list_price)
+    END DESC, p.created_at, p.id
+    LIMIT 1;
+
+    IF v_promotion.id IS NOT NULL THEN
+        v_discount := CASE
+            WHEN v_promotion.discount_type = 'PERCENTAGE' THEN round(v_list_price * v_promotion.percent_off / 100, 2)
+            ELSE least(v_promotion.amount_off, v_list_price)
+        END;
+    END IF;
+
+    v_price := v_list_price - v_discount;
+
+    RETURN jsonb_build_object(
+        'plan_id', v_plan.id,
+        'is_renewal', NOT v_is_first,
+        'start_date', v_start,
+        'end_date', (v_start + make_interval(months => v_plan.duration_months + v_free_months))::date,
+        'free_months', v_free_months,
+        'list_price', v_list_price,
+        'discount', v_discount,
+        'promotion_id', v_promotion.id,
+        'promotion_name', v_promotion.name,
+        'promotion_code', v_promotion.code,
+        'price', v_price,
+        'registration_fee', v_registration_fee,
+        'total', v_price + v_registration_fee,
+        'tax', coalesce(included_tax(v_price, v_rate) + included_tax(v_registration_fee, v_rate), 0)
+    );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS sell_membership(uuid, uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION sell_membership(
+    p_member_id uuid,
+    p_plan_id uuid,
+    p_shift_id uuid,
+    p_payment_method text,
+    p_promo_code text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quote jsonb;
+    v_plan_name text;
+    v_membership_id uuid;
+    v_transaction_id uuid;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION 'An active shift is required to sell a membership' USING ERRCODE = '55000';
+    END IF;
+
+    -- Serialise sales for the same member so two renewals cannot start on the same date
+    PERFORM 1 FROM members WHERE id = p_member_id FOR UPDATE;
+
+    -- Two sales cannot both use the last use of a limited promotion
+    PERFORM 1 FROM promotions
+    WHERE applies_to = 'MEMBERSHIP'
+    AND usage_limit IS NOT NULL
+    ORDER BY id
+    FOR UPDATE;
+
+    v_quote := quote_membership(p_member_id, p_plan_id, p_promo_code);
+
+    SELECT name INTO v_plan_name FROM membership_plans WHERE id = p_plan_id;
+
+    INSERT INTO memberships (
+        member_id, plan_id, start_date, end_date, status,
+        registration_fee_paid, amount_paid, created_by
+    ) VALUES (
+        p_member_id,
+        p_plan_id,
+        (v_quote->>'start_date')::date,
+        (v_quote->>'end_date')::date,
+        'ACTIVE',
+        (v_quote->>'registration_fee')::numeric,
+        (v_quote->>'price')::numeric,
+        auth.uid()
+    )
+    RETURNING id INTO v_membership_id;
+
+    -- A membership made free by a promotion still gets a transaction to record it against
+    IF (v_quote->>'price')::numeric > 0 OR v_quote->>'promotion_id' IS NOT NULL THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            (v_quote->>'price')::numeric,
+            p_payment_method,
+            'MEMBERSHIP',
+            v_membership_id,
+            CASE WHEN (v_quote->>'is_renewal')::boolean THEN 'Renewal: ' ELSE 'New membership: ' END || v_plan_name,
+            auth.uid()
+        )
+        RETURNING id INTO v_transaction_id;
+    END IF;
+
+    IF v_quote->>'promotion_id' IS NOT NULL THEN
+        INSERT INTO transaction_promotions (transaction_id, promotion_id, promotion_name, code, discount_amount)
+        VALUES (
+            v_transaction_id,
+            (v_quote->>'promotion_id')::uuid,
+            v_quote->>'promotion_name',
+            v_quote->>'promotion_code',
+            (v_quote->>'discount')::numeric
+        );
+    END IF;
+
+    IF (v_quote->>'registration_fee')::numeric > 0 THEN
+        INSERT INTO transactions (shift_id, amount, payment_method, type, related_id, description, processed_by)
+        VALUES (
+            p_shift_id,
+            (v_quote->>'registration_fee')::numeric,
+            p_payment_method,
+            'REGISTRATION_FEE',
+            v_membership_id,
+            'Registration fee',
+            auth.uid()
+        );
+    END IF;
+
+    UPDATE members SET is_active = true WHERE id = p_member_id;
+
+    RETURN v_quote || jsonb_build_object('membership_id', v_membership_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_promotion_summary(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+    promotion_id uuid,
+    promotion_name text,
+    code text,
+    times_used bigint,
+    discount_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT tp.promotion_id, tp.promotion_name, tp.code, count(*), sum(tp.discount_amount)
+    FROM transaction_promotions tp
+    JOIN transactions t ON t.id = tp.transaction_id
+    WHERE t.created_at >= p_from
+    AND t.created_at < p_to
+    GROUP BY tp.promotion_id, tp.promotion_name, tp.code
+    ORDER BY sum(tp.discount_amount) DESC, tp.promotion_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_receipt(p_transaction_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_lines jsonb;
+    v_payments jsonb;
+    v_total numeric(10,2);
+    v_taxed_ids uuid[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+    IF v_transaction.id IS NULL THEN
+        RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+        'payment_method', v_transaction.payment_method,
+        'amount', v_transaction.amount
+    ));
+    v_total := v_transaction.amount;
+    v_taxed_ids := ARRAY[v_transaction.id];
+
+    IF v_transaction.refund_of IS NULL AND v_transaction.payment_for IS NULL THEN
+        IF v_transaction.type = 'POS_SALE' THEN
+            -- Lines print before their discount, which is listed under them
+            SELECT jsonb_agg(jsonb_build_object(
+                    'description', p.name,
+                    'quantity', i.quantity,
+                    'unit_price', round((i.line_total + i.discount_amount) / i.quantity, 2),
+                    'amount', i.line_total + i.discount_amount
+                ) ORDER BY p.name)
+            INTO v_lines
+            FROM pos_sale_items i
+            JOIN products p ON p.id = i.product_id
+            WHERE i.sale_id = v_transaction.related_id;
+
+            SELECT jsonb_agg(jsonb_build_object('payment_method', t.payment_method, 'amount', t.amount) ORDER BY t.created_at, t.id),
+                   sum(t.amount),
+                   array_agg(t.id)
+            INTO v_payments, v_total, v_taxed_ids
+            FROM transactions t
+            WHERE t.type = 'POS_SALE'
+            AND t.related_id = v_transaction.related_id
+            AND t.refund_of IS NULL;
+        ELSIF v_transaction.type IN ('MEMBERSHIP', 'REGISTRATION_FEE') THEN
+            -- sell_membership writes the plan and the registration fee in one statement, so they share created_at
+            SELECT jsonb_agg(jsonb_build_object(
+                    'description', CASE
+                        WHEN t.type = 'MEMBERSHIP' THEN
+                            coalesce(mp.name, 'Membership') || ' membership ' ||
+                            to_char(m.start_date, 'DD Mon YYYY') || ' - ' || to_char(m.end_date, 'DD Mon YYYY')
+                        ELSE coalesce(t.description, 'Registration fee')
+                    END,
+                    'quantity', 1,
+                    'unit_price', t.amount + coalesce(tp.discount_amount, 0),
+                    'amount', t.amount + coalesce(tp.discount_amount, 0)
+                ) ORDER BY t.type),
+                sum(t.amount),
+                array_agg(t.id)
+            INTO v_lines, v_total, v_taxed_ids
+            FROM transactions t
+            LEFT JOIN memberships m ON m.id = t.related_id
+            LEFT JOIN membership_plans mp ON mp.id = m.plan_id
+            LEFT JOIN transaction_promotions tp ON tp.transaction_id = t.id
+            WHERE t.related_id = v_transaction.related_id
+            AND t.type IN ('MEMBERSHIP', 'REGISTRATION_FEE')
+            AND t.created_at = v_transaction.created_at
+            AND t.refund_of IS NULL
+            AND t.payment_for IS NULL;
+
+            -- Both are paid the same way, so they print as one payment
+            v_payments := jsonb_build_array(jsonb_build_object(
+                'payment_method', v_transaction.payment_method,
+                'amount', v_total
+            ));
+        ELSIF v_transaction.type = 'COUPON_SALE' THEN
+            SELECT jsonb_build_array(jsonb_build_object(
+                    'description', coalesce(ct.name, 'Coupon') || ' ' || sc.code ||
+                        ' (valid until ' || to_char(sc.expiry_date, 'DD Mon YYYY') || ')',
+                    'quantity', 1,
+                    'unit_price', v_transaction.amount,
+                    'amount', v_transaction.amount
+                ))
+            INTO v_lines
+            FROM sold_coupons sc
+            LEFT JOIN coupon_templates ct ON ct.id = sc.template_id
+            WHERE sc.id = v_transaction.related_id;
+        END IF;
+    END IF;
+
+    IF v_lines IS NULL THEN
+        v_lines := jsonb_build_array(jsonb_build_object(
+            'description', coalesce(v_transaction.description, replace(v_transaction.type, '_', ' ')),
+            'quantity', 1,
+            'unit_price', v_transaction.amount,
+            'amount', v_transaction.amount
+        ));
+    END IF;
+
+    RETURN jsonb_build_object(
+        'transaction_id', v_transaction.id,
+        'created_at', v_transaction.created_at,
+        'type', v_transaction.type,
+        'status', v_transaction.status,
+        'refund_of', v_transaction.refund_of,
+        'staff_name', (SELECT full_name FROM profiles WHERE id = v_transaction.processed_by),
+        'member_name', (
+            SELECT full_name FROM members
+            WHERE id = transaction_member_id(v_transaction.type, v_transaction.related_id)
+        ),
+        'lines', v_lines,
+        'discounts', (
+            SELECT coalesce(jsonb_agg(jsonb_build_object(
+                    'promotion_name', promotion_name,
+                    'amount', discount_amount
+                ) ORDER BY created_at, id), '[]'::jsonb)
+            FROM transaction_promotions
+            WHERE transaction_id = ANY (v_taxed_ids)
+        ),
+        'payments', v_payments,
+        'total', v_total,
+        'taxes', (
+            SELECT coalesce(jsonb_agg(jsonb_build_object(
+                    'tax_name', tax_name,
+                    'rate', rate,
+                    'net_amount', net_amount,
+                    'tax_amount', tax_amount
+                ) ORDER BY rate DESC, tax_name), '[]'::jsonb)
+            FROM (
+                SELECT tax_name, rate, sum(net_amount) AS net_amount, sum(tax_amount) AS tax_amount
+                FROM transaction_taxes
+                WHERE transaction_id = ANY (v_taxed_ids)
+                GROUP BY tax_name, rate
+            ) taxes
+        )
+    );
+END;
+$$;
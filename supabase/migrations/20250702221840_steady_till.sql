@@ -0,0 +1,363 @@
+/*
+  # Shift Open and Close
+
+  Each till is a terminal that runs one shift at a time. Staff open a shift
+  with the cash float in the drawer and close it by counting the drawer; the
+  cash the drawer should hold is worked out from the shift's transactions and
+  the difference is kept. Differences above a threshold need a note from the
+  person closing and an admin's acknowledgement.
+
+  1. Schema
+    - `terminals` - The tills shifts are run on; staff read them, admins
+      manage them. A "Front Desk" terminal is added for existing shifts
+    - `shifts.terminal_id` - The terminal the shift is run on; only one shift
+      per terminal can be ACTIVE
+    - `shifts.requires_acknowledgement` - Set at close when the discrepancy is
+      above the threshold
+    - `shifts.acknowledged_by`, `shifts.acknowledged_at` - The admin who
+      acknowledged the discrepancy
+    - Settings
+      - `cash_discrepancy_threshold` - Difference between counted and expected
+        cash above which a note and an admin's acknowledgement are needed
+
+  2. Functions
+    - `open_shift(terminal_id, starting_cash_float)` - Staff only; opens a
+      shift on an active terminal that has no ACTIVE shift
+    - `get_shift_cash(shift_id)` - Staff only; the float, the cash taken and
+      refunded on the shift, and the cash the drawer should hold
+    - `close_shift(shift_id, ending_cash_balance, notes)` - Staff only; records
+      the counted cash, `system_calculated_cash` and `cash_discrepancy`
+      (counted minus expected, so a shortage is negative)
+    - `acknowledge_shift_discrepancy(shift_id)` - Admin only
+    - `get_shifts(from, to, status, awaiting_acknowledgement)` - Staff only;
+      shifts matching every filter given, newest first, with the names of the
+      terminal and staff
+
+  3. Notes
+    - Expected cash is the float plus every CASH transaction on the shift
+      except unpaid charges; refunds are negative, so it is net of them
+    - Existing ACTIVE shifts other than the most recent are left without a
+      terminal so they can still be closed
+*/
+
+-- 1. Schema
+CREATE TABLE IF NOT EXISTS terminals (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name text NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE terminals ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS terminal_id uuid REFERENCES terminals(id);
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS requires_acknowledgement boolean NOT NULL DEFAULT false;
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS acknowledged_by uuid REFERENCES profiles(id);
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS acknowledged_at timestamptz;
+
+INSERT INTO terminals (name) VALUES ('Front Desk')
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE shifts
+SET terminal_id = (SELECT id FROM terminals WHERE name = 'Front Desk')
+WHERE terminal_id IS NULL
+AND (
+    status = 'CLOSED'
+    OR id = (SELECT id FROM shifts WHERE status = 'ACTIVE' ORDER BY start_time DESC LIMIT 1)
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_shifts_active_terminal') THEN
+        CREATE UNIQUE INDEX idx_shifts_active_terminal ON shifts(terminal_id) WHERE status = 'ACTIVE';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_shifts_awaiting_acknowledgement') THEN
+        CREATE INDEX idx_shifts_awaiting_acknowledgement ON shifts(end_time)
+            WHERE requires_acknowledgement AND acknowledged_at IS NULL;
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read terminals" ON terminals;
+    CREATE POLICY "Staff can read terminals"
+        ON terminals
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Admins can manage terminals" ON terminals;
+    CREATE POLICY "Admins can manage terminals"
+        ON terminals
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        )
+        WITH CHECK (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+END $$;
+
+INSERT INTO system_settings (key, value, description) VALUES
+    ('cash_discrepancy_threshold', '5.00', 'Cash difference at shift close above which a note and admin acknowledgement are needed')
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Opening
+CREATE OR REPLACE FUNCTION open_shift(p_terminal_id uuid, p_starting_cash_float numeric)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_terminal terminals%ROWTYPE;
+    v_shift shifts%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_starting_cash_float IS NULL OR p_starting_cash_float < 0 THEN
+        RAISE EXCEPTION 'The cash float cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    -- Locked so two staff opening the same terminal at once get a clear error
+    SELECT * INTO v_terminal FROM terminals WHERE id = p_terminal_id FOR UPDATE;
+
+    IF v_terminal.id IS NULL THEN
+        RAISE EXCEPTION 'Terminal not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_terminal.is_active THEN
+        RAISE EXCEPTION '% is no longer in use', v_terminal.name USING ERRCODE = '55000';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM shifts WHERE terminal_id = p_terminal_id AND status = 'ACTIVE') THEN
+        RAISE EXCEPTION '% already has an open shift', v_terminal.name USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO shifts (terminal_id, starting_staff_id, starting_cash_float)
+    VALUES (p_terminal_id, auth.uid(), round(p_starting_cash_float, 2))
+    RETURNING * INTO v_shift;
+
+    RETURN v_shift;
+END;
+$$;
+
+-- 3. Cash
+CREATE OR REPLACE FUNCTION get_shift_cash(p_shift_id uuid)
+RETURNS TABLE (
+    starting_cash_float numeric,
+    cash_taken numeric,
+    cash_refunded numeric,
+    expected_cash numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM shifts WHERE id = p_shift_id) THEN
+        RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    SELECT s.starting_cash_float,
+           coalesce(sum(t.amount) FILTER (WHERE t.amount > 0), 0),
+           coalesce(-sum(t.amount) FILTER (WHERE t.amount < 0), 0),
+           s.starting_cash_float + coalesce(sum(t.amount), 0)
+    FROM shifts s
+    LEFT JOIN transactions t
+        ON t.shift_id = s.id
+        AND t.payment_method = 'CASH'
+        AND t.status <> 'OUTSTANDING'
+    WHERE s.id = p_shift_id
+    GROUP BY s.id, s.starting_cash_float;
+END;
+$$;
+
+-- 4. Closing
+CREATE OR REPLACE FUNCTION close_shift(p_shift_id uuid, p_ending_cash_balance numeric, p_notes text DEFAULT NULL)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift shifts%ROWTYPE;
+    v_expected numeric(10,2);
+    v_discrepancy numeric(10,2);
+    v_threshold numeric(10,2);
+    v_notes text := nullif(trim(p_notes), '');
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_ending_cash_balance IS NULL OR p_ending_cash_balance < 0 THEN
+        RAISE EXCEPTION 'The counted cash cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id FOR UPDATE;
+
+    IF v_shift.id IS NULL THEN
+        RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_shift.status <> 'ACTIVE' THEN
+        RAISE EXCEPTION 'This shift is already closed' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT expected_cash INTO v_expected FROM get_shift_cash(p_shift_id);
+    v_discrepancy := round(p_ending_cash_balance, 2) - v_expected;
+
+    SELECT coalesce(
+        (SELECT nullif(value, '')::numeric FROM system_settings WHERE key = 'cash_discrepancy_threshold'),
+        5
+    ) INTO v_threshold;
+
+    IF abs(v_discrepancy) > v_threshold AND v_notes IS NULL THEN
+        RAISE EXCEPTION 'The counted cash differs from the expected % by %; add a note explaining the difference',
+            v_expected, abs(v_discrepancy)
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE shifts
+    SET status = 'CLOSED',
+        end_time = now(),
+        ending_staff_id = auth.uid(),
+        ending_cash_balance = round(p_ending_cash_balance, 2),
+        system_calculated_cash = v_expected,
+        cash_discrepancy = v_discrepancy,
+        requires_acknowledgement = abs(v_discrepancy) > v_threshold,
+        notes = v_notes
+    WHERE id = p_shift_id
+    RETURNING * INTO v_shift;
+
+    RETURN v_shift;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION acknowledge_shift_discrepancy(p_shift_id uuid)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift shifts%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'ADMIN'
+    ) THEN
+        RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE shifts
+    SET acknowledged_by = auth.uid(),
+        acknowledged_at = now()
+    WHERE id = p_shift_id
+    AND requires_acknowledgement
+    AND acknowledged_at IS NULL
+    RETURNING * INTO v_shift;
+
+    IF v_shift.id IS NULL THEN
+        RAISE EXCEPTION 'No discrepancy awaiting acknowledgement on this shift' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_shift;
+END;
+$$;
+
+-- 5. History
+CREATE OR REPLACE FUNCTION get_shifts(
+    p_from timestamptz DEFAULT NULL,
+    p_to timestamptz DEFAULT NULL,
+    p_status text DEFAULT NULL,
+    p_awaiting_acknowledgement boolean DEFAULT false
+)
+RETURNS TABLE (
+    id uuid,
+    terminal_id uuid,
+    terminal_name text,
+    start_time timestamptz,
+    end_time timestamptz,
+    starting_staff_id uuid,
+    starting_staff_name text,
+    ending_staff_id uuid,
+    ending_staff_name text,
+    starting_cash_float numeric,
+    ending_cash_balance numeric,
+    system_calculated_cash numeric,
+    cash_discrepancy numeric,
+    status text,
+    notes text,
+    requires_acknowledgement boolean,
+    acknowledged_by_name text,
+    acknowledged_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT s.id, s.terminal_id, tm.name, s.start_time, s.end_time,
+           s.starting_staff_id, sp.full_name, s.ending_staff_id, ep.full_name,
+           s.starting_cash_float, s.ending_cash_balance, s.system_calculated_cash, s.cash_discrepancy,
+           s.status, s.notes, s.requires_acknowledgement, ap.full_name, s.acknowledged_at
+    FROM shifts s
+    LEFT JOIN terminals tm ON tm.id = s.terminal_id
+    LEFT JOIN profiles sp ON sp.id = s.starting_staff_id
+    LEFT JOIN profiles ep ON ep.id = s.ending_staff_id
+    LEFT JOIN profiles ap ON ap.id = s.acknowledged_by
+    WHERE (p_from IS NULL OR s.start_time >= p_from)
+    AND (p_to IS NULL OR s.start_time < p_to)
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (NOT p_awaiting_acknowledgement OR (s.requires_acknowledgement AND s.acknowledged_at IS NULL))
+    ORDER BY s.start_time DESC;
+END;
+$$;
@@ -0,0 +1,546 @@
+/*
+  # Cash Counts and Shift Handover
+
+  Shifts are closed by counting the drawer note by note and coin by coin
+  rather than typing a total, and every count is kept with its shift. A shift
+  can be handed over: the person closing counts the drawer, the next person
+  counts it again, and once the counts agree their shift starts with it as
+  its float.
+
+  1. Schema
+    - `cash_denominations` - The notes and coins counted per currency; staff
+      read them, admins manage them. US dollar, euro and pound sterling sets
+      are added
+    - `shift_cash_counts` - A count per shift and denomination:
+      - `count_type` - CLOSING for the count at close, OPENING for the count
+        that confirmed a handover
+      - `currency`, `denomination`, `quantity` - Kept as counted, so changes to
+        the denominations do not alter past counts
+      - `cancellation_id` - Set on the CLOSING count of a handover that was
+        cancelled; only counts without it are current
+    - `shift_handover_cancellations` - The close each cancelled handover undid:
+      who counted, the counted and expected cash, the discrepancy and notes,
+      and who cancelled it
+    - `shifts.status` - HANDOVER while a counted shift waits for the next
+      staff member; the terminal cannot be used until it is taken over or the
+      handover is cancelled
+    - `shifts.previous_shift_id` - The shift a handed over shift continues
+    - Settings
+      - `cash_currency` - Currency whose denominations are counted
+
+  2. Functions
+    - `close_shift(shift_id, counts, notes, handover)` replaces the version
+      taking a total; `counts` is `[{denomination, quantity}]`. With `handover`
+      the shift moves to HANDOVER instead of CLOSED
+    - `accept_handover(shift_id, counts)` - Staff only; someone other than the
+      person who closed it counts the drawer. When the totals agree the shift
+      is CLOSED and a new ACTIVE shift is opened for them with the count as
+      its `starting_cash_float` and OPENING count
+    - `cancel_handover(shift_id)` - The staff member handing over or an admin;
+      reopens the shift so it can be counted again or closed normally. The
+      close is recorded as a cancellation and its count is kept against it
+    - `open_shift` refuses terminals with a shift waiting to be handed over
+    - `get_shifts` takes a list of statuses and returns `previous_shift_id`
+*/
+
+-- 1. Schema
+CREATE TABLE IF NOT EXISTS cash_denominations (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    denomination numeric(10,2) NOT NULL CHECK (denomination > 0),
+    kind text NOT NULL CHECK (kind IN ('NOTE', 'COIN')),
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (currency, denomination)
+);
+
+ALTER TABLE cash_denominations ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS shift_cash_counts (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shift_id uuid NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+    count_type text NOT NULL CHECK (count_type IN ('OPENING', 'CLOSING')),
+    currency text NOT NULL,
+    denomination numeric(10,2) NOT NULL CHECK (denomination > 0),
+    quantity integer NOT NULL CHECK (quantity > 0),
+    counted_by uuid NOT NULL REFERENCES profiles(id),
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE shift_cash_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS shift_handover_cancellations (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shift_id uuid NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+    ending_staff_id uuid REFERENCES profiles(id),
+    end_time timestamptz,
+    ending_cash_balance numeric(10,2),
+    system_calculated_cash numeric(10,2),
+    cash_discrepancy numeric(10,2),
+    notes text,
+    cancelled_by uuid NOT NULL REFERENCES profiles(id),
+    cancelled_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE shift_handover_cancellations ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE shift_cash_counts
+    ADD COLUMN IF NOT EXISTS cancellation_id uuid REFERENCES shift_handover_cancellations(id);
+
+ALTER TABLE shifts DROP CONSTRAINT IF EXISTS shifts_status_check;
+ALTER TABLE shifts ADD CONSTRAINT shifts_status_check
+    CHECK (status IN ('ACTIVE', 'HANDOVER', 'CLOSED'));
+
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS previous_shift_id uuid REFERENCES shifts(id);
+
+-- A terminal waiting for a handover is still in use
+DROP INDEX IF EXISTS idx_shifts_active_terminal;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_shifts_open_terminal') THEN
+        CREATE UNIQUE INDEX idx_shifts_open_terminal ON shifts(terminal_id) WHERE status <> 'CLOSED';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_shift_cash_counts_shift_id') THEN
+        CREATE INDEX idx_shift_cash_counts_shift_id ON shift_cash_counts(shift_id);
+    END IF;
+    -- Cancelled handover counts stay alongside the count that replaced them
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_shift_cash_counts_current') THEN
+        CREATE UNIQUE INDEX idx_shift_cash_counts_current
+            ON shift_cash_counts(shift_id, count_type, denomination)
+            WHERE cancellation_id IS NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_shift_handover_cancellations_shift_id') THEN
+        CREATE INDEX idx_shift_handover_cancellations_shift_id ON shift_handover_cancellations(shift_id);
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Staff can read cash denominations" ON cash_denominations;
+    CREATE POLICY "Staff can read cash denominations"
+        ON cash_denominations
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Admins can manage cash denominations" ON cash_denominations;
+    CREATE POLICY "Admins can manage cash denominations"
+        ON cash_denominations
+        FOR ALL
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        )
+        WITH CHECK (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role = 'ADMIN'
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read shift cash counts" ON shift_cash_counts;
+    CREATE POLICY "Staff can read shift cash counts"
+        ON shift_cash_counts
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+
+    DROP POLICY IF EXISTS "Staff can read handover cancellations" ON shift_handover_cancellations;
+    CREATE POLICY "Staff can read handover cancellations"
+        ON shift_handover_cancellations
+        FOR SELECT
+        TO authenticated
+        USING (
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.role IN ('ADMIN', 'CS')
+            )
+        );
+END $$;
+
+INSERT INTO cash_denominations (currency, denomination, kind) VALUES
+    ('USD', 100, 'NOTE'), ('USD', 50, 'NOTE'), ('USD', 20, 'NOTE'), ('USD', 10, 'NOTE'),
+    ('USD', 5, 'NOTE'), ('USD', 2, 'NOTE'), ('USD', 1, 'NOTE'),
+    ('USD', 0.50, 'COIN'), ('USD', 0.25, 'COIN'), ('USD', 0.10, 'COIN'), ('USD', 0.05, 'COIN'), ('USD', 0.01, 'COIN'),
+    ('EUR', 500, 'NOTE'), ('EUR', 200, 'NOTE'), ('EUR', 100, 'NOTE'), ('EUR', 50, 'NOTE'),
+    ('EUR', 20, 'NOTE'), ('EUR', 10, 'NOTE'), ('EUR', 5, 'NOTE'),
+    ('EUR', 2, 'COIN'), ('EUR', 1, 'COIN'), ('EUR', 0.50, 'COIN'), ('EUR', 0.20, 'COIN'),
+    ('EUR', 0.10, 'COIN'), ('EUR', 0.05, 'COIN'), ('EUR', 0.02, 'COIN'), ('EUR', 0.01, 'COIN'),
+    ('GBP', 50, 'NOTE'), ('GBP', 20, 'NOTE'), ('GBP', 10, 'NOTE'), ('GBP', 5, 'NOTE'),
+    ('GBP', 2, 'COIN'), ('GBP', 1, 'COIN'), ('GBP', 0.50, 'COIN'), ('GBP', 0.20, 'COIN'),
+    ('GBP', 0.10, 'COIN'), ('GBP', 0.05, 'COIN'), ('GBP', 0.02, 'COIN'), ('GBP', 0.01, 'COIN')
+ON CONFLICT (currency, denomination) DO NOTHING;
+
+INSERT INTO system_settings (key, value, description) VALUES
+    ('cash_currency', 'USD', 'Currency whose notes and coins are counted at shift close')
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Counting
+-- Records a count against the shift and returns its total; every denomination must be in use for the cash currency
+CREATE OR REPLACE FUNCTION record_cash_count(p_shift_id uuid, p_count_type text, p_counts jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_currency text;
+    v_count record;
+    v_total numeric(10,2) := 0;
+BEGIN
+    SELECT coalesce((SELECT value FROM system_settings WHERE key = 'cash_currency'), 'USD') INTO v_currency;
+
+    IF p_counts IS NULL OR jsonb_typeof(p_counts) <> 'array' THEN
+        RAISE EXCEPTION 'Count the cash by denomination' USING ERRCODE = '22023';
+    END IF;
+
+    FOR v_count IN
+        SELECT (c->>'denomination')::numeric AS denomination, sum((c->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(p_counts) c
+        GROUP BY 1
+    LOOP
+        IF v_count.quantity IS NULL OR v_count.quantity < 0 THEN
+            RAISE EXCEPTION 'Counts cannot be negative' USING ERRCODE = '22023';
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM cash_denominations
+            WHERE currency = v_currency
+            AND denomination = v_count.denomination
+            AND is_active
+        ) THEN
+            RAISE EXCEPTION '% % is not a denomination in use', v_count.denomination, v_currency USING ERRCODE = '22023';
+        END IF;
+
+        IF v_count.quantity > 0 THEN
+            INSERT INTO shift_cash_counts (shift_id, count_type, currency, denomination, quantity, counted_by)
+            VALUES (p_shift_id, p_count_type, v_currency, v_count.denomination, v_count.quantity, auth.uid());
+
+            v_total := v_total + v_count.denomination * v_count.quantity;
+        END IF;
+    END LOOP;
+
+    RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_cash_count(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- 3. Opening
+CREATE OR REPLACE FUNCTION open_shift(p_terminal_id uuid, p_starting_cash_float numeric)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_terminal terminals%ROWTYPE;
+    v_open_status text;
+    v_shift shifts%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_starting_cash_float IS NULL OR p_starting_cash_float < 0 THEN
+        RAISE EXCEPTION 'The cash float cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    -- Locked so two staff opening the same terminal at once get a clear error
+    SELECT * INTO v_terminal FROM terminals WHERE id = p_terminal_id FOR UPDATE;
+
+    IF v_terminal.id IS NULL THEN
+        RAISE EXCEPTION 'Terminal not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_terminal.is_active THEN
+        RAISE EXCEPTION '% is no longer in use', v_terminal.name USING ERRCODE = '55000';
+    END IF;
+
+    SELECT status INTO v_open_status FROM shifts WHERE terminal_id = p_terminal_id AND status <> 'CLOSED';
+
+    IF v_open_status = 'HANDOVER' THEN
+        RAISE EXCEPTION '% has a shift waiting to be handed over; count the drawer to take it over', v_terminal.name
+            USING ERRCODE = '55000';
+    ELSIF v_open_status IS NOT NULL THEN
+        RAISE EXCEPTION '% already has an open shift', v_terminal.name USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO shifts (terminal_id, starting_staff_id, starting_cash_float)
+    VALUES (p_terminal_id, auth.uid(), round(p_starting_cash_float, 2))
+    RETURNING * INTO v_shift;
+
+    RETURN v_shift;
+END;
+$$;
+
+-- 4. Closing
+DROP FUNCTION IF EXISTS close_shift(uuid, numeric, text);
+
+CREATE OR REPLACE FUNCTION close_shift(
+    p_shift_id uuid,
+    p_counts jsonb,
+    p_notes text DEFAULT NULL,
+    p_handover boolean DEFAULT false
+)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_shift shifts%ROWTYPE;
+    v_counted numeric(10,2);
+    v_expected numeric(10,2);
+    v_discrepancy numeric(10,2);
+    v_threshold numeric(10,2);
+    v_notes text := nullif(trim(p_notes), '');
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id FOR UPDATE;
+
+    IF v_shift.id IS NULL THEN
+        RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_shift.status <> 'ACTIVE' THEN
+        RAISE EXCEPTION 'This shift is already closed' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_handover AND v_shift.terminal_id IS NULL THEN
+        RAISE EXCEPTION 'Only a shift on a terminal can be handed over' USING ERRCODE = '55000';
+    END IF;
+
+    v_counted := record_cash_count(p_shift_id, 'CLOSING', p_counts);
+
+    SELECT expected_cash INTO v_expected FROM get_shift_cash(p_shift_id);
+    v_discrepancy := v_counted - v_expected;
+
+    SELECT coalesce(
+        (SELECT nullif(value, '')::numeric FROM system_settings WHERE key = 'cash_discrepancy_threshold'),
+        5
+    ) INTO v_threshold;
+
+    IF abs(v_discrepancy) > v_threshold AND v_notes IS NULL THEN
+        RAISE EXCEPTION 'The counted cash differs from the expected % by %; add a note explaining the difference',
+            v_expected, abs(v_discrepancy)
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE shifts
+    SET status = CASE WHEN p_handover THEN 'HANDOVER' ELSE 'CLOSED' END,
+        end_time = now(),
+        ending_staff_id = auth.uid(),
+        ending_cash_balance = v_counted,
+        system_calculated_cash = v_expected,
+        cash_discrepancy = v_discrepancy,
+        requires_acknowledgement = abs(v_discrepancy) > v_threshold,
+        notes = v_notes
+    WHERE id = p_shift_id
+    RETURNING * INTO v_shift;
+
+    RETURN v_shift;
+END;
+$$;
+
+-- 5. Handover
+-- The incoming count is not compared until it is submitted, so each person counts without seeing the other's total
+CREATE OR REPLACE FUNCTION accept_handover(p_shift_id uuid, p_counts jsonb)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_previous shifts%ROWTYPE;
+    v_shift shifts%ROWTYPE;
+    v_counted numeric(10,2);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_previous FROM shifts WHERE id = p_shift_id FOR UPDATE;
+
+    IF v_previous.id IS NULL OR v_previous.status <> 'HANDOVER' THEN
+        RAISE EXCEPTION 'No shift waiting to be handed over' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_previous.ending_staff_id = auth.uid() THEN
+        RAISE EXCEPTION 'The next staff member must count the drawer to take over' USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE shifts SET status = 'CLOSED' WHERE id = p_shift_id;
+
+    INSERT INTO shifts (terminal_id, starting_staff_id, starting_cash_float, previous_shift_id)
+    VALUES (v_previous.terminal_id, auth.uid(), v_previous.ending_cash_balance, p_shift_id)
+    RETURNING * INTO v_shift;
+
+    v_counted := record_cash_count(v_shift.id, 'OPENING', p_counts);
+
+    IF v_counted <> v_previous.ending_cash_balance THEN
+        RAISE EXCEPTION 'Your count does not match the cash handed over. Count again, or ask % to cancel the handover',
+            coalesce((SELECT full_name FROM profiles WHERE id = v_previous.ending_staff_id), 'the previous staff member')
+            USING ERRCODE = '22023';
+    END IF;
+
+    RETURN v_shift;
+END;
+$$;
+
+-- Undoes the close so the shift can be counted again; the close and its count are kept as a cancellation
+CREATE OR REPLACE FUNCTION cancel_handover(p_shift_id uuid)
+RETURNS shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role text;
+    v_shift shifts%ROWTYPE;
+    v_cancellation_id uuid;
+BEGIN
+    SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+    IF v_role IS NULL OR v_role NOT IN ('ADMIN', 'CS') THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id AND status = 'HANDOVER' FOR UPDATE;
+
+    IF v_shift.id IS NULL THEN
+        RAISE EXCEPTION 'No shift waiting to be handed over' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- The incoming staff member cannot undo a count they disagree with
+    IF v_role <> 'ADMIN' AND v_shift.ending_staff_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the staff member handing over or an admin can cancel the handover'
+            USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO shift_handover_cancellations (
+        shift_id, ending_staff_id, end_time, ending_cash_balance, system_calculated_cash,
+        cash_discrepancy, notes, cancelled_by
+    ) VALUES (
+        v_shift.id, v_shift.ending_staff_id, v_shift.end_time, v_shift.ending_cash_balance,
+        v_shift.system_calculated_cash, v_shift.cash_discrepancy, v_shift.notes, auth.uid()
+    )
+    RETURNING id INTO v_cancellation_id;
+
+    UPDATE shift_cash_counts
+    SET cancellation_id = v_cancellation_id
+    WHERE shift_id = p_shift_id
+    AND count_type = 'CLOSING'
+    AND cancellation_id IS NULL;
+
+    UPDATE shifts
+    SET status = 'ACTIVE',
+        end_time = NULL,
+        ending_staff_id = NULL,
+        ending_cash_balance = NULL,
+        system_calculated_cash = NULL,
+        cash_discrepancy = NULL,
+        requires_acknowledgement = false,
+        notes = NULL
+    WHERE id = p_shift_id
+    RETURNING * INTO v_shift;
+
+    RETURN v_shift;
+END;
+$$;
+
+-- 6. History
+DROP FUNCTION IF EXISTS get_shifts(timestamptz, timestamptz, text, boolean);
+
+CREATE OR REPLACE FUNCTION get_shifts(
+    p_from timestamptz DEFAULT NULL,
+    p_to timestamptz DEFAULT NULL,
+    p_statuses text[] DEFAULT NULL,
+    p_awaiting_acknowledgement boolean DEFAULT false
+)
+RETURNS TABLE (
+    id uuid,
+    terminal_id uuid,
+    terminal_name text,
+    previous_shift_id uuid,
+    start_time timestamptz,
+    end_time timestamptz,
+    starting_staff_id uuid,
+    starting_staff_name text,
+    ending_staff_id uuid,
+    ending_staff_name text,
+    starting_cash_float numeric,
+    ending_cash_balance numeric,
+    system_calculated_cash numeric,
+    cash_discrepancy numeric,
+    status text,
+    notes text,
+    requires_acknowledgement boolean,
+    acknowledged_by_name text,
+    acknowledged_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('ADMIN', 'CS')
+    ) THEN
+        RAISE EXCEPTION 'Staff access required' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT s.id, s.terminal_id, tm.name, s.previous_shift_id, s.start_time, s.end_time,
+           s.starting_staff_id, sp.full_name, s.ending_staff_id, ep.full_name,
+           s.starting_cash_float, s.ending_cash_balance, s.system_calculated_cash, s.cash_discrepancy,
+           s.status, s.notes, s.requires_acknowledgement, ap.full_name, s.acknowledged_at
+    FROM shifts s
+    LEFT JOIN terminals tm ON tm.id = s.terminal_id
+    LEFT JOIN profiles sp ON sp.id = s.starting_staff_id
+    LEFT JOIN profiles ep ON ep.id = s.ending_staff_id
+    LEFT JOIN profiles ap ON ap.id = s.acknowledged_by
+    WHERE (p_from IS NULL OR s.start_time >= p_from)
+    AND (p_to IS NULL OR s.start_time < p_to)
+    AND (p_statuses IS NULL OR s.status = ANY (p_statuses))
+    AND (NOT p_awaiting_acknowledgement OR (s.requires_acknowledgement AND s.acknowledged_at IS NULL))
+    ORDER BY s.start_time DESC;
+END;
+$$;